@@ -1,34 +1,55 @@
 'use server';
 
 import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
 import connectDB from '@/lib/mongodb';
 import Listing from '@/lib/models/Listing';
 import User from '@/lib/models/User';
 import AdminLog from '@/lib/models/AdminLog';
-import { extractMultipleCarData, extractSingleCarData, detectPageType, ScrapedCarData } from '@/lib/scraper';
-import { extractWithPuppeteer } from '@/lib/scraper-enhanced';
+import DuplicateFlag from '@/lib/models/DuplicateFlag';
+import Favourite from '@/lib/models/Favourite';
+import { getSiteAdapter } from '@/lib/scrapers';
+import { scrapeUrl } from '@/lib/scrape-jobs';
+import { classifyDuplicate, DuplicateCandidate, scoreDuplicate } from '@/lib/duplicate-detection';
+import { checkForDuplicates, DuplicateCheck } from '@/lib/duplicates';
+import { hashListingImages, loadImage } from '@/lib/image-hash';
+import { deleteUnreferencedImages } from '@/lib/image-gc';
+import { fetchScrapedImages, FetchedImage, storeScrapedImage } from '@/lib/scraped-images';
+import { InvalidStatusTransitionError, isListingStatus } from '@/lib/listing-status';
+import { transitionListing, initialStatusHistory } from '@/lib/listing-workflow';
+import { initialPriceHistory } from '@/lib/price-history';
+import { getRejectionReason } from '@/lib/rejection-reasons';
+import {
+  listingRejectionSchema,
+  sanitizeObject,
+  sanitizeString,
+  scrapedImportRowSchema,
+  ScrapedImportRow,
+} from '@/lib/validation';
+import { getAssignableRoles, hasPermission, requireRole } from '@/lib/roles';
 
 export interface ActionResult {
   success: boolean;
   error?: string;
+  code?: string;
   message?: string;
   data?: any;
 }
 
 /**
  * Approve a listing
- * Only admin can approve listings
+ * Only staff with the listings:moderate permission can approve listings
  */
 export async function approveListing(listingId: string): Promise<ActionResult> {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
 
-    // Check if user is admin
-    const adminEmail = process.env.ADMIN_EMAIL;
-    if (!session || session.user.email !== adminEmail) {
+    // Check if user can moderate listings
+    const access = requireRole(session?.user, 'listings:moderate');
+    if (!access.allowed) {
       return {
         success: false,
-        error: 'Unauthorized',
+        error: access.error,
       };
     }
 
@@ -44,7 +65,10 @@ export async function approveListing(listingId: string): Promise<ActionResult> {
     }
 
     // Update status to approved
-    await Listing.findByIdAndUpdate(listingId, { status: 'approved' });
+    await transitionListing(listing, 'approved', {
+      actor: access.email,
+      actorRole: access.role,
+    });
 
     // Log admin action
     await AdminLog.create({
@@ -54,7 +78,7 @@ export async function approveListing(listingId: string): Promise<ActionResult> {
       details: {
         listingBrand: listing.brand,
         listingModel: listing.carModel,
-        adminEmail: session.user.email,
+        adminEmail: access.email,
       },
     });
 
@@ -63,6 +87,13 @@ export async function approveListing(listingId: string): Promise<ActionResult> {
       message: 'Listing approved successfully',
     };
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return {
+        success: false,
+        error: error.message,
+        code: error.code,
+      };
+    }
     console.error('Error approving listing:', error);
     return {
       success: false,
@@ -72,19 +103,23 @@ export async function approveListing(listingId: string): Promise<ActionResult> {
 }
 
 /**
- * Reject a listing
- * Only admin can reject listings
+ * Reject a listing with reasons from the rejection catalog and an optional note
+ * Only staff with the listings:moderate permission can reject listings
  */
-export async function rejectListing(listingId: string): Promise<ActionResult> {
+export async function rejectListing(
+  listingId: string,
+  reasons: string[] = [],
+  note?: string
+): Promise<ActionResult> {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
 
-    // Check if user is admin
-    const adminEmail = process.env.ADMIN_EMAIL;
-    if (!session || session.user.email !== adminEmail) {
+    // Check if user can moderate listings
+    const access = requireRole(session?.user, 'listings:moderate');
+    if (!access.allowed) {
       return {
         success: false,
-        error: 'Unauthorized',
+        error: access.error,
       };
     }
 
@@ -99,8 +134,43 @@ export async function rejectListing(listingId: string): Promise<ActionResult> {
       };
     }
 
+    // Validate rejection reasons
+    const validationResult = listingRejectionSchema.safeParse({
+      reasons,
+      note: note ? sanitizeString(note) : undefined,
+    });
+
+    if (!validationResult.success) {
+      return {
+        success: false,
+        error: validationResult.error.errors[0].message,
+      };
+    }
+
+    const rejection = {
+      reasons: validationResult.data.reasons,
+      note: validationResult.data.note?.trim() || undefined,
+      rejectedAt: new Date(),
+      rejectedBy: access.email,
+    };
+
+    // Summarize the reasons for the status history entry
+    const reasonSummary = [
+      ...rejection.reasons.map((code) => getRejectionReason(code)?.label || code),
+      ...(rejection.note ? [rejection.note] : []),
+    ].join('; ');
+
     // Update status to rejected
-    await Listing.findByIdAndUpdate(listingId, { status: 'rejected' });
+    await transitionListing(
+      listing,
+      'rejected',
+      {
+        actor: access.email,
+        actorRole: access.role,
+        reason: reasonSummary,
+      },
+      { $set: { rejection } }
+    );
 
     // Log admin action
     await AdminLog.create({
@@ -110,7 +180,9 @@ export async function rejectListing(listingId: string): Promise<ActionResult> {
       details: {
         listingBrand: listing.brand,
         listingModel: listing.carModel,
-        adminEmail: session.user.email,
+        reasons: rejection.reasons,
+        note: rejection.note,
+        adminEmail: access.email,
       },
     });
 
@@ -119,6 +191,13 @@ export async function rejectListing(listingId: string): Promise<ActionResult> {
       message: 'Listing rejected successfully',
     };
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return {
+        success: false,
+        error: error.message,
+        code: error.code,
+      };
+    }
     console.error('Error rejecting listing:', error);
     return {
       success: false,
@@ -129,18 +208,18 @@ export async function rejectListing(listingId: string): Promise<ActionResult> {
 
 /**
  * Ban a user
- * Only admin can ban users
+ * Only staff with the users:ban permission can ban users
  */
 export async function banUser(userId: string): Promise<ActionResult> {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
 
-    // Check if user is admin
-    const adminEmail = process.env.ADMIN_EMAIL;
-    if (!session || session.user.email !== adminEmail) {
+    // Check if user can ban users
+    const access = requireRole(session?.user, 'users:ban');
+    if (!access.allowed) {
       return {
         success: false,
-        error: 'Unauthorized',
+        error: access.error,
       };
     }
 
@@ -156,13 +235,21 @@ export async function banUser(userId: string): Promise<ActionResult> {
     }
 
     // Prevent admin from banning themselves
-    if (user.email === adminEmail) {
+    if (user.email === access.email) {
       return {
         success: false,
         error: 'You cannot ban yourself',
       };
     }
 
+    // Staff accounts can only be banned by someone who manages roles
+    if (user.role !== 'user' && !hasPermission(access.role, 'roles:manage')) {
+      return {
+        success: false,
+        error: 'Only a superadmin can ban staff accounts',
+      };
+    }
+
     // Toggle banned status
     const newBannedStatus = !user.banned;
     await User.findByIdAndUpdate(userId, { banned: newBannedStatus });
@@ -175,7 +262,7 @@ export async function banUser(userId: string): Promise<ActionResult> {
       details: {
         userEmail: user.email,
         userName: user.fullName,
-        adminEmail: session.user.email,
+        adminEmail: access.email,
       },
     });
 
@@ -195,176 +282,112 @@ export async function banUser(userId: string): Promise<ActionResult> {
   }
 }
 
-
 /**
- * Scrape car listings from an external URL
- * Supports both single car pages and listing pages with multiple cars
- * Only admin can scrape listings
+ * Grant a role to a user
+ * Only staff with the roles:manage permission (superadmins) can change roles
  */
-export async function scrapeListing(url: string): Promise<ActionResult> {
+export async function updateUserRole(userId: string, role: string): Promise<ActionResult> {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
 
-    // Check if user is admin
-    const adminEmail = process.env.ADMIN_EMAIL;
-    if (!session || session.user.email !== adminEmail) {
+    // Check if user can manage roles
+    const access = requireRole(session?.user, 'roles:manage');
+    if (!access.allowed) {
       return {
         success: false,
-        error: 'Unauthorized',
+        error: access.error,
       };
     }
 
-    // Validate URL
-    if (!url || typeof url !== 'string') {
+    // Validate role
+    const assignable = getAssignableRoles(access.role);
+    if (!assignable.some((r) => r === role)) {
       return {
         success: false,
-        error: 'Invalid URL provided',
+        error: 'Invalid role',
       };
     }
 
-    // Check if demo mode is requested
-    if (url.toLowerCase().includes('demo') || url.toLowerCase().includes('test')) {
-      // Demo mode uses extractMultipleCarData which has built-in demo support
-      const multipleResult = await extractMultipleCarData(url);
-      if (multipleResult.success && multipleResult.data && multipleResult.data.length > 0) {
-        return {
-          success: true,
-          data: multipleResult.data,
-          message: `Successfully scraped ${multipleResult.count} car listings`,
-        };
-      }
-    }
-
-    // Fetch HTML to detect page type
-    let html: string;
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000);
-      
-      const response = await fetch(url, {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-        },
-      });
-      
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        return {
-          success: false,
-          error: `Failed to fetch URL: ${response.status} ${response.statusText}`,
-        };
-      }
+    await connectDB();
 
-      html = await response.text();
-    } catch (fetchError) {
-      console.error('Error fetching URL:', fetchError);
+    // Check if user exists
+    const user = await User.findById(userId);
+    if (!user) {
       return {
         success: false,
-        error: fetchError instanceof Error && fetchError.name === 'AbortError'
-          ? 'Request timed out after 15 seconds'
-          : 'Failed to fetch the URL',
+        error: 'User not found',
       };
     }
 
-    // Parse HTML with cheerio for page type detection
-    const cheerio = await import('cheerio');
-    const $ = cheerio.load(html);
-
-    // Detect page type
-    const pageType = detectPageType(url, $);
-
-    console.log(`Detected page type: ${pageType}`);
-
-    // Route to appropriate extractor based on page type
-    if (pageType === 'DETAIL_PAGE') {
-      // Use enhanced Puppeteer scraper for detail pages to get ALL data
-      console.log('Using enhanced Puppeteer scraper for comprehensive data extraction...');
-      
-      const enhancedResult = await extractWithPuppeteer(url);
+    // Prevent superadmins from locking themselves out
+    if (user.email === access.email) {
+      return {
+        success: false,
+        error: 'You cannot change your own role',
+      };
+    }
 
-      if (!enhancedResult.success || !enhancedResult.data) {
-        // Fallback to regular scraper if Puppeteer fails
-        console.log('Puppeteer failed, falling back to regular scraper...');
-        const singleResult = await extractSingleCarData(url);
+    const oldRole = user.role || 'user';
+    await User.findByIdAndUpdate(userId, { role });
 
-        if (!singleResult.success || !singleResult.data) {
-          return {
-            success: false,
-            error: singleResult.error || 'Failed to scrape listing data',
-          };
-        }
+    // Log admin action
+    await AdminLog.create({
+      action: 'update_user_role',
+      targetId: userId,
+      targetType: 'user',
+      details: {
+        userEmail: user.email,
+        userName: user.fullName,
+        oldRole,
+        newRole: role,
+        adminEmail: access.email,
+      },
+    });
 
-        return {
-          success: true,
-          data: [singleResult.data], // Wrap in array for consistency
-          message: 'Listing scraped successfully (basic data only)',
-        };
-      }
+    return {
+      success: true,
+      message: 'User role updated successfully',
+      data: {
+        role,
+      },
+    };
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    return {
+      success: false,
+      error: 'An error occurred while updating user role',
+    };
+  }
+}
 
-      return {
-        success: true,
-        data: [enhancedResult.data], // Wrap in array for consistency
-        message: 'Listing scraped successfully with comprehensive data',
-      };
-    } else if (pageType === 'LISTING_PAGE') {
-      // Use multiple car extraction for listing pages
-      const multipleResult = await extractMultipleCarData(url);
 
-      if (multipleResult.success && multipleResult.data && multipleResult.data.length > 0) {
-        return {
-          success: true,
-          data: multipleResult.data,
-          message: `Successfully scraped ${multipleResult.count} car listings`,
-        };
-      }
+/**
+ * Scrape car listings from an external URL
+ * Supports both single car pages and listing pages with multiple cars
+ * Only staff with the scraper:run permission can scrape listings
+ */
+export async function scrapeListing(url: string): Promise<ActionResult> {
+  try {
+    const session = await getServerSession(authOptions);
 
+    // Check if user can run the scraper
+    const access = requireRole(session?.user, 'scraper:run');
+    if (!access.allowed) {
       return {
         success: false,
-        error: multipleResult.error || 'Failed to scrape listing data',
+        error: access.error,
       };
-    } else {
-      // Unknown page type - try enhanced scraper first
-      console.log('Unknown page type, trying enhanced Puppeteer scraper first');
-
-      // Try enhanced scraper first
-      const enhancedResult = await extractWithPuppeteer(url);
-      if (enhancedResult.success && enhancedResult.data) {
-        return {
-          success: true,
-          data: [enhancedResult.data],
-          message: 'Listing scraped successfully with comprehensive data',
-        };
-      }
-
-      // Try single car extraction
-      const singleResult = await extractSingleCarData(url);
-      if (singleResult.success && singleResult.data) {
-        return {
-          success: true,
-          data: [singleResult.data], // Wrap in array for consistency
-          message: 'Listing scraped successfully (basic data only)',
-        };
-      }
-
-      // Fallback to multiple car extraction
-      const multipleResult = await extractMultipleCarData(url);
-      if (multipleResult.success && multipleResult.data && multipleResult.data.length > 0) {
-        return {
-          success: true,
-          data: multipleResult.data,
-          message: `Successfully scraped ${multipleResult.count} car listings`,
-        };
-      }
+    }
 
-      // All failed
+    // Validate URL
+    if (!url || typeof url !== 'string') {
       return {
         success: false,
-        error: enhancedResult.error || singleResult.error || multipleResult.error || 'Failed to scrape listing data. The page structure may not be supported.',
+        error: 'Invalid URL provided',
       };
     }
+
+    return await scrapeUrl(url);
   } catch (error) {
     console.error('Error scraping listing:', error);
     return {
@@ -375,37 +398,111 @@ export async function scrapeListing(url: string): Promise<ActionResult> {
 }
 
 /**
- * Import scraped listings into the database
- * Only admin can import scraped listings
+ * Import rows reviewed in the scraper preview
+ * Every row is validated and checked for duplicates before anything is written,
+ * then all listings are created in one transaction so an import never half-succeeds.
+ * Only staff with the scraper:run permission can import scraped listings
  */
-export async function importScrapedListings(
-  scrapedData: ScrapedCarData[]
-): Promise<ActionResult> {
+export async function importScrapedListings(rows: unknown[]): Promise<ActionResult> {
   try {
-    const session = await getServerSession();
-
-    
-    console.log('Import session:', session);
-    console.log('Scraped data count:', scrapedData.length);
-    
-    // Check if user is admin
-    const adminEmail = process.env.ADMIN_EMAIL;
-    if (!session || session.user.email !== adminEmail) {
+    const session = await getServerSession(authOptions);
+
+    // Check if user can run the scraper
+    const access = requireRole(session?.user, 'scraper:run');
+    if (!access.allowed) {
       console.error('Unauthorized import attempt:', session?.user?.email);
       return {
         success: false,
-        error: 'Unauthorized - Admin access required',
+        error: access.error,
       };
     }
 
-    if (!Array.isArray(scrapedData) || scrapedData.length === 0) {
+    // Scraped listings are owned by the marketplace account, falling back to the importing staff member
+    const adminEmail = process.env.ADMIN_EMAIL || access.email;
+
+    if (!Array.isArray(rows) || rows.length === 0) {
       return {
         success: false,
         error: 'No data provided for import',
       };
     }
 
-    await connectDB();
+    // Errors keyed by row index, so the preview can point at the rows to fix
+    const rowErrors: Record<number, string> = {};
+    const validRows: { index: number; row: ScrapedImportRow }[] = [];
+
+    rows.forEach((input, index) => {
+      const validationResult = scrapedImportRowSchema.safeParse(
+        input && typeof input === 'object' ? sanitizeObject(input as Record<string, any>) : input
+      );
+      if (!validationResult.success) {
+        const issue = validationResult.error.errors[0];
+        rowErrors[index] = issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+        return;
+      }
+      validRows.push({ index, row: validationResult.data });
+    });
+
+    const db = await connectDB();
+
+    // Cars already listed, or repeated within this import, are rejected; near misses are flagged.
+    // Images are only downloaded here and stored once every row has passed.
+    const checkedRows: {
+      index: number;
+      row: ScrapedImportRow;
+      fetched: FetchedImage[];
+      sourceSite?: string;
+      candidate: DuplicateCandidate;
+      duplicate: DuplicateCheck;
+    }[] = [];
+    for (const { index, row } of validRows) {
+      const sourceSite = row.sourceUrl ? getSiteAdapter(row.sourceUrl).name : undefined;
+      const fetched = await fetchScrapedImages(row.images);
+      if (fetched.images.length === 0) {
+        rowErrors[index] = `No images could be copied (${fetched.errors[0]})`;
+        continue;
+      }
+      const buffers = new Map(fetched.images.map((image) => [image.sourceUrl, image.buffer]));
+
+      const candidate: DuplicateCandidate = {
+        brand: row.brand,
+        carModel: row.model,
+        variant: row.variant,
+        yearOfOwnership: row.yearOfOwnership,
+        kmDriven: row.kmDriven,
+        price: row.price,
+        city: row.city,
+        imageHashes: await hashListingImages(
+          fetched.images.map((image) => image.sourceUrl),
+          async (url) => buffers.get(url) ?? loadImage(url)
+        ),
+      };
+
+      const duplicate = await checkForDuplicates(candidate);
+      if (duplicate.verdict === 'block' && duplicate.match) {
+        rowErrors[index] = `Duplicate of listing ${duplicate.match.listing._id} (${Math.round(duplicate.match.score * 100)}% match)`;
+        continue;
+      }
+
+      const repeated = checkedRows.find(
+        (earlier) => classifyDuplicate(scoreDuplicate(candidate, earlier.candidate)) === 'block'
+      );
+      if (repeated) {
+        rowErrors[index] = `Duplicate of row ${repeated.index + 1}`;
+        continue;
+      }
+
+      checkedRows.push({ index, row, fetched: fetched.images, sourceSite, candidate, duplicate });
+    }
+
+    const failedCount = Object.keys(rowErrors).length;
+    if (failedCount > 0) {
+      return {
+        success: false,
+        error: `${failedCount} row(s) need attention. Fix or deselect them and import again.`,
+        data: { rowErrors },
+      };
+    }
 
     // Create a default admin user as seller if not exists
     let adminUser = await User.findOne({ email: adminEmail });
@@ -430,134 +527,111 @@ export async function importScrapedListings(
           error: `Failed to create admin user: ${userError instanceof Error ? userError.message : 'Unknown error'}`,
         };
       }
-    } else {
-      console.log('Using existing admin user:', adminUser._id);
     }
 
-    // Import each scraped listing
-    const importedListings = [];
-    const errors = [];
-
-    for (const data of scrapedData) {
-      try {
-        console.log('Processing scraped data:', {
-          carName: data.carName,
-          model: data.model,
-          price: data.price,
-          imageCount: data.images?.length || 0
-        });
-
-        // Validate required fields
-        if (!data.carName || !data.model) {
-          const error = `Skipped: Missing car name or model`;
-          console.error(error);
-          errors.push(error);
-          continue;
-        }
-
-        if (!data.price || data.price <= 0) {
-          const error = `Skipped ${data.carName}: Invalid price (${data.price})`;
-          console.error(error);
-          errors.push(error);
-          continue;
-        }
-
-        if (!data.images || data.images.length === 0) {
-          const error = `Skipped ${data.carName}: No images`;
-          console.error(error);
-          errors.push(error);
-          continue;
-        }
+    // Store our own copies so listings survive the source CDN rotating or blocking hotlinks
+    const storedImages: string[][] = [];
+    for (const { row, fetched, sourceSite } of checkedRows) {
+      const images: string[] = [];
+      for (const image of fetched) {
+        images.push((await storeScrapedImage(image, { sourcePage: row.sourceUrl, sourceSite })).url);
+      }
+      storedImages.push(images);
+    }
 
-        // Map fuel type from scraped data
-        let fuelType: 'petrol' | 'diesel' | 'cng' | 'electric' = 'petrol';
-        if (data.fuelType) {
-          const fuelLower = data.fuelType.toLowerCase();
-          if (fuelLower.includes('diesel')) fuelType = 'diesel';
-          else if (fuelLower.includes('cng')) fuelType = 'cng';
-          else if (fuelLower.includes('electric')) fuelType = 'electric';
-        }
+    const sellerId = adminUser._id;
+    const importedAt = new Date();
+    let listingIds: string[] = [];
+    let flaggedCount = 0;
 
-        // Map transmission from scraped data
-        let transmission: 'manual' | 'automatic' = 'manual';
-        if (data.transmission) {
-          const transLower = data.transmission.toLowerCase();
-          if (transLower.includes('automatic') || transLower.includes('amt') || 
-              transLower.includes('cvt') || transLower.includes('dct')) {
-            transmission = 'automatic';
-          }
+    const dbSession = await db.startSession();
+    try {
+      // The callback may be retried on transient errors, so it only assigns results
+      await dbSession.withTransaction(async () => {
+        const listings = await Listing.insertMany(
+          checkedRows.map(({ row, sourceSite, candidate }, position) => ({
+            sellerId,
+            brand: row.brand,
+            carModel: row.model,
+            variant: row.variant,
+            fuelType: row.fuelType,
+            transmission: row.transmission,
+            yearOfOwnership: row.yearOfOwnership,
+            numberOfOwners: row.numberOfOwners,
+            kmDriven: row.kmDriven,
+            city: row.city,
+            state: row.state,
+            description: row.description,
+            price: row.price,
+            priceHistory: initialPriceHistory(row.price),
+            images: storedImages[position],
+            status: 'approved', // Scraped listings are auto-approved
+            statusHistory: initialStatusHistory('approved', {
+              actor: access.email,
+              actorRole: access.role,
+              reason: 'Imported from scraper',
+            }),
+            interestCount: 0,
+            source: 'scraped',
+            sourceUrl: row.sourceUrl,
+            sourceSite,
+            sourceImages: row.images,
+            lastSyncedAt: row.sourceUrl ? importedAt : undefined,
+            imageHashes: candidate.imageHashes,
+          })),
+          { session: dbSession }
+        );
+
+        const flags = checkedRows.flatMap(({ duplicate }, position) =>
+          duplicate.verdict === 'flag' && duplicate.match
+            ? [{
+                listingId: listings[position]._id,
+                duplicateOfId: duplicate.match.listing._id,
+                score: duplicate.match.score,
+                breakdown: duplicate.match.breakdown,
+              }]
+            : []
+        );
+        if (flags.length > 0) {
+          await DuplicateFlag.insertMany(flags, { session: dbSession });
         }
 
-        const listing = await Listing.create({
-          sellerId: adminUser._id,
-          brand: data.carName.split(' ')[0] || 'Unknown',
-          carModel: data.model,
-          variant: data.variant || 'Standard',
-          fuelType,
-          transmission,
-          yearOfOwnership: data.yearOfPurchase || new Date().getFullYear(),
-          numberOfOwners: data.numberOfOwners || 1,
-          kmDriven: data.kmDriven || 0,
-          city: data.city || 'Unknown',
-          state: 'Unknown', // Would need to be extracted or mapped
-          description: data.description || `Imported listing: ${data.carName} ${data.model}`,
-          price: data.price,
-          images: data.images.slice(0, 10), // Limit to 10 images
-          status: 'approved', // Scraped listings are auto-approved
-          interestCount: 0,
-          source: 'scraped',
-        });
-
-        importedListings.push(listing);
-
         // Log admin action
-        await AdminLog.create({
-          action: 'import_scraped',
-          targetId: listing._id,
-          targetType: 'listing',
-          details: {
-            carName: data.carName,
-            model: data.model,
-            price: data.price,
-            adminEmail: session.user.email,
-          },
-        });
-      } catch (error) {
-        console.error('Error importing listing:', error);
-        console.error('Failed data:', JSON.stringify(data, null, 2));
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        const errorStack = error instanceof Error ? error.stack : '';
-        console.error('Error stack:', errorStack);
-        errors.push(`Failed to import ${data.carName}: ${errorMsg}`);
-        // Continue with other listings
-      }
-    }
-
-    if (importedListings.length === 0 && errors.length > 0) {
-      return {
-        success: false,
-        error: `Failed to import any listings. Errors: ${errors.join(', ')}`,
-      };
+        await AdminLog.insertMany(
+          listings.map((listing) => ({
+            action: 'import_scraped',
+            targetId: listing._id,
+            targetType: 'listing',
+            details: {
+              brand: listing.brand,
+              model: listing.carModel,
+              price: listing.price,
+              sourceUrl: listing.sourceUrl,
+              adminEmail: access.email,
+            },
+          })),
+          { session: dbSession }
+        );
+
+        listingIds = listings.map((listing) => listing._id.toString());
+        flaggedCount = flags.length;
+      });
+    } finally {
+      await dbSession.endSession();
     }
 
-    const message = importedListings.length > 0
-      ? `Successfully imported ${importedListings.length} listing(s)${errors.length > 0 ? `. Errors: ${errors.join(', ')}` : ''}`
-      : 'No listings were imported';
-
     return {
-      success: importedListings.length > 0,
-      message,
+      success: true,
+      message: `Successfully imported ${listingIds.length} listing(s)${flaggedCount > 0 ? `, ${flaggedCount} flagged as possible duplicates` : ''}`,
       data: {
-        count: importedListings.length,
-        listings: importedListings,
-        errors,
+        count: listingIds.length,
+        flagged: flaggedCount,
+        listingIds,
       },
     };
   } catch (error) {
     console.error('Error importing scraped listings:', error);
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-    const errorStack = error instanceof Error ? error.stack : '';
-    console.error('Full error stack:', errorStack);
     return {
       success: false,
       error: `An error occurred while importing listings: ${errorMsg}`,
@@ -567,18 +641,18 @@ export async function importScrapedListings(
 
 /**
  * Delete a listing
- * Only admin can delete listings
+ * Only staff with the listings:manage permission can delete listings
  */
 export async function deleteListing(listingId: string): Promise<ActionResult> {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
 
-    // Check if user is admin
-    const adminEmail = process.env.ADMIN_EMAIL;
-    if (!session || session.user.email !== adminEmail) {
+    // Check if user can manage listings
+    const access = requireRole(session?.user, 'listings:manage');
+    if (!access.allowed) {
       return {
         success: false,
-        error: 'Unauthorized',
+        error: access.error,
       };
     }
 
@@ -596,6 +670,18 @@ export async function deleteListing(listingId: string): Promise<ActionResult> {
     // Delete listing
     await Listing.findByIdAndDelete(listingId);
 
+    // Remove it from buyers' saved cars
+    await Favourite.deleteMany({ listingId });
+
+    // Pairs it was part of can no longer be reviewed
+    await DuplicateFlag.deleteMany({
+      status: 'open',
+      $or: [{ listingId }, { duplicateOfId: listingId }],
+    });
+
+    // Delete its photos unless another listing shares them
+    await deleteUnreferencedImages(listing.images);
+
     // Log admin action
     await AdminLog.create({
       action: 'delete_listing',
@@ -604,7 +690,7 @@ export async function deleteListing(listingId: string): Promise<ActionResult> {
       details: {
         listingBrand: listing.brand,
         listingModel: listing.carModel,
-        adminEmail: session.user.email,
+        adminEmail: access.email,
       },
     });
 
@@ -622,33 +708,41 @@ export async function deleteListing(listingId: string): Promise<ActionResult> {
 }
 
 /**
- * Update listing status (Activate/Deactivate)
- * Only admin can update listing status
+ * Update listing status
+ * Only staff with the listings:moderate permission can update listing status, and only along allowed transitions
  */
-export async function updateListingStatus(listingId: string, status: string): Promise<ActionResult> {
+export async function updateListingStatus(
+  listingId: string,
+  status: string,
+  reason?: string
+): Promise<ActionResult> {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
 
-    // Check if user is admin
-    const adminEmail = process.env.ADMIN_EMAIL;
-    if (!session || session.user.email !== adminEmail) {
+    // Check if user can moderate listings
+    const access = requireRole(session?.user, 'listings:moderate');
+    if (!access.allowed) {
       return {
         success: false,
-        error: 'Unauthorized',
+        error: access.error,
       };
     }
 
     await connectDB();
 
     // Validate status
-    const validStatuses = ['active', 'inactive', 'approved', 'rejected', 'sold'];
-    if (!validStatuses.includes(status)) {
+    if (!isListingStatus(status)) {
       return {
         success: false,
         error: 'Invalid status',
       };
     }
 
+    // Rejections must carry a reason for the seller
+    if (status === 'rejected') {
+      return rejectListing(listingId, [], reason);
+    }
+
     // Check if listing exists
     const listing = await Listing.findById(listingId);
     if (!listing) {
@@ -659,7 +753,11 @@ export async function updateListingStatus(listingId: string, status: string): Pr
     }
 
     // Update status
-    await Listing.findByIdAndUpdate(listingId, { status });
+    await transitionListing(listing, status, {
+      actor: access.email,
+      actorRole: access.role,
+      reason,
+    });
 
     // Log admin action
     await AdminLog.create({
@@ -671,7 +769,8 @@ export async function updateListingStatus(listingId: string, status: string): Pr
         listingModel: listing.carModel,
         oldStatus: listing.status,
         newStatus: status,
-        adminEmail: session.user.email,
+        reason,
+        adminEmail: access.email,
       },
     });
 
@@ -680,6 +779,13 @@ export async function updateListingStatus(listingId: string, status: string): Pr
       message: `Listing status updated to ${status}`,
     };
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return {
+        success: false,
+        error: error.message,
+        code: error.code,
+      };
+    }
     console.error('Error updating listing status:', error);
     return {
       success: false,
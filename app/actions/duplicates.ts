@@ -0,0 +1,240 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Listing from '@/lib/models/Listing';
+import DuplicateFlag from '@/lib/models/DuplicateFlag';
+import AdminLog from '@/lib/models/AdminLog';
+import { mergeDuplicateImages } from '@/lib/duplicate-detection';
+import { InvalidStatusTransitionError } from '@/lib/listing-status';
+import { transitionListing } from '@/lib/listing-workflow';
+import { getRejectionReason } from '@/lib/rejection-reasons';
+import { requireRole, StaffRole } from '@/lib/roles';
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  code?: string;
+  message?: string;
+  data?: any;
+}
+
+// Listing fields shown side by side in the review queue
+const REVIEW_FIELDS =
+  'brand carModel variant yearOfOwnership kmDriven price city images status source sourceUrl sourceSite createdAt';
+
+/**
+ * Resolve the staff member allowed to review duplicates
+ * Returns an error result when the user cannot moderate listings
+ */
+async function getModerator(): Promise<{ email: string; role: StaffRole } | { error: ActionResult }> {
+  const session = await getServerSession(authOptions);
+
+  const access = requireRole(session?.user, 'listings:moderate');
+  if (!access.allowed) {
+    return {
+      error: {
+        success: false,
+        error: access.error,
+      },
+    };
+  }
+
+  return { email: access.email, role: access.role };
+}
+
+/**
+ * Open possible-duplicate pairs, most similar first
+ */
+export async function getDuplicateFlags(): Promise<ActionResult> {
+  try {
+    const moderator = await getModerator();
+    if ('error' in moderator) {
+      return moderator.error;
+    }
+
+    await connectDB();
+
+    const flags = await DuplicateFlag.find({ status: 'open' })
+      .sort({ score: -1, createdAt: -1 })
+      .populate('listingId', REVIEW_FIELDS)
+      .populate('duplicateOfId', REVIEW_FIELDS)
+      .lean();
+
+    return {
+      success: true,
+      // Pairs whose listing has since been deleted cannot be reviewed
+      data: JSON.parse(JSON.stringify(flags.filter((flag) => flag.listingId && flag.duplicateOfId))),
+    };
+  } catch (error) {
+    console.error('Error fetching duplicate flags:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching possible duplicates',
+    };
+  }
+}
+
+/**
+ * Mark a pair as two different cars
+ */
+export async function dismissDuplicate(flagId: string): Promise<ActionResult> {
+  try {
+    const moderator = await getModerator();
+    if ('error' in moderator) {
+      return moderator.error;
+    }
+
+    await connectDB();
+
+    const flag = await DuplicateFlag.findOneAndUpdate(
+      { _id: flagId, status: 'open' },
+      { $set: { status: 'dismissed', resolvedBy: moderator.email, resolvedAt: new Date() } },
+      { new: true }
+    );
+    if (!flag) {
+      return {
+        success: false,
+        error: 'Duplicate flag not found or already resolved',
+      };
+    }
+
+    await AdminLog.create({
+      action: 'dismiss_duplicate',
+      targetId: flag.listingId,
+      targetType: 'listing',
+      details: {
+        duplicateOfId: flag.duplicateOfId,
+        score: flag.score,
+        adminEmail: moderator.email,
+      },
+    });
+
+    return {
+      success: true,
+      message: 'Marked as not a duplicate',
+    };
+  } catch (error) {
+    console.error('Error dismissing duplicate:', error);
+    return {
+      success: false,
+      error: 'An error occurred while dismissing the duplicate',
+    };
+  }
+}
+
+/**
+ * Keep one listing of a duplicate pair and take the other off the marketplace
+ * Photos only the other listing had are copied onto the kept one when both
+ * belong to the same seller; another seller's photos are never republished
+ */
+export async function mergeDuplicate(flagId: string, keepListingId: string): Promise<ActionResult> {
+  try {
+    const moderator = await getModerator();
+    if ('error' in moderator) {
+      return moderator.error;
+    }
+
+    await connectDB();
+
+    const flag = await DuplicateFlag.findById(flagId);
+    if (!flag || flag.status !== 'open') {
+      return {
+        success: false,
+        error: 'Duplicate flag not found or already resolved',
+      };
+    }
+
+    const pair = [flag.listingId.toString(), flag.duplicateOfId.toString()];
+    if (!pair.includes(keepListingId)) {
+      return {
+        success: false,
+        error: 'The kept listing must be one of the flagged pair',
+      };
+    }
+    const removeListingId = pair.find((id) => id !== keepListingId)!;
+
+    const [kept, removed] = await Promise.all([
+      Listing.findById(keepListingId),
+      Listing.findById(removeListingId),
+    ]);
+    if (!kept || !removed) {
+      return {
+        success: false,
+        error: 'Listing not found',
+      };
+    }
+
+    const actor = {
+      actor: moderator.email,
+      actorRole: moderator.role,
+      reason: `${getRejectionReason('duplicate')!.label} of ${keepListingId}`,
+    };
+    if (removed.status === 'pending' || removed.status === 'approved') {
+      await transitionListing(removed, 'rejected', actor, {
+        $set: {
+          rejection: {
+            reasons: ['duplicate'],
+            note: `Duplicate of listing ${keepListingId}`,
+            rejectedAt: new Date(),
+            rejectedBy: moderator.email,
+          },
+        },
+      });
+    } else if (removed.status === 'paused') {
+      // Paused listings cannot be rejected, so they are expired instead
+      await transitionListing(removed, 'expired', actor);
+    }
+
+    const sameSeller = kept.sellerId.toString() === removed.sellerId.toString();
+    const images = sameSeller ? mergeDuplicateImages(kept.images, removed.images) : kept.images;
+    if (sameSeller) {
+      const imageHashes = Array.from(new Set([...(kept.imageHashes || []), ...(removed.imageHashes || [])]));
+      await Listing.updateOne({ _id: kept._id }, { $set: { images, imageHashes } });
+    }
+
+    await DuplicateFlag.updateOne(
+      { _id: flag._id },
+      {
+        $set: {
+          status: 'merged',
+          keptListingId: kept._id,
+          resolvedBy: moderator.email,
+          resolvedAt: new Date(),
+        },
+      }
+    );
+
+    await AdminLog.create({
+      action: 'merge_duplicate',
+      targetId: kept._id,
+      targetType: 'listing',
+      details: {
+        removedListingId: removed._id,
+        removedStatus: removed.status,
+        imagesAdded: images.length - kept.images.length,
+        score: flag.score,
+        adminEmail: moderator.email,
+      },
+    });
+
+    return {
+      success: true,
+      message: 'Duplicates merged',
+    };
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return {
+        success: false,
+        error: error.message,
+        code: error.code,
+      };
+    }
+    console.error('Error merging duplicates:', error);
+    return {
+      success: false,
+      error: 'An error occurred while merging the duplicates',
+    };
+  }
+}
@@ -0,0 +1,169 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Listing from '@/lib/models/Listing';
+import Favourite from '@/lib/models/Favourite';
+import { getFavouriteStatus } from '@/lib/favourites';
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: any;
+}
+
+/**
+ * Resolve the signed-in user for shortlist actions
+ * Returns an error result when the user cannot keep a shortlist
+ */
+async function getShortlistUser(): Promise<{ userId: string } | { error: ActionResult }> {
+  const session = await getServerSession();
+
+  if (!session || !session.user) {
+    return {
+      error: {
+        success: false,
+        error: 'You must be signed in to save cars',
+      },
+    };
+  }
+
+  if (!session.user.profileComplete) {
+    return {
+      error: {
+        success: false,
+        error: 'Please complete your profile first',
+      },
+    };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * Add or remove a listing from the signed-in user's shortlist
+ * Unlike expressing interest this is private and never touches the listing
+ * @param listingId The listing to shortlist
+ * @param favourited Whether the listing should be on the shortlist
+ */
+export async function setFavourite(listingId: string, favourited: boolean): Promise<ActionResult> {
+  try {
+    const auth = await getShortlistUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    if (!favourited) {
+      await Favourite.deleteOne({ userId: auth.userId, listingId });
+      return {
+        success: true,
+        message: 'Removed from saved cars',
+        data: { favourited: false },
+      };
+    }
+
+    const listing = await Listing.findById(listingId).select('price status');
+    if (!listing || listing.status !== 'approved') {
+      return {
+        success: false,
+        error: 'Listing not found',
+      };
+    }
+
+    // Saving twice keeps the original price so drops are measured from the first save
+    await Favourite.updateOne(
+      { userId: auth.userId, listingId },
+      { $setOnInsert: { priceWhenSaved: listing.price } },
+      { upsert: true }
+    );
+
+    return {
+      success: true,
+      message: 'Added to saved cars',
+      data: { favourited: true },
+    };
+  } catch (error) {
+    console.error('Error updating saved cars:', error);
+    return {
+      success: false,
+      error: 'An error occurred while updating saved cars',
+    };
+  }
+}
+
+/**
+ * Get the ids of every listing on the signed-in user's shortlist
+ */
+export async function getFavouriteIds(): Promise<ActionResult> {
+  try {
+    const auth = await getShortlistUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const favourites = await Favourite.find({ userId: auth.userId }).select('listingId').lean();
+
+    return {
+      success: true,
+      data: favourites.map((favourite) => favourite.listingId.toString()),
+    };
+  } catch (error) {
+    console.error('Error fetching saved car ids:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching saved cars',
+    };
+  }
+}
+
+/**
+ * Get the signed-in user's saved cars with price drops and availability
+ */
+export async function getFavourites(): Promise<ActionResult> {
+  try {
+    const auth = await getShortlistUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const favourites = await Favourite.find({ userId: auth.userId })
+      .sort({ createdAt: -1 })
+      .populate('listingId', 'brand carModel variant price images city status')
+      .lean();
+
+    return {
+      success: true,
+      data: favourites
+        .filter((favourite) => favourite.listingId)
+        .map((favourite) => {
+          const listing = favourite.listingId as any;
+          return {
+            _id: favourite._id.toString(),
+            listingId: listing._id.toString(),
+            brand: listing.brand,
+            carModel: listing.carModel,
+            variant: listing.variant,
+            price: listing.price,
+            image: listing.images?.[0] || null,
+            city: listing.city,
+            priceWhenSaved: favourite.priceWhenSaved,
+            ...getFavouriteStatus(favourite, listing),
+            savedAt: favourite.createdAt.toISOString(),
+          };
+        }),
+    };
+  } catch (error) {
+    console.error('Error fetching saved cars:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching saved cars',
+    };
+  }
+}
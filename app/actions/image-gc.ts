@@ -0,0 +1,57 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { requireRole } from '@/lib/roles';
+import { collectOrphanedImages } from '@/lib/image-gc';
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: any;
+}
+
+// Enough for the admin to spot-check what a cleanup would delete
+const REPORTED_FILE_LIMIT = 50;
+
+/**
+ * Find stored images no listing refers to, and delete them unless `dryRun`
+ * Only staff with the listings:manage permission can clean up images
+ */
+export async function runImageCleanup(dryRun: boolean): Promise<ActionResult> {
+  try {
+    const session = await getServerSession(authOptions);
+
+    const access = requireRole(session?.user, 'listings:manage');
+    if (!access.allowed) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const report = await collectOrphanedImages({ dryRun: dryRun !== false });
+
+    return {
+      success: true,
+      message: report.dryRun
+        ? `${report.orphaned.length} orphaned images found`
+        : `${report.deleted} orphaned images deleted`,
+      data: {
+        ...report,
+        orphanedCount: report.orphaned.length,
+        orphaned: report.orphaned.slice(0, REPORTED_FILE_LIMIT).map((file) => ({
+          ...file,
+          uploadDate: file.uploadDate.toISOString(),
+        })),
+      },
+    };
+  } catch (error) {
+    console.error('Error cleaning up images:', error);
+    return {
+      success: false,
+      error: 'An error occurred while cleaning up images',
+    };
+  }
+}
@@ -12,13 +12,34 @@ vi.mock('@/lib/mongodb', () => ({
   default: vi.fn(async () => ({})),
 }));
 
-// Mock GridFS
-vi.mock('@/lib/gridfs', () => ({
-  uploadMultipleToGridFS: vi.fn(async (files) => 
+// Mock image storage
+vi.mock('@/lib/storage', () => ({
+  storeImages: vi.fn(async (files) => 
     files.map((_: any, i: number) => `/api/images/mock-id-${i}`)
   ),
 }));
 
+// Mock duplicate detection
+vi.mock('@/lib/image-hash', () => ({
+  hashListingImages: vi.fn(async () => []),
+  loadImage: vi.fn(),
+}));
+
+// Mock image quality checks
+vi.mock('@/lib/image-quality', () => ({
+  checkImageQuality: vi.fn(async () => ({ flags: [], unreadable: [] })),
+}));
+
+// Mock image cleanup
+vi.mock('@/lib/image-gc', () => ({
+  deleteUnreferencedImages: vi.fn(),
+}));
+
+vi.mock('@/lib/duplicates', () => ({
+  checkForDuplicates: vi.fn(async () => ({ verdict: 'none', match: null })),
+  flagDuplicate: vi.fn(),
+}));
+
 // Mock Listing model
 vi.mock('@/lib/models/Listing', () => ({
   default: {
@@ -32,6 +53,22 @@ vi.mock('@/lib/models/Listing', () => ({
   },
 }));
 
+// Mock ownership verifications
+vi.mock('@/lib/models/RegistrationVerification', () => ({
+  REGISTRATION_VERIFICATION_TTL_SECONDS: 86400,
+  default: {
+    findOneAndUpdate: vi.fn(),
+    findOne: vi.fn(async () => ({
+      _id: 'mock-verification-id',
+      registrationNumber: 'MH12AB1234',
+      status: 'verified',
+      provider: 'http',
+      verifiedAt: new Date(),
+    })),
+    deleteOne: vi.fn(),
+  },
+}));
+
 // Mock Interest model
 vi.mock('@/lib/models/Interest', () => ({
   default: {
@@ -39,9 +76,22 @@ vi.mock('@/lib/models/Interest', () => ({
   },
 }));
 
+// Mock Favourite model
+vi.mock('@/lib/models/Favourite', () => ({
+  default: {
+    deleteMany: vi.fn(),
+  },
+}));
+
 import { getServerSession } from 'next-auth';
 import Listing from '@/lib/models/Listing';
 import Interest from '@/lib/models/Interest';
+import Favourite from '@/lib/models/Favourite';
+import RegistrationVerification from '@/lib/models/RegistrationVerification';
+import { deleteUnreferencedImages } from '@/lib/image-gc';
+import { checkImageQuality } from '@/lib/image-quality';
+import { storeImages } from '@/lib/storage';
+import { hashListingImages } from '@/lib/image-hash';
 
 beforeEach(() => {
   vi.clearAllMocks();
@@ -55,13 +105,22 @@ const validRegistrationNumberArbitrary = fc.tuple(
   fc.integer({ min: 1, max: 9999 }).map(n => n.toString().padStart(4, '0'))
 ).map(([state, district, series, number]) => `${state}${district}${series}${number}`);
 
-const validOwnerNameArbitrary = fc.tuple(
-  fc.string({ minLength: 2, maxLength: 20 }).filter(s => s.trim().length >= 2),
-  fc.string({ minLength: 2, maxLength: 20 }).filter(s => s.trim().length >= 2)
-).map(([first, last]) => `${first} ${last}`);
+const namePartArbitrary = fc.stringOf(
+  fc.constantFrom(...'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('')),
+  { minLength: 2, maxLength: 20 }
+);
 
-const invalidOwnerNameArbitrary = fc.string({ minLength: 1, maxLength: 20 })
-  .filter(s => s.trim().split(/\s+/).length < 2);
+const validOwnerNameArbitrary = fc.tuple(namePartArbitrary, namePartArbitrary)
+  .map(([first, last]) => `${first} ${last}`);
+
+// Unknown state codes, a zero RTO code or number, or no series letters
+const invalidRegistrationNumberArbitrary = fc.oneof(
+  fc.tuple(fc.constantFrom('XX', 'ZZ', 'QA'), fc.integer({ min: 1, max: 99 }), fc.integer({ min: 1, max: 9999 }))
+    .map(([state, district, number]) => `${state}${district}AB${number}`),
+  fc.integer({ min: 1, max: 9999 }).map(number => `MH00AB${number}`),
+  fc.integer({ min: 1, max: 99 }).map(district => `MH${district}AB0000`),
+  fc.integer({ min: 1, max: 99 }).map(district => `KA${district}123456`)
+);
 
 describe('Ownership Verification Property Tests', () => {
   /**
@@ -95,18 +154,25 @@ describe('Ownership Verification Property Tests', () => {
           expect(result.data).toBeDefined();
           expect(result.data.registrationNumber).toBe(regNumber.toUpperCase());
           expect(result.data.ownerName).toBe(ownerName);
+
+          // The verification is remembered for the listing form
+          expect(vi.mocked(RegistrationVerification.findOneAndUpdate)).toHaveBeenLastCalledWith(
+            { userId: 'test-user-id', registrationNumber: regNumber.toUpperCase() },
+            expect.objectContaining({ status: 'unconfirmed', provider: 'demo' }),
+            { upsert: true }
+          );
         }
       ),
       { numRuns: 100 }
     );
-  }, 120000); // 2 minute timeout for 100 runs with 1s delay each
+  });
 
   it('Property 14: Ownership verification requirement - invalid data fails verification', async () => {
     await fc.assert(
       fc.asyncProperty(
-        validRegistrationNumberArbitrary,
-        invalidOwnerNameArbitrary,
-        async (regNumber, invalidName) => {
+        invalidRegistrationNumberArbitrary,
+        validOwnerNameArbitrary,
+        async (invalidRegNumber, ownerName) => {
           // Mock authenticated session
           vi.mocked(getServerSession).mockResolvedValue({
             user: {
@@ -118,11 +184,12 @@ describe('Ownership Verification Property Tests', () => {
             expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
           });
 
-          const result = await verifyOwnership(regNumber, invalidName);
+          const result = await verifyOwnership(invalidRegNumber, ownerName);
 
-          // Invalid owner name (single word) should fail verification
+          // Numbers RTOs never issue should fail verification
           expect(result.success).toBe(false);
           expect(result.error).toBeDefined();
+          expect(vi.mocked(RegistrationVerification.findOneAndUpdate)).not.toHaveBeenCalled();
         }
       ),
       { numRuns: 100 }
@@ -242,6 +309,7 @@ function createListingFormData(data: {
   formData.append('price', data.price.toString());
   formData.append('yearOfOwnership', data.yearOfOwnership.toString());
   formData.append('numberOfOwners', data.numberOfOwners.toString());
+  formData.append('registrationNumber', 'MH12AB1234');
 
   // Create mock File objects for images
   data.images.forEach((img) => {
@@ -502,11 +570,36 @@ describe('Listing Creation Property Tests', () => {
           expect(createCall.status).toBe('pending');
           expect(createCall.source).toBe('user');
           expect(createCall.interestCount).toBe(0);
+          expect(createCall.registration).toMatchObject({ number: 'MH12AB1234', status: 'verified', provider: 'http' });
         }
       ),
       { numRuns: 100 }
     );
   });
+
+  it('rejects listings for cars the seller has not verified', async () => {
+    vi.mocked(RegistrationVerification.findOne).mockResolvedValueOnce(null);
+
+    const result = await createListing(createListingFormData({
+      brand: 'Maruti',
+      model: 'Swift',
+      variant: 'VXi',
+      fuelType: 'petrol',
+      transmission: 'manual',
+      kmDriven: 20000,
+      city: 'Pune',
+      state: 'Maharashtra',
+      description: 'Single owner, serviced on time',
+      price: 550000,
+      yearOfOwnership: 2020,
+      numberOfOwners: 1,
+      images: [{ name: 'front.jpg', type: 'image/jpeg', size: 1000 }],
+    }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('verify ownership');
+    expect(vi.mocked(Listing.create)).not.toHaveBeenCalled();
+  });
 });
 
 describe('File Upload Validation Property Tests', () => {
@@ -722,6 +815,7 @@ describe('My Garage Listing Management Property Tests', () => {
       _id: 'test-listing-id',
       sellerId: 'test-user-id',
       status: 'approved',
+      images: ['/api/images/65a1b2c3d4e5f6a7b8c9d0e1'],
     };
 
     vi.mocked(Listing.findById).mockResolvedValue(mockListing as any);
@@ -740,6 +834,12 @@ describe('My Garage Listing Management Property Tests', () => {
     
     // Verify associated interests were deleted
     expect(mockInterestDeleteMany).toHaveBeenCalledWith({ listingId: 'test-listing-id' });
+
+    // Verify the listing was removed from saved cars
+    expect(vi.mocked(Favourite.deleteMany)).toHaveBeenCalledWith({ listingId: 'test-listing-id' });
+
+    // Verify its photos were cleaned up
+    expect(vi.mocked(deleteUnreferencedImages)).toHaveBeenCalledWith(['/api/images/65a1b2c3d4e5f6a7b8c9d0e1']);
   });
 
   it('Property 20: Listing deletion completeness - only owner can delete their listing', async () => {
@@ -760,4 +860,51 @@ describe('My Garage Listing Management Property Tests', () => {
     expect(result.error).toContain('only delete your own listings');
     expect(vi.mocked(Listing.findByIdAndDelete)).not.toHaveBeenCalled();
   });
+
+  it('rejects edited photos that cannot be decoded before storing them', async () => {
+    vi.mocked(Listing.findById).mockResolvedValue({
+      _id: 'test-listing-id',
+      sellerId: 'test-user-id',
+      status: 'approved',
+      images: ['/api/images/65a1b2c3d4e5f6a7b8c9d0e1'],
+    } as any);
+    vi.mocked(checkImageQuality).mockResolvedValueOnce({ flags: [], unreadable: [0] });
+
+    const formData = new FormData();
+    formData.append('images', new File([Buffer.from('not an image')], 'broken.jpg', { type: 'image/jpeg' }));
+    formData.append('imageOrder', JSON.stringify([{ existing: '/api/images/65a1b2c3d4e5f6a7b8c9d0e1' }, { upload: 0 }]));
+
+    const { updateListing } = await import('./listings');
+    const result = await updateListing('test-listing-id', formData);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Image 1: File could not be read as an image');
+    expect(vi.mocked(storeImages)).not.toHaveBeenCalled();
+    expect(vi.mocked(Listing.findByIdAndUpdate)).not.toHaveBeenCalled();
+  });
+
+  it('stores the hashes of edited photos for duplicate detection', async () => {
+    vi.mocked(Listing.findById).mockResolvedValue({
+      _id: 'test-listing-id',
+      sellerId: 'test-user-id',
+      status: 'approved',
+      images: ['/api/images/65a1b2c3d4e5f6a7b8c9d0e1'],
+    } as any);
+    vi.mocked(hashListingImages).mockResolvedValueOnce(['new-cover-hash', 'kept-photo-hash']);
+
+    const formData = new FormData();
+    formData.append('images', new File([Buffer.from('new photo')], 'cover.jpg', { type: 'image/jpeg' }));
+    formData.append('imageOrder', JSON.stringify([{ upload: 0 }, { existing: '/api/images/65a1b2c3d4e5f6a7b8c9d0e1' }]));
+
+    const { updateListing } = await import('./listings');
+    const result = await updateListing('test-listing-id', formData);
+
+    expect(result.success).toBe(true);
+    expect(vi.mocked(Listing.findByIdAndUpdate)).toHaveBeenCalledWith('test-listing-id', {
+      $set: expect.objectContaining({
+        images: ['/api/images/mock-id-0', '/api/images/65a1b2c3d4e5f6a7b8c9d0e1'],
+        imageHashes: ['new-cover-hash', 'kept-photo-hash'],
+      }),
+    });
+  });
 });
@@ -4,28 +4,53 @@ import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import Listing from '@/lib/models/Listing';
 import Interest from '@/lib/models/Interest';
+import Favourite from '@/lib/models/Favourite';
+import RegistrationVerification, {
+  REGISTRATION_VERIFICATION_TTL_SECONDS,
+} from '@/lib/models/RegistrationVerification';
 import {
   ownershipFormSchema,
   carListingFormSchema,
+  imageOrderSchema,
+  ImageOrderEntry,
+  MAX_LISTING_IMAGES,
   sanitizeString,
+  validateImageFile,
   validateImageFiles,
 } from '@/lib/validation';
+import { InvalidStatusTransitionError } from '@/lib/listing-status';
+import { transitionListing, initialStatusHistory } from '@/lib/listing-workflow';
+import { buildPriceChange, initialPriceHistory } from '@/lib/price-history';
+import { checkForDuplicates, flagDuplicate } from '@/lib/duplicates';
+import { hashListingImages, loadImage } from '@/lib/image-hash';
+import { applyImageOrder, checkImageOrder } from '@/lib/listing-images';
+import { deleteUnreferencedImages } from '@/lib/image-gc';
+import { checkImageQuality } from '@/lib/image-quality';
+import { describeImageQualityFlag } from '@/lib/image-quality-issues';
+import { getRegistrationVerifier, RegistrationProviderError } from '@/lib/registration-verifier';
+import { normalizeRegistrationNumber } from '@/lib/registration';
 
 export interface ActionResult {
   success: boolean;
   error?: string;
+  code?: string;
   message?: string;
   data?: any;
   fieldErrors?: Record<string, string[]>;
+  warnings?: string[];
 }
 
+// What sellers are told when the registry disagrees with them
+const REGISTRATION_CHECK_ERRORS: Record<string, string> = {
+  invalid_format: 'Invalid registration number format (e.g., MH12AB1234 or 22BH1234AA)',
+  not_found: 'No vehicle is registered under this number',
+  name_mismatch: 'The owner name does not match the registration records',
+};
+
 /**
- * DEMO MODE: Mock ownership verification - accepts any valid format
- * In production, this would call an actual vehicle registration API
- * 
- * DEMO: This function now accepts any input without strict validation
- * - Does NOT verify actual ownership
- * - Only checks basic format requirements
+ * Verify that the seller owns the car before they can list it
+ * The registration is checked with the configured RegistrationVerifier and
+ * remembered, so createListing can attach it to the listing
  */
 export async function verifyOwnership(
   registrationNumber: string,
@@ -48,43 +73,58 @@ export async function verifyOwnership(
       };
     }
 
-    // Sanitize inputs
-    const sanitizedData = {
-      registrationNumber: sanitizeString(registrationNumber),
-      ownerName: sanitizeString(ownerName),
-    };
+    const validationResult = ownershipFormSchema.safeParse({
+      registrationNumber: sanitizeString(registrationNumber || ''),
+      ownerName: sanitizeString(ownerName || ''),
+    });
 
-    // DEMO MODE: Basic validation only - accept any non-empty values
-    if (!sanitizedData.registrationNumber || sanitizedData.registrationNumber.trim().length === 0) {
+    if (!validationResult.success) {
       return {
         success: false,
-        error: 'Registration number is required',
+        error: validationResult.error.errors[0].message,
       };
     }
 
-    if (!sanitizedData.ownerName || sanitizedData.ownerName.trim().length === 0) {
+    const verifier = getRegistrationVerifier();
+    const check = await verifier.verify(
+      validationResult.data.registrationNumber,
+      validationResult.data.ownerName
+    );
+
+    if (check.status !== 'verified' && check.status !== 'unconfirmed') {
       return {
         success: false,
-        error: 'Owner name is required',
+        error: REGISTRATION_CHECK_ERRORS[check.status],
       };
     }
 
-    // DEMO MODE: Accept any format - no strict validation
-    // In production, this would validate against actual registration format
-    // and verify ownership through government APIs
+    await connectDB();
 
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500));
+    await RegistrationVerification.findOneAndUpdate(
+      { userId: session.user.id, registrationNumber: check.registrationNumber },
+      { status: check.status, provider: verifier.name, verifiedAt: new Date() },
+      { upsert: true }
+    );
 
     return {
       success: true,
-      message: 'Ownership verified successfully (Demo Mode)',
+      message: check.status === 'verified'
+        ? 'Ownership verified successfully'
+        : 'Registration number accepted; ownership will be confirmed during review',
       data: {
-        registrationNumber: sanitizedData.registrationNumber.toUpperCase(),
-        ownerName: sanitizedData.ownerName,
+        registrationNumber: check.registrationNumber,
+        ownerName: validationResult.data.ownerName,
+        status: check.status,
       },
     };
   } catch (error) {
+    if (error instanceof RegistrationProviderError) {
+      console.error('Registration lookup failed:', error);
+      return {
+        success: false,
+        error: 'Registration records are unavailable right now. Please try again later.',
+      };
+    }
     console.error('Error verifying ownership:', error);
     return {
       success: false,
@@ -164,21 +204,47 @@ export async function createListing(formData: FormData): Promise<ActionResult> {
       };
     }
 
-    // Upload images to GridFS
-    const { uploadMultipleToGridFS } = await import('@/lib/gridfs');
-    
+    // The car must have passed verifyOwnership for this seller
+    const registrationNumber = normalizeRegistrationNumber((formData.get('registrationNumber') as string) || '');
+    await connectDB();
+    const verification = registrationNumber
+      ? await RegistrationVerification.findOne({
+          userId: session.user.id,
+          registrationNumber,
+          verifiedAt: { $gte: new Date(Date.now() - REGISTRATION_VERIFICATION_TTL_SECONDS * 1000) },
+        })
+      : null;
+    if (!verification) {
+      return {
+        success: false,
+        error: 'Please verify ownership of this car before listing it',
+      };
+    }
+
     const imageBuffers = await Promise.all(
       imageFiles.map(async (file) => ({
         buffer: Buffer.from(await file.arrayBuffer()),
         filename: file.name,
-        contentType: file.type,
       }))
     );
 
-    const imageUrls = await uploadMultipleToGridFS(imageBuffers);
+    // Decode each photo; quality problems are only warnings, unreadable files are errors
+    const imageQuality = await checkImageQuality(imageBuffers.map((image) => image.buffer));
+    if (imageQuality.unreadable.length > 0) {
+      return {
+        success: false,
+        error: imageQuality.unreadable.map((index) => `Image ${index + 1}: File could not be read as an image`).join(', '),
+      };
+    }
 
-    // Connect to database and create listing
-    await connectDB();
+    // Upload images to the configured storage
+    const { storeImages } = await import('@/lib/storage');
+
+    const imageUrls = await storeImages(imageBuffers);
+    const imageHashes = await hashListingImages(
+      imageUrls,
+      async (url) => imageBuffers[imageUrls.indexOf(url)].buffer
+    );
 
     const listing = await Listing.create({
       sellerId: session.user.id,
@@ -194,18 +260,57 @@ export async function createListing(formData: FormData): Promise<ActionResult> {
       state: validatedData.state,
       description: validatedData.description,
       price: validatedData.price,
+      priceHistory: initialPriceHistory(validatedData.price),
       images: imageUrls,
       status: 'pending',
+      statusHistory: initialStatusHistory('pending', {
+        actor: session.user.id,
+        actorRole: 'seller',
+      }),
       source: 'user',
+      imageHashes,
+      imageQualityFlags: imageQuality.flags,
+      registration: {
+        number: verification.registrationNumber,
+        status: verification.status,
+        provider: verification.provider,
+        verifiedAt: verification.verifiedAt,
+      },
       interestCount: 0,
     });
 
+    // A verification lists one car once
+    await RegistrationVerification.deleteOne({ _id: verification._id });
+
+    // Sellers are never blocked; likely duplicates go to the review queue
+    try {
+      const duplicate = await checkForDuplicates(
+        {
+          brand: validatedData.brand,
+          carModel: validatedData.model,
+          variant: validatedData.variant,
+          yearOfOwnership: validatedData.yearOfOwnership,
+          kmDriven: validatedData.kmDriven,
+          price: validatedData.price,
+          city: validatedData.city,
+          imageHashes,
+        },
+        listing._id.toString()
+      );
+      if (duplicate.verdict !== 'none' && duplicate.match) {
+        await flagDuplicate(listing._id.toString(), duplicate.match);
+      }
+    } catch (error) {
+      console.error('Error checking listing for duplicates:', error);
+    }
+
     return {
       success: true,
       message: 'Listing created successfully and submitted for approval',
       data: {
         listingId: listing._id.toString(),
       },
+      warnings: imageQuality.flags.map(describeImageQualityFlag),
     };
   } catch (error) {
     console.error('Error creating listing:', error);
@@ -299,6 +404,28 @@ export async function expressInterest(listingId: string): Promise<ActionResult>
 export async function updateListing(
   listingId: string,
   formData: FormData
+): Promise<ActionResult> {
+  return editListing(listingId, formData, false);
+}
+
+/**
+ * Apply edits to a rejected (or expired) listing and send it back for moderation
+ * Only the owner can resubmit their listing
+ */
+export async function resubmitListing(
+  listingId: string,
+  formData: FormData
+): Promise<ActionResult> {
+  return editListing(listingId, formData, true);
+}
+
+/**
+ * Shared implementation of updateListing and resubmitListing
+ */
+async function editListing(
+  listingId: string,
+  formData: FormData,
+  resubmit: boolean
 ): Promise<ActionResult> {
   try {
     const session = await getServerSession();
@@ -341,8 +468,9 @@ export async function updateListing(
     const imageFiles = formData.getAll('images') as File[];
 
     const updates: any = {};
+    let priceChange: ReturnType<typeof buildPriceChange> = null;
 
-    // Update price if provided
+    // Update price if provided, recording the change in the price history
     if (price) {
       const priceNum = parseInt(price);
       if (isNaN(priceNum) || priceNum <= 0) {
@@ -351,7 +479,10 @@ export async function updateListing(
           error: 'Invalid price',
         };
       }
-      updates.price = priceNum;
+      priceChange = buildPriceChange(listing, priceNum);
+      if (priceChange) {
+        Object.assign(updates, priceChange.$set);
+      }
     }
 
     // Update description if provided
@@ -359,58 +490,137 @@ export async function updateListing(
       updates.description = description.trim();
     }
 
-    // Update images if provided
-    if (imageFiles.length > 0) {
-      if (imageFiles.length > 10) {
+    // Update images if provided. `imageOrder` lists the photos to keep and
+    // where each upload goes; without it, uploads replace every photo.
+    const imageOrderField = formData.get('imageOrder');
+    if (imageOrderField || imageFiles.length > 0) {
+      let order: ImageOrderEntry[];
+      if (imageOrderField) {
+        let parsedOrder: unknown;
+        try {
+          parsedOrder = JSON.parse(String(imageOrderField));
+        } catch {
+          parsedOrder = null;
+        }
+        const orderResult = imageOrderSchema.safeParse(parsedOrder);
+        if (!orderResult.success) {
+          return {
+            success: false,
+            error: orderResult.error.errors[0].message,
+          };
+        }
+        order = orderResult.data;
+      } else {
+        order = imageFiles.map((_, index) => ({ upload: index }));
+      }
+
+      if (order.length > MAX_LISTING_IMAGES) {
         return {
           success: false,
-          error: 'Maximum 10 images allowed',
+          error: `Maximum ${MAX_LISTING_IMAGES} images allowed`,
         };
       }
 
-      // Validate image files
-      const validImageTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/jpg'];
-      const maxSize = 5 * 1024 * 1024; // 5MB
+      const orderError = checkImageOrder(listing.images, order, imageFiles.length);
+      if (orderError) {
+        return {
+          success: false,
+          error: orderError,
+        };
+      }
 
       for (const file of imageFiles) {
-        if (!validImageTypes.includes(file.type)) {
+        const fileValidation = validateImageFile(file);
+        if (!fileValidation.valid) {
           return {
             success: false,
-            error: 'Only JPEG, PNG, and WebP images are allowed',
-          };
-        }
-
-        if (file.size > maxSize) {
-          return {
-            success: false,
-            error: 'Each image must be less than 5MB',
+            error: fileValidation.error,
           };
         }
       }
 
-      // Upload new images to GridFS
-      const { uploadMultipleToGridFS } = await import('@/lib/gridfs');
-      
       const imageBuffers = await Promise.all(
         imageFiles.map(async (file) => ({
           buffer: Buffer.from(await file.arrayBuffer()),
           filename: file.name,
-          contentType: file.type,
         }))
       );
 
-      const imageUrls = await uploadMultipleToGridFS(imageBuffers);
-      updates.images = imageUrls;
+      // Refuse uploads that do not decode before anything is stored
+      const uploadQuality = await checkImageQuality(imageBuffers.map((image) => image.buffer));
+      if (uploadQuality.unreadable.length > 0) {
+        return {
+          success: false,
+          error: uploadQuality.unreadable.map((index) => `Image ${index + 1}: File could not be read as an image`).join(', '),
+        };
+      }
+
+      // Upload new images to the configured storage
+      const { storeImages } = await import('@/lib/storage');
+
+      const uploadedUrls = await storeImages(imageBuffers);
+      const imageUrls = applyImageOrder(order, uploadedUrls);
+
+      if (imageUrls.join('\n') !== listing.images.join('\n')) {
+        const loadEditedImage = async (url: string) => {
+          const uploadIndex = uploadedUrls.indexOf(url);
+          return uploadIndex >= 0 ? imageBuffers[uploadIndex].buffer : loadImage(url);
+        };
+
+        // The cover may have changed, so hash the leading photos again
+        const imageHashes = await hashListingImages(imageUrls, loadEditedImage);
+
+        // Kept photos that can no longer be loaded are left out of the checks
+        const imageQuality = await checkImageQuality(
+          await Promise.all(imageUrls.map((url) => loadEditedImage(url).catch(() => Buffer.alloc(0))))
+        );
+
+        updates.images = imageUrls;
+        updates.imageHashes = imageHashes;
+        updates.imageQualityFlags = imageQuality.flags;
+      }
     }
 
-    // Update listing
-    await Listing.findByIdAndUpdate(listingId, updates);
+    const previousImages: string[] = listing.images;
+
+    if (resubmit) {
+      // Send the edited listing back to the moderation queue
+      await transitionListing(
+        listing,
+        'pending',
+        {
+          actor: session.user.id,
+          actorRole: 'seller',
+          reason: 'Resubmitted after edits',
+        },
+        { $set: updates, $inc: { resubmissionCount: 1 }, $push: priceChange?.$push }
+      );
+    } else {
+      // Update listing
+      await Listing.findByIdAndUpdate(listingId, {
+        $set: updates,
+        ...(priceChange?.$push && { $push: priceChange.$push }),
+      });
+    }
+
+    // Clean up the photos this edit replaced
+    if (updates.images) {
+      await deleteUnreferencedImages(previousImages.filter((url) => !updates.images.includes(url)));
+    }
 
     return {
       success: true,
-      message: 'Listing updated successfully',
+      message: resubmit ? 'Listing resubmitted for approval' : 'Listing updated successfully',
+      ...(updates.imageQualityFlags && { warnings: updates.imageQualityFlags.map(describeImageQualityFlag) }),
     };
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return {
+        success: false,
+        error: error.message,
+        code: error.code,
+      };
+    }
     console.error('Error updating listing:', error);
     return {
       success: false,
@@ -460,13 +670,23 @@ export async function markAsSold(listingId: string): Promise<ActionResult> {
     }
 
     // Update status to sold
-    await Listing.findByIdAndUpdate(listingId, { status: 'sold' });
+    await transitionListing(listing, 'sold', {
+      actor: session.user.id,
+      actorRole: 'seller',
+    });
 
     return {
       success: true,
       message: 'Listing marked as sold',
     };
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return {
+        success: false,
+        error: error.message,
+        code: error.code,
+      };
+    }
     console.error('Error marking listing as sold:', error);
     return {
       success: false,
@@ -475,6 +695,71 @@ export async function markAsSold(listingId: string): Promise<ActionResult> {
   }
 }
 
+/**
+ * Pause or resume a live listing
+ * Only the owner can pause their listing; paused listings are hidden from buyers
+ */
+export async function setListingPaused(listingId: string, paused: boolean): Promise<ActionResult> {
+  try {
+    const session = await getServerSession();
+    
+    if (!session || !session.user) {
+      return {
+        success: false,
+        error: 'You must be signed in to update a listing',
+      };
+    }
+
+    if (!session.user.profileComplete) {
+      return {
+        success: false,
+        error: 'Please complete your profile first',
+      };
+    }
+
+    await connectDB();
+
+    // Check if listing exists and belongs to user
+    const listing = await Listing.findById(listingId);
+    if (!listing) {
+      return {
+        success: false,
+        error: 'Listing not found',
+      };
+    }
+
+    if (listing.sellerId.toString() !== session.user.id) {
+      return {
+        success: false,
+        error: 'You can only update your own listings',
+      };
+    }
+
+    await transitionListing(listing, paused ? 'paused' : 'approved', {
+      actor: session.user.id,
+      actorRole: 'seller',
+    });
+
+    return {
+      success: true,
+      message: paused ? 'Listing paused' : 'Listing resumed',
+    };
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return {
+        success: false,
+        error: error.message,
+        code: error.code,
+      };
+    }
+    console.error('Error pausing listing:', error);
+    return {
+      success: false,
+      error: 'An error occurred while updating the listing',
+    };
+  }
+}
+
 /**
  * Delete a listing
  * Only the owner can delete their listing
@@ -521,6 +806,12 @@ export async function deleteListing(listingId: string): Promise<ActionResult> {
     // Delete associated interests
     await Interest.deleteMany({ listingId });
 
+    // Remove it from buyers' saved cars
+    await Favourite.deleteMany({ listingId });
+
+    // Delete its photos unless another listing shares them
+    await deleteUnreferencedImages(listing.images);
+
     return {
       success: true,
       message: 'Listing deleted successfully',
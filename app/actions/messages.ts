@@ -0,0 +1,416 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Listing from '@/lib/models/Listing';
+import User from '@/lib/models/User';
+import Conversation from '@/lib/models/Conversation';
+import Message from '@/lib/models/Message';
+import { messageSchema, sanitizeString } from '@/lib/validation';
+import { maskOwnerName, maskContactDetails } from '@/lib/utils';
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: any;
+}
+
+/**
+ * Resolve the signed-in user for messaging actions
+ * Returns an error result when the user cannot use messaging
+ */
+async function getMessagingUser(): Promise<{ userId: string } | { error: ActionResult }> {
+  const session = await getServerSession();
+
+  if (!session || !session.user) {
+    return {
+      error: {
+        success: false,
+        error: 'You must be signed in to use messages',
+      },
+    };
+  }
+
+  if (!session.user.profileComplete) {
+    return {
+      error: {
+        success: false,
+        error: 'Please complete your profile first',
+      },
+    };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * Start (or reopen) a conversation with the seller of a listing
+ * Optionally sends the first message in the same call
+ */
+export async function startConversation(
+  listingId: string,
+  initialMessage?: string
+): Promise<ActionResult> {
+  try {
+    const auth = await getMessagingUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const listing = await Listing.findById(listingId);
+    if (!listing || listing.status !== 'approved') {
+      return {
+        success: false,
+        error: 'Listing not found',
+      };
+    }
+
+    if (listing.sellerId.toString() === auth.userId) {
+      return {
+        success: false,
+        error: 'You cannot message yourself about your own listing',
+      };
+    }
+
+    // Reuse the existing thread for this buyer and listing
+    let conversation = await Conversation.findOne({
+      listingId,
+      buyerId: auth.userId,
+    });
+
+    if (!conversation) {
+      conversation = await Conversation.create({
+        listingId,
+        buyerId: auth.userId,
+        sellerId: listing.sellerId,
+      });
+    }
+
+    const conversationId = conversation._id.toString();
+
+    if (initialMessage && initialMessage.trim()) {
+      const sendResult = await sendMessage(conversationId, initialMessage);
+      if (!sendResult.success) {
+        return sendResult;
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Conversation started',
+      data: {
+        conversationId,
+      },
+    };
+  } catch (error) {
+    console.error('Error starting conversation:', error);
+    return {
+      success: false,
+      error: 'An error occurred while starting the conversation',
+    };
+  }
+}
+
+/**
+ * Send a message in a conversation
+ * Only the buyer and seller of the conversation can send messages
+ */
+export async function sendMessage(conversationId: string, body: string): Promise<ActionResult> {
+  try {
+    const auth = await getMessagingUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    const validationResult = messageSchema.safeParse({ body: sanitizeString(body) });
+    if (!validationResult.success) {
+      return {
+        success: false,
+        error: validationResult.error.errors[0].message,
+      };
+    }
+
+    await connectDB();
+
+    const conversation = await Conversation.findById(conversationId);
+    if (!conversation) {
+      return {
+        success: false,
+        error: 'Conversation not found',
+      };
+    }
+
+    const isBuyer = conversation.buyerId.toString() === auth.userId;
+    const isSeller = conversation.sellerId.toString() === auth.userId;
+
+    if (!isBuyer && !isSeller) {
+      return {
+        success: false,
+        error: 'You are not part of this conversation',
+      };
+    }
+
+    const message = await Message.create({
+      conversationId,
+      senderId: auth.userId,
+      body: validationResult.data.body,
+    });
+
+    // Bump the thread and the other participant's unread count
+    await Conversation.findByIdAndUpdate(conversationId, {
+      lastMessageAt: message.createdAt,
+      lastMessagePreview: validationResult.data.body.slice(0, 100),
+      $inc: isBuyer ? { sellerUnreadCount: 1 } : { buyerUnreadCount: 1 },
+    });
+
+    return {
+      success: true,
+      message: 'Message sent',
+      data: {
+        messageId: message._id.toString(),
+      },
+    };
+  } catch (error) {
+    console.error('Error sending message:', error);
+    return {
+      success: false,
+      error: 'An error occurred while sending the message',
+    };
+  }
+}
+
+/**
+ * Get the signed-in user's conversations, newest first
+ * Counterpart names are masked unless the seller has revealed contact details
+ */
+export async function getConversations(): Promise<ActionResult> {
+  try {
+    const auth = await getMessagingUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const conversations = await Conversation.find({
+      $or: [{ buyerId: auth.userId }, { sellerId: auth.userId }],
+    })
+      .sort({ lastMessageAt: -1 })
+      .populate('listingId', 'brand carModel images price')
+      .populate('buyerId', 'fullName')
+      .populate('sellerId', 'fullName')
+      .lean();
+
+    const data = conversations.map((conversation) => {
+      const listing = conversation.listingId as any;
+      const buyer = conversation.buyerId as any;
+      const seller = conversation.sellerId as any;
+      const isBuyer = buyer?._id?.toString() === auth.userId;
+      const counterpart = isBuyer ? seller : buyer;
+      const showFullName = isBuyer && conversation.contactRevealed;
+      const preview = conversation.contactRevealed
+        ? conversation.lastMessagePreview
+        : maskContactDetails(conversation.lastMessagePreview);
+
+      return {
+        _id: conversation._id.toString(),
+        role: isBuyer ? 'buyer' : 'seller',
+        listing: listing
+          ? {
+              _id: listing._id.toString(),
+              brand: listing.brand,
+              carModel: listing.carModel,
+              image: listing.images?.[0] || null,
+              price: listing.price,
+            }
+          : null,
+        counterpartName: counterpart?.fullName
+          ? showFullName
+            ? counterpart.fullName
+            : maskOwnerName(counterpart.fullName)
+          : 'User',
+        contactRevealed: conversation.contactRevealed,
+        lastMessageAt: conversation.lastMessageAt,
+        lastMessagePreview: preview,
+        unreadCount: isBuyer ? conversation.buyerUnreadCount : conversation.sellerUnreadCount,
+      };
+    });
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return {
+      success: false,
+      error: 'An error occurred while loading your messages',
+    };
+  }
+}
+
+/**
+ * Get the messages in a conversation and mark incoming ones as read
+ * Seller contact details are only included once the seller reveals them
+ */
+export async function getMessages(conversationId: string): Promise<ActionResult> {
+  try {
+    const auth = await getMessagingUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const conversation = await Conversation.findById(conversationId);
+    if (!conversation) {
+      return {
+        success: false,
+        error: 'Conversation not found',
+      };
+    }
+
+    const isBuyer = conversation.buyerId.toString() === auth.userId;
+    const isSeller = conversation.sellerId.toString() === auth.userId;
+
+    if (!isBuyer && !isSeller) {
+      return {
+        success: false,
+        error: 'You are not part of this conversation',
+      };
+    }
+
+    const messages = await Message.find({ conversationId })
+      .sort({ createdAt: 1 })
+      .lean();
+
+    // Mark the other participant's messages as read
+    await Message.updateMany(
+      { conversationId, senderId: { $ne: auth.userId }, readAt: null },
+      { readAt: new Date() }
+    );
+    await Conversation.findByIdAndUpdate(
+      conversationId,
+      isBuyer ? { buyerUnreadCount: 0 } : { sellerUnreadCount: 0 }
+    );
+
+    let sellerContact = null;
+    if (isBuyer && conversation.contactRevealed) {
+      const seller = await User.findById(conversation.sellerId).lean();
+      if (seller) {
+        sellerContact = {
+          fullName: seller.fullName,
+          email: seller.email,
+          mobileNumber: seller.mobileNumber,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        conversationId,
+        role: isBuyer ? 'buyer' : 'seller',
+        contactRevealed: conversation.contactRevealed,
+        sellerContact,
+        messages: messages.map((message) => ({
+          _id: message._id.toString(),
+          body: conversation.contactRevealed ? message.body : maskContactDetails(message.body),
+          mine: message.senderId.toString() === auth.userId,
+          readAt: message.readAt || null,
+          createdAt: message.createdAt,
+        })),
+      },
+    };
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    return {
+      success: false,
+      error: 'An error occurred while loading the conversation',
+    };
+  }
+}
+
+/**
+ * Reveal the seller's contact details to the buyer
+ * Only the seller of the conversation can reveal their contact details
+ */
+export async function revealContact(conversationId: string): Promise<ActionResult> {
+  try {
+    const auth = await getMessagingUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const conversation = await Conversation.findById(conversationId);
+    if (!conversation) {
+      return {
+        success: false,
+        error: 'Conversation not found',
+      };
+    }
+
+    if (conversation.sellerId.toString() !== auth.userId) {
+      return {
+        success: false,
+        error: 'Only the seller can reveal contact details',
+      };
+    }
+
+    await Conversation.findByIdAndUpdate(conversationId, { contactRevealed: true });
+
+    return {
+      success: true,
+      message: 'Contact details shared with the buyer',
+    };
+  } catch (error) {
+    console.error('Error revealing contact details:', error);
+    return {
+      success: false,
+      error: 'An error occurred while sharing contact details',
+    };
+  }
+}
+
+/**
+ * Get the total number of unread messages for the signed-in user
+ */
+export async function getUnreadMessageCount(): Promise<ActionResult> {
+  try {
+    const auth = await getMessagingUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const conversations = await Conversation.find({
+      $or: [{ buyerId: auth.userId }, { sellerId: auth.userId }],
+    })
+      .select('buyerId buyerUnreadCount sellerUnreadCount')
+      .lean();
+
+    const unreadCount = conversations.reduce((total, conversation) => {
+      const isBuyer = conversation.buyerId.toString() === auth.userId;
+      return total + (isBuyer ? conversation.buyerUnreadCount : conversation.sellerUnreadCount);
+    }, 0);
+
+    return {
+      success: true,
+      data: {
+        unreadCount,
+      },
+    };
+  } catch (error) {
+    console.error('Error counting unread messages:', error);
+    return {
+      success: false,
+      error: 'An error occurred while counting unread messages',
+    };
+  }
+}
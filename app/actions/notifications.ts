@@ -0,0 +1,120 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Notification from '@/lib/models/Notification';
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: any;
+}
+
+/**
+ * Get the signed-in user's notification feed, newest first
+ */
+export async function getNotifications(limit = 20): Promise<ActionResult> {
+  try {
+    const session = await getServerSession();
+    if (!session || !session.user) {
+      return {
+        success: false,
+        error: 'You must be signed in to view notifications',
+      };
+    }
+
+    await connectDB();
+
+    const notifications = await Notification.find({ userId: session.user.id })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), 100))
+      .lean();
+
+    return {
+      success: true,
+      data: notifications.map((notification) => ({
+        _id: notification._id.toString(),
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        link: notification.link,
+        read: !!notification.readAt,
+        createdAt: notification.createdAt.toISOString(),
+      })),
+    };
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching notifications',
+    };
+  }
+}
+
+/**
+ * Mark all of the signed-in user's notifications as read
+ */
+export async function markNotificationsRead(): Promise<ActionResult> {
+  try {
+    const session = await getServerSession();
+    if (!session || !session.user) {
+      return {
+        success: false,
+        error: 'You must be signed in to update notifications',
+      };
+    }
+
+    await connectDB();
+
+    await Notification.updateMany(
+      { userId: session.user.id, readAt: { $exists: false } },
+      { readAt: new Date() }
+    );
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return {
+      success: false,
+      error: 'An error occurred while updating notifications',
+    };
+  }
+}
+
+/**
+ * Count unread notifications for the navbar badge
+ */
+export async function getUnreadNotificationCount(): Promise<ActionResult> {
+  try {
+    const session = await getServerSession();
+    if (!session || !session.user) {
+      return {
+        success: false,
+        error: 'You must be signed in to view notifications',
+      };
+    }
+
+    await connectDB();
+
+    const unreadCount = await Notification.countDocuments({
+      userId: session.user.id,
+      readAt: { $exists: false },
+    });
+
+    return {
+      success: true,
+      data: {
+        unreadCount,
+      },
+    };
+  } catch (error) {
+    console.error('Error counting notifications:', error);
+    return {
+      success: false,
+      error: 'An error occurred while counting notifications',
+    };
+  }
+}
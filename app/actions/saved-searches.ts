@@ -0,0 +1,223 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import SavedSearch from '@/lib/models/SavedSearch';
+import { parseFilterCriteria, toSearchParams } from '@/lib/listing-search';
+import { savedSearchCriteria } from '@/lib/saved-search-alerts';
+import { savedSearchSchema, sanitizeString } from '@/lib/validation';
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: any;
+}
+
+// Keeps the alert job bounded per user
+const MAX_SAVED_SEARCHES = 20;
+
+/**
+ * Resolve the signed-in user for saved search actions
+ * Returns an error result when the user cannot save searches
+ */
+async function getSearchUser(): Promise<{ userId: string } | { error: ActionResult }> {
+  const session = await getServerSession();
+
+  if (!session || !session.user) {
+    return {
+      error: {
+        success: false,
+        error: 'You must be signed in to save searches',
+      },
+    };
+  }
+
+  if (!session.user.profileComplete) {
+    return {
+      error: {
+        success: false,
+        error: 'Please complete your profile first',
+      },
+    };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * Save the current /buy-car search under a name
+ * @param name Name shown in My Garage
+ * @param params The /buy-car query string parameters
+ */
+export async function saveSearch(
+  name: string,
+  params: Record<string, string>
+): Promise<ActionResult> {
+  try {
+    const auth = await getSearchUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    const validationResult = savedSearchSchema.safeParse({ name: sanitizeString(name) });
+    if (!validationResult.success) {
+      return {
+        success: false,
+        error: validationResult.error.errors[0].message,
+      };
+    }
+
+    await connectDB();
+
+    const count = await SavedSearch.countDocuments({ userId: auth.userId });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return {
+        success: false,
+        error: `You can save up to ${MAX_SAVED_SEARCHES} searches`,
+      };
+    }
+
+    const criteria = parseFilterCriteria(params);
+    const savedSearch = await SavedSearch.create({
+      userId: auth.userId,
+      name: validationResult.data.name,
+      searchQuery: criteria.searchQuery,
+      brands: criteria.brands || [],
+      cities: criteria.cities || [],
+      fuelTypes: criteria.fuelTypes || [],
+      transmissions: criteria.transmissions || [],
+      priceMin: criteria.priceMin,
+      priceMax: criteria.priceMax,
+      yearMin: criteria.yearMin,
+      yearMax: criteria.yearMax,
+      lastCheckedAt: new Date(),
+    });
+
+    return {
+      success: true,
+      message: 'Search saved. We will let you know about new matches.',
+      data: {
+        savedSearchId: savedSearch._id.toString(),
+      },
+    };
+  } catch (error) {
+    console.error('Error saving search:', error);
+    return {
+      success: false,
+      error: 'An error occurred while saving the search',
+    };
+  }
+}
+
+/**
+ * Get the signed-in user's saved searches
+ */
+export async function getSavedSearches(): Promise<ActionResult> {
+  try {
+    const auth = await getSearchUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const searches = await SavedSearch.find({ userId: auth.userId }).sort({ createdAt: -1 }).lean();
+
+    return {
+      success: true,
+      data: searches.map((search) => {
+        const criteria = savedSearchCriteria(search);
+        return {
+          _id: search._id.toString(),
+          name: search.name,
+          criteria,
+          href: `/buy-car?${toSearchParams(criteria).toString()}`,
+          alertsEnabled: search.alertsEnabled,
+          createdAt: search.createdAt.toISOString(),
+        };
+      }),
+    };
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching saved searches',
+    };
+  }
+}
+
+/**
+ * Turn new-match alerts on or off for a saved search
+ */
+export async function setSavedSearchAlerts(
+  savedSearchId: string,
+  enabled: boolean
+): Promise<ActionResult> {
+  try {
+    const auth = await getSearchUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    // Matches approved while alerts were off are not sent when they are turned back on
+    const result = await SavedSearch.updateOne(
+      { _id: savedSearchId, userId: auth.userId },
+      enabled ? { alertsEnabled: true, lastCheckedAt: new Date() } : { alertsEnabled: false }
+    );
+
+    if (result.matchedCount === 0) {
+      return {
+        success: false,
+        error: 'Saved search not found',
+      };
+    }
+
+    return {
+      success: true,
+      message: enabled ? 'Alerts turned on' : 'Alerts turned off',
+    };
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    return {
+      success: false,
+      error: 'An error occurred while updating the saved search',
+    };
+  }
+}
+
+/**
+ * Delete a saved search
+ * Only the owner can delete it
+ */
+export async function deleteSavedSearch(savedSearchId: string): Promise<ActionResult> {
+  try {
+    const auth = await getSearchUser();
+    if ('error' in auth) {
+      return auth.error;
+    }
+
+    await connectDB();
+
+    const result = await SavedSearch.deleteOne({ _id: savedSearchId, userId: auth.userId });
+    if (result.deletedCount === 0) {
+      return {
+        success: false,
+        error: 'Saved search not found',
+      };
+    }
+
+    return {
+      success: true,
+      message: 'Saved search deleted',
+    };
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return {
+      success: false,
+      error: 'An error occurred while deleting the saved search',
+    };
+  }
+}
@@ -0,0 +1,224 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import ScrapeJob from '@/lib/models/ScrapeJob';
+import { requireRole } from '@/lib/roles';
+import {
+  canCancelScrapeJob,
+  canRerunScrapeJob,
+  startScrapeWorker,
+  toScrapeJobView,
+} from '@/lib/scrape-jobs';
+import { scrapeJobSchema } from '@/lib/validation';
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: any;
+}
+
+// Jobs shown on the admin scraper page
+const RECENT_JOB_LIMIT = 20;
+
+/**
+ * Resolve the staff member allowed to run the scraper
+ * Returns an error result when the user cannot run scrape jobs
+ */
+async function getScraperStaff(): Promise<{ email: string } | { error: ActionResult }> {
+  const session = await getServerSession(authOptions);
+
+  const access = requireRole(session?.user, 'scraper:run');
+  if (!access.allowed) {
+    return {
+      error: {
+        success: false,
+        error: access.error,
+      },
+    };
+  }
+
+  return { email: access.email };
+}
+
+/**
+ * Queue a scrape of a single page or a multi-page crawl
+ * The job runs in the background; poll getScrapeJobs for progress
+ */
+export async function enqueueScrapeJob(input: unknown): Promise<ActionResult> {
+  try {
+    const staff = await getScraperStaff();
+    if ('error' in staff) {
+      return staff.error;
+    }
+
+    const validationResult = scrapeJobSchema.safeParse(input);
+    if (!validationResult.success) {
+      return {
+        success: false,
+        error: validationResult.error.errors[0].message,
+      };
+    }
+
+    const { url, mode, crawlOptions } = validationResult.data;
+
+    await connectDB();
+
+    const job = await ScrapeJob.create({
+      url,
+      mode,
+      crawlOptions: mode === 'crawl' ? crawlOptions || {} : undefined,
+      createdByEmail: staff.email,
+    });
+
+    startScrapeWorker();
+
+    return {
+      success: true,
+      message: 'Scrape job queued',
+      data: toScrapeJobView(job),
+    };
+  } catch (error) {
+    console.error('Error queueing scrape job:', error);
+    return {
+      success: false,
+      error: 'An error occurred while queueing the scrape job',
+    };
+  }
+}
+
+/**
+ * Most recent scrape jobs, newest first
+ */
+export async function getScrapeJobs(): Promise<ActionResult> {
+  try {
+    const staff = await getScraperStaff();
+    if ('error' in staff) {
+      return staff.error;
+    }
+
+    await connectDB();
+
+    const jobs = await ScrapeJob.find()
+      .sort({ createdAt: -1 })
+      .limit(RECENT_JOB_LIMIT)
+      .lean();
+
+    return {
+      success: true,
+      data: jobs.map(toScrapeJobView),
+    };
+  } catch (error) {
+    console.error('Error fetching scrape jobs:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching scrape jobs',
+    };
+  }
+}
+
+/**
+ * Stop a queued or running job. A running crawl stops within a few
+ * seconds and keeps the cars it already collected.
+ */
+export async function cancelScrapeJob(jobId: string): Promise<ActionResult> {
+  try {
+    const staff = await getScraperStaff();
+    if ('error' in staff) {
+      return staff.error;
+    }
+
+    await connectDB();
+
+    const job = await ScrapeJob.findById(jobId);
+    if (!job) {
+      return {
+        success: false,
+        error: 'Scrape job not found',
+      };
+    }
+
+    if (!canCancelScrapeJob(job.status)) {
+      return {
+        success: false,
+        error: `A ${job.status} job cannot be cancelled`,
+      };
+    }
+
+    // Conditional so a job that finished in the meantime keeps its status
+    const cancelled = await ScrapeJob.updateOne(
+      { _id: job._id, status: { $in: ['queued', 'running'] } },
+      { $set: { status: 'cancelled', finishedAt: new Date() } }
+    );
+    if (cancelled.matchedCount === 0) {
+      return {
+        success: false,
+        error: 'The job finished before it could be cancelled',
+      };
+    }
+
+    return {
+      success: true,
+      message: 'Scrape job cancelled',
+    };
+  } catch (error) {
+    console.error('Error cancelling scrape job:', error);
+    return {
+      success: false,
+      error: 'An error occurred while cancelling the scrape job',
+    };
+  }
+}
+
+/**
+ * Queue a finished job again with the same URL and options
+ */
+export async function rerunScrapeJob(jobId: string): Promise<ActionResult> {
+  try {
+    const staff = await getScraperStaff();
+    if ('error' in staff) {
+      return staff.error;
+    }
+
+    await connectDB();
+
+    const job = await ScrapeJob.findById(jobId).lean();
+    if (!job) {
+      return {
+        success: false,
+        error: 'Scrape job not found',
+      };
+    }
+
+    if (!canRerunScrapeJob(job.status)) {
+      return {
+        success: false,
+        error: 'Only finished jobs can be re-run',
+      };
+    }
+
+    const rerun = await ScrapeJob.create({
+      url: job.url,
+      mode: job.mode,
+      crawlOptions: job.crawlOptions,
+      createdByEmail: staff.email,
+      rerunOf: job._id,
+    });
+
+    startScrapeWorker();
+
+    return {
+      success: true,
+      message: 'Scrape job queued again',
+      data: toScrapeJobView(rerun),
+    };
+  } catch (error) {
+    console.error('Error re-running scrape job:', error);
+    return {
+      success: false,
+      error: 'An error occurred while re-running the scrape job',
+    };
+  }
+}
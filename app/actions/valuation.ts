@@ -0,0 +1,58 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import { valueCar } from '@/lib/comparable-listings';
+import { sanitizeObject, valuationInputSchema } from '@/lib/validation';
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: any;
+}
+
+/**
+ * Estimate a fair asking price for a car from comparable listings
+ * @param input Car details from the sell form
+ */
+export async function estimateFairPrice(input: Record<string, unknown>): Promise<ActionResult> {
+  try {
+    const session = await getServerSession();
+
+    if (!session || !session.user) {
+      return {
+        success: false,
+        error: 'You must be signed in to get a price estimate',
+      };
+    }
+
+    const validationResult = valuationInputSchema.safeParse(sanitizeObject(input));
+    if (!validationResult.success) {
+      return {
+        success: false,
+        error: validationResult.error.errors[0].message,
+      };
+    }
+
+    const valuation = await valueCar(validationResult.data);
+
+    if (!valuation) {
+      return {
+        success: true,
+        message: 'Not enough similar cars have been listed yet to estimate a price',
+        data: null,
+      };
+    }
+
+    return {
+      success: true,
+      data: valuation,
+    };
+  } catch (error) {
+    console.error('Error estimating price:', error);
+    return {
+      success: false,
+      error: 'An error occurred while estimating the price',
+    };
+  }
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { dismissDuplicate, getDuplicateFlags, mergeDuplicate } from '@/app/actions/duplicates';
+import type { DuplicateField } from '@/lib/duplicate-detection';
+import { imageVariantUrl } from '@/lib/image-variants';
+
+interface ReviewListing {
+  _id: string;
+  brand: string;
+  carModel: string;
+  variant?: string;
+  yearOfOwnership: number;
+  kmDriven: number;
+  price: number;
+  city: string;
+  images: string[];
+  status: string;
+  source?: 'user' | 'scraped';
+  sourceUrl?: string;
+  sourceSite?: string;
+  createdAt: string;
+}
+
+interface DuplicateFlagView {
+  _id: string;
+  listingId: ReviewListing;
+  duplicateOfId: ReviewListing;
+  score: number;
+  breakdown: Partial<Record<DuplicateField, number>>;
+  createdAt: string;
+}
+
+const FIELD_LABELS: Record<DuplicateField, string> = {
+  brand: 'Brand',
+  carModel: 'Model',
+  variant: 'Variant',
+  year: 'Year',
+  kmDriven: 'KM',
+  price: 'Price',
+  city: 'City',
+  images: 'Photos',
+};
+
+function ListingCard({
+  listing,
+  label,
+  disabled,
+  onKeep,
+}: {
+  listing: ReviewListing;
+  label: string;
+  disabled: boolean;
+  onKeep: () => void;
+}) {
+  return (
+    <div className="flex-1 bg-gray-900 rounded-lg p-4 border border-gray-700">
+      <p className="text-gray-500 text-xs uppercase mb-2">{label}</p>
+      <div className="flex gap-2 mb-3 overflow-x-auto">
+        {listing.images.slice(0, 3).map((image) => (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img key={image} src={imageVariantUrl(image, 'thumbnail')} alt="" className="h-20 w-28 object-cover rounded" />
+        ))}
+      </div>
+      <h3 className="text-white font-bold">
+        {listing.brand} {listing.carModel} {listing.variant}
+      </h3>
+      <p className="text-gray-400 text-sm">
+        {listing.yearOfOwnership} • {listing.kmDriven.toLocaleString('en-IN')} km • {listing.city}
+      </p>
+      <p className="text-cyan-400 font-bold mt-1">₹{listing.price.toLocaleString('en-IN')}</p>
+      <p className="text-gray-500 text-xs mt-2">
+        <span className="uppercase">{listing.status}</span> •{' '}
+        {listing.source === 'scraped' ? (
+          listing.sourceUrl ? (
+            <a href={listing.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">
+              {listing.sourceSite || 'Scraped'}
+            </a>
+          ) : (
+            'Scraped'
+          )
+        ) : (
+          'User submission'
+        )}{' '}
+        • {new Date(listing.createdAt).toLocaleDateString()} • ...{listing._id.slice(-6)}
+      </p>
+      <button
+        onClick={onKeep}
+        disabled={disabled}
+        className="mt-3 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded transition-colors disabled:opacity-50"
+      >
+        Keep this one
+      </button>
+    </div>
+  );
+}
+
+export default function DuplicateListingsPage() {
+  const router = useRouter();
+  const [flags, setFlags] = useState<DuplicateFlagView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchFlags();
+  }, []);
+
+  const fetchFlags = async () => {
+    setLoading(true);
+    const result = await getDuplicateFlags();
+    if (result.success) {
+      setFlags(result.data || []);
+    } else {
+      setError(result.error || 'Failed to load possible duplicates');
+    }
+    setLoading(false);
+  };
+
+  const resolve = async (flagId: string, action: () => Promise<{ success: boolean; error?: string }>) => {
+    try {
+      setProcessingId(flagId);
+      const result = await action();
+
+      if (result.success) {
+        setFlags(prev => prev.filter(flag => flag._id !== flagId));
+      } else {
+        alert(result.error || 'Failed to resolve duplicate');
+      }
+    } catch (err) {
+      console.error('Error resolving duplicate:', err);
+      alert('An error occurred');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleMerge = (flag: DuplicateFlagView, keep: ReviewListing) => {
+    if (!confirm('Keep this listing and take the other one off the marketplace?')) {
+      return;
+    }
+    resolve(flag._id, () => mergeDuplicate(flag._id, keep._id));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="text-cyan-400 text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-white mb-2">Possible Duplicates</h1>
+            <p className="text-gray-400">Listings that look like the same car</p>
+          </div>
+          <button
+            onClick={() => router.push('/admin/listings')}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            ← Back to Listings
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        {flags.length === 0 ? (
+          <div className="bg-gray-800 rounded-lg p-12 border border-gray-700 text-center">
+            <h2 className="text-2xl font-bold text-white mb-2">No possible duplicates</h2>
+            <p className="text-gray-400">Flagged listings will show up here for review.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {flags.map((flag) => (
+              <div key={flag._id} className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <span className="text-xl font-bold text-yellow-400">
+                    {Math.round(flag.score * 100)}% match
+                  </span>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.entries(flag.breakdown) as [DuplicateField, number][]).map(([field, similarity]) => (
+                      <span key={field} className="px-2 py-1 bg-gray-700 text-gray-300 text-xs rounded">
+                        {FIELD_LABELS[field]} {Math.round(similarity * 100)}%
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-col md:flex-row gap-4">
+                  <ListingCard
+                    listing={flag.listingId}
+                    label="New listing"
+                    disabled={processingId === flag._id}
+                    onKeep={() => handleMerge(flag, flag.listingId)}
+                  />
+                  <ListingCard
+                    listing={flag.duplicateOfId}
+                    label="Existing listing"
+                    disabled={processingId === flag._id}
+                    onKeep={() => handleMerge(flag, flag.duplicateOfId)}
+                  />
+                </div>
+
+                <div className="flex mt-4 pt-4 border-t border-gray-700">
+                  <button
+                    onClick={() => resolve(flag._id, () => dismissDuplicate(flag._id))}
+                    disabled={processingId === flag._id}
+                    className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 text-white text-sm font-medium rounded transition-colors disabled:opacity-50 ml-auto"
+                  >
+                    Not a duplicate
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,24 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { deleteListing, updateListingStatus } from '@/app/actions/admin';
+import { imageVariantUrl } from '@/lib/image-variants';
+import { deleteListing, rejectListing, updateListingStatus } from '@/app/actions/admin';
 import EditListingModal from '@/app/components/EditListingModal';
+import RejectListingDialog from '@/app/components/RejectListingDialog';
+import { getAllowedTransitions, ListingStatus } from '@/lib/listing-status';
+import { hasPermission } from '@/lib/roles';
+import { getImageQualityIssue, ImageQualityFlag } from '@/lib/image-quality-issues';
+import { useSession } from 'next-auth/react';
+
+// Button label and colour for each target status
+const TRANSITION_ACTIONS: Record<ListingStatus, { label: string; className: string }> = {
+  pending: { label: 'Reopen', className: 'bg-yellow-600 hover:bg-yellow-700' },
+  approved: { label: 'Approve', className: 'bg-green-600 hover:bg-green-700' },
+  rejected: { label: 'Reject', className: 'bg-red-700 hover:bg-red-800' },
+  sold: { label: 'Mark Sold', className: 'bg-blue-600 hover:bg-blue-700' },
+  expired: { label: 'Expire', className: 'bg-gray-600 hover:bg-gray-500' },
+  paused: { label: 'Pause', className: 'bg-orange-600 hover:bg-orange-700' },
+};
 
 interface Listing {
   _id: string;
@@ -23,20 +39,34 @@ interface Listing {
     email: string;
   };
   createdAt: string;
+  resubmissionCount?: number;
   fuelType?: string;
   transmission?: string;
   yearOfOwnership?: number;
   numberOfOwners?: number;
   kmDriven?: number;
+  imageQualityFlags?: ImageQualityFlag[];
+  registration?: {
+    number: string;
+    status: 'verified' | 'unconfirmed';
+    verifiedAt: string;
+  };
+  sourceReview?: {
+    reason: string;
+    flaggedAt: string;
+  };
 }
 
 export default function AdminListingsPage() {
   const router = useRouter();
+  const { data: session } = useSession();
+  const canManage = hasPermission(session?.user?.role, 'listings:manage');
   const [listings, setListings] = useState<Listing[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [editingListing, setEditingListing] = useState<Listing | null>(null);
+  const [rejectingListing, setRejectingListing] = useState<Listing | null>(null);
 
   useEffect(() => {
     fetchListings();
@@ -105,6 +135,32 @@ export default function AdminListingsPage() {
     }
   };
 
+  const handleReject = async (reasons: string[], note: string) => {
+    if (!rejectingListing) return;
+    const listingId = rejectingListing._id;
+
+    try {
+      setProcessingId(listingId);
+      const result = await rejectListing(listingId, reasons, note || undefined);
+
+      if (result.success) {
+        setListings(prev => prev.map(listing =>
+          listing._id === listingId
+            ? { ...listing, status: 'rejected' }
+            : listing
+        ));
+        setRejectingListing(null);
+      } else {
+        alert(result.error || 'Failed to reject listing');
+      }
+    } catch (err) {
+      console.error('Error rejecting listing:', err);
+      alert('An error occurred');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
   const handleEditSave = (updatedListing: any) => {
     setListings(prev => prev.map(listing =>
       listing._id === updatedListing._id
@@ -131,12 +187,20 @@ export default function AdminListingsPage() {
             <h1 className="text-4xl font-bold text-white mb-2">Manage Listings</h1>
             <p className="text-gray-400">View and manage all car listings</p>
           </div>
-          <button
-            onClick={() => router.push('/admin')}
-            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
-          >
-            ← Back to Dashboard
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => router.push('/admin/listings/duplicates')}
+              className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg transition-colors"
+            >
+              Possible Duplicates
+            </button>
+            <button
+              onClick={() => router.push('/admin')}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+            >
+              ← Back to Dashboard
+            </button>
+          </div>
         </div>
 
         {error && (
@@ -164,7 +228,7 @@ export default function AdminListingsPage() {
                     <div className="relative h-48 md:h-full bg-gray-700">
                       {listing.images.length > 0 ? (
                         <Image
-                          src={listing.images[0]}
+                          src={imageVariantUrl(listing.images[0], 'medium')}
                           alt={`${listing.brand} ${listing.carModel}`}
                           fill
                           className="object-cover"
@@ -175,8 +239,8 @@ export default function AdminListingsPage() {
                         </div>
                       )}
                       <div className="absolute top-2 left-2">
-                        <span className={`px-2 py-1 rounded text-xs font-bold uppercase ${listing.status === 'active' || listing.status === 'approved' ? 'bg-green-500 text-white' :
-                            listing.status === 'inactive' ? 'bg-gray-500 text-white' :
+                        <span className={`px-2 py-1 rounded text-xs font-bold uppercase ${listing.status === 'approved' ? 'bg-green-500 text-white' :
+                            listing.status === 'paused' || listing.status === 'expired' ? 'bg-gray-500 text-white' :
                               listing.status === 'rejected' ? 'bg-red-500 text-white' :
                                 listing.status === 'sold' ? 'bg-blue-500 text-white' :
                                   'bg-yellow-500 text-black'
@@ -195,13 +259,18 @@ export default function AdminListingsPage() {
                           {listing.brand} {listing.carModel}
                         </h3>
                         <p className="text-gray-400 text-sm">{listing.variant} • {listing.yearOfOwnership}</p>
+                        {!!listing.resubmissionCount && (
+                          <p className="text-yellow-400 text-xs mt-1">
+                            Resubmitted {listing.resubmissionCount}×
+                          </p>
+                        )}
                       </div>
                       <span className="text-xl font-bold text-cyan-400">
                         ₹{listing.price.toLocaleString('en-IN')}
                       </span>
                     </div>
 
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
                       <div>
                         <p className="text-gray-500 text-xs uppercase">Location</p>
                         <p className="text-gray-300 text-sm">{listing.city}</p>
@@ -218,6 +287,19 @@ export default function AdminListingsPage() {
                           {new Date(listing.createdAt).toLocaleDateString()}
                         </p>
                       </div>
+                      <div>
+                        <p className="text-gray-500 text-xs uppercase">Registration</p>
+                        {listing.registration ? (
+                          <p
+                            className={`text-sm ${listing.registration.status === 'verified' ? 'text-green-400' : 'text-yellow-400'}`}
+                            title={`Checked ${new Date(listing.registration.verifiedAt).toLocaleString()}`}
+                          >
+                            {listing.registration.number} • {listing.registration.status === 'verified' ? 'Verified' : 'Unconfirmed'}
+                          </p>
+                        ) : (
+                          <p className="text-gray-500 text-sm">Not verified</p>
+                        )}
+                      </div>
                       <div>
                         <p className="text-gray-500 text-xs uppercase">ID</p>
                         <p className="text-gray-300 text-sm truncate" title={listing._id}>
@@ -226,40 +308,68 @@ export default function AdminListingsPage() {
                       </div>
                     </div>
 
+                    {/* Source sync could not tell whether the car was sold */}
+                    {listing.sourceReview && (listing.status === 'approved' || listing.status === 'paused') && (
+                      <p
+                        className="mb-4 px-3 py-2 bg-blue-900/40 border border-blue-700 text-blue-300 text-sm rounded"
+                        title={`Flagged ${new Date(listing.sourceReview.flaggedAt).toLocaleString()}`}
+                      >
+                        {listing.sourceReview.reason}. Check the source and mark it sold if it is.
+                      </p>
+                    )}
+
+                    {/* Photo quality flags from the upload checks */}
+                    {!!listing.imageQualityFlags?.length && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {listing.imageQualityFlags.map((flag) => (
+                          <span
+                            key={`${flag.image}-${flag.issue}`}
+                            title={getImageQualityIssue(flag.issue)?.hint}
+                            className="px-2 py-1 bg-yellow-900/40 border border-yellow-700 text-yellow-300 text-xs rounded"
+                          >
+                            Photo {flag.image + 1}: {getImageQualityIssue(flag.issue)?.label ?? flag.issue}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
                     {/* Actions */}
                     <div className="flex flex-wrap gap-3 mt-4 pt-4 border-t border-gray-700">
-                      <button
-                        onClick={() => setEditingListing(listing)}
-                        className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded transition-colors"
-                      >
-                        Edit
-                      </button>
+                      {canManage && (
+                        <button
+                          onClick={() => setEditingListing(listing)}
+                          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded transition-colors"
+                        >
+                          Edit
+                        </button>
+                      )}
 
-                      {listing.status === 'active' || listing.status === 'approved' ? (
+                      {getAllowedTransitions(listing.status).map((nextStatus) => (
                         <button
-                          onClick={() => handleStatusUpdate(listing._id, 'inactive')}
+                          key={nextStatus}
+                          onClick={() =>
+                            nextStatus === 'rejected'
+                              ? setRejectingListing(listing)
+                              : handleStatusUpdate(listing._id, nextStatus)
+                          }
                           disabled={processingId === listing._id}
-                          className="px-3 py-1.5 bg-yellow-600 hover:bg-yellow-700 text-white text-sm font-medium rounded transition-colors disabled:opacity-50"
+                          className={`px-3 py-1.5 text-white text-sm font-medium rounded transition-colors disabled:opacity-50 ${TRANSITION_ACTIONS[nextStatus].className}`}
                         >
-                          Deactivate
+                          {nextStatus === 'approved' && listing.status === 'paused'
+                            ? 'Resume'
+                            : TRANSITION_ACTIONS[nextStatus].label}
                         </button>
-                      ) : (
+                      ))}
+
+                      {canManage && (
                         <button
-                          onClick={() => handleStatusUpdate(listing._id, 'active')}
+                          onClick={() => handleDelete(listing._id)}
                           disabled={processingId === listing._id}
-                          className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded transition-colors disabled:opacity-50"
+                          className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded transition-colors disabled:opacity-50 ml-auto"
                         >
-                          Activate
+                          Delete
                         </button>
                       )}
-
-                      <button
-                        onClick={() => handleDelete(listing._id)}
-                        disabled={processingId === listing._id}
-                        className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded transition-colors disabled:opacity-50 ml-auto"
-                      >
-                        Delete
-                      </button>
                     </div>
                   </div>
                 </div>
@@ -276,6 +386,15 @@ export default function AdminListingsPage() {
             onSave={handleEditSave}
           />
         )}
+
+        {/* Reject Dialog */}
+        {rejectingListing && (
+          <RejectListingDialog
+            listingTitle={`${rejectingListing.brand} ${rejectingListing.carModel} ${rejectingListing.variant}`}
+            onConfirm={handleReject}
+            onClose={() => setRejectingListing(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -91,6 +91,19 @@ export default function AdminLoginPage() {
             </button>
           </form>
 
+          <div className="mt-6 pt-6 border-t border-gray-700">
+            <p className="text-gray-400 text-sm text-center mb-3">
+              Moderators and admins sign in with their Google account
+            </p>
+            <button
+              type="button"
+              onClick={() => signIn('google', { callbackUrl: '/admin' })}
+              className="w-full py-3 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors"
+            >
+              Sign in with Google
+            </button>
+          </div>
+
           <div className="mt-6 text-center">
             <button
               onClick={() => router.push('/')}
@@ -1,9 +1,12 @@
 import { redirect } from 'next/navigation';
 import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermission, requireRole } from '@/lib/roles';
 import Link from 'next/link';
 import connectDB from '@/lib/mongodb';
 import User from '@/lib/models/User';
 import Listing from '@/lib/models/Listing';
+import ImageCleanupPanel from '@/app/components/ImageCleanupPanel';
 
 async function getDashboardMetrics() {
   await connectDB();
@@ -22,11 +25,11 @@ async function getDashboardMetrics() {
 }
 
 export default async function AdminDashboardPage() {
-  const session = await getServerSession();
+  const session = await getServerSession(authOptions);
 
-  // Check if user is admin
-  const adminEmail = process.env.ADMIN_EMAIL;
-  if (!session || session.user.email !== adminEmail) {
+  // Check if user has a staff role
+  const access = requireRole(session?.user, 'admin:access');
+  if (!access.allowed) {
     redirect('/');
   }
 
@@ -38,7 +41,9 @@ export default async function AdminDashboardPage() {
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-4xl font-bold text-white mb-2">Admin Dashboard</h1>
-          <p className="text-gray-400">Manage DriveSphere marketplace</p>
+          <p className="text-gray-400">
+            Manage DriveSphere marketplace · Signed in as <span className="capitalize">{access.role}</span>
+          </p>
         </div>
 
         {/* Metrics Cards */}
@@ -106,33 +111,39 @@ export default async function AdminDashboardPage() {
               </div>
             </Link>
 
-            <Link
-              href="/admin/users"
-              className="flex items-center gap-3 p-4 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
-            >
-              <svg className="w-6 h-6 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
-              </svg>
-              <div>
-                <p className="text-white font-medium">Manage Users</p>
-                <p className="text-gray-400 text-sm">View and manage users</p>
-              </div>
-            </Link>
+            {hasPermission(access.role, 'users:view') && (
+              <Link
+                href="/admin/users"
+                className="flex items-center gap-3 p-4 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                <svg className="w-6 h-6 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+                </svg>
+                <div>
+                  <p className="text-white font-medium">Manage Users</p>
+                  <p className="text-gray-400 text-sm">View and manage users</p>
+                </div>
+              </Link>
+            )}
 
-            <Link
-              href="/admin/scraper"
-              className="flex items-center gap-3 p-4 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
-            >
-              <svg className="w-6 h-6 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
-              </svg>
-              <div>
-                <p className="text-white font-medium">Web Scraper</p>
-                <p className="text-gray-400 text-sm">Import listings from external sources</p>
-              </div>
-            </Link>
+            {hasPermission(access.role, 'scraper:run') && (
+              <Link
+                href="/admin/scraper"
+                className="flex items-center gap-3 p-4 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                <svg className="w-6 h-6 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
+                </svg>
+                <div>
+                  <p className="text-white font-medium">Web Scraper</p>
+                  <p className="text-gray-400 text-sm">Import listings from external sources</p>
+                </div>
+              </Link>
+            )}
           </div>
         </div>
+
+        {hasPermission(access.role, 'listings:manage') && <ImageCleanupPanel />}
       </div>
     </div>
   );
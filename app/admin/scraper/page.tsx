@@ -1,10 +1,42 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import Image from 'next/image';
 import { scrapeListing, importScrapedListings } from '@/app/actions/admin';
+import { cancelScrapeJob, enqueueScrapeJob, getScrapeJobs, rerunScrapeJob } from '@/app/actions/scrape-jobs';
+import ImportPreviewTable, { ImportPreviewRow } from '@/app/components/ImportPreviewTable';
 import { ScrapedCarData } from '@/lib/scraper';
+import { normalizeScrapedCar } from '@/lib/scraped-import';
+import type { CrawlStreamEvent } from '@/lib/scrapers/crawler';
+import type { ScrapeJobView } from '@/lib/scrape-jobs';
+
+// How often the job list refreshes while a job is queued or running
+const JOB_POLL_MS = 2000;
+
+const JOB_STATUS_STYLES: Record<ScrapeJobView['status'], string> = {
+  queued: 'bg-gray-600 text-gray-100',
+  running: 'bg-cyan-700 text-cyan-100',
+  completed: 'bg-green-700 text-green-100',
+  failed: 'bg-red-700 text-red-100',
+  cancelled: 'bg-yellow-700 text-yellow-100',
+};
+
+const isActiveJob = (job: ScrapeJobView) => job.status === 'queued' || job.status === 'running';
+
+function describeCrawlEvent(event: CrawlStreamEvent): string {
+  switch (event.type) {
+    case 'page':
+      return `Page ${event.page}: found ${event.cards} car${event.cards === 1 ? '' : 's'} at ${event.url}`;
+    case 'item':
+      return `Collected ${event.car.carName} (${event.total} so far)`;
+    case 'skipped':
+      return `Skipped ${event.url}: ${event.reason}`;
+    case 'error':
+      return `Error on ${event.url}: ${event.error}`;
+    case 'done':
+      return `Finished after ${event.pagesVisited} page${event.pagesVisited === 1 ? '' : 's'} with ${event.data.length} car${event.data.length === 1 ? '' : 's'}`;
+  }
+}
 
 export default function AdminScraperPage() {
   const router = useRouter();
@@ -13,6 +45,45 @@ export default function AdminScraperPage() {
   const [error, setError] = useState('');
   const [scrapedData, setScrapedData] = useState<ScrapedCarData[]>([]);
   const [importing, setImporting] = useState(false);
+  const [crawlMode, setCrawlMode] = useState(false);
+  const [crawlOptions, setCrawlOptions] = useState({
+    maxPages: 5,
+    maxItems: 50,
+    followDetails: true,
+    concurrency: 2,
+    delayMs: 1000,
+    robotsTxt: '',
+  });
+  const [progress, setProgress] = useState<string[]>([]);
+  const [runInBackground, setRunInBackground] = useState(true);
+  const [jobs, setJobs] = useState<ScrapeJobView[]>([]);
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({});
+
+  // Every scraped car starts as a selected, normalized preview row
+  useEffect(() => {
+    setPreviewRows(scrapedData.map((car) => ({ ...normalizeScrapedCar(car), selected: true })));
+    setRowErrors({});
+  }, [scrapedData]);
+
+  const loadJobs = useCallback(async () => {
+    const result = await getScrapeJobs();
+    if (result.success && result.data) {
+      setJobs(result.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // Poll only while something is still in progress
+  const hasActiveJobs = jobs.some(isActiveJob);
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = setInterval(loadJobs, JOB_POLL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, loadJobs]);
 
   const handleScrape = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -25,6 +96,17 @@ export default function AdminScraperPage() {
     setLoading(true);
     setError('');
     setScrapedData([]);
+    setProgress([]);
+
+    if (runInBackground) {
+      await handleEnqueue();
+      return;
+    }
+
+    if (crawlMode) {
+      await handleCrawl();
+      return;
+    }
 
     try {
       const result = await scrapeListing(url);
@@ -43,30 +125,129 @@ export default function AdminScraperPage() {
     }
   };
 
+  const handleEnqueue = async () => {
+    try {
+      const result = await enqueueScrapeJob({
+        url,
+        mode: crawlMode ? 'crawl' : 'single',
+        crawlOptions: crawlMode
+          ? { ...crawlOptions, robotsTxt: crawlOptions.robotsTxt || undefined }
+          : undefined,
+      });
+
+      if (result.success && result.data) {
+        setJobs((current) => [result.data, ...current]);
+      } else {
+        setError(result.error || 'Failed to queue scrape job');
+      }
+    } catch (err) {
+      console.error('Queue error:', err);
+      setError('An error occurred while queueing the scrape job');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelJob = async (jobId: string) => {
+    const result = await cancelScrapeJob(jobId);
+    if (!result.success) {
+      setError(result.error || 'Failed to cancel scrape job');
+    }
+    await loadJobs();
+  };
+
+  const handleRerunJob = async (jobId: string) => {
+    const result = await rerunScrapeJob(jobId);
+    if (!result.success) {
+      setError(result.error || 'Failed to re-run scrape job');
+    }
+    await loadJobs();
+  };
+
+  const handleCrawl = async () => {
+    try {
+      const response = await fetch('/api/admin/scraper/crawl', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          url,
+          ...crawlOptions,
+          robotsTxt: crawlOptions.robotsTxt || undefined,
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}));
+        setError(body.error || 'Failed to start crawl');
+        return;
+      }
+
+      // Progress arrives as one JSON event per line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: CrawlStreamEvent = JSON.parse(line);
+          setProgress((current) => [...current, describeCrawlEvent(event)]);
+
+          if (event.type === 'item') {
+            setScrapedData((current) => [...current, event.car]);
+          } else if (event.type === 'done') {
+            setScrapedData(event.data);
+            if (!event.success) {
+              setError(event.error || 'Crawl found no listings');
+            }
+          }
+        }
+      }
+    } catch (err) {
+      console.error('Crawl error:', err);
+      setError('An error occurred while crawling');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleImport = async () => {
-    if (scrapedData.length === 0) return;
+    const selected = previewRows
+      .map((previewRow, index) => ({ previewRow, index }))
+      .filter(({ previewRow }) => previewRow.selected);
+    if (selected.length === 0) return;
 
-    if (!confirm(`Are you sure you want to import ${scrapedData.length} listing(s)?`)) {
+    if (!confirm(`Are you sure you want to import ${selected.length} listing(s)?`)) {
       return;
     }
 
     setImporting(true);
     setError('');
+    setRowErrors({});
 
     try {
-      const result = await importScrapedListings(scrapedData);
+      const result = await importScrapedListings(selected.map(({ previewRow }) => previewRow.row));
 
-      
-      console.log('Import result:', result);
-      
       if (result.success) {
         alert(result.message || 'Listings imported successfully');
         setUrl('');
         setScrapedData([]);
+        setProgress([]);
       } else {
-        const errorMessage = result.error || 'Failed to import listings';
-        console.error('Import failed:', errorMessage);
-        setError(errorMessage);
+        setError(result.error || 'Failed to import listings');
+        // Errors come back keyed by position in the import, not in the preview
+        const errorsByRow: Record<number, string> = {};
+        for (const [position, message] of Object.entries<string>(result.data?.rowErrors || {})) {
+          errorsByRow[selected[Number(position)].index] = message;
+        }
+        setRowErrors(errorsByRow);
       }
     } catch (err) {
       console.error('Import error:', err);
@@ -77,6 +258,8 @@ export default function AdminScraperPage() {
     }
   };
 
+  const selectedCount = previewRows.filter((previewRow) => previewRow.selected).length;
+
   return (
     <div className="min-h-screen bg-gray-900 py-8 px-4 sm:px-6 lg:px-8">
       <div className="max-w-7xl mx-auto">
@@ -112,6 +295,76 @@ export default function AdminScraperPage() {
               />
             </div>
 
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={runInBackground}
+                onChange={(e) => setRunInBackground(e.target.checked)}
+                className="rounded border-gray-600 bg-gray-700 text-cyan-600 focus:ring-cyan-500"
+              />
+              Run as a background job (keeps going if you leave this page)
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={crawlMode}
+                onChange={(e) => setCrawlMode(e.target.checked)}
+                className="rounded border-gray-600 bg-gray-700 text-cyan-600 focus:ring-cyan-500"
+              />
+              Crawl mode: follow next-page and detail links
+            </label>
+
+            {crawlMode && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {([
+                  { key: 'maxPages', label: 'Max pages', min: 1, max: 20 },
+                  { key: 'maxItems', label: 'Max cars', min: 1, max: 200 },
+                  { key: 'concurrency', label: 'Requests per host', min: 1, max: 4 },
+                  { key: 'delayMs', label: 'Delay (ms)', min: 250, max: 10000 },
+                ] as const).map((field) => (
+                  <div key={field.key}>
+                    <label htmlFor={field.key} className="block text-sm font-medium text-gray-300 mb-2">
+                      {field.label}
+                    </label>
+                    <input
+                      type="number"
+                      id={field.key}
+                      min={field.min}
+                      max={field.max}
+                      value={crawlOptions[field.key]}
+                      onChange={(e) => setCrawlOptions({ ...crawlOptions, [field.key]: Number(e.target.value) })}
+                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                    />
+                  </div>
+                ))}
+
+                <label className="col-span-2 md:col-span-4 flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={crawlOptions.followDetails}
+                    onChange={(e) => setCrawlOptions({ ...crawlOptions, followDetails: e.target.checked })}
+                    className="rounded border-gray-600 bg-gray-700 text-cyan-600 focus:ring-cyan-500"
+                  />
+                  Open each car&apos;s detail page for full images and specs
+                </label>
+
+                <div className="col-span-2 md:col-span-4">
+                  <label htmlFor="robotsTxt" className="block text-sm font-medium text-gray-300 mb-2">
+                    robots.txt rules (optional)
+                  </label>
+                  <textarea
+                    id="robotsTxt"
+                    rows={4}
+                    value={crawlOptions.robotsTxt}
+                    onChange={(e) => setCrawlOptions({ ...crawlOptions, robotsTxt: e.target.value })}
+                    placeholder={'User-agent: *\nDisallow: /private'}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+            )}
+
             <button
               type="submit"
               disabled={loading}
@@ -123,10 +376,12 @@ export default function AdminScraperPage() {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                   </svg>
-                  Scraping...
+                  {runInBackground ? 'Queueing...' : crawlMode ? 'Crawling...' : 'Scraping...'}
                 </span>
+              ) : runInBackground ? (
+                'Queue Scrape Job'
               ) : (
-                'Scrape Listing'
+                crawlMode ? 'Start Crawl' : 'Scrape Listing'
               )}
             </button>
           </form>
@@ -139,92 +394,130 @@ export default function AdminScraperPage() {
           </div>
         )}
 
-        {/* Scraped Data Preview */}
-        {scrapedData.length > 0 && (
-          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        {/* Scrape Jobs */}
+        {jobs.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6">
             <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-bold text-white">Scrape Jobs</h2>
+              <button
+                onClick={loadJobs}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm rounded-lg transition-colors"
+              >
+                Refresh
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4 font-medium">URL</th>
+                    <th className="py-2 pr-4 font-medium">Mode</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Progress</th>
+                    <th className="py-2 pr-4 font-medium">Queued</th>
+                    <th className="py-2 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {jobs.map((job) => (
+                    <tr key={job._id} className="align-top">
+                      <td className="py-2 pr-4 text-white max-w-xs truncate" title={job.url}>{job.url}</td>
+                      <td className="py-2 pr-4 text-gray-300 capitalize">{job.mode}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${JOB_STATUS_STYLES[job.status]}`}>
+                          {job.status}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-300">
+                        <div>
+                          {job.progress.pagesVisited} page{job.progress.pagesVisited === 1 ? '' : 's'} · {job.progress.itemsFound} car{job.progress.itemsFound === 1 ? '' : 's'}
+                          {job.scrapeErrors.length > 0 && (
+                            <span className="text-red-300"> · {job.scrapeErrors.length} error{job.scrapeErrors.length === 1 ? '' : 's'}</span>
+                          )}
+                        </div>
+                        {(job.error || job.progress.message) && (
+                          <div className={`text-xs ${job.error ? 'text-red-300' : 'text-gray-400'}`}>
+                            {job.error || job.progress.message}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-400 whitespace-nowrap">
+                        {new Date(job.createdAt).toLocaleString('en-IN')}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap space-x-2">
+                        {!isActiveJob(job) && job.results.length > 0 && (
+                          <button
+                            onClick={() => setScrapedData(job.results)}
+                            className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors"
+                          >
+                            Review ({job.results.length})
+                          </button>
+                        )}
+                        {isActiveJob(job) ? (
+                          <button
+                            onClick={() => handleCancelJob(job._id)}
+                            className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleRerunJob(job._id)}
+                            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-colors"
+                          >
+                            Re-run
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Crawl Progress */}
+        {progress.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6">
+            <h2 className="text-lg font-bold text-white mb-3">Crawl Progress</h2>
+            <ul className="max-h-48 overflow-y-auto space-y-1 font-mono text-xs text-gray-300">
+              {progress.map((line, idx) => (
+                <li key={idx}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Import Preview */}
+        {previewRows.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+            <div className="flex items-center justify-between mb-2">
               <h2 className="text-2xl font-bold text-white">
-                Scraped Data Preview ({scrapedData.length} car{scrapedData.length > 1 ? 's' : ''})
+                Import Preview ({previewRows.length} car{previewRows.length > 1 ? 's' : ''})
               </h2>
               <button
                 onClick={handleImport}
-                disabled={importing}
+                disabled={importing || selectedCount === 0}
                 className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {importing ? 'Importing...' : `Approve & Import All (${scrapedData.length})`}
+                {importing ? 'Importing...' : `Approve & Import Selected (${selectedCount})`}
               </button>
             </div>
+            <p className="text-gray-400 text-sm mb-4">
+              Fields outlined in yellow were guessed. Check them, fix anything wrong, and untick cars you do not want.
+            </p>
 
-            <div className="space-y-6">
-              {scrapedData.map((car, carIdx) => (
-                <div key={carIdx} className="border border-gray-700 rounded-lg p-4">
-                  <h3 className="text-lg font-semibold text-white mb-3">
-                    Car #{carIdx + 1}
-                  </h3>
-
-                  <div className="space-y-4">
-                    {/* Images */}
-                    {car.images.length > 0 && (
-                      <div>
-                        <p className="text-gray-400 text-sm mb-2">Images ({car.images.length})</p>
-                        <div className="grid grid-cols-4 gap-2">
-                          {car.images.slice(0, 4).map((img, idx) => (
-                            <div key={idx} className="aspect-video bg-gray-700 rounded-lg overflow-hidden relative">
-                              <Image
-                                src={img}
-                                alt={`Car ${carIdx + 1} - ${idx + 1}`}
-                                fill
-                                className="object-cover"
-                                sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-                              />
-                            <div key={idx} className="aspect-video bg-gray-700 rounded-lg overflow-hidden">
-                              {/* eslint-disable-next-line @next/next/no-img-element */}
-                              <img src={img} alt={`Car ${carIdx + 1} - ${idx + 1}`} className="w-full h-full object-cover" />
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-
-                    {/* Data Table */}
-                    <div className="overflow-x-auto">
-                      <table className="w-full">
-                        <tbody className="divide-y divide-gray-700">
-                          <tr>
-                            <td className="py-2 text-gray-400 font-medium w-1/3">Car Name</td>
-                            <td className="py-2 text-white">{car.carName}</td>
-                          </tr>
-                          <tr>
-                            <td className="py-2 text-gray-400 font-medium">Model</td>
-                            <td className="py-2 text-white">{car.model}</td>
-                          </tr>
-                          <tr>
-                            <td className="py-2 text-gray-400 font-medium">Price</td>
-                            <td className="py-2 text-white">₹{car.price.toLocaleString('en-IN')}</td>
-                          </tr>
-                          <tr>
-                            <td className="py-2 text-gray-400 font-medium">Year</td>
-                            <td className="py-2 text-white">{car.yearOfPurchase}</td>
-                          </tr>
-                          <tr>
-                            <td className="py-2 text-gray-400 font-medium">Kilometers</td>
-                            <td className="py-2 text-white">{car.kmDriven.toLocaleString('en-IN')} km</td>
-                          </tr>
-                          <tr>
-                            <td className="py-2 text-gray-400 font-medium">Owners</td>
-                            <td className="py-2 text-white">{car.numberOfOwners}</td>
-                          </tr>
-                          <tr>
-                            <td className="py-2 text-gray-400 font-medium">City</td>
-                            <td className="py-2 text-white">{car.city}</td>
-                          </tr>
-                        </tbody>
-                      </table>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
+            <ImportPreviewTable
+              rows={previewRows}
+              rowErrors={rowErrors}
+              onChange={(index, row) =>
+                setPreviewRows((current) => current.map((existing, i) => (i === index ? row : existing)))
+              }
+              onSelectAll={(selected) =>
+                setPreviewRows((current) => current.map((existing) => ({ ...existing, selected })))
+              }
+            />
           </div>
         )}
 
@@ -234,10 +527,9 @@ export default function AdminScraperPage() {
             <h3 className="text-lg font-bold text-white mb-3">How to use the scraper</h3>
             <ol className="list-decimal list-inside space-y-2 text-gray-300">
               <li>Enter the URL of a car listing page (supports both single cars and listing pages with multiple cars)</li>
-              <li>Click &quot;Scrape Listing&quot; to extract the data</li>
-              <li>Review the extracted data in the preview</li>
-              <li>Click &quot;Approve &amp; Import All&quot; to add the listings to the marketplace</li>
-              <li>Click &quot;Approve & Import All&quot; to add the listings to the marketplace</li>
+              <li>Click &quot;Scrape Listing&quot; to extract the data, or turn on crawl mode to follow pagination across several pages</li>
+              <li>Review the extracted data in the preview, fixing guessed fields and unticking cars you do not want</li>
+              <li>Click &quot;Approve &amp; Import Selected&quot; to add the listings to the marketplace</li>
             </ol>
             <div className="bg-yellow-900/30 border border-yellow-600/50 rounded-lg p-4 mb-4">
               <p className="text-yellow-200 text-sm font-medium mb-2">
@@ -2,8 +2,9 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { banUser } from '@/app/actions/admin';
+import { banUser, updateUserRole } from '@/app/actions/admin';
 import { useSession } from 'next-auth/react';
+import { getAssignableRoles, hasPermission } from '@/lib/roles';
 
 interface User {
   _id: string;
@@ -13,6 +14,7 @@ interface User {
   documentType: string;
   verified: boolean;
   banned: boolean;
+  role?: string;
   listingCount: number;
   createdAt: string;
 }
@@ -25,6 +27,9 @@ export default function AdminUsersPage() {
   const [error, setError] = useState('');
   const [processingId, setProcessingId] = useState<string | null>(null);
 
+  const assignableRoles = getAssignableRoles(session?.user?.role);
+  const canBan = hasPermission(session?.user?.role, 'users:ban');
+
   useEffect(() => {
     fetchUsers();
   }, []);
@@ -76,6 +81,32 @@ export default function AdminUsersPage() {
     }
   };
 
+  const handleRoleChange = async (userId: string, role: string) => {
+    if (!confirm(`Change this user's role to ${role}?`)) {
+      return;
+    }
+
+    try {
+      setProcessingId(userId);
+      const result = await updateUserRole(userId, role);
+
+      if (result.success) {
+        setUsers(prev => prev.map(user =>
+          user._id === userId
+            ? { ...user, role: result.data?.role ?? role }
+            : user
+        ));
+      } else {
+        alert(result.error || 'Failed to update role');
+      }
+    } catch (err) {
+      console.error('Error updating role:', err);
+      alert('An error occurred');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-900">
@@ -92,6 +123,11 @@ export default function AdminUsersPage() {
           <div>
             <h1 className="text-4xl font-bold text-white mb-2">User Management</h1>
             <p className="text-gray-400">Manage registered users and their access</p>
+            {assignableRoles.length > 0 && (
+              <p className="text-gray-500 text-sm mt-1">
+                Role changes apply on the user&apos;s next request.
+              </p>
+            )}
           </div>
           <button
             onClick={() => router.push('/admin')}
@@ -134,6 +170,9 @@ export default function AdminUsersPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
                       Listings
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                      Role
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
                       Status
                     </th>
@@ -171,6 +210,24 @@ export default function AdminUsersPage() {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-white">{user.listingCount}</div>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {assignableRoles.length > 0 && user.email !== session?.user?.email ? (
+                          <select
+                            value={user.role || 'user'}
+                            onChange={(e) => handleRoleChange(user._id, e.target.value)}
+                            disabled={processingId === user._id}
+                            className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-white capitalize disabled:opacity-50"
+                          >
+                            {assignableRoles.map((role) => (
+                              <option key={role} value={role}>
+                                {role}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-sm text-white capitalize">{user.role || 'user'}</span>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {user.banned ? (
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-900/50 text-red-300">
@@ -185,7 +242,7 @@ export default function AdminUsersPage() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
                         <button
                           onClick={() => handleBanToggle(user._id, user.banned)}
-                          disabled={processingId === user._id || user.email === session?.user?.email}
+                          disabled={!canBan || processingId === user._id || user.email === session?.user?.email}
                           className={`px-3 py-1 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${user.banned
                               ? 'bg-green-600 hover:bg-green-700 text-white'
                               : 'bg-red-600 hover:bg-red-700 text-white'
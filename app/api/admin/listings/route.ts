@@ -1,19 +1,21 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { requireRole } from '@/lib/roles';
 import connectDB from '@/lib/mongodb';
 import Listing from '@/lib/models/Listing';
 import User from '@/lib/models/User';
 
 export async function GET() {
     try {
-        const session = await getServerSession();
+        const session = await getServerSession(authOptions);
 
-        // Check if user is admin
-        const adminEmail = process.env.ADMIN_EMAIL;
-        if (!session || session.user.email !== adminEmail) {
+        // Check if user can moderate listings
+        const access = requireRole(session?.user, 'listings:moderate');
+        if (!access.allowed) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
+                { error: access.error },
+                { status: access.status }
             );
         }
 
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { requireRole } from '@/lib/roles';
+import { crawlRequestSchema } from '@/lib/validation';
+import { crawlListings, CrawlStreamEvent } from '@/lib/scrapers/crawler';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Crawl a listing site and stream progress as newline-delimited JSON.
+ * The last line is a `done` event carrying the collected cars.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  const access = requireRole(session?.user, 'scraper:run');
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const validation = crawlRequestSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: validation.error.errors[0]?.message || 'Invalid crawl options' },
+      { status: 400 }
+    );
+  }
+
+  const { url, ...options } = validation.data;
+  const encoder = new TextEncoder();
+
+  // Set once the client disconnects; nothing more can be written after that
+  let closed = false;
+  request.signal.addEventListener('abort', () => {
+    closed = true;
+  });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: CrawlStreamEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const result = await crawlListings(url, {
+          ...options,
+          signal: request.signal,
+          onProgress: send,
+        });
+        send({ type: 'done', ...result });
+      } catch (error) {
+        console.error('Error crawling listings:', error);
+        send({
+          type: 'done',
+          success: false,
+          data: [],
+          pagesVisited: 0,
+          errors: [],
+          skipped: [],
+          error: 'An unexpected error occurred while crawling',
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
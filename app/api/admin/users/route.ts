@@ -1,19 +1,21 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { requireRole } from '@/lib/roles';
 import connectDB from '@/lib/mongodb';
 import User from '@/lib/models/User';
 import Listing from '@/lib/models/Listing';
 
 export async function GET() {
   try {
-    const session = await getServerSession();
-    
-    // Check if user is admin
-    const adminEmail = process.env.ADMIN_EMAIL;
-    if (!session || session.user.email !== adminEmail) {
+    const session = await getServerSession(authOptions);
+
+    // Check if user can view users
+    const access = requireRole(session?.user, 'users:view');
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: access.error },
+        { status: access.status }
       );
     }
 
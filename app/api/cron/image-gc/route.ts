@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { collectOrphanedImages } from '@/lib/image-gc';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job: delete GridFS images no listing refers to
+ * Call with `Authorization: Bearer $CRON_SECRET`; add `?dryRun=1` for a report only
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === '1';
+    const { orphaned, ...report } = await collectOrphanedImages({ dryRun });
+
+    return NextResponse.json({
+      success: true,
+      ...report,
+      orphaned: orphaned.map((file) => file.fileId),
+    });
+  } catch (error) {
+    console.error('Error collecting orphaned images:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
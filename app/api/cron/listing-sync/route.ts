@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runListingSync } from '@/lib/listing-sync';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job: re-check scraped listings against their source sites
+ * Call with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runListingSync();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error syncing scraped listings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
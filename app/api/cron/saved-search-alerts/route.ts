@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSavedSearchAlerts } from '@/lib/saved-search-alerts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job: alert users about newly approved listings matching their saved searches
+ * Call with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runSavedSearchAlerts();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error running saved search alerts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runScrapeWorker } from '@/lib/scrape-jobs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job: run queued scrape jobs, including any whose worker died
+ * Call with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runScrapeWorker();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error running scrape jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
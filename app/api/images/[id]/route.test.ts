@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fc from 'fast-check';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { uploadToGridFS } from '@/lib/gridfs';
+
+// Mock mongodb connection
+vi.mock('@/lib/mongodb', () => ({
+  default: vi.fn(async () => ({})),
+}));
+
+let mongoServer: MongoMemoryServer;
+let photo: Buffer;
+let photoId: string;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+
+  // Several GridFS chunks, so ranges can start and end mid-chunk
+  photo = Buffer.from(Array.from({ length: 600 * 1024 }, (_, i) => (i * 31) % 256));
+  ({ fileId: photoId } = await uploadToGridFS(photo, 'photo.jpg', 'image/jpeg'));
+}, 60000);
+
+afterAll(async () => {
+  if (mongoose.connection.readyState !== 0) {
+    await mongoose.disconnect();
+  }
+  if (mongoServer) {
+    await mongoServer.stop();
+  }
+});
+
+function getImage(id: string, headers: Record<string, string> = {}) {
+  return GET(new NextRequest(`http://localhost/api/images/${id}`, { headers }), { params: { id } });
+}
+
+describe('Image Route Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 56: Range requests return exactly the requested bytes
+   */
+  it('Property 56: Image range requests - the body is the requested slice of the file', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: photo.length - 1 }),
+        fc.integer({ min: 1, max: 300 * 1024 }),
+        async (start, length) => {
+          const end = Math.min(start + length - 1, photo.length - 1);
+          const response = await getImage(photoId, { Range: `bytes=${start}-${end}` });
+
+          expect(response.status).toBe(206);
+          expect(response.headers.get('Content-Range')).toBe(`bytes ${start}-${end}/${photo.length}`);
+          expect(response.headers.get('Content-Length')).toBe(String(end - start + 1));
+          const body = Buffer.from(await response.arrayBuffer());
+          expect(body.equals(photo.subarray(start, end + 1))).toBe(true);
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
+
+describe('GET /api/images/[id]', () => {
+  it('streams the whole file with length and date headers', async () => {
+    const response = await getImage(photoId);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/jpeg');
+    expect(response.headers.get('Content-Length')).toBe(String(photo.length));
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(response.headers.get('ETag')).toBe(`"${photoId}"`);
+    expect(new Date(response.headers.get('Last-Modified')!).getTime()).not.toBeNaN();
+    expect(Buffer.from(await response.arrayBuffer()).equals(photo)).toBe(true);
+  });
+
+  it('serves open-ended and suffix ranges', async () => {
+    const tail = await getImage(photoId, { Range: `bytes=${photo.length - 10}-` });
+    expect(tail.status).toBe(206);
+    expect(Buffer.from(await tail.arrayBuffer()).equals(photo.subarray(-10))).toBe(true);
+
+    const suffix = await getImage(photoId, { Range: 'bytes=-100' });
+    expect(suffix.headers.get('Content-Range')).toBe(`bytes ${photo.length - 100}-${photo.length - 1}/${photo.length}`);
+    expect(Buffer.from(await suffix.arrayBuffer()).equals(photo.subarray(-100))).toBe(true);
+  });
+
+  it('refuses ranges past the end of the file', async () => {
+    const response = await getImage(photoId, { Range: `bytes=${photo.length}-` });
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe(`bytes */${photo.length}`);
+  });
+
+  it('answers a matching If-None-Match with 304', async () => {
+    const response = await getImage(photoId, { 'If-None-Match': `W/"${photoId}"` });
+
+    expect(response.status).toBe(304);
+    expect(response.body).toBeNull();
+  });
+
+  it('returns 404 for missing or malformed image IDs', async () => {
+    expect((await getImage(new mongoose.Types.ObjectId().toString())).status).toBe(404);
+    expect((await getImage('not-an-id')).status).toBe(404);
+  });
+});
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { downloadFromGridFS } from '@/lib/gridfs';
+import { findImageVariant } from '@/lib/gridfs';
+import { requestedVariant } from '@/lib/image-variants';
+import { GridFSStorage } from '@/lib/storage';
+import { serveStoredObject } from '@/lib/storage/serve';
 
 export async function GET(
   request: NextRequest,
@@ -15,17 +18,17 @@ export async function GET(
       );
     }
 
-    // Download image from GridFS
-    const { buffer, contentType } = await downloadFromGridFS(id);
+    // ?size=thumbnail|medium|large or ?w=<pixels> picks a resized variant,
+    // in WebP when the browser accepts it
+    const size = requestedVariant(request.nextUrl.searchParams);
+    let fileId = id;
+    if (size) {
+      const format = request.headers.get('accept')?.includes('image/webp') ? 'webp' : 'jpeg';
+      // Images stored before variants existed only have the original
+      fileId = (await findImageVariant(id, size, format)) || id;
+    }
 
-    // Return image with appropriate headers
-    return new NextResponse(buffer as any, {
-      status: 200,
-      headers: {
-        'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=31536000, immutable',
-      },
-    });
+    return await serveStoredObject(request, new GridFSStorage(), fileId, size ? { Vary: 'Accept' } : {});
   } catch (error) {
     console.error('Error serving image:', error);
     return NextResponse.json(
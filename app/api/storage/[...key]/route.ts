@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage } from '@/lib/storage';
+import { serveStoredObject } from '@/lib/storage/serve';
+
+/**
+ * Serves images kept by the local disk provider (STORAGE_PROVIDER=local)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const storage = getStorage();
+    const key = storage.keyFromUrl(`/api/storage/${params.key.join('/')}`);
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'Image not found' },
+        { status: 404 }
+      );
+    }
+
+    return await serveStoredObject(request, storage, key);
+  } catch (error) {
+    console.error('Error serving stored image:', error);
+    return NextResponse.json(
+      { error: 'Image not found' },
+      { status: 404 }
+    );
+  }
+}
@@ -4,7 +4,17 @@ import CarCard from '../components/CarCard';
 import SearchBar from '../components/SearchBar';
 import FilterPanel from '../components/FilterPanel';
 import SortDropdown, { SortOption } from '../components/SortDropdown';
+import SaveSearchButton from '../components/SaveSearchButton';
 import TailorTalkWidget from '../components/TailorTalkWidget';
+import {
+  buildFacetPipeline,
+  buildListingQuery,
+  buildListingSort,
+  EMPTY_FACETS,
+  hasTextSearch,
+  parseFacetResult,
+  parseFilterCriteria,
+} from '@/lib/listing-search';
 
 export const dynamic = 'force-dynamic';
 
@@ -32,102 +42,29 @@ async function getListings(searchParams: SearchParams) {
   try {
     await connectDB();
 
-    // Build filter query
-    const filter: any = { status: 'approved' };
-
-    // Search query
-    if (searchParams.q) {
-      filter.$or = [
-        { brand: { $regex: searchParams.q, $options: 'i' } },
-        { carModel: { $regex: searchParams.q, $options: 'i' } },
-        { city: { $regex: searchParams.q, $options: 'i' } },
-      ];
-    }
-
-    // Brand filter
-    if (searchParams.brands) {
-      filter.brand = { $in: searchParams.brands.split(',') };
-    }
-
-    // City filter
-    if (searchParams.cities) {
-      filter.city = { $in: searchParams.cities.split(',') };
-    }
-
-    // Fuel type filter
-    if (searchParams.fuel) {
-      filter.fuelType = { $in: searchParams.fuel.split(',') };
-    }
-
-    // Transmission filter
-    if (searchParams.transmission) {
-      filter.transmission = { $in: searchParams.transmission.split(',') };
-    }
-
-    // Price range filter
-    if (searchParams.priceMin || searchParams.priceMax) {
-      filter.price = {};
-      if (searchParams.priceMin) {
-        filter.price.$gte = parseInt(searchParams.priceMin);
-      }
-      if (searchParams.priceMax) {
-        filter.price.$lte = parseInt(searchParams.priceMax);
-      }
-    }
-
-    // Year range filter
-    if (searchParams.yearMin || searchParams.yearMax) {
-      filter.yearOfOwnership = {};
-      if (searchParams.yearMin) {
-        filter.yearOfOwnership.$gte = parseInt(searchParams.yearMin);
-      }
-      if (searchParams.yearMax) {
-        filter.yearOfOwnership.$lte = parseInt(searchParams.yearMax);
-      }
-    }
-
-    // Build sort query
-    let sort: any = { createdAt: -1 }; // Default: newest first
-
-    switch (searchParams.sort) {
-      case 'price_asc':
-        sort = { price: 1 };
-        break;
-      case 'price_desc':
-        sort = { price: -1 };
-        break;
-      case 'year_desc':
-        sort = { yearOfOwnership: -1 };
-        break;
-      case 'km_asc':
-        sort = { kmDriven: 1 };
-        break;
-      default:
-        sort = { createdAt: -1 };
-    }
+    const criteria = parseFilterCriteria(searchParams as Record<string, string | undefined>);
+    const filter = buildListingQuery(criteria);
+    const sort = buildListingSort(searchParams.sort, hasTextSearch(criteria));
 
     // Pagination
-    const page = parseInt(searchParams.page || '1');
+    const page = Math.max(parseInt(searchParams.page || '1') || 1, 1);
     const skip = (page - 1) * ITEMS_PER_PAGE;
 
-    // Get total count for pagination
-    const totalCount = await Listing.countDocuments(filter);
+    const [totalCount, listings, facetResult] = await Promise.all([
+      // Get total count for pagination
+      Listing.countDocuments(filter),
+      // Fetch listings
+      Listing.find(filter)
+        .populate('sellerId', 'fullName')
+        .sort(sort)
+        .skip(skip)
+        .limit(ITEMS_PER_PAGE)
+        .lean(),
+      // Live filter counts for the current search
+      Listing.aggregate(buildFacetPipeline(criteria)),
+    ]);
     const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
-
-    // Fetch listings
-    const listings = await Listing.find(filter)
-      .populate('sellerId', 'fullName')
-      .sort(sort)
-      .skip(skip)
-      .limit(ITEMS_PER_PAGE)
-      .lean();
-
-    // Get unique brands and cities for filters
-    const allListings = await Listing.find({ status: 'approved' }).lean();
-    const brandSet = new Set(allListings.map((l: any) => l.brand));
-    const citySet = new Set(allListings.map((l: any) => l.city));
-    const brands = Array.from(brandSet).sort();
-    const cities = Array.from(citySet).sort();
+    const facets = parseFacetResult(facetResult[0]);
 
     // Convert to plain objects
     const serializedListings = listings.map((listing: any) => ({
@@ -137,6 +74,7 @@ async function getListings(searchParams: SearchParams) {
       model: listing.carModel,
       variant: listing.variant,
       price: listing.price,
+      priceDrop: listing.priceDrop || 0,
       city: listing.city,
       yearOfOwnership: listing.yearOfOwnership,
       kmDriven: listing.kmDriven,
@@ -152,8 +90,7 @@ async function getListings(searchParams: SearchParams) {
 
     return {
       listings: serializedListings,
-      brands,
-      cities,
+      facets,
       pagination: {
         currentPage: page,
         totalPages,
@@ -166,8 +103,7 @@ async function getListings(searchParams: SearchParams) {
     console.error('Error fetching listings:', error);
     return {
       listings: [],
-      brands: [],
-      cities: [],
+      facets: EMPTY_FACETS,
       pagination: {
         currentPage: 1,
         totalPages: 0,
@@ -180,7 +116,7 @@ async function getListings(searchParams: SearchParams) {
 }
 
 export default async function BuyCarPage({ searchParams }: PageProps) {
-  const { listings, brands, cities, pagination } = await getListings(searchParams);
+  const { listings, facets, pagination } = await getListings(searchParams);
 
   return (
     <div className="min-h-screen bg-gray-900 py-8 px-4 sm:px-6 lg:px-8">
@@ -201,7 +137,7 @@ export default async function BuyCarPage({ searchParams }: PageProps) {
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Filters Sidebar */}
           <div className="lg:col-span-1">
-            <FilterPanel brands={brands} cities={cities} />
+            <FilterPanel facets={facets} />
           </div>
 
           {/* Listings Grid */}
@@ -211,7 +147,10 @@ export default async function BuyCarPage({ searchParams }: PageProps) {
               <p className="text-gray-400">
                 Showing {listings.length} of {pagination.totalCount} results
               </p>
-              <SortDropdown />
+              <div className="flex items-center gap-3">
+                <SaveSearchButton />
+                <SortDropdown />
+              </div>
             </div>
 
             {/* Listings Grid */}
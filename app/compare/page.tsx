@@ -0,0 +1,155 @@
+import Link from 'next/link';
+import Image from 'next/image';
+import { imageVariantUrl } from '@/lib/image-variants';
+import connectDB from '@/lib/mongodb';
+import Listing from '@/lib/models/Listing';
+import {
+  bestValueIndexes,
+  COMPARE_ROWS,
+  ComparableListing,
+  CompareRow,
+  parseCompareIds,
+} from '@/lib/compare';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: {
+    ids?: string;
+  };
+}
+
+type CompareListing = ComparableListing & { images: string[] };
+
+async function getComparedListings(ids: string[]): Promise<CompareListing[]> {
+  if (ids.length === 0) return [];
+
+  try {
+    await connectDB();
+
+    const listings = await Listing.find({ _id: { $in: ids }, status: 'approved' }).lean();
+    const byId = new Map(listings.map((listing) => [listing._id.toString(), listing]));
+
+    // Keep the order the cars were picked in
+    return ids.flatMap((id) => {
+      const listing = byId.get(id);
+      if (!listing) return [];
+      return [{
+        _id: id,
+        images: listing.images,
+        brand: listing.brand,
+        carModel: listing.carModel,
+        variant: listing.variant,
+        price: listing.price,
+        yearOfOwnership: listing.yearOfOwnership,
+        kmDriven: listing.kmDriven,
+        numberOfOwners: listing.numberOfOwners,
+        fuelType: listing.fuelType,
+        transmission: listing.transmission,
+        city: listing.city,
+      }];
+    });
+  } catch (error) {
+    console.error('Error fetching listings to compare:', error);
+    return [];
+  }
+}
+
+function formatValue(row: CompareRow, listing: ComparableListing): string {
+  const value = row.value(listing);
+  return row.format ? row.format(Number(value)) : String(value);
+}
+
+export default async function ComparePage({ searchParams }: PageProps) {
+  const ids = parseCompareIds(searchParams.ids);
+  const listings = await getComparedListings(ids);
+  const missing = ids.length - listings.length;
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        <a
+          href="/buy-car"
+          className="inline-flex items-center gap-2 text-cyan-400 hover:text-cyan-300 mb-6 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Back to Listings
+        </a>
+
+        <h1 className="text-4xl font-bold text-white mb-2">Compare Cars</h1>
+        <p className="text-gray-400 mb-8">Best values in each row are highlighted</p>
+
+        {missing > 0 && (
+          <div className="bg-yellow-900/50 border border-yellow-500 text-yellow-200 px-4 py-3 rounded-lg mb-6">
+            {missing} of the selected car{missing > 1 ? 's are' : ' is'} no longer available.
+          </div>
+        )}
+
+        {listings.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-xl font-semibold text-white mb-2">Nothing to compare yet</h3>
+            <p className="text-gray-400 mb-4">Use &quot;+ Compare&quot; on up to four cars to see them side by side</p>
+            <a
+              href="/buy-car"
+              className="inline-block px-6 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition-colors"
+            >
+              Browse Cars
+            </a>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[40rem] border-collapse">
+              <thead>
+                <tr>
+                  <th className="w-40" />
+                  {listings.map((listing) => (
+                    <th key={listing._id} className="p-3 align-top text-left">
+                      <Link href={`/listings/${listing._id}`} className="block group">
+                        <div className="relative h-32 w-full bg-gray-700 rounded-lg overflow-hidden mb-2">
+                          {listing.images[0] && (
+                            <Image
+                              src={imageVariantUrl(listing.images[0], 'medium')}
+                              alt={`${listing.brand} ${listing.carModel}`}
+                              fill
+                              className="object-cover"
+                              sizes="(max-width: 768px) 50vw, 25vw"
+                            />
+                          )}
+                        </div>
+                        <span className="text-white font-bold group-hover:text-cyan-400">
+                          {listing.brand} {listing.carModel}
+                        </span>
+                      </Link>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARE_ROWS.map((row) => {
+                  const best = bestValueIndexes(row, listings);
+                  return (
+                    <tr key={row.label} className="border-t border-gray-700">
+                      <th className="p-3 text-left text-gray-400 font-medium">{row.label}</th>
+                      {listings.map((listing, index) => (
+                        <td
+                          key={listing._id}
+                          className={`p-3 capitalize ${
+                            best.includes(index) ? 'text-green-300 font-semibold bg-green-900/20' : 'text-white'
+                          }`}
+                        >
+                          {formatValue(row, listing)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
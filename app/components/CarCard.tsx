@@ -1,6 +1,9 @@
 import Link from 'next/link';
 import Image from 'next/image';
+import { imageVariantUrl } from '@/lib/image-variants';
 import { formatINR, maskOwnerName } from '@/lib/utils';
+import FavouriteButton from './FavouriteButton';
+import CompareButton from './CompareButton';
 
 interface CarCardProps {
   listing: {
@@ -10,6 +13,7 @@ interface CarCardProps {
     model: string;
     variant?: string;
     price: number;
+    priceDrop?: number;
     city: string;
     yearOfOwnership: number;
     kmDriven: number;
@@ -24,7 +28,7 @@ interface CarCardProps {
 
 export default function CarCard({ listing }: CarCardProps) {
   const carName = `${listing.brand} ${listing.model}`;
-  const imageUrl = listing.images[0] || '/placeholder-car.jpg';
+  const imageUrl = listing.images[0] ? imageVariantUrl(listing.images[0], 'medium') : '/placeholder-car.jpg';
   const ownerName = listing.seller?.fullName ? maskOwnerName(listing.seller.fullName) : 'Owner';
 
   return (
@@ -39,6 +43,12 @@ export default function CarCard({ listing }: CarCardProps) {
             className="object-cover"
             sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
           />
+          <div className="absolute top-2 right-2">
+            <FavouriteButton listingId={listing._id} />
+          </div>
+          <div className="absolute bottom-2 left-2">
+            <CompareButton listingId={listing._id} title={carName} image={listing.images[0] && imageVariantUrl(listing.images[0], 'thumbnail')} />
+          </div>
         </div>
 
         {/* Content */}
@@ -54,9 +64,16 @@ export default function CarCard({ listing }: CarCardProps) {
           )}
 
           {/* Price */}
-          <p className="text-2xl font-bold text-cyan-400 mb-3">
-            {formatINR(listing.price)}
-          </p>
+          <div className="flex items-center gap-2 mb-3">
+            <p className="text-2xl font-bold text-cyan-400">
+              {formatINR(listing.price)}
+            </p>
+            {!!listing.priceDrop && listing.priceDrop > 0 && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium border bg-green-900/50 text-green-200 border-green-500">
+                Price dropped {formatINR(listing.priceDrop)}
+              </span>
+            )}
+          </div>
 
           {/* Details Grid */}
           <div className="grid grid-cols-2 gap-2 mb-3 text-sm">
@@ -3,7 +3,12 @@
 import { useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { createListing } from '@/app/actions/listings';
-import Image from 'next/image';
+import FairPriceEstimate from './FairPriceEstimate';
+import ImageOrderEditor, { OrderedImage } from './ImageOrderEditor';
+
+interface SelectedImage extends OrderedImage {
+  file: File;
+}
 
 interface CarListingFormProps {
   registrationNumber: string;
@@ -13,10 +18,12 @@ interface CarListingFormProps {
 export default function CarListingForm({ registrationNumber, onBack }: CarListingFormProps) {
   const router = useRouter();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextImageKey = useRef(0);
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
   
   const [formData, setFormData] = useState({
     brand: '',
@@ -33,8 +40,7 @@ export default function CarListingForm({ registrationNumber, onBack }: CarListin
     numberOfOwners: '',
   });
 
-  const [images, setImages] = useState<File[]>([]);
-  const [imagePreviews, setImagePreviews] = useState<string[]>([]);
+  const [images, setImages] = useState<SelectedImage[]>([]);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
@@ -77,14 +83,12 @@ export default function CarListingForm({ registrationNumber, onBack }: CarListin
       return;
     }
 
-    // Add new images
-    setImages(prev => [...prev, ...fileArray]);
-
-    // Create previews
+    // Add new images once their previews are ready
     fileArray.forEach(file => {
+      const key = `image-${nextImageKey.current++}`;
       const reader = new FileReader();
       reader.onloadend = () => {
-        setImagePreviews(prev => [...prev, reader.result as string]);
+        setImages(prev => [...prev, { key, src: reader.result as string, file }]);
       };
       reader.readAsDataURL(file);
     });
@@ -92,11 +96,6 @@ export default function CarListingForm({ registrationNumber, onBack }: CarListin
     if (error) setError('');
   };
 
-  const removeImage = (index: number) => {
-    setImages(prev => prev.filter((_, i) => i !== index));
-    setImagePreviews(prev => prev.filter((_, i) => i !== index));
-  };
-
   const validateForm = (): boolean => {
     // Check required fields
     if (!formData.brand.trim()) {
@@ -185,20 +184,24 @@ export default function CarListingForm({ registrationNumber, onBack }: CarListin
       formDataToSend.append('price', formData.price);
       formDataToSend.append('yearOfOwnership', formData.yearOfOwnership);
       formDataToSend.append('numberOfOwners', formData.numberOfOwners);
+      formDataToSend.append('registrationNumber', registrationNumber);
 
-      // Append images
+      // Append images in display order; the first one is the cover
       images.forEach((image) => {
-        formDataToSend.append('images', image);
+        formDataToSend.append('images', image.file);
       });
 
       const result = await createListing(formDataToSend);
 
       if (result.success) {
         setSuccess(true);
-        // Redirect to My Garage after 2 seconds
-        setTimeout(() => {
-          router.push('/my-garage');
-        }, 2000);
+        setWarnings(result.warnings || []);
+        // Redirect to My Garage after 2 seconds, unless there are photo warnings to read
+        if (!result.warnings?.length) {
+          setTimeout(() => {
+            router.push('/my-garage');
+          }, 2000);
+        }
       } else {
         setError(result.error || 'Failed to create listing');
       }
@@ -223,9 +226,30 @@ export default function CarListingForm({ registrationNumber, onBack }: CarListin
           <p className="text-gray-400 mb-4">
             Your car listing has been submitted for admin approval. You&apos;ll be notified once it&apos;s reviewed.
           </p>
-          <p className="text-sm text-gray-500">
-            Redirecting to My Garage...
-          </p>
+          {warnings.length > 0 ? (
+            <>
+              <div className="bg-yellow-900/30 border border-yellow-600 text-yellow-200 px-4 py-3 rounded-lg mb-4 text-left">
+                <p className="font-semibold mb-2">
+                  Some photos may get your listing rejected. You can replace them from My Garage.
+                </p>
+                <ul className="list-disc list-inside text-sm space-y-1">
+                  {warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+              <button
+                onClick={() => router.push('/my-garage')}
+                className="py-2 px-6 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg transition-colors"
+              >
+                Go to My Garage
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Redirecting to My Garage...
+            </p>
+          )}
         </div>
       </div>
     );
@@ -476,6 +500,11 @@ export default function CarListingForm({ registrationNumber, onBack }: CarListin
             min="1"
             className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
           />
+          <FairPriceEstimate
+            details={formData}
+            price={formData.price}
+            onUsePrice={(price) => setFormData(prev => ({ ...prev, price: price.toString() }))}
+          />
         </div>
 
         {/* Images */}
@@ -506,31 +535,7 @@ export default function CarListingForm({ registrationNumber, onBack }: CarListin
             </div>
 
             {/* Image Previews */}
-            {imagePreviews.length > 0 && (
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                {imagePreviews.map((preview, index) => (
-                  <div key={index} className="relative group">
-                    <div className="relative w-full h-32 bg-gray-700 rounded-lg overflow-hidden">
-                      <Image
-                        src={preview}
-                        alt={`Preview ${index + 1}`}
-                        fill
-                        className="object-cover"
-                      />
-                    </div>
-                    <button
-                      type="button"
-                      onClick={() => removeImage(index)}
-                      className="absolute top-2 right-2 bg-red-600 hover:bg-red-700 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                    >
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </button>
-                  </div>
-                ))}
-              </div>
-            )}
+            <ImageOrderEditor images={images} onChange={setImages} />
           </div>
         </div>
 
@@ -0,0 +1,45 @@
+'use client';
+
+import { addToCompare, removeFromCompare, useCompareItems } from '@/lib/compare-store';
+import { MAX_COMPARE } from '@/lib/compare';
+
+interface CompareButtonProps {
+  listingId: string;
+  title: string;
+  image?: string;
+}
+
+export default function CompareButton({ listingId, title, image }: CompareButtonProps) {
+  const items = useCompareItems();
+  const selected = items.some((item) => item._id === listingId);
+  const full = !selected && items.length >= MAX_COMPARE;
+
+  const handleToggle = (e: React.MouseEvent) => {
+    // The button sits inside the card link
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (selected) {
+      removeFromCompare(listingId);
+    } else {
+      addToCompare({ _id: listingId, title, image });
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleToggle}
+      disabled={full}
+      aria-pressed={selected}
+      title={full ? `You can compare up to ${MAX_COMPARE} cars` : undefined}
+      className={`px-2 py-1 rounded text-xs font-medium backdrop-blur-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        selected
+          ? 'bg-cyan-600 text-white'
+          : 'bg-gray-900/70 text-white hover:bg-gray-900'
+      }`}
+    >
+      {selected ? '✓ Comparing' : '+ Compare'}
+    </button>
+  );
+}
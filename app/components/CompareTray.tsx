@@ -0,0 +1,63 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { usePathname } from 'next/navigation';
+import { clearCompare, removeFromCompare, useCompareItems } from '@/lib/compare-store';
+import { MAX_COMPARE } from '@/lib/compare';
+
+export default function CompareTray() {
+  const items = useCompareItems();
+  const pathname = usePathname();
+
+  if (items.length === 0 || pathname?.startsWith('/admin')) {
+    return null;
+  }
+
+  const compareHref = `/compare?ids=${items.map((item) => item._id).join(',')}`;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 bg-gray-800/95 backdrop-blur border-t border-gray-700 shadow-lg">
+      <div className="max-w-7xl mx-auto px-4 py-3 flex items-center gap-4">
+        <div className="flex-1 flex gap-3 overflow-x-auto">
+          {items.map((item) => (
+            <div key={item._id} className="flex items-center gap-2 bg-gray-700 rounded-lg pl-1 pr-2 py-1 shrink-0">
+              <div className="relative w-10 h-8 rounded overflow-hidden bg-gray-600">
+                {item.image && <Image src={item.image} alt={item.title} fill className="object-cover" sizes="40px" />}
+              </div>
+              <span className="text-white text-sm max-w-[10rem] truncate">{item.title}</span>
+              <button
+                onClick={() => removeFromCompare(item._id)}
+                aria-label={`Remove ${item.title} from compare`}
+                className="text-gray-400 hover:text-white"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {items.length < MAX_COMPARE && (
+            <span className="text-gray-500 text-sm self-center shrink-0">
+              Add up to {MAX_COMPARE - items.length} more
+            </span>
+          )}
+        </div>
+
+        <button onClick={clearCompare} className="text-gray-400 hover:text-white text-sm shrink-0">
+          Clear
+        </button>
+        {items.length >= 2 ? (
+          <Link
+            href={compareHref}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg transition-colors shrink-0"
+          >
+            Compare ({items.length})
+          </Link>
+        ) : (
+          <span className="px-4 py-2 bg-gray-700 text-gray-400 text-sm font-semibold rounded-lg shrink-0">
+            Pick one more
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
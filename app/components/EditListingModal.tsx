@@ -1,8 +1,11 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import Image from 'next/image';
-import { updateListing } from '@/app/actions/listings';
+import { imageVariantUrl } from '@/lib/image-variants';
+import { MAX_LISTING_IMAGES } from '@/lib/validation';
+import { updateListing, resubmitListing } from '@/app/actions/listings';
+import RejectionNotice from '@/app/components/RejectionNotice';
+import ImageOrderEditor, { OrderedImage } from '@/app/components/ImageOrderEditor';
 
 interface Listing {
   _id: string;
@@ -14,6 +17,17 @@ interface Listing {
   description: string;
   city: string;
   state: string;
+  status?: string;
+  rejection?: {
+    reasons: string[];
+    note?: string;
+  };
+}
+
+// A photo already on the listing, or a file picked in this edit
+interface EditableImage extends OrderedImage {
+  existing?: string;
+  file?: File;
 }
 
 interface EditListingModalProps {
@@ -24,17 +38,24 @@ interface EditListingModalProps {
 
 export default function EditListingModal({ listing, onClose, onSuccess }: EditListingModalProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextImageKey = useRef(0);
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
+  // Photo warnings from a save, shown before the modal closes
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  // Rejected and expired listings go back to moderation when saved
+  const isResubmission = listing.status === 'rejected' || listing.status === 'expired';
   
   const [formData, setFormData] = useState({
     price: listing.price.toString(),
     description: listing.description,
   });
 
-  const [newImages, setNewImages] = useState<File[]>([]);
-  const [newImagePreviews, setNewImagePreviews] = useState<string[]>([]);
+  const [images, setImages] = useState<EditableImage[]>(() =>
+    listing.images.map((url) => ({ key: url, src: imageVariantUrl(url, 'thumbnail'), existing: url }))
+  );
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -72,35 +93,25 @@ export default function EditListingModal({ listing, onClose, onSuccess }: EditLi
     }
 
     // Limit to 10 images total
-    if (fileArray.length > 10) {
-      setError('Maximum 10 images allowed');
+    if (images.length + fileArray.length > MAX_LISTING_IMAGES) {
+      setError(`Maximum ${MAX_LISTING_IMAGES} images allowed`);
       return;
     }
 
-    // Set new images
-    setNewImages(fileArray);
-
-    // Create previews
-    const previews: string[] = [];
+    // Add new images once their previews are ready
     fileArray.forEach(file => {
+      const key = `new-${nextImageKey.current++}`;
       const reader = new FileReader();
       reader.onloadend = () => {
-        previews.push(reader.result as string);
-        if (previews.length === fileArray.length) {
-          setNewImagePreviews(previews);
-        }
+        setImages(prev => [...prev, { key, src: reader.result as string, file }]);
       };
       reader.readAsDataURL(file);
     });
 
+    e.target.value = '';
     if (error) setError('');
   };
 
-  const removeNewImage = (index: number) => {
-    setNewImages(prev => prev.filter((_, i) => i !== index));
-    setNewImagePreviews(prev => prev.filter((_, i) => i !== index));
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -117,6 +128,11 @@ export default function EditListingModal({ listing, onClose, onSuccess }: EditLi
       return;
     }
 
+    if (images.length === 0) {
+      setError('Please keep or add at least one image');
+      return;
+    }
+
     setIsSubmitting(true);
     setError('');
 
@@ -127,15 +143,26 @@ export default function EditListingModal({ listing, onClose, onSuccess }: EditLi
       formDataToSend.append('price', formData.price);
       formDataToSend.append('description', formData.description);
 
-      // Append new images if any
-      newImages.forEach((image) => {
-        formDataToSend.append('images', image);
+      // Send new files plus the final order, which refers to them by position
+      const newFiles = images.filter((image) => image.file).map((image) => image.file as File);
+      newFiles.forEach((file) => {
+        formDataToSend.append('images', file);
       });
+      const imageOrder = images.map((image) =>
+        image.file ? { upload: newFiles.indexOf(image.file) } : { existing: image.existing }
+      );
+      formDataToSend.append('imageOrder', JSON.stringify(imageOrder));
 
-      const result = await updateListing(listing._id, formDataToSend);
+      const result = isResubmission
+        ? await resubmitListing(listing._id, formDataToSend)
+        : await updateListing(listing._id, formDataToSend);
 
       if (result.success) {
-        onSuccess();
+        if (result.warnings?.length) {
+          setWarnings(result.warnings);
+        } else {
+          onSuccess();
+        }
       } else {
         setError(result.error || 'Failed to update listing');
       }
@@ -152,9 +179,11 @@ export default function EditListingModal({ listing, onClose, onSuccess }: EditLi
       <div className="bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-gray-700">
         {/* Header */}
         <div className="sticky top-0 bg-gray-800 border-b border-gray-700 p-6 flex items-center justify-between">
-          <h2 className="text-2xl font-bold text-white">Edit Listing</h2>
+          <h2 className="text-2xl font-bold text-white">
+            {isResubmission ? 'Edit & Resubmit Listing' : 'Edit Listing'}
+          </h2>
           <button
-            onClick={onClose}
+            onClick={warnings.length > 0 ? onSuccess : onClose}
             className="text-gray-400 hover:text-white transition-colors"
           >
             <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -163,152 +192,133 @@ export default function EditListingModal({ listing, onClose, onSuccess }: EditLi
           </button>
         </div>
 
-        {/* Content */}
-        <form onSubmit={handleSubmit} className="p-6 space-y-6">
-          {error && (
-            <div className="bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg">
-              {error}
+        {/* Content, or the photo warnings once saved */}
+        {warnings.length > 0 ? (
+          <div className="p-6 space-y-6">
+            <div className="bg-yellow-900/30 border border-yellow-600 text-yellow-200 px-4 py-3 rounded-lg">
+              <p className="font-semibold mb-2">
+                Your changes were saved, but some photos may get your listing rejected.
+              </p>
+              <ul className="list-disc list-inside text-sm space-y-1">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
             </div>
-          )}
-
-          {/* Car Info (Read-only) */}
-          <div className="bg-gray-700/50 rounded-lg p-4">
-            <h3 className="text-lg font-semibold text-white mb-2">
-              {listing.brand} {listing.carModel} {listing.variant}
-            </h3>
-            <p className="text-gray-400 text-sm">
-              {listing.city}, {listing.state}
-            </p>
+            <button
+              type="button"
+              onClick={onSuccess}
+              className="w-full py-3 px-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg transition-colors"
+            >
+              Done
+            </button>
           </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            {error && (
+              <div className="bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
 
-          {/* Price */}
-          <div>
-            <label htmlFor="price" className="block text-sm font-medium text-gray-300 mb-2">
-              Price (₹) *
-            </label>
-            <input
-              type="number"
-              id="price"
-              name="price"
-              value={formData.price}
-              onChange={handleChange}
-              required
-              min="1"
-              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
-            />
-          </div>
+            {listing.status === 'rejected' && <RejectionNotice rejection={listing.rejection} />}
 
-          {/* Description */}
-          <div>
-            <label htmlFor="description" className="block text-sm font-medium text-gray-300 mb-2">
-              Description *
-            </label>
-            <textarea
-              id="description"
-              name="description"
-              value={formData.description}
-              onChange={handleChange}
-              required
-              rows={4}
-              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent resize-none"
-            />
-          </div>
+            {/* Car Info (Read-only) */}
+            <div className="bg-gray-700/50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-white mb-2">
+                {listing.brand} {listing.carModel} {listing.variant}
+              </h3>
+              <p className="text-gray-400 text-sm">
+                {listing.city}, {listing.state}
+              </p>
+            </div>
 
-          {/* Current Images */}
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Current Images
-            </label>
-            <div className="grid grid-cols-3 gap-2">
-              {listing.images.map((image, index) => (
-                <div key={index} className="relative h-24 bg-gray-700 rounded-lg overflow-hidden">
-                  <Image
-                    src={image}
-                    alt={`Current ${index + 1}`}
-                    fill
-                    className="object-cover"
-                  />
-                </div>
-              ))}
+            {/* Price */}
+            <div>
+              <label htmlFor="price" className="block text-sm font-medium text-gray-300 mb-2">
+                Price (₹) *
+              </label>
+              <input
+                type="number"
+                id="price"
+                name="price"
+                value={formData.price}
+                onChange={handleChange}
+                required
+                min="1"
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+              />
             </div>
-          </div>
 
-          {/* New Images */}
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Replace Images (Optional)
-            </label>
-            
-            <div className="space-y-4">
-              {/* Upload Button */}
-              <div>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/jpeg,image/png,image/webp,image/jpg"
-                  multiple
-                  onChange={handleImageChange}
-                  className="hidden"
-                />
-                <button
-                  type="button"
-                  onClick={() => fileInputRef.current?.click()}
-                  className="w-full py-3 px-4 bg-gray-700 hover:bg-gray-600 border border-gray-600 text-white font-medium rounded-lg transition-colors"
-                >
-                  Choose New Images
-                </button>
-                <p className="text-xs text-gray-400 mt-1">
-                  Max 10 images, 5MB each. New images will replace all current images.
-                </p>
-              </div>
+            {/* Description */}
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-300 mb-2">
+                Description *
+              </label>
+              <textarea
+                id="description"
+                name="description"
+                value={formData.description}
+                onChange={handleChange}
+                required
+                rows={4}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent resize-none"
+              />
+            </div>
+
+            {/* Images */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Images
+              </label>
+
+              <div className="space-y-4">
+                <ImageOrderEditor images={images} onChange={setImages} />
 
-              {/* New Image Previews */}
-              {newImagePreviews.length > 0 && (
-                <div className="grid grid-cols-3 gap-2">
-                  {newImagePreviews.map((preview, index) => (
-                    <div key={index} className="relative group">
-                      <div className="relative h-24 bg-gray-700 rounded-lg overflow-hidden">
-                        <Image
-                          src={preview}
-                          alt={`New ${index + 1}`}
-                          fill
-                          className="object-cover"
-                        />
-                      </div>
-                      <button
-                        type="button"
-                        onClick={() => removeNewImage(index)}
-                        className="absolute top-1 right-1 bg-red-600 hover:bg-red-700 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                      >
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
-                  ))}
+                {/* Upload Button */}
+                <div>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp,image/jpg"
+                    multiple
+                    onChange={handleImageChange}
+                    className="hidden"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={images.length >= MAX_LISTING_IMAGES}
+                    className="w-full py-3 px-4 bg-gray-700 hover:bg-gray-600 border border-gray-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {images.length >= MAX_LISTING_IMAGES ? 'Maximum images reached' : 'Add Images'}
+                  </button>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Max {MAX_LISTING_IMAGES} images, 5MB each.
+                  </p>
                 </div>
-              )}
+              </div>
             </div>
-          </div>
 
-          {/* Actions */}
-          <div className="flex gap-3 pt-4">
-            <button
-              type="button"
-              onClick={onClose}
-              className="flex-1 py-3 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="flex-1 py-3 px-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSubmitting ? 'Saving...' : 'Save Changes'}
-            </button>
-          </div>
-        </form>
+            {/* Actions */}
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 py-3 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="flex-1 py-3 px-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Saving...' : isResubmission ? 'Save & Resubmit' : 'Save Changes'}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { estimateFairPrice } from '@/app/actions/valuation';
+import { classifyPrice, PRICE_VERDICT_LABELS, Valuation } from '@/lib/valuation';
+import { formatINR } from '@/lib/utils';
+
+interface FairPriceEstimateProps {
+  details: {
+    brand: string;
+    model: string;
+    variant: string;
+    fuelType: string;
+    transmission: string;
+    kmDriven: string;
+    yearOfOwnership: string;
+    numberOfOwners: string;
+    city: string;
+  };
+  price: string;
+  onUsePrice: (price: number) => void;
+}
+
+export default function FairPriceEstimate({ details, price, onUsePrice }: FairPriceEstimateProps) {
+  const [valuation, setValuation] = useState<Valuation | null>(null);
+  const [message, setMessage] = useState('');
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  const ready =
+    details.brand.trim() &&
+    details.model.trim() &&
+    details.kmDriven &&
+    details.yearOfOwnership &&
+    details.numberOfOwners;
+
+  const handleEstimate = async () => {
+    setIsEstimating(true);
+    setMessage('');
+
+    try {
+      const result = await estimateFairPrice({
+        brand: details.brand.trim(),
+        carModel: details.model.trim(),
+        variant: details.variant.trim() || undefined,
+        fuelType: details.fuelType,
+        transmission: details.transmission,
+        kmDriven: parseInt(details.kmDriven),
+        yearOfOwnership: parseInt(details.yearOfOwnership),
+        numberOfOwners: parseInt(details.numberOfOwners),
+        city: details.city.trim() || undefined,
+      });
+
+      if (!result.success) {
+        setValuation(null);
+        setMessage(result.error || 'Failed to estimate price');
+      } else {
+        setValuation(result.data);
+        if (!result.data) setMessage(result.message || 'No estimate available');
+      }
+    } catch (err) {
+      console.error('Error estimating price:', err);
+      setMessage('An error occurred');
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const askingPrice = parseInt(price);
+  const verdict = valuation && askingPrice > 0 ? classifyPrice(askingPrice, valuation) : null;
+
+  return (
+    <div className="mt-3 bg-gray-700/50 border border-gray-600 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-white text-sm font-medium">Fair price estimate</p>
+          <p className="text-gray-400 text-xs">Based on similar cars listed and sold on DriveSphere</p>
+        </div>
+        <button
+          type="button"
+          onClick={handleEstimate}
+          disabled={!ready || isEstimating}
+          title={ready ? undefined : 'Fill in brand, model, year, owners and kilometers first'}
+          className="px-3 py-2 bg-gray-600 hover:bg-gray-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+        >
+          {isEstimating ? 'Estimating...' : valuation ? 'Re-estimate' : 'Estimate'}
+        </button>
+      </div>
+
+      {message && <p className="text-gray-300 text-sm mt-3">{message}</p>}
+
+      {valuation && (
+        <div className="mt-3 space-y-2">
+          <p className="text-cyan-400 text-lg font-bold">
+            {formatINR(valuation.low)} – {formatINR(valuation.high)}
+          </p>
+          <p className="text-gray-400 text-xs">
+            From {valuation.comparableCount} similar car{valuation.comparableCount !== 1 ? 's' : ''} ·{' '}
+            {Math.round(valuation.confidence * 100)}% confidence
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => onUsePrice(valuation.estimate)}
+              className="text-cyan-400 hover:text-cyan-300 text-sm"
+            >
+              Use {formatINR(valuation.estimate)}
+            </button>
+            {verdict && (
+              <span className="text-gray-300 text-sm">
+                Your price looks: <span className="font-medium">{PRICE_VERDICT_LABELS[verdict]}</span>
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { getFavouriteIds, setFavourite } from '@/app/actions/favourites';
+
+interface FavouriteButtonProps {
+  listingId: string;
+  variant?: 'overlay' | 'inline';
+}
+
+// One shortlist request per page, shared by every heart on it
+let favouriteIds: { userId: string; ids: Promise<Set<string>> } | null = null;
+
+function loadFavouriteIds(userId: string): Promise<Set<string>> {
+  if (!favouriteIds || favouriteIds.userId !== userId) {
+    favouriteIds = {
+      userId,
+      ids: getFavouriteIds()
+        .then((result) => new Set<string>(result.success ? result.data : []))
+        .catch(() => new Set<string>()),
+    };
+  }
+  return favouriteIds.ids;
+}
+
+export default function FavouriteButton({ listingId, variant = 'overlay' }: FavouriteButtonProps) {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [favourited, setFavourited] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const userId = session?.user?.profileComplete ? session.user.id : null;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    loadFavouriteIds(userId).then((ids) => {
+      if (!cancelled) setFavourited(ids.has(listingId));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, listingId]);
+
+  const handleToggle = async (e: React.MouseEvent) => {
+    // The heart sits inside the card link
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (status === 'unauthenticated') {
+      router.push('/signin');
+      return;
+    }
+
+    if (!userId) {
+      router.push('/complete-profile');
+      return;
+    }
+
+    const next = !favourited;
+    setFavourited(next);
+    setIsSaving(true);
+
+    try {
+      const result = await setFavourite(listingId, next);
+      if (!result.success) {
+        setFavourited(!next);
+        alert(result.error || 'Failed to update saved cars');
+        return;
+      }
+
+      const ids = await loadFavouriteIds(userId);
+      if (next) ids.add(listingId);
+      else ids.delete(listingId);
+    } catch (err) {
+      console.error('Error updating saved cars:', err);
+      setFavourited(!next);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const label = favourited ? 'Remove from saved cars' : 'Save car';
+  const heart = (
+    <svg
+      className="w-5 h-5"
+      fill={favourited ? 'currentColor' : 'none'}
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+    </svg>
+  );
+
+  if (variant === 'inline') {
+    return (
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isSaving}
+        aria-pressed={favourited}
+        className={`w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition-colors border disabled:opacity-50 ${
+          favourited
+            ? 'border-pink-500 text-pink-400 bg-pink-500/10'
+            : 'border-gray-600 text-gray-300 hover:border-pink-500 hover:text-pink-400'
+        }`}
+      >
+        {heart}
+        {favourited ? 'Saved' : 'Save Car'}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleToggle}
+      disabled={isSaving}
+      aria-pressed={favourited}
+      aria-label={label}
+      title={label}
+      className={`p-2 rounded-full bg-gray-900/70 backdrop-blur-sm transition-colors disabled:opacity-50 ${
+        favourited ? 'text-pink-500' : 'text-white hover:text-pink-400'
+      }`}
+    >
+      {heart}
+    </button>
+  );
+}
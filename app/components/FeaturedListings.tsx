@@ -11,6 +11,7 @@ interface Listing {
   model: string;
   variant?: string;
   price: number;
+  priceDrop?: number;
   city: string;
   yearOfOwnership: number;
   kmDriven: number;
@@ -2,10 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import type { BucketCount, FacetCount, ListingFacets } from '@/lib/listing-search';
 
 interface FilterPanelProps {
-  brands?: string[];
-  cities?: string[];
+  facets?: ListingFacets;
   onFilterChange?: (filters: FilterOptions) => void;
 }
 
@@ -21,14 +21,30 @@ export interface FilterOptions {
 const FUEL_TYPES = ['petrol', 'diesel', 'cng', 'electric'];
 const TRANSMISSIONS = ['manual', 'automatic'];
 const CURRENT_YEAR = new Date().getFullYear();
+const MAX_PRICE = 10000000;
 
-export default function FilterPanel({ brands = [], cities = [], onFilterChange }: FilterPanelProps) {
+/**
+ * Options to show for a facet: values with matches, plus selected values so they can be cleared
+ */
+function visibleOptions(counts: FacetCount[] | undefined, selected: string[], fallback: string[] = []): FacetCount[] {
+  if (!counts) {
+    return fallback.map((value) => ({ value, count: -1 }));
+  }
+
+  const options = counts.filter((option) => option.count > 0);
+  selected
+    .filter((value) => !options.some((option) => option.value === value))
+    .forEach((value) => options.push({ value, count: 0 }));
+  return options;
+}
+
+export default function FilterPanel({ facets, onFilterChange }: FilterPanelProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   
   const [selectedBrands, setSelectedBrands] = useState<string[]>([]);
   const [priceMin, setPriceMin] = useState<number>(0);
-  const [priceMax, setPriceMax] = useState<number>(10000000);
+  const [priceMax, setPriceMax] = useState<number>(MAX_PRICE);
   const [selectedCities, setSelectedCities] = useState<string[]>([]);
   const [yearMin, setYearMin] = useState<number>(2000);
   const [yearMax, setYearMax] = useState<number>(CURRENT_YEAR);
@@ -88,7 +104,7 @@ export default function FilterPanel({ brands = [], cities = [], onFilterChange }
       if (priceMin > 0) params.set('priceMin', priceMin.toString());
       else params.delete('priceMin');
       
-      if (priceMax < 10000000) params.set('priceMax', priceMax.toString());
+      if (priceMax < MAX_PRICE) params.set('priceMax', priceMax.toString());
       else params.delete('priceMax');
       
       if (yearMin > 2000) params.set('yearMin', yearMin.toString());
@@ -107,7 +123,7 @@ export default function FilterPanel({ brands = [], cities = [], onFilterChange }
     setSelectedFuelTypes([]);
     setSelectedTransmissions([]);
     setPriceMin(0);
-    setPriceMax(10000000);
+    setPriceMax(MAX_PRICE);
     setYearMin(2000);
     setYearMax(CURRENT_YEAR);
     
@@ -131,6 +147,65 @@ export default function FilterPanel({ brands = [], cities = [], onFilterChange }
     }
   };
 
+  const selectPriceBucket = (bucket: BucketCount) => {
+    setPriceMin(bucket.min);
+    setPriceMax(bucket.max ?? MAX_PRICE);
+  };
+
+  const selectYearBucket = (bucket: BucketCount) => {
+    setYearMin(Math.max(bucket.min, 2000));
+    setYearMax(bucket.max ?? CURRENT_YEAR);
+  };
+
+  const renderBuckets = (
+    buckets: BucketCount[] | undefined,
+    onSelect: (bucket: BucketCount) => void
+  ) => {
+    const available = buckets?.filter((bucket) => bucket.count > 0) || [];
+    if (available.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-2 mt-2">
+        {available.map((bucket) => (
+          <button
+            key={bucket.label}
+            type="button"
+            onClick={() => onSelect(bucket)}
+            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+          >
+            {bucket.label} <span className="text-gray-500">({bucket.count})</span>
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderOptions = (
+    options: FacetCount[],
+    selected: string[],
+    setSelected: (arr: string[]) => void,
+    capitalize = false
+  ) =>
+    options.map((option) => (
+      <label key={option.value} className="flex items-center cursor-pointer">
+        <input
+          type="checkbox"
+          checked={selected.includes(option.value)}
+          onChange={() => toggleArrayFilter(selected, setSelected, option.value)}
+          className="w-4 h-4 text-cyan-500 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
+        />
+        <span className={`ml-2 text-gray-300 ${capitalize ? 'capitalize' : ''}`}>{option.value}</span>
+        {option.count >= 0 && (
+          <span className="ml-auto text-gray-500 text-xs">{option.count}</span>
+        )}
+      </label>
+    ));
+
+  const fuelOptions = visibleOptions(facets?.fuelTypes, selectedFuelTypes, FUEL_TYPES);
+  const transmissionOptions = visibleOptions(facets?.transmissions, selectedTransmissions, TRANSMISSIONS);
+  const brandOptions = visibleOptions(facets?.brands, selectedBrands);
+  const cityOptions = visibleOptions(facets?.cities, selectedCities);
+
   return (
     <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
       <div className="flex justify-between items-center mb-4">
@@ -158,11 +233,12 @@ export default function FilterPanel({ brands = [], cities = [], onFilterChange }
             <input
               type="number"
               value={priceMax}
-              onChange={(e) => setPriceMax(parseInt(e.target.value) || 10000000)}
+              onChange={(e) => setPriceMax(parseInt(e.target.value) || MAX_PRICE)}
               placeholder="Max"
               className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
             />
           </div>
+          {renderBuckets(facets?.prices, selectPriceBucket)}
         </div>
 
         {/* Year Range */}
@@ -188,80 +264,45 @@ export default function FilterPanel({ brands = [], cities = [], onFilterChange }
               className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
             />
           </div>
+          {renderBuckets(facets?.years, selectYearBucket)}
         </div>
 
         {/* Fuel Type */}
-        <div>
-          <label className="block text-sm font-medium text-gray-300 mb-2">Fuel Type</label>
-          <div className="space-y-2">
-            {FUEL_TYPES.map((fuel) => (
-              <label key={fuel} className="flex items-center cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={selectedFuelTypes.includes(fuel)}
-                  onChange={() => toggleArrayFilter(selectedFuelTypes, setSelectedFuelTypes, fuel)}
-                  className="w-4 h-4 text-cyan-500 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
-                />
-                <span className="ml-2 text-gray-300 capitalize">{fuel}</span>
-              </label>
-            ))}
+        {fuelOptions.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Fuel Type</label>
+            <div className="space-y-2">
+              {renderOptions(fuelOptions, selectedFuelTypes, setSelectedFuelTypes, true)}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Transmission */}
-        <div>
-          <label className="block text-sm font-medium text-gray-300 mb-2">Transmission</label>
-          <div className="space-y-2">
-            {TRANSMISSIONS.map((trans) => (
-              <label key={trans} className="flex items-center cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={selectedTransmissions.includes(trans)}
-                  onChange={() => toggleArrayFilter(selectedTransmissions, setSelectedTransmissions, trans)}
-                  className="w-4 h-4 text-cyan-500 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
-                />
-                <span className="ml-2 text-gray-300 capitalize">{trans}</span>
-              </label>
-            ))}
+        {transmissionOptions.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Transmission</label>
+            <div className="space-y-2">
+              {renderOptions(transmissionOptions, selectedTransmissions, setSelectedTransmissions, true)}
+            </div>
           </div>
-        </div>
+        )}
 
-        {/* Brands (if provided) */}
-        {brands.length > 0 && (
+        {/* Brands */}
+        {brandOptions.length > 0 && (
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">Brand</label>
             <div className="space-y-2 max-h-40 overflow-y-auto">
-              {brands.map((brand) => (
-                <label key={brand} className="flex items-center cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={selectedBrands.includes(brand)}
-                    onChange={() => toggleArrayFilter(selectedBrands, setSelectedBrands, brand)}
-                    className="w-4 h-4 text-cyan-500 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
-                  />
-                  <span className="ml-2 text-gray-300">{brand}</span>
-                </label>
-              ))}
+              {renderOptions(brandOptions, selectedBrands, setSelectedBrands)}
             </div>
           </div>
         )}
 
-        {/* Cities (if provided) */}
-        {cities.length > 0 && (
+        {/* Cities */}
+        {cityOptions.length > 0 && (
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">City</label>
             <div className="space-y-2 max-h-40 overflow-y-auto">
-              {cities.map((city) => (
-                <label key={city} className="flex items-center cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={selectedCities.includes(city)}
-                    onChange={() => toggleArrayFilter(selectedCities, setSelectedCities, city)}
-                    className="w-4 h-4 text-cyan-500 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
-                  />
-                  <span className="ml-2 text-gray-300">{city}</span>
-                </label>
-              ))}
+              {renderOptions(cityOptions, selectedCities, setSelectedCities)}
             </div>
           </div>
         )}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import Image from 'next/image';
+import { imageVariantUrl } from '@/lib/image-variants';
 
 interface ImageCarouselProps {
   images: string[];
@@ -40,7 +41,7 @@ export default function ImageCarousel({ images, alt }: ImageCarouselProps) {
       {/* Main Image */}
       <div className="relative w-full h-96 bg-gray-900 rounded-lg overflow-hidden">
         <Image
-          src={images[currentIndex]}
+          src={imageVariantUrl(images[currentIndex], 'large')}
           alt={`${alt} - Image ${currentIndex + 1}`}
           fill
           className="object-contain"
@@ -92,7 +93,7 @@ export default function ImageCarousel({ images, alt }: ImageCarouselProps) {
               }`}
             >
               <Image
-                src={image}
+                src={imageVariantUrl(image, 'thumbnail')}
                 alt={`${alt} thumbnail ${index + 1}`}
                 fill
                 className="object-cover"
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { runImageCleanup } from '@/app/actions/image-gc';
+
+interface CleanupReport {
+  dryRun: boolean;
+  scanned: number;
+  orphanedCount: number;
+  orphaned: { fileId: string; filename: string; length: number; uploadDate: string }[];
+  bytes: number;
+  deleted: number;
+  errors: string[];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function ImageCleanupPanel() {
+  const [report, setReport] = useState<CleanupReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('Delete all orphaned images? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      setRunning(true);
+      setError('');
+      const result = await runImageCleanup(dryRun);
+      if (result.success) {
+        setReport(result.data);
+      } else {
+        setError(result.error || 'Failed to clean up images');
+      }
+    } catch (err) {
+      console.error('Error cleaning up images:', err);
+      setError('An error occurred');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mt-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">Image Storage Cleanup</h2>
+          <p className="text-gray-400 text-sm">
+            Stored photos no listing uses any more. Uploads from the last 24 hours are never touched.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(true)}
+            disabled={running}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {running ? 'Scanning...' : 'Preview'}
+          </button>
+          {report?.dryRun && report.orphanedCount > 0 && (
+            <button
+              onClick={() => run(false)}
+              disabled={running}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              Delete {report.orphanedCount} orphaned images
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="text-sm">
+          <p className="text-gray-300 mb-3">
+            {report.dryRun
+              ? `${report.orphanedCount} of ${report.scanned} stored files are orphaned (${formatBytes(report.bytes)}).`
+              : `Deleted ${report.deleted} of ${report.orphanedCount} orphaned files, freeing about ${formatBytes(report.bytes)}.`}
+          </p>
+
+          {report.dryRun && report.orphaned.length > 0 && (
+            <ul className="divide-y divide-gray-700 max-h-64 overflow-y-auto">
+              {report.orphaned.map((file) => (
+                <li key={file.fileId} className="py-2 flex justify-between gap-4 text-gray-400">
+                  <span className="truncate">{file.filename}</span>
+                  <span className="shrink-0">
+                    {formatBytes(file.length)} • {new Date(file.uploadDate).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {report.errors.length > 0 && (
+            <ul className="text-red-400 mt-3 space-y-1">
+              {report.errors.map((message) => (
+                <li key={message}>Could not delete {message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
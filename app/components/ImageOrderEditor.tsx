@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { moveImage, moveToCover } from '@/lib/listing-images';
+
+export interface OrderedImage {
+  key: string;
+  src: string;
+}
+
+interface ImageOrderEditorProps<T extends OrderedImage> {
+  images: T[];
+  onChange: (images: T[]) => void;
+}
+
+/**
+ * Photo grid sellers can drag to reorder; the first photo is the listing's cover
+ */
+export default function ImageOrderEditor<T extends OrderedImage>({ images, onChange }: ImageOrderEditorProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveImage(images, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  if (images.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {images.map((image, index) => (
+          <div
+            key={image.key}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`relative group cursor-move ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            <div
+              className={`relative w-full h-32 bg-gray-700 rounded-lg overflow-hidden ${
+                index === 0 ? 'ring-2 ring-cyan-500' : ''
+              }`}
+            >
+              <Image
+                src={image.src}
+                alt={`Image ${index + 1}`}
+                fill
+                className="object-cover"
+              />
+            </div>
+
+            {index === 0 && (
+              <span className="absolute top-2 left-2 px-2 py-0.5 bg-cyan-600 text-white text-xs font-semibold rounded">
+                Cover
+              </span>
+            )}
+
+            <button
+              type="button"
+              onClick={() => onChange(images.filter((_, i) => i !== index))}
+              aria-label={`Remove image ${index + 1}`}
+              className="absolute top-2 right-2 bg-red-600 hover:bg-red-700 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+
+            <div className="absolute bottom-2 inset-x-2 flex justify-between gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                type="button"
+                onClick={() => onChange(moveImage(images, index, index - 1))}
+                disabled={index === 0}
+                aria-label={`Move image ${index + 1} left`}
+                className="px-2 py-0.5 bg-gray-900/80 hover:bg-gray-900 text-white text-xs rounded disabled:invisible"
+              >
+                ←
+              </button>
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(moveToCover(images, index))}
+                  className="px-2 py-0.5 bg-gray-900/80 hover:bg-gray-900 text-white text-xs rounded"
+                >
+                  Make cover
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(moveImage(images, index, index + 1))}
+                disabled={index === images.length - 1}
+                aria-label={`Move image ${index + 1} right`}
+                className="px-2 py-0.5 bg-gray-900/80 hover:bg-gray-900 text-white text-xs rounded disabled:invisible"
+              >
+                →
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Drag photos to reorder them. The first photo is the cover shown in search results.
+      </p>
+    </div>
+  );
+}
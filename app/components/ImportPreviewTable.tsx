@@ -0,0 +1,146 @@
+'use client';
+
+import type { ImportField, NormalizedImportRow } from '@/lib/scraped-import';
+import type { ScrapedImportRow } from '@/lib/validation';
+
+export interface ImportPreviewRow extends NormalizedImportRow {
+  selected: boolean;
+}
+
+interface ImportPreviewTableProps {
+  rows: ImportPreviewRow[];
+  rowErrors: Record<number, string>;
+  onChange: (index: number, row: ImportPreviewRow) => void;
+  onSelectAll: (selected: boolean) => void;
+}
+
+type Column =
+  | { field: ImportField; label: string; type: 'text' | 'number'; width: string }
+  | { field: 'fuelType' | 'transmission'; label: string; type: 'select'; options: string[]; width: string };
+
+const COLUMNS: Column[] = [
+  { field: 'brand', label: 'Brand', type: 'text', width: 'w-32' },
+  { field: 'model', label: 'Model', type: 'text', width: 'w-28' },
+  { field: 'variant', label: 'Variant', type: 'text', width: 'w-28' },
+  { field: 'yearOfOwnership', label: 'Year', type: 'number', width: 'w-20' },
+  { field: 'kmDriven', label: 'KM', type: 'number', width: 'w-24' },
+  { field: 'price', label: 'Price (₹)', type: 'number', width: 'w-28' },
+  { field: 'fuelType', label: 'Fuel', type: 'select', options: ['petrol', 'diesel', 'cng', 'electric'], width: 'w-24' },
+  { field: 'transmission', label: 'Gearbox', type: 'select', options: ['manual', 'automatic'], width: 'w-28' },
+  { field: 'numberOfOwners', label: 'Owners', type: 'number', width: 'w-16' },
+  { field: 'city', label: 'City', type: 'text', width: 'w-28' },
+  { field: 'state', label: 'State', type: 'text', width: 'w-32' },
+];
+
+export default function ImportPreviewTable({ rows, rowErrors, onChange, onSelectAll }: ImportPreviewTableProps) {
+  const allSelected = rows.length > 0 && rows.every((row) => row.selected);
+
+  const updateField = (index: number, field: ImportField, value: string) => {
+    const current = rows[index];
+    const row: ScrapedImportRow = {
+      ...current.row,
+      [field]: typeof current.row[field] === 'number' ? Number(value) || 0 : value,
+    };
+    // An edited field has been checked by a person
+    onChange(index, {
+      ...current,
+      row,
+      lowConfidence: current.lowConfidence.filter((lowField) => lowField !== field),
+    });
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-400 border-b border-gray-700">
+            <th className="py-2 pr-2">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={(e) => onSelectAll(e.target.checked)}
+                aria-label="Select all rows"
+              />
+            </th>
+            <th className="py-2 pr-2">Photo</th>
+            {COLUMNS.map((column) => (
+              <th key={column.field} className="py-2 pr-2 font-medium">{column.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-700">
+          {rows.map((previewRow, index) => (
+            <tr
+              key={index}
+              className={`${previewRow.selected ? '' : 'opacity-40'} ${rowErrors[index] ? 'bg-red-900/20' : ''}`}
+            >
+              <td className="py-2 pr-2 align-top">
+                <input
+                  type="checkbox"
+                  checked={previewRow.selected}
+                  onChange={(e) => onChange(index, { ...previewRow, selected: e.target.checked })}
+                  aria-label={`Import row ${index + 1}`}
+                />
+              </td>
+              <td className="py-2 pr-2 align-top">
+                {previewRow.row.images[0] ? (
+                  <a href={previewRow.row.sourceUrl || previewRow.row.images[0]} target="_blank" rel="noopener noreferrer">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={previewRow.row.images[0]} alt="" className="h-12 w-16 object-cover rounded" />
+                  </a>
+                ) : (
+                  <span className="text-red-400 text-xs">No images</span>
+                )}
+                <p className="text-gray-500 text-xs mt-1">{previewRow.row.images.length} photo(s)</p>
+              </td>
+              {COLUMNS.map((column) => {
+                const lowConfidence = previewRow.lowConfidence.includes(column.field);
+                const className = `${column.width} px-2 py-1 bg-gray-700 text-white rounded border ${
+                  lowConfidence ? 'border-yellow-500' : 'border-gray-600'
+                } focus:outline-none focus:ring-1 focus:ring-cyan-500`;
+                const value = String(previewRow.row[column.field]);
+
+                return (
+                  <td key={column.field} className="py-2 pr-2 align-top">
+                    {column.type === 'select' ? (
+                      <select
+                        value={value}
+                        onChange={(e) => updateField(index, column.field, e.target.value)}
+                        disabled={!previewRow.selected}
+                        className={className}
+                        title={lowConfidence ? 'Guessed - please check' : undefined}
+                      >
+                        {column.options.map((option) => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type={column.type}
+                        value={value}
+                        onChange={(e) => updateField(index, column.field, e.target.value)}
+                        disabled={!previewRow.selected}
+                        className={className}
+                        title={lowConfidence ? 'Guessed - please check' : undefined}
+                      />
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {Object.keys(rowErrors).length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm text-red-300">
+          {Object.entries(rowErrors).map(([index, message]) => (
+            <li key={index}>
+              Row {Number(index) + 1}: {message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useTransition } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { expressInterest } from '@/app/actions/listings';
+import { startConversation } from '@/app/actions/messages';
 
 interface InterestButtonProps {
   listingId: string;
@@ -17,6 +18,7 @@ export default function InterestButton({ listingId, initialCount }: InterestButt
   const [hasExpressed, setHasExpressed] = useState(false);
   const [error, setError] = useState('');
   const [isPending, startTransition] = useTransition();
+  const [isStartingChat, setIsStartingChat] = useState(false);
 
   const handleExpressInterest = async () => {
     if (status === 'unauthenticated') {
@@ -51,6 +53,36 @@ export default function InterestButton({ listingId, initialCount }: InterestButt
     });
   };
 
+  const handleMessageSeller = async () => {
+    if (status === 'unauthenticated') {
+      router.push('/signin');
+      return;
+    }
+
+    if (!session?.user?.profileComplete) {
+      router.push('/complete-profile');
+      return;
+    }
+
+    setIsStartingChat(true);
+    setError('');
+
+    try {
+      const result = await startConversation(listingId);
+
+      if (result.success && result.data?.conversationId) {
+        router.push(`/my-garage?tab=messages&conversation=${result.data.conversationId}`);
+      } else {
+        setError(result.error || 'Failed to start conversation');
+      }
+    } catch (err) {
+      console.error('Error starting conversation:', err);
+      setError('An error occurred');
+    } finally {
+      setIsStartingChat(false);
+    }
+  };
+
   return (
     <div className="space-y-2">
       <button
@@ -77,6 +109,15 @@ export default function InterestButton({ listingId, initialCount }: InterestButt
         )}
       </button>
 
+      {/* Message Seller */}
+      <button
+        onClick={handleMessageSeller}
+        disabled={isStartingChat}
+        className="w-full px-6 py-3 rounded-lg font-semibold transition-colors border border-cyan-600 text-cyan-400 hover:bg-cyan-600/10 disabled:opacity-50 disabled:cursor-wait"
+      >
+        {isStartingChat ? 'Opening chat...' : 'Message Seller'}
+      </button>
+
       {/* Interest Count */}
       <div className="flex items-center justify-center gap-2 text-gray-400 text-sm">
         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { imageVariantUrl } from '@/lib/image-variants';
+import {
+  getConversations,
+  getMessages,
+  sendMessage,
+  revealContact,
+} from '@/app/actions/messages';
+import { formatINR } from '@/lib/utils';
+
+interface ConversationSummary {
+  _id: string;
+  role: 'buyer' | 'seller';
+  listing: {
+    _id: string;
+    brand: string;
+    carModel: string;
+    image: string | null;
+    price: number;
+  } | null;
+  counterpartName: string;
+  contactRevealed: boolean;
+  lastMessageAt: string;
+  lastMessagePreview: string;
+  unreadCount: number;
+}
+
+interface ThreadMessage {
+  _id: string;
+  body: string;
+  mine: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface Thread {
+  conversationId: string;
+  role: 'buyer' | 'seller';
+  contactRevealed: boolean;
+  sellerContact: {
+    fullName: string;
+    email: string;
+    mobileNumber: string;
+  } | null;
+  messages: ThreadMessage[];
+}
+
+interface MessagesInboxProps {
+  initialConversationId?: string | null;
+}
+
+export default function MessagesInbox({ initialConversationId }: MessagesInboxProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(initialConversationId || null);
+  const [thread, setThread] = useState<Thread | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchConversations = async () => {
+    const result = await getConversations();
+    if (result.success) {
+      setConversations(result.data || []);
+    } else {
+      setError(result.error || 'Failed to load messages');
+    }
+    setLoading(false);
+  };
+
+  const fetchThread = async (conversationId: string) => {
+    const result = await getMessages(conversationId);
+    if (result.success) {
+      setThread(result.data);
+      // Opening a thread clears its unread badge
+      setConversations(prev =>
+        prev.map(conversation =>
+          conversation._id === conversationId
+            ? { ...conversation, unreadCount: 0 }
+            : conversation
+        )
+      );
+    } else {
+      setError(result.error || 'Failed to load conversation');
+    }
+  };
+
+  useEffect(() => {
+    fetchConversations();
+  }, []);
+
+  useEffect(() => {
+    if (activeId) {
+      fetchThread(activeId);
+    } else {
+      setThread(null);
+    }
+  }, [activeId]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!activeId || !draft.trim()) return;
+
+    setSending(true);
+    setError('');
+
+    try {
+      const result = await sendMessage(activeId, draft);
+
+      if (result.success) {
+        setDraft('');
+        await fetchThread(activeId);
+        await fetchConversations();
+      } else {
+        setError(result.error || 'Failed to send message');
+      }
+    } catch (err) {
+      console.error('Error sending message:', err);
+      setError('An error occurred');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!activeId) return;
+
+    if (!confirm('Share your name, email and mobile number with this buyer?')) {
+      return;
+    }
+
+    const result = await revealContact(activeId);
+    if (result.success) {
+      await fetchThread(activeId);
+      await fetchConversations();
+    } else {
+      alert(result.error || 'Failed to share contact details');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-cyan-400 text-center py-12">Loading messages...</div>;
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-12 border border-gray-700 text-center">
+        <h2 className="text-2xl font-bold text-white mb-2">No messages yet</h2>
+        <p className="text-gray-400">Conversations with buyers and sellers will appear here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Conversation List */}
+      <div className="bg-gray-800 rounded-lg border border-gray-700 divide-y divide-gray-700 overflow-hidden">
+        {conversations.map((conversation) => (
+          <button
+            key={conversation._id}
+            onClick={() => setActiveId(conversation._id)}
+            className={`w-full text-left p-4 flex gap-3 transition-colors ${
+              activeId === conversation._id ? 'bg-gray-700' : 'hover:bg-gray-700/50'
+            }`}
+          >
+            <div className="relative h-12 w-16 flex-shrink-0 bg-gray-700 rounded overflow-hidden">
+              {conversation.listing?.image && (
+                <Image
+                  src={imageVariantUrl(conversation.listing.image, 'thumbnail')}
+                  alt={`${conversation.listing.brand} ${conversation.listing.carModel}`}
+                  fill
+                  className="object-cover"
+                />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-white font-medium truncate">
+                  {conversation.listing
+                    ? `${conversation.listing.brand} ${conversation.listing.carModel}`
+                    : 'Listing removed'}
+                </p>
+                {conversation.unreadCount > 0 && (
+                  <span className="px-2 py-0.5 rounded-full bg-cyan-600 text-white text-xs font-medium">
+                    {conversation.unreadCount}
+                  </span>
+                )}
+              </div>
+              <p className="text-gray-400 text-xs">
+                {conversation.role === 'buyer' ? 'Seller' : 'Buyer'}: {conversation.counterpartName}
+              </p>
+              <p className="text-gray-500 text-sm truncate">{conversation.lastMessagePreview}</p>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Thread */}
+      <div className="lg:col-span-2 bg-gray-800 rounded-lg border border-gray-700 flex flex-col min-h-[24rem]">
+        {!thread ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500">
+            Select a conversation
+          </div>
+        ) : (
+          <>
+            {/* Contact Details */}
+            <div className="p-4 border-b border-gray-700">
+              {thread.role === 'buyer' ? (
+                thread.sellerContact ? (
+                  <div className="text-sm text-gray-300">
+                    <p className="text-white font-medium">{thread.sellerContact.fullName}</p>
+                    <p>{thread.sellerContact.mobileNumber} · {thread.sellerContact.email}</p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-400">
+                    Seller contact details are hidden until the seller chooses to share them
+                  </p>
+                )
+              ) : thread.contactRevealed ? (
+                <p className="text-sm text-green-400">Your contact details are shared with this buyer</p>
+              ) : (
+                <button
+                  onClick={handleReveal}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  Share my contact details
+                </button>
+              )}
+              {(() => {
+                const active = conversations.find(c => c._id === thread.conversationId);
+                return active?.listing ? (
+                  <p className="text-xs text-gray-500 mt-2">
+                    {active.listing.brand} {active.listing.carModel} · {formatINR(active.listing.price)}
+                  </p>
+                ) : null;
+              })()}
+            </div>
+
+            {/* Messages */}
+            <div className="flex-1 p-4 space-y-3 overflow-y-auto max-h-[28rem]">
+              {thread.messages.length === 0 ? (
+                <p className="text-gray-500 text-center">No messages yet. Say hello!</p>
+              ) : (
+                thread.messages.map((message) => (
+                  <div key={message._id} className={`flex ${message.mine ? 'justify-end' : 'justify-start'}`}>
+                    <div
+                      className={`max-w-[75%] px-4 py-2 rounded-lg text-sm whitespace-pre-wrap ${
+                        message.mine ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-200'
+                      }`}
+                    >
+                      {message.body}
+                      <p className="text-[10px] opacity-70 mt-1">
+                        {new Date(message.createdAt).toLocaleString('en-IN')}
+                      </p>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Composer */}
+            <form onSubmit={handleSend} className="p-4 border-t border-gray-700 flex gap-2">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={2000}
+                placeholder="Type a message..."
+                className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+              <button
+                type="submit"
+                disabled={sending || !draft.trim()}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {sending ? '...' : 'Send'}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="lg:col-span-3 bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
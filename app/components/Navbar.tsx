@@ -2,12 +2,53 @@
 
 import { useSession, signOut } from 'next-auth/react';
 import Link from 'next/link';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { getUnreadMessageCount } from '@/app/actions/messages';
+import { getUnreadNotificationCount } from '@/app/actions/notifications';
+
+// How often the unread messages/alerts badge is refreshed
+const UNREAD_POLL_INTERVAL = 60 * 1000;
 
 export default function Navbar() {
   const { data: session, status } = useSession();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isProfileDropdownOpen, setIsProfileDropdownOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const canMessage = status === 'authenticated' && !!session?.user?.profileComplete;
+
+  // Poll unread message and alert counts for signed-in users
+  useEffect(() => {
+    if (!canMessage) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const fetchUnreadCount = async () => {
+      try {
+        const [messages, notifications] = await Promise.all([
+          getUnreadMessageCount(),
+          getUnreadNotificationCount(),
+        ]);
+        setUnreadCount(
+          (messages.success ? messages.data?.unreadCount || 0 : 0) +
+            (notifications.success ? notifications.data?.unreadCount || 0 : 0)
+        );
+      } catch (err) {
+        console.error('Error fetching unread messages:', err);
+      }
+    };
+
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, UNREAD_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [canMessage]);
+
+  const unreadBadge = unreadCount > 0 && (
+    <span className="ml-1 px-1.5 py-0.5 rounded-full bg-cyan-600 text-white text-xs font-medium">
+      {unreadCount > 99 ? '99+' : unreadCount}
+    </span>
+  );
 
   const handleSignOut = async () => {
     await signOut({ callbackUrl: '/' });
@@ -63,6 +104,7 @@ export default function Navbar() {
                   className="text-gray-300 hover:text-cyan-400 px-3 py-2 text-sm font-medium transition-colors"
                 >
                   My Garage
+                  {unreadBadge}
                 </Link>
               </>
             )}
@@ -175,6 +217,7 @@ export default function Navbar() {
                   className="block text-gray-300 hover:text-cyan-400 hover:bg-gray-700 px-3 py-2 rounded-md text-base font-medium transition-colors"
                 >
                   My Garage
+                  {unreadBadge}
                 </Link>
               </>
             )}
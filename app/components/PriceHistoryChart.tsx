@@ -0,0 +1,62 @@
+import { formatINR } from '@/lib/utils';
+
+interface PriceHistoryChartProps {
+  history: {
+    price: number;
+    changedAt: string;
+  }[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = 12;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export default function PriceHistoryChart({ history }: PriceHistoryChartProps) {
+  if (history.length < 2) {
+    return null;
+  }
+
+  const prices = history.map((entry) => entry.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const range = max - min || 1;
+
+  // Evenly spaced steps read better than a time axis for a handful of changes
+  const points = history.map((entry, index) => ({
+    ...entry,
+    x: PADDING + (index * (WIDTH - PADDING * 2)) / (history.length - 1),
+    y: PADDING + ((max - entry.price) * (HEIGHT - PADDING * 2)) / range,
+  }));
+  const path = points
+    .map((point, index) => {
+      if (index === 0) return `M ${point.x} ${point.y}`;
+      return `H ${point.x} V ${point.y}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <h3 className="text-lg font-semibold text-white mb-4">Price History</h3>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32" role="img" aria-label="Price history chart">
+        <path d={path} fill="none" stroke="#22d3ee" strokeWidth={2} />
+        {points.map((point) => (
+          <circle key={`${point.changedAt}-${point.price}`} cx={point.x} cy={point.y} r={3} fill="#22d3ee">
+            <title>{`${formatINR(point.price)} · ${formatDate(point.changedAt)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <ul className="mt-3 space-y-1 text-sm">
+        {[...history].reverse().map((entry, index) => (
+          <li key={`${entry.changedAt}-${index}`} className="flex justify-between">
+            <span className="text-gray-400">{formatDate(entry.changedAt)}</span>
+            <span className="text-white font-medium">{formatINR(entry.price)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { REJECTION_REASONS } from '@/lib/rejection-reasons';
+
+interface RejectListingDialogProps {
+  listingTitle: string;
+  onConfirm: (reasons: string[], note: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function RejectListingDialog({ listingTitle, onConfirm, onClose }: RejectListingDialogProps) {
+  const [reasons, setReasons] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toggleReason = (code: string) => {
+    setReasons(prev =>
+      prev.includes(code) ? prev.filter(r => r !== code) : [...prev, code]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onConfirm(reasons, note.trim());
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canSubmit = reasons.length > 0 || note.trim().length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-gray-800 rounded-lg max-w-lg w-full p-6 border border-gray-700"
+      >
+        <h2 className="text-xl font-bold text-white mb-1">Reject Listing</h2>
+        <p className="text-gray-400 text-sm mb-4">{listingTitle}</p>
+
+        <div className="space-y-2 mb-4">
+          {REJECTION_REASONS.map((reason) => (
+            <label
+              key={reason.code}
+              className="flex items-start gap-3 p-2 rounded hover:bg-gray-700/50 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={reasons.includes(reason.code)}
+                onChange={() => toggleReason(reason.code)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-white text-sm">{reason.label}</span>
+                <span className="block text-gray-400 text-xs">{reason.hint}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Note to seller (optional)
+        </label>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          rows={3}
+          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        />
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit || isSubmitting}
+            className="px-4 py-2 bg-red-700 hover:bg-red-800 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? 'Rejecting...' : 'Reject Listing'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
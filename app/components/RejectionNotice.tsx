@@ -0,0 +1,36 @@
+import { getRejectionReason } from '@/lib/rejection-reasons';
+
+interface RejectionNoticeProps {
+  rejection?: {
+    reasons: string[];
+    note?: string;
+    rejectedAt?: string;
+  };
+  compact?: boolean;
+}
+
+export default function RejectionNotice({ rejection, compact = false }: RejectionNoticeProps) {
+  if (!rejection || (rejection.reasons.length === 0 && !rejection.note)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-red-900/30 border border-red-500/50 rounded-lg p-3 text-sm">
+      <p className="text-red-200 font-medium mb-1">Why this listing was rejected</p>
+      <ul className="space-y-1 text-red-100/90">
+        {rejection.reasons.map((code) => {
+          const reason = getRejectionReason(code);
+          return (
+            <li key={code}>
+              • {reason?.label || code}
+              {!compact && reason?.hint && (
+                <span className="block text-red-100/60 text-xs ml-3">{reason.hint}</span>
+              )}
+            </li>
+          );
+        })}
+        {rejection.note && <li className="italic">“{rejection.note}”</li>}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { saveSearch } from '@/app/actions/saved-searches';
+
+// Only filter parameters are saved, not paging or sort order
+const SEARCH_KEYS = ['q', 'brands', 'cities', 'fuel', 'transmission', 'priceMin', 'priceMax', 'yearMin', 'yearMax'];
+
+export default function SaveSearchButton() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!session?.user) {
+      router.push('/signin');
+      return;
+    }
+
+    const params: Record<string, string> = {};
+    SEARCH_KEYS.forEach((key) => {
+      const value = searchParams.get(key);
+      if (value) params[key] = value;
+    });
+
+    const defaultName = params.q || params.brands?.split(',').join(', ') || 'My search';
+    const name = prompt('Name this search', defaultName);
+    if (!name) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await saveSearch(name, params);
+      alert(result.success ? result.message : result.error || 'Failed to save search');
+    } catch (err) {
+      console.error('Error saving search:', err);
+      alert('An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleSave}
+      disabled={saving}
+      className="flex items-center gap-2 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm font-medium hover:bg-gray-700 transition-colors disabled:opacity-50"
+    >
+      <svg className="w-5 h-5 text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+      </svg>
+      {saving ? 'Saving...' : 'Save Search'}
+    </button>
+  );
+}
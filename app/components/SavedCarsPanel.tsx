@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { imageVariantUrl } from '@/lib/image-variants';
+import { getFavourites, setFavourite } from '@/app/actions/favourites';
+import { FavouriteAvailability } from '@/lib/favourites';
+import { formatINR } from '@/lib/utils';
+
+interface SavedCarItem {
+  _id: string;
+  listingId: string;
+  brand: string;
+  carModel: string;
+  variant: string;
+  price: number;
+  image: string | null;
+  city: string;
+  priceWhenSaved: number;
+  availability: FavouriteAvailability;
+  priceDrop: number;
+  savedAt: string;
+}
+
+export default function SavedCarsPanel() {
+  const [cars, setCars] = useState<SavedCarItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const result = await getFavourites();
+        if (result.success) {
+          setCars(result.data || []);
+        } else {
+          setError(result.error || 'Failed to load saved cars');
+        }
+      } catch (err) {
+        console.error('Error loading saved cars:', err);
+        setError('Failed to load saved cars');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const handleRemove = async (listingId: string) => {
+    try {
+      setRemovingId(listingId);
+      const result = await setFavourite(listingId, false);
+      if (result.success) {
+        setCars(prev => prev.filter(car => car.listingId !== listingId));
+      } else {
+        alert(result.error || 'Failed to remove saved car');
+      }
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-cyan-400 text-center py-12">Loading...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg">
+        {error}
+      </div>
+    );
+  }
+
+  if (cars.length === 0) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-12 border border-gray-700 text-center">
+        <h2 className="text-2xl font-bold text-white mb-2">No saved cars yet</h2>
+        <p className="text-gray-400">
+          Tap the heart on any car in <Link href="/buy-car" className="text-cyan-400 hover:underline">Buy Car</Link> to
+          shortlist it. Only you can see your saved cars.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {cars.map((car) => {
+        const live = car.availability === 'available';
+
+        return (
+          <div
+            key={car._id}
+            className={`bg-gray-800 rounded-lg overflow-hidden border border-gray-700 ${live ? 'hover:border-cyan-500' : 'opacity-75'} transition-colors`}
+          >
+            <div className="relative h-40 bg-gray-700">
+              {car.image ? (
+                <Image src={imageVariantUrl(car.image, 'medium')} alt={`${car.brand} ${car.carModel}`} fill className="object-cover" />
+              ) : (
+                <div className="flex items-center justify-center h-full text-gray-500">No image</div>
+              )}
+              {car.availability === 'sold' && (
+                <span className="absolute top-2 left-2 px-3 py-1 rounded-full text-xs font-medium border bg-blue-900/80 text-blue-200 border-blue-500">
+                  Sold
+                </span>
+              )}
+              {car.availability === 'unavailable' && (
+                <span className="absolute top-2 left-2 px-3 py-1 rounded-full text-xs font-medium border bg-gray-700/80 text-gray-300 border-gray-500">
+                  No longer available
+                </span>
+              )}
+              {car.priceDrop > 0 && (
+                <span className="absolute top-2 left-2 px-3 py-1 rounded-full text-xs font-medium border bg-green-900/80 text-green-200 border-green-500">
+                  Price dropped {formatINR(car.priceDrop)}
+                </span>
+              )}
+            </div>
+
+            <div className="p-4">
+              {live ? (
+                <Link href={`/listings/${car.listingId}`} className="text-lg font-bold text-white hover:text-cyan-400">
+                  {car.brand} {car.carModel}
+                </Link>
+              ) : (
+                <h3 className="text-lg font-bold text-white">{car.brand} {car.carModel}</h3>
+              )}
+              <p className="text-gray-400 text-sm mb-2">{car.variant} · {car.city}</p>
+
+              <div className="flex items-baseline gap-2 mb-4">
+                <span className="text-xl font-bold text-cyan-400">{formatINR(car.price)}</span>
+                {car.priceDrop > 0 && (
+                  <span className="text-sm text-gray-500 line-through">{formatINR(car.priceWhenSaved)}</span>
+                )}
+              </div>
+
+              <button
+                onClick={() => handleRemove(car.listingId)}
+                disabled={removingId === car.listingId}
+                className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {removingId === car.listingId ? 'Removing...' : 'Remove'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
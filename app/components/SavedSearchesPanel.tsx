@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  deleteSavedSearch,
+  getSavedSearches,
+  setSavedSearchAlerts,
+} from '@/app/actions/saved-searches';
+import { getNotifications, markNotificationsRead } from '@/app/actions/notifications';
+
+interface SavedSearchItem {
+  _id: string;
+  name: string;
+  href: string;
+  alertsEnabled: boolean;
+  criteria: {
+    searchQuery?: string;
+    brands?: string[];
+    cities?: string[];
+    fuelTypes?: string[];
+    transmissions?: string[];
+    priceMin?: number;
+    priceMax?: number;
+    yearMin?: number;
+    yearMax?: number;
+  };
+}
+
+interface NotificationItem {
+  _id: string;
+  title: string;
+  body: string;
+  link: string;
+  read: boolean;
+  createdAt: string;
+}
+
+function describeCriteria(criteria: SavedSearchItem['criteria']): string {
+  const parts: string[] = [];
+  if (criteria.searchQuery) parts.push(`"${criteria.searchQuery}"`);
+  if (criteria.brands) parts.push(criteria.brands.join(', '));
+  if (criteria.cities) parts.push(criteria.cities.join(', '));
+  if (criteria.fuelTypes) parts.push(criteria.fuelTypes.join('/'));
+  if (criteria.transmissions) parts.push(criteria.transmissions.join('/'));
+  if (criteria.priceMin !== undefined || criteria.priceMax !== undefined) {
+    parts.push(`₹${(criteria.priceMin || 0).toLocaleString('en-IN')} - ${criteria.priceMax !== undefined ? `₹${criteria.priceMax.toLocaleString('en-IN')}` : 'any'}`);
+  }
+  if (criteria.yearMin !== undefined || criteria.yearMax !== undefined) {
+    parts.push(`${criteria.yearMin || 'any'} - ${criteria.yearMax || 'now'}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'All cars';
+}
+
+export default function SavedSearchesPanel() {
+  const [searches, setSearches] = useState<SavedSearchItem[]>([]);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [searchResult, notificationResult] = await Promise.all([
+          getSavedSearches(),
+          getNotifications(),
+        ]);
+
+        if (searchResult.success) {
+          setSearches(searchResult.data || []);
+        } else {
+          setError(searchResult.error || 'Failed to load saved searches');
+        }
+
+        if (notificationResult.success) {
+          setNotifications(notificationResult.data || []);
+          // Opening the feed marks everything as read
+          if ((notificationResult.data || []).some((n: NotificationItem) => !n.read)) {
+            await markNotificationsRead();
+          }
+        }
+      } catch (err) {
+        console.error('Error loading saved searches:', err);
+        setError('Failed to load saved searches');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const handleToggleAlerts = async (search: SavedSearchItem) => {
+    try {
+      setProcessingId(search._id);
+      const result = await setSavedSearchAlerts(search._id, !search.alertsEnabled);
+      if (result.success) {
+        setSearches(prev => prev.map(s =>
+          s._id === search._id ? { ...s, alertsEnabled: !search.alertsEnabled } : s
+        ));
+      } else {
+        alert(result.error || 'Failed to update alerts');
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleDelete = async (searchId: string) => {
+    if (!confirm('Delete this saved search?')) {
+      return;
+    }
+
+    try {
+      setProcessingId(searchId);
+      const result = await deleteSavedSearch(searchId);
+      if (result.success) {
+        setSearches(prev => prev.filter(s => s._id !== searchId));
+      } else {
+        alert(result.error || 'Failed to delete saved search');
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-cyan-400 text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Saved Searches */}
+      <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <h2 className="text-xl font-bold text-white mb-4">Saved Searches</h2>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {searches.length === 0 ? (
+          <p className="text-gray-400 text-sm">
+            Save a search from <Link href="/buy-car" className="text-cyan-400 hover:underline">Buy Car</Link> to
+            get alerts when matching cars are listed.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {searches.map((search) => (
+              <li key={search._id} className="bg-gray-700/50 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <Link href={search.href} className="text-white font-medium hover:text-cyan-400">
+                      {search.name}
+                    </Link>
+                    <p className="text-gray-400 text-xs mt-1 truncate">{describeCriteria(search.criteria)}</p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => handleToggleAlerts(search)}
+                      disabled={processingId === search._id}
+                      className={`px-2 py-1 text-xs rounded transition-colors disabled:opacity-50 ${
+                        search.alertsEnabled
+                          ? 'bg-cyan-600 hover:bg-cyan-700 text-white'
+                          : 'bg-gray-600 hover:bg-gray-500 text-gray-200'
+                      }`}
+                    >
+                      {search.alertsEnabled ? 'Alerts on' : 'Alerts off'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(search._id)}
+                      disabled={processingId === search._id}
+                      className="px-2 py-1 text-xs rounded bg-red-600 hover:bg-red-700 text-white transition-colors disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Alerts Feed */}
+      <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <h2 className="text-xl font-bold text-white mb-4">Alerts</h2>
+
+        {notifications.length === 0 ? (
+          <p className="text-gray-400 text-sm">No alerts yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {notifications.map((notification) => (
+              <li key={notification._id}>
+                <Link
+                  href={notification.link}
+                  className={`block rounded-lg p-4 transition-colors hover:bg-gray-700 ${
+                    notification.read ? 'bg-gray-700/30' : 'bg-cyan-900/30 border border-cyan-700/50'
+                  }`}
+                >
+                  <p className="text-white text-sm font-medium">{notification.title}</p>
+                  <p className="text-gray-300 text-sm">{notification.body}</p>
+                  <p className="text-gray-500 text-xs mt-1">
+                    {new Date(notification.createdAt).toLocaleString()}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,16 +3,25 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 
-export type SortOption = 'price_asc' | 'price_desc' | 'year_desc' | 'km_asc' | 'newest';
+export type SortOption =
+  | 'relevance'
+  | 'price_asc'
+  | 'price_desc'
+  | 'price_drop'
+  | 'year_desc'
+  | 'km_asc'
+  | 'newest';
 
 interface SortDropdownProps {
   onSortChange?: (sort: SortOption) => void;
 }
 
 const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'relevance', label: 'Best Match' },
   { value: 'newest', label: 'Newest First' },
   { value: 'price_asc', label: 'Price: Low to High' },
   { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'price_drop', label: 'Biggest Price Drop' },
   { value: 'year_desc', label: 'Year: Newest First' },
   { value: 'km_asc', label: 'KM: Low to High' },
 ];
@@ -28,6 +37,9 @@ export default function SortDropdown({ onSortChange }: SortDropdownProps) {
     const sortParam = searchParams.get('sort') as SortOption;
     if (sortParam && SORT_OPTIONS.some(opt => opt.value === sortParam)) {
       setSelectedSort(sortParam);
+    } else {
+      // Searches are ordered by relevance unless another sort is picked
+      setSelectedSort(searchParams.get('q') ? 'relevance' : 'newest');
     }
   }, [searchParams]);
 
@@ -77,7 +89,7 @@ export default function SortDropdown({ onSortChange }: SortDropdownProps) {
           
           {/* Dropdown Menu */}
           <div className="absolute right-0 mt-2 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-lg z-20 overflow-hidden">
-            {SORT_OPTIONS.map((option) => (
+            {SORT_OPTIONS.filter(option => option.value !== 'relevance' || searchParams.get('q')).map((option) => (
               <button
                 key={option.value}
                 onClick={() => handleSortChange(option.value)}
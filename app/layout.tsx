@@ -4,6 +4,7 @@ import './globals.css'
 import Navbar from './components/Navbar'
 import Footer from './components/Footer'
 import SessionProvider from './components/SessionProvider'
+import CompareTray from './components/CompareTray'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -30,6 +31,7 @@ export default function RootLayout({
               {children}
             </main>
             <Footer />
+            <CompareTray />
           </div>
         </SessionProvider>
       </body>
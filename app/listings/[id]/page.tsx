@@ -3,8 +3,13 @@ import connectDB from '@/lib/mongodb';
 import Listing from '@/lib/models/Listing';
 import ImageCarousel from '@/app/components/ImageCarousel';
 import InterestButton from '@/app/components/InterestButton';
+import FavouriteButton from '@/app/components/FavouriteButton';
 import TailorTalkWidget from '@/app/components/TailorTalkWidget';
+import PriceHistoryChart from '@/app/components/PriceHistoryChart';
 import { formatINR, maskOwnerName } from '@/lib/utils';
+import { getPriceHistory } from '@/lib/price-history';
+import { valueCar } from '@/lib/comparable-listings';
+import { classifyPrice, PRICE_VERDICT_LABELS, PriceVerdict } from '@/lib/valuation';
 
 interface PageProps {
   params: {
@@ -41,6 +46,11 @@ async function getListingDetails(id: string) {
       state: listing.state,
       description: listing.description,
       price: listing.price,
+      priceDrop: listing.priceDrop || 0,
+      priceHistory: getPriceHistory(listing).map((entry) => ({
+        price: entry.price,
+        changedAt: new Date(entry.changedAt).toISOString(),
+      })),
       interestCount: listing.interestCount,
       seller: seller ? {
         fullName: seller.fullName,
@@ -53,6 +63,40 @@ async function getListingDetails(id: string) {
   }
 }
 
+const VERDICT_STYLES: Record<PriceVerdict, string> = {
+  good_deal: 'bg-green-900/50 text-green-200 border-green-500',
+  fair: 'bg-cyan-900/50 text-cyan-200 border-cyan-500',
+  above_market: 'bg-orange-900/50 text-orange-200 border-orange-500',
+};
+
+type ListingDetails = NonNullable<Awaited<ReturnType<typeof getListingDetails>>>;
+
+/**
+ * Value the listing against comparable cars, leaving the listing itself out
+ * A missing estimate never stops the page from rendering
+ */
+async function getMarketValue(listing: ListingDetails) {
+  try {
+    return await valueCar(
+      {
+        brand: listing.brand,
+        carModel: listing.model,
+        variant: listing.variant,
+        yearOfOwnership: listing.yearOfOwnership,
+        kmDriven: listing.kmDriven,
+        fuelType: listing.fuelType,
+        transmission: listing.transmission,
+        numberOfOwners: listing.numberOfOwners,
+        city: listing.city,
+      },
+      listing._id
+    );
+  } catch (error) {
+    console.error('Error valuing listing:', error);
+    return null;
+  }
+}
+
 export default async function ListingDetailPage({ params }: PageProps) {
   const listing = await getListingDetails(params.id);
 
@@ -60,6 +104,9 @@ export default async function ListingDetailPage({ params }: PageProps) {
     notFound();
   }
 
+  const valuation = await getMarketValue(listing);
+  const verdict = valuation ? classifyPrice(listing.price, valuation) : null;
+
   const carName = `${listing.brand} ${listing.model}`;
   const ownerName = listing.seller?.fullName ? maskOwnerName(listing.seller.fullName) : 'Owner';
 
@@ -90,11 +137,30 @@ export default async function ListingDetailPage({ params }: PageProps) {
               <h1 className="text-3xl font-bold text-white mb-2">{carName}</h1>
               <p className="text-gray-400 text-lg mb-4">{listing.variant}</p>
               <p className="text-4xl font-bold text-cyan-400">{formatINR(listing.price)}</p>
+              {listing.priceDrop > 0 && (
+                <span className="inline-block mt-2 px-3 py-1 rounded-full text-sm font-medium border bg-green-900/50 text-green-200 border-green-500">
+                  Price dropped {formatINR(listing.priceDrop)}
+                </span>
+              )}
+              {valuation && verdict && (
+                <div className="mt-3">
+                  <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium border ${VERDICT_STYLES[verdict]}`}>
+                    {PRICE_VERDICT_LABELS[verdict]}
+                  </span>
+                  <p className="text-gray-400 text-sm mt-1">
+                    Similar cars: {formatINR(valuation.low)} – {formatINR(valuation.high)}
+                    {' '}({valuation.comparableCount} compared, {Math.round(valuation.confidence * 100)}% confidence)
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Interest Button */}
             <InterestButton listingId={listing._id} initialCount={listing.interestCount} />
 
+            {/* Private shortlist */}
+            <FavouriteButton listingId={listing._id} variant="inline" />
+
             {/* Owner Info */}
             <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
               <div className="flex items-center justify-between">
@@ -113,6 +179,9 @@ export default async function ListingDetailPage({ params }: PageProps) {
               </div>
             </div>
 
+            {/* Price History */}
+            <PriceHistoryChart history={listing.priceHistory} />
+
             {/* Key Specifications */}
             <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
               <h3 className="text-lg font-semibold text-white mb-4">Key Specifications</h3>
@@ -67,6 +67,7 @@ async function getListingsByCity(city: string) {
         model: listing.carModel,
         variant: listing.variant,
         price: listing.price,
+        priceDrop: listing.priceDrop || 0,
         city: listing.city,
         yearOfOwnership: listing.yearOfOwnership,
         kmDriven: listing.kmDriven,
@@ -4,8 +4,14 @@ import { useEffect, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { markAsSold, deleteListing } from '@/app/actions/listings';
+import { imageVariantUrl } from '@/lib/image-variants';
+import { markAsSold, deleteListing, setListingPaused } from '@/app/actions/listings';
 import EditListingModal from '@/app/components/EditListingModal';
+import MessagesInbox from '@/app/components/MessagesInbox';
+import RejectionNotice from '@/app/components/RejectionNotice';
+import SavedSearchesPanel from '@/app/components/SavedSearchesPanel';
+import SavedCarsPanel from '@/app/components/SavedCarsPanel';
+import { ListingStatus } from '@/lib/listing-status';
 
 interface Listing {
   _id: string;
@@ -14,14 +20,29 @@ interface Listing {
   variant: string;
   price: number;
   images: string[];
-  status: 'pending' | 'approved' | 'rejected' | 'sold';
+  status: ListingStatus;
   city: string;
   state: string;
   description: string;
   interestCount: number;
+  rejection?: {
+    reasons: string[];
+    note?: string;
+    rejectedAt?: string;
+  };
+  resubmissionCount?: number;
   createdAt: string;
 }
 
+const GARAGE_TABS = {
+  listings: 'My Listings',
+  messages: 'Messages',
+  saved: 'Saved Cars',
+  alerts: 'Saved Searches',
+};
+
+type GarageTab = keyof typeof GARAGE_TABS;
+
 export default function MyGaragePage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -31,6 +52,19 @@ export default function MyGaragePage() {
   const [error, setError] = useState('');
   const [editingListing, setEditingListing] = useState<Listing | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<GarageTab>('listings');
+  const [initialConversationId, setInitialConversationId] = useState<string | null>(null);
+
+  // Open the inbox directly when linked from "Message Seller"
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('tab') === 'messages') {
+      setActiveTab('messages');
+      setInitialConversationId(params.get('conversation'));
+    } else if (params.get('tab') === 'alerts' || params.get('tab') === 'saved') {
+      setActiveTab(params.get('tab') as GarageTab);
+    }
+  }, []);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -93,6 +127,27 @@ export default function MyGaragePage() {
     }
   };
 
+  const handleTogglePaused = async (listingId: string, paused: boolean) => {
+    try {
+      const result = await setListingPaused(listingId, paused);
+
+      if (result.success) {
+        setListings(prev =>
+          prev.map(listing =>
+            listing._id === listingId
+              ? { ...listing, status: paused ? 'paused' as const : 'approved' as const }
+              : listing
+          )
+        );
+      } else {
+        alert(result.error || 'Failed to update listing');
+      }
+    } catch (err) {
+      console.error('Error pausing listing:', err);
+      alert('An error occurred');
+    }
+  };
+
   const handleDelete = async (listingId: string) => {
     if (!confirm('Are you sure you want to delete this listing? This action cannot be undone.')) {
       return;
@@ -122,6 +177,8 @@ export default function MyGaragePage() {
       approved: 'bg-green-900/50 text-green-200 border-green-500',
       rejected: 'bg-red-900/50 text-red-200 border-red-500',
       sold: 'bg-blue-900/50 text-blue-200 border-blue-500',
+      expired: 'bg-gray-700/50 text-gray-300 border-gray-500',
+      paused: 'bg-orange-900/50 text-orange-200 border-orange-500',
     };
 
     return (
@@ -149,7 +206,24 @@ export default function MyGaragePage() {
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-4xl font-bold text-white mb-2">My Garage</h1>
-          <p className="text-gray-400">Manage your car listings</p>
+          <p className="text-gray-400">Manage your car listings, messages, saved cars and saved searches</p>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-2 mb-6 border-b border-gray-700">
+          {(Object.keys(GARAGE_TABS) as GarageTab[]).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeTab === tab
+                  ? 'border-cyan-400 text-cyan-400'
+                  : 'border-transparent text-gray-400 hover:text-white'
+              }`}
+            >
+              {GARAGE_TABS[tab]}
+            </button>
+          ))}
         </div>
 
         {error && (
@@ -158,8 +232,16 @@ export default function MyGaragePage() {
           </div>
         )}
 
-        {/* Listings Grid */}
-        {listings.length === 0 ? (
+        {activeTab === 'messages' ? (
+          <MessagesInbox
+            key={initialConversationId || 'inbox'}
+            initialConversationId={initialConversationId}
+          />
+        ) : activeTab === 'saved' ? (
+          <SavedCarsPanel />
+        ) : activeTab === 'alerts' ? (
+          <SavedSearchesPanel />
+        ) : listings.length === 0 ? (
           <div className="bg-gray-800 rounded-lg p-12 border border-gray-700 text-center">
             <svg className="mx-auto h-16 w-16 text-gray-600 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
@@ -181,7 +263,7 @@ export default function MyGaragePage() {
                 <div className="relative h-48 bg-gray-700">
                   {listing.images.length > 0 ? (
                     <Image
-                      src={listing.images[0]}
+                      src={imageVariantUrl(listing.images[0], 'medium')}
                       alt={`${listing.brand} ${listing.carModel}`}
                       fill
                       className="object-cover"
@@ -216,6 +298,18 @@ export default function MyGaragePage() {
                     {listing.city}, {listing.state}
                   </p>
 
+                  {listing.status === 'rejected' && (
+                    <div className="mb-4">
+                      <RejectionNotice rejection={listing.rejection} compact />
+                    </div>
+                  )}
+
+                  {listing.status === 'pending' && !!listing.resubmissionCount && (
+                    <p className="text-yellow-200/80 text-xs mb-4">
+                      Resubmitted {listing.resubmissionCount} time{listing.resubmissionCount > 1 ? 's' : ''} · awaiting review
+                    </p>
+                  )}
+
                   {/* Actions */}
                   <div className="flex gap-2">
                     <button
@@ -223,10 +317,10 @@ export default function MyGaragePage() {
                       disabled={listing.status === 'sold'}
                       className="flex-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      Edit
+                      {listing.status === 'rejected' || listing.status === 'expired' ? 'Edit & Resubmit' : 'Edit'}
                     </button>
                     
-                    {listing.status === 'approved' && (
+                    {(listing.status === 'approved' || listing.status === 'paused') && (
                       <button
                         onClick={() => handleMarkAsSold(listing._id)}
                         className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
@@ -234,6 +328,15 @@ export default function MyGaragePage() {
                         Mark Sold
                       </button>
                     )}
+
+                    {(listing.status === 'approved' || listing.status === 'paused') && (
+                      <button
+                        onClick={() => handleTogglePaused(listing._id, listing.status === 'approved')}
+                        className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
+                      >
+                        {listing.status === 'approved' ? 'Pause' : 'Resume'}
+                      </button>
+                    )}
                     
                     <button
                       onClick={() => handleDelete(listing._id)}
@@ -32,6 +32,7 @@ async function getFeaturedListings() {
       model: listing.carModel,
       variant: listing.variant,
       price: listing.price,
+      priceDrop: listing.priceDrop || 0,
       city: listing.city,
       yearOfOwnership: listing.yearOfOwnership,
       kmDriven: listing.kmDriven,
@@ -17,6 +17,7 @@ export default function SellCarPage() {
   const [verificationData, setVerificationData] = useState<{
     registrationNumber: string;
     ownerName: string;
+    status: 'verified' | 'unconfirmed';
   } | null>(null);
 
   const [formData, setFormData] = useState({
@@ -92,7 +93,11 @@ export default function SellCarPage() {
               <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
               </svg>
-              <span>Ownership verified for {verificationData?.registrationNumber}</span>
+              <span>
+                {verificationData?.status === 'verified'
+                  ? `Ownership verified for ${verificationData.registrationNumber}`
+                  : `Registration ${verificationData?.registrationNumber} accepted; ownership will be confirmed during review`}
+              </span>
             </div>
           </div>
 
@@ -155,7 +160,7 @@ export default function SellCarPage() {
                 className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 uppercase focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
               />
               <p className="text-xs text-gray-400 mt-1">
-                Demo: Enter any registration number (e.g., MH12AB1234)
+                As shown on the RC, e.g. MH12AB1234 or 22BH1234AA for Bharat series
               </p>
             </div>
 
@@ -175,7 +180,7 @@ export default function SellCarPage() {
                 className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
               />
               <p className="text-xs text-gray-400 mt-1">
-                Demo: Enter any name (no strict matching required)
+                Initials and middle names may differ slightly from the RC
               </p>
             </div>
 
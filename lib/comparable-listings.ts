@@ -0,0 +1,54 @@
+import connectDB from './mongodb';
+import Listing from './models/Listing';
+import { Comparable, estimateValue, Valuation, ValuationInput } from './valuation';
+
+const MAX_COMPARABLES = 200;
+const YEAR_WINDOW = 3;
+
+/**
+ * Find approved or sold listings of the same make and model within a few years
+ * @param excludeId Leave out the listing being valued
+ */
+export async function findComparables(input: ValuationInput, excludeId?: string): Promise<Comparable[]> {
+  await connectDB();
+
+  const query: Record<string, any> = {
+    status: { $in: ['approved', 'sold'] },
+    brand: input.brand.trim(),
+    carModel: input.carModel.trim(),
+    yearOfOwnership: {
+      $gte: input.yearOfOwnership - YEAR_WINDOW,
+      $lte: input.yearOfOwnership + YEAR_WINDOW,
+    },
+  };
+  if (excludeId) query._id = { $ne: excludeId };
+
+  const listings = await Listing.find(query)
+    // Sellers type makes and models in any case
+    .collation({ locale: 'en', strength: 2 })
+    .select('brand carModel variant yearOfOwnership kmDriven fuelType transmission numberOfOwners city price')
+    .sort({ updatedAt: -1 })
+    .limit(MAX_COMPARABLES)
+    .lean();
+
+  return listings.map((listing) => ({
+    brand: listing.brand,
+    carModel: listing.carModel,
+    variant: listing.variant,
+    yearOfOwnership: listing.yearOfOwnership,
+    kmDriven: listing.kmDriven,
+    fuelType: listing.fuelType,
+    transmission: listing.transmission,
+    numberOfOwners: listing.numberOfOwners,
+    city: listing.city,
+    price: listing.price,
+  }));
+}
+
+/**
+ * Value a car against our own approved and sold listings
+ */
+export async function valueCar(input: ValuationInput, excludeId?: string): Promise<Valuation | null> {
+  const comparables = await findComparables(input, excludeId);
+  return estimateValue(input, comparables);
+}
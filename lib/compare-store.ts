@@ -0,0 +1,83 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { MAX_COMPARE } from './compare';
+
+export interface CompareItem {
+  _id: string;
+  title: string;
+  image?: string;
+}
+
+const STORAGE_KEY = 'drivesphere:compare';
+const EMPTY: CompareItem[] = [];
+
+let items: CompareItem[] | null = null;
+const listeners = new Set<() => void>();
+
+function read(): CompareItem[] {
+  if (items === null) {
+    try {
+      const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+      items = Array.isArray(stored) ? stored.slice(0, MAX_COMPARE) : [];
+    } catch {
+      items = [];
+    }
+  }
+  return items as CompareItem[];
+}
+
+function write(next: CompareItem[]) {
+  items = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Private browsing can block storage; the tray still works for this page
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+
+  // Keep trays in other tabs in sync
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) {
+      items = null;
+      listener();
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * Add a listing to the compare tray
+ * Returns false when the tray is already full
+ */
+export function addToCompare(item: CompareItem): boolean {
+  const current = read();
+  if (current.some((existing) => existing._id === item._id)) return true;
+  if (current.length >= MAX_COMPARE) return false;
+  write([...current, item]);
+  return true;
+}
+
+export function removeFromCompare(listingId: string) {
+  write(read().filter((item) => item._id !== listingId));
+}
+
+export function clearCompare() {
+  write([]);
+}
+
+/**
+ * The listings in the compare tray, persisted in localStorage
+ */
+export function useCompareItems(): CompareItem[] {
+  return useSyncExternalStore(subscribe, read, () => EMPTY);
+}
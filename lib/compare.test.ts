@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { bestValueIndexes, COMPARE_ROWS, MAX_COMPARE, parseCompareIds } from './compare';
+
+const objectIdArbitrary = fc.hexaString({ minLength: 24, maxLength: 24 });
+
+const listingArbitrary = fc.record({
+  _id: objectIdArbitrary,
+  brand: fc.constantFrom('Toyota', 'Honda', 'Maruti'),
+  carModel: fc.constantFrom('City', 'Swift', 'Innova'),
+  variant: fc.constantFrom('VX', 'ZXI', 'GX'),
+  price: fc.integer({ min: 100000, max: 2000000 }),
+  yearOfOwnership: fc.integer({ min: 2010, max: 2024 }),
+  kmDriven: fc.integer({ min: 0, max: 200000 }),
+  numberOfOwners: fc.integer({ min: 1, max: 4 }),
+  fuelType: fc.constantFrom('petrol', 'diesel'),
+  transmission: fc.constantFrom('manual', 'automatic'),
+  city: fc.constantFrom('Mumbai', 'Pune'),
+});
+
+describe('Listing Comparison Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 44: Comparison ids and best-value highlighting
+   */
+  it('Property 44: Listing comparison - ids are valid, unique, ordered and capped', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.oneof(objectIdArbitrary, fc.string({ maxLength: 30 }).filter((s) => !s.includes(','))),
+          { maxLength: 10 }
+        ),
+        (candidates) => {
+          const ids = parseCompareIds(candidates.join(','));
+
+          expect(ids.length).toBeLessThanOrEqual(MAX_COMPARE);
+          expect(new Set(ids).size).toBe(ids.length);
+          ids.forEach((id) => expect(id).toMatch(/^[a-f0-9]{24}$/i));
+
+          // Order follows the first appearance of each valid id
+          const expected = Array.from(new Set(
+            candidates.map((c) => c.trim()).filter((c) => /^[a-f0-9]{24}$/i.test(c))
+          )).slice(0, MAX_COMPARE);
+          expect(ids).toEqual(expected);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 44: Listing comparison - highlighted cells hold the best value of a row that differs', () => {
+    fc.assert(
+      fc.property(fc.array(listingArbitrary, { minLength: 1, maxLength: MAX_COMPARE }), (listings) => {
+        COMPARE_ROWS.forEach((row) => {
+          const best = bestValueIndexes(row, listings);
+
+          if (!row.best) {
+            expect(best).toEqual([]);
+            return;
+          }
+
+          const values = listings.map((listing) => Number(row.value(listing)));
+          const target = row.best === 'lowest' ? Math.min(...values) : Math.max(...values);
+
+          if (new Set(values).size === 1) {
+            expect(best).toEqual([]);
+          } else {
+            expect(best.length).toBeGreaterThan(0);
+            values.forEach((value, index) => {
+              expect(best.includes(index)).toBe(value === target);
+            });
+          }
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
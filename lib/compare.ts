@@ -0,0 +1,69 @@
+import { formatINR } from './utils';
+
+export const MAX_COMPARE = 4;
+
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+export interface ComparableListing {
+  _id: string;
+  brand: string;
+  carModel: string;
+  variant: string;
+  price: number;
+  yearOfOwnership: number;
+  kmDriven: number;
+  numberOfOwners: number;
+  fuelType: string;
+  transmission: string;
+  city: string;
+}
+
+export interface CompareRow {
+  label: string;
+  value: (listing: ComparableListing) => string | number;
+  format?: (value: number) => string;
+  // Which end of a numeric row is better; text rows have no best value
+  best?: 'lowest' | 'highest';
+}
+
+export const COMPARE_ROWS: CompareRow[] = [
+  { label: 'Price', value: (listing) => listing.price, format: formatINR, best: 'lowest' },
+  { label: 'Year', value: (listing) => listing.yearOfOwnership, best: 'highest' },
+  {
+    label: 'Kilometers',
+    value: (listing) => listing.kmDriven,
+    format: (km) => `${km.toLocaleString()} km`,
+    best: 'lowest',
+  },
+  { label: 'Owners', value: (listing) => listing.numberOfOwners, best: 'lowest' },
+  { label: 'Fuel Type', value: (listing) => listing.fuelType },
+  { label: 'Transmission', value: (listing) => listing.transmission },
+  { label: 'Variant', value: (listing) => listing.variant },
+  { label: 'City', value: (listing) => listing.city },
+];
+
+/**
+ * Parse the ?ids= parameter of /compare
+ * Drops malformed and repeated ids and keeps at most MAX_COMPARE, in the order given
+ */
+export function parseCompareIds(param?: string): string[] {
+  const ids = (param || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => OBJECT_ID_PATTERN.test(id));
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE);
+}
+
+/**
+ * Indexes of the listings holding the best value in a row
+ * Nothing is highlighted for text rows or when every listing has the same value
+ */
+export function bestValueIndexes(row: CompareRow, listings: ComparableListing[]): number[] {
+  if (!row.best || listings.length < 2) return [];
+
+  const values = listings.map((listing) => Number(row.value(listing)));
+  const target = row.best === 'lowest' ? Math.min(...values) : Math.max(...values);
+  if (values.every((value) => value === target)) return [];
+
+  return values.flatMap((value, index) => (value === target ? [index] : []));
+}
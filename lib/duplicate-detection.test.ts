@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import sharp from 'sharp';
+
+// Mock image storage
+vi.mock('./storage', () => ({
+  findStoredObject: vi.fn(() => null),
+}));
+
+import {
+  classifyDuplicate,
+  DuplicateCandidate,
+  hammingDistance,
+  mergeDuplicateImages,
+  scoreDuplicate,
+} from './duplicate-detection';
+import { computeImageHash, hashListingImages } from './image-hash';
+
+const hashArb = fc.hexaString({ minLength: 16, maxLength: 16 });
+
+const candidateArb: fc.Arbitrary<DuplicateCandidate> = fc.record({
+  brand: fc.constantFrom('Maruti', 'Hyundai', 'Honda', 'Tata', 'Mahindra'),
+  carModel: fc.constantFrom('Swift', 'i20', 'City', 'Nexon', 'XUV700'),
+  variant: fc.option(fc.constantFrom('VXI', 'Asta', 'ZX', 'XZ Plus'), { nil: undefined }),
+  yearOfOwnership: fc.integer({ min: 2005, max: 2025 }),
+  kmDriven: fc.integer({ min: 0, max: 200000 }),
+  price: fc.integer({ min: 50000, max: 5000000 }),
+  city: fc.constantFrom('Delhi', 'Mumbai', 'Pune', 'Bangalore'),
+  imageHashes: fc.option(fc.array(hashArb, { minLength: 1, maxLength: 3 }), { nil: undefined }),
+});
+
+/**
+ * A photo-like test image: a horizontal gradient with a dark block
+ */
+function testImage(width: number, height: number) {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBlock = x > width * 0.3 && x < width * 0.6 && y > height * 0.4 && y < height * 0.8;
+      const value = inBlock ? 30 : Math.round((255 * x) / width);
+      pixels.fill(value, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+}
+
+describe('Duplicate Detection Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 52: Duplicate scores are symmetric and bounded
+   */
+  it('Property 52: Duplicate detection - scores are symmetric and between 0 and 1', () => {
+    fc.assert(
+      fc.property(candidateArb, candidateArb, (a, b) => {
+        const forward = scoreDuplicate(a, b);
+        const backward = scoreDuplicate(b, a);
+
+        expect(forward.score).toBeCloseTo(backward.score, 10);
+        expect(forward.score).toBeGreaterThanOrEqual(0);
+        expect(forward.score).toBeLessThanOrEqual(1);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 52: Duplicate detection - a listing is a perfect duplicate of itself', () => {
+    fc.assert(
+      fc.property(candidateArb, (candidate) => {
+        const match = scoreDuplicate(candidate, { ...candidate, brand: candidate.brand.toUpperCase() });
+
+        expect(match.score).toBeCloseTo(1, 10);
+        expect(classifyDuplicate(match)).toBe(candidate.imageHashes ? 'block' : 'flag');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 52: Duplicate detection - imports are never blocked without matching photos', () => {
+    fc.assert(
+      fc.property(candidateArb, candidateArb, (a, b) => {
+        const match = scoreDuplicate({ ...a, imageHashes: undefined }, b);
+        expect(classifyDuplicate(match)).not.toBe('block');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 52: Duplicate detection - merged photos keep the kept listing first, without repeats', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.webUrl(), { minLength: 1, maxLength: 10 }),
+        fc.array(fc.webUrl(), { maxLength: 10 }),
+        (kept, duplicate) => {
+          const merged = mergeDuplicateImages(kept, duplicate);
+
+          expect(merged.slice(0, kept.length)).toEqual(kept);
+          expect(new Set(merged).size).toBe(merged.length);
+          expect(merged.length).toBeLessThanOrEqual(Math.max(10, kept.length));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Image Hashing', () => {
+  it('hashes resized and recompressed copies of a photo close together', async () => {
+    const original = await testImage(640, 480).jpeg({ quality: 90 }).toBuffer();
+    const thumbnail = await testImage(640, 480).resize(160, 120).jpeg({ quality: 40 }).toBuffer();
+    const png = await testImage(320, 240).png().toBuffer();
+
+    const originalHash = await computeImageHash(original);
+    expect(originalHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(originalHash, await computeImageHash(thumbnail))).toBeLessThanOrEqual(4);
+    expect(hammingDistance(originalHash, await computeImageHash(png))).toBeLessThanOrEqual(4);
+  });
+
+  it('hashes different photos far apart', async () => {
+    const photo = await testImage(640, 480).jpeg().toBuffer();
+    const mirrored = await testImage(640, 480).flop().jpeg().toBuffer();
+
+    expect(
+      hammingDistance(await computeImageHash(photo), await computeImageHash(mirrored))
+    ).toBeGreaterThan(16);
+  });
+
+  it('skips images that cannot be loaded', async () => {
+    const photo = await testImage(64, 48).png().toBuffer();
+    const hashes = await hashListingImages(['good.png', 'missing.png', 'broken.png'], async (url) => {
+      if (url === 'missing.png') throw new Error('Failed to fetch image: 404');
+      return url === 'good.png' ? photo : Buffer.from('not an image');
+    });
+
+    expect(hashes).toEqual([await computeImageHash(photo)]);
+  });
+});
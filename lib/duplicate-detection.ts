@@ -0,0 +1,199 @@
+/**
+ * The listing fields compared when looking for duplicates
+ */
+export interface DuplicateCandidate {
+  brand: string;
+  carModel: string;
+  variant?: string;
+  yearOfOwnership: number;
+  kmDriven: number;
+  price: number;
+  city: string;
+  imageHashes?: string[];
+}
+
+export type DuplicateField = 'brand' | 'carModel' | 'variant' | 'year' | 'kmDriven' | 'price' | 'city' | 'images';
+
+export interface DuplicateScore {
+  /** 0 (nothing alike) to 1 (same car) */
+  score: number;
+  /** Similarity of each field that could be compared */
+  breakdown: Partial<Record<DuplicateField, number>>;
+}
+
+export type DuplicateVerdict = 'block' | 'flag' | 'none';
+
+// Photos are the strongest signal; spec fields alone often match distinct cars
+const FIELD_WEIGHTS: Record<DuplicateField, number> = {
+  brand: 0.1,
+  carModel: 0.15,
+  variant: 0.05,
+  year: 0.1,
+  kmDriven: 0.1,
+  price: 0.1,
+  city: 0.1,
+  images: 0.3,
+};
+
+export const DUPLICATE_BLOCK_SCORE = 0.9;
+export const DUPLICATE_FLAG_SCORE = 0.75;
+
+// Image hashes this many bits apart or more are treated as different photos
+const IMAGE_HASH_MAX_DISTANCE = 16;
+
+/**
+ * Number of differing bits between two image hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > BigInt(0)) {
+    count += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return count;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '');
+  return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.slice(i, i + 2));
+}
+
+/**
+ * Dice coefficient over character bigrams, so "Swift VXi" and "swift vxi AMT" score high
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 1;
+  if (!left || !right) return 0;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const remaining = [...rightBigrams];
+  let shared = 0;
+  for (const bigram of leftBigrams) {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (leftBigrams.length + rightBigrams.length);
+}
+
+/**
+ * 1 when equal, falling to 0 once the gap reaches `tolerance`
+ */
+function closeness(a: number, b: number, tolerance: number): number {
+  if (tolerance <= 0) return a === b ? 1 : 0;
+  return Math.max(0, 1 - Math.abs(a - b) / tolerance);
+}
+
+/**
+ * Similarity of the closest pair of photos between two listings
+ */
+export function imageSimilarity(a: string[], b: string[]): number {
+  let best = 0;
+  for (const left of a) {
+    for (const right of b) {
+      best = Math.max(best, closeness(hammingDistance(left, right), 0, IMAGE_HASH_MAX_DISTANCE));
+    }
+  }
+  return best;
+}
+
+/**
+ * Score how likely two listings are the same car
+ */
+export function scoreDuplicate(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateScore {
+  const breakdown: DuplicateScore['breakdown'] = {
+    brand: textSimilarity(a.brand, b.brand),
+    carModel: textSimilarity(a.carModel, b.carModel),
+    year: a.yearOfOwnership === b.yearOfOwnership ? 1 : Math.abs(a.yearOfOwnership - b.yearOfOwnership) === 1 ? 0.5 : 0,
+    // Odometers keep moving between postings, prices get negotiated
+    kmDriven: closeness(a.kmDriven, b.kmDriven, Math.max(5000, 0.2 * Math.max(a.kmDriven, b.kmDriven))),
+    price: closeness(a.price, b.price, 0.15 * Math.max(a.price, b.price)),
+    city: textSimilarity(a.city, b.city),
+  };
+
+  if (a.variant && b.variant) {
+    breakdown.variant = textSimilarity(a.variant, b.variant);
+  }
+  if (a.imageHashes?.length && b.imageHashes?.length) {
+    breakdown.images = imageSimilarity(a.imageHashes, b.imageHashes);
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [field, similarity] of Object.entries(breakdown) as [DuplicateField, number][]) {
+    weighted += FIELD_WEIGHTS[field] * similarity;
+    totalWeight += FIELD_WEIGHTS[field];
+  }
+
+  return { score: totalWeight > 0 ? weighted / totalWeight : 0, breakdown };
+}
+
+/**
+ * What to do with an import that matches an existing listing. Imports are
+ * only blocked when the photos agree too; matching specs alone just flag.
+ */
+export function classifyDuplicate(match: DuplicateScore): DuplicateVerdict {
+  if (match.score >= DUPLICATE_BLOCK_SCORE && (match.breakdown.images ?? 0) >= DUPLICATE_BLOCK_SCORE) {
+    return 'block';
+  }
+  if (match.score >= DUPLICATE_FLAG_SCORE) {
+    return 'flag';
+  }
+  return 'none';
+}
+
+/**
+ * The most similar of several existing listings, if any
+ */
+export function findBestDuplicate<T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  listings: T[]
+): (DuplicateScore & { listing: T }) | null {
+  let best: (DuplicateScore & { listing: T }) | null = null;
+  for (const listing of listings) {
+    const match = scoreDuplicate(candidate, listing);
+    if (!best || match.score > best.score) {
+      best = { ...match, listing };
+    }
+  }
+  return best;
+}
+
+/**
+ * MongoDB filter narrowing the listings worth scoring against a candidate
+ */
+export function duplicateSearchFilter(candidate: DuplicateCandidate): Record<string, any> {
+  const escapedBrand = candidate.brand.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return {
+    brand: { $regex: `^${escapedBrand}$`, $options: 'i' },
+    yearOfOwnership: { $gte: candidate.yearOfOwnership - 1, $lte: candidate.yearOfOwnership + 1 },
+    status: { $in: ['pending', 'approved', 'paused'] },
+  };
+}
+
+// Same cap as the listing forms
+const MAX_LISTING_IMAGES = 10;
+
+/**
+ * Photos of the kept listing followed by any new ones from its duplicate
+ */
+export function mergeDuplicateImages(kept: string[], duplicate: string[]): string[] {
+  const merged = [...kept];
+  for (const image of duplicate) {
+    if (merged.length >= MAX_LISTING_IMAGES) break;
+    if (!merged.includes(image)) merged.push(image);
+  }
+  return merged;
+}
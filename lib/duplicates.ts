@@ -0,0 +1,56 @@
+import Listing, { IListing } from './models/Listing';
+import DuplicateFlag from './models/DuplicateFlag';
+import {
+  classifyDuplicate,
+  DuplicateCandidate,
+  DuplicateScore,
+  DuplicateVerdict,
+  duplicateSearchFilter,
+  findBestDuplicate,
+} from './duplicate-detection';
+
+export interface DuplicateCheck {
+  verdict: DuplicateVerdict;
+  match: (DuplicateScore & { listing: IListing }) | null;
+}
+
+// Caps the scoring work for very common brand/year combinations
+const MAX_DUPLICATE_CANDIDATES = 200;
+
+/**
+ * Look for an existing listing that is likely the same car as `candidate`
+ * @param excludeId The candidate's own listing, once it has been saved
+ */
+export async function checkForDuplicates(
+  candidate: DuplicateCandidate,
+  excludeId?: string
+): Promise<DuplicateCheck> {
+  const filter = duplicateSearchFilter(candidate);
+  const listings = await Listing.find(excludeId ? { ...filter, _id: { $ne: excludeId } } : filter)
+    .select('brand carModel variant yearOfOwnership kmDriven price city imageHashes status')
+    .sort({ createdAt: -1 })
+    .limit(MAX_DUPLICATE_CANDIDATES);
+
+  const match = findBestDuplicate(candidate, listings);
+  return { verdict: match ? classifyDuplicate(match) : 'none', match };
+}
+
+/**
+ * Put a pair of listings in the duplicates review queue
+ */
+export async function flagDuplicate(
+  listingId: string,
+  match: DuplicateScore & { listing: IListing }
+): Promise<void> {
+  try {
+    await DuplicateFlag.create({
+      listingId,
+      duplicateOfId: match.listing._id,
+      score: match.score,
+      breakdown: match.breakdown,
+    });
+  } catch (error: any) {
+    // The pair is already in the queue
+    if (error?.code !== 11000) throw error;
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getFavouriteStatus } from './favourites';
+import { LISTING_STATUSES } from './listing-status';
+
+const priceArbitrary = fc.integer({ min: 50000, max: 10000000 });
+const statusArbitrary = fc.constantFrom(...LISTING_STATUSES);
+
+describe('Saved Car Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 43: Saved cars report price drops and availability
+   */
+  it('Property 43: Saved cars - live listings report the drop from the saved price and never a rise', () => {
+    fc.assert(
+      fc.property(priceArbitrary, priceArbitrary, (priceWhenSaved, price) => {
+        const status = getFavouriteStatus({ priceWhenSaved }, { price, status: 'approved' });
+
+        expect(status.availability).toBe('available');
+        expect(status.priceDrop).toBe(price < priceWhenSaved ? priceWhenSaved - price : 0);
+        expect(status.priceDrop).toBeGreaterThanOrEqual(0);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 43: Saved cars - listings that are not live are sold or unavailable with no price drop', () => {
+    fc.assert(
+      fc.property(
+        priceArbitrary,
+        priceArbitrary,
+        statusArbitrary.filter((status) => status !== 'approved'),
+        (priceWhenSaved, price, listingStatus) => {
+          const status = getFavouriteStatus({ priceWhenSaved }, { price, status: listingStatus });
+
+          expect(status.availability).toBe(listingStatus === 'sold' ? 'sold' : 'unavailable');
+          expect(status.priceDrop).toBe(0);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 43: Saved cars - deleted listings are unavailable', () => {
+    expect(getFavouriteStatus({ priceWhenSaved: 500000 }, null)).toEqual({
+      availability: 'unavailable',
+      priceDrop: 0,
+    });
+  });
+});
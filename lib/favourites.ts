@@ -0,0 +1,35 @@
+import { ListingStatus } from './listing-status';
+
+export type FavouriteAvailability = 'available' | 'sold' | 'unavailable';
+
+export interface FavouriteStatus {
+  availability: FavouriteAvailability;
+  priceDrop: number;
+}
+
+/**
+ * Work out what changed on a shortlisted car since it was saved
+ * Listings that are no longer live (paused, expired, removed) are unavailable; a price
+ * drop is only reported while the car can still be bought
+ */
+export function getFavouriteStatus(
+  favourite: { priceWhenSaved: number },
+  listing: { price: number; status: ListingStatus } | null
+): FavouriteStatus {
+  if (!listing) {
+    return { availability: 'unavailable', priceDrop: 0 };
+  }
+
+  if (listing.status === 'sold') {
+    return { availability: 'sold', priceDrop: 0 };
+  }
+
+  if (listing.status !== 'approved') {
+    return { availability: 'unavailable', priceDrop: 0 };
+  }
+
+  return {
+    availability: 'available',
+    priceDrop: Math.max(favourite.priceWhenSaved - listing.price, 0),
+  };
+}
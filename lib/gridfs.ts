@@ -1,6 +1,8 @@
 import mongoose from 'mongoose';
-import { GridFSBucket, ObjectId } from 'mongodb';
+import { GridFSBucket, GridFSBucketReadStream, GridFSFile, ObjectId } from 'mongodb';
 import connectDB from './mongodb';
+import { processImage } from './image-processing';
+import type { ImageVariantFormat, ImageVariantSize } from './image-variants';
 
 let bucket: GridFSBucket | null = null;
 
@@ -22,6 +24,11 @@ export async function getGridFSBucket(): Promise<GridFSBucket> {
     bucketName: 'images',
   });
 
+  // Lets copied images be looked up by content, and variants by their original
+  const files = mongoose.connection.db.collection('images.files');
+  await files.createIndex({ 'metadata.sha256': 1 }, { sparse: true });
+  await files.createIndex({ 'metadata.variantOf': 1, 'metadata.size': 1, 'metadata.format': 1 }, { sparse: true });
+
   return bucket;
 }
 
@@ -30,12 +37,14 @@ export async function getGridFSBucket(): Promise<GridFSBucket> {
  * @param buffer File buffer
  * @param filename Original filename
  * @param contentType MIME type
+ * @param metadata Extra metadata stored with the file
  * @returns File ID and URL
  */
 export async function uploadToGridFS(
   buffer: Buffer,
   filename: string,
-  contentType: string
+  contentType: string,
+  metadata: Record<string, any> = {}
 ): Promise<{ fileId: string; url: string }> {
   const bucket = await getGridFSBucket();
 
@@ -43,6 +52,7 @@ export async function uploadToGridFS(
     const uploadStream = bucket.openUploadStream(filename, {
       contentType,
       metadata: {
+        ...metadata,
         uploadedAt: new Date(),
       },
     });
@@ -61,6 +71,39 @@ export async function uploadToGridFS(
   });
 }
 
+/**
+ * Look up a stored file's metadata
+ * @param fileId File ID
+ * @returns The file document, or null if it does not exist
+ */
+export async function getGridFSFile(fileId: string): Promise<GridFSFile | null> {
+  if (!ObjectId.isValid(fileId)) {
+    return null;
+  }
+
+  const bucket = await getGridFSBucket();
+  const [file] = await bucket.find({ _id: new ObjectId(fileId) }).limit(1).toArray();
+  return file || null;
+}
+
+/**
+ * Stream a stored file, or part of it
+ * @param fileId File ID
+ * @param range Byte range to read; `end` is inclusive
+ * @returns Readable stream of the file contents
+ */
+export async function openGridFSStream(
+  fileId: string,
+  range?: { start: number; end: number }
+): Promise<GridFSBucketReadStream> {
+  const bucket = await getGridFSBucket();
+  // The driver's `end` is exclusive
+  return bucket.openDownloadStream(
+    new ObjectId(fileId),
+    range ? { start: range.start, end: range.end + 1 } : undefined
+  );
+}
+
 /**
  * Download a file from GridFS
  * @param fileId File ID
@@ -71,63 +114,120 @@ export async function downloadFromGridFS(fileId: string): Promise<{
   contentType: string;
   filename: string;
 }> {
-  const bucket = await getGridFSBucket();
+  const file = await getGridFSFile(fileId);
+  if (!file) {
+    throw new Error('File not found');
+  }
 
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    
-    const downloadStream = bucket.openDownloadStream(new ObjectId(fileId));
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openGridFSStream(fileId)) {
+    chunks.push(chunk);
+  }
 
-    downloadStream.on('data', (chunk) => {
-      chunks.push(chunk);
-    });
+  return {
+    buffer: Buffer.concat(chunks),
+    contentType: file.contentType || 'application/octet-stream',
+    filename: file.filename,
+  };
+}
 
-    downloadStream.on('error', (error) => {
-      reject(error);
-    });
+/**
+ * Store an uploaded image with its metadata stripped, plus resized WebP and
+ * JPEG variants that point back at it
+ * @param buffer Image as uploaded
+ * @param filename Original filename
+ * @param metadata Extra metadata stored with the original
+ * @returns File ID and URL of the original
+ */
+export async function uploadImageToGridFS(
+  buffer: Buffer,
+  filename: string,
+  metadata: Record<string, any> = {}
+): Promise<{ fileId: string; url: string }> {
+  const { original, variants } = await processImage(buffer);
 
-    downloadStream.on('end', async () => {
-      const buffer = Buffer.concat(chunks);
-      
-      // Get file metadata
-      const files = await bucket.find({ _id: new ObjectId(fileId) }).toArray();
-      const file = files[0];
-
-      if (!file) {
-        reject(new Error('File not found'));
-        return;
-      }
-
-      resolve({
-        buffer,
-        contentType: file.contentType || 'application/octet-stream',
-        filename: file.filename,
-      });
-    });
+  const stored = await uploadToGridFS(original.buffer, filename, original.contentType, {
+    ...metadata,
+    width: original.width,
+    height: original.height,
   });
+
+  const baseName = filename.replace(/\.[^.]+$/, '');
+  await Promise.all(
+    variants.map((variant) =>
+      uploadToGridFS(
+        variant.buffer,
+        `${baseName}-${variant.size}.${variant.format === 'jpeg' ? 'jpg' : variant.format}`,
+        variant.contentType,
+        {
+          variantOf: new ObjectId(stored.fileId),
+          size: variant.size,
+          format: variant.format,
+          width: variant.width,
+          height: variant.height,
+        }
+      )
+    )
+  );
+
+  return stored;
 }
 
 /**
- * Delete a file from GridFS
- * @param fileId File ID
+ * Find the ID of a resized variant of a stored image
+ * @param fileId ID of the original
+ * @returns Variant file ID, or null for images stored before variants existed
  */
-export async function deleteFromGridFS(fileId: string): Promise<void> {
+export async function findImageVariant(
+  fileId: string,
+  size: ImageVariantSize,
+  format: ImageVariantFormat
+): Promise<string | null> {
   const bucket = await getGridFSBucket();
-  await bucket.delete(new ObjectId(fileId));
+  const [variant] = await bucket
+    .find({ 'metadata.variantOf': new ObjectId(fileId), 'metadata.size': size, 'metadata.format': format })
+    .limit(1)
+    .toArray();
+  return variant ? variant._id.toString() : null;
 }
 
 /**
- * Upload multiple files to GridFS
- * @param files Array of file objects with buffer, filename, and contentType
- * @returns Array of file URLs
+ * Find a stored file by the SHA-256 of its content
+ * @param sha256 Hex digest recorded in the file metadata
+ * @returns File ID and URL, or null if no file has that content
  */
-export async function uploadMultipleToGridFS(
-  files: Array<{ buffer: Buffer; filename: string; contentType: string }>
-): Promise<string[]> {
-  const uploadPromises = files.map((file) =>
-    uploadToGridFS(file.buffer, file.filename, file.contentType)
-  );
+export async function findGridFSFileByHash(
+  sha256: string
+): Promise<{ fileId: string; url: string } | null> {
+  const bucket = await getGridFSBucket();
+  const [file] = await bucket.find({ 'metadata.sha256': sha256 }).limit(1).toArray();
+  if (!file) {
+    return null;
+  }
 
-  const results = await Promise.all(uploadPromises);
-  return results.map((result) => result.url);
+  const fileId = file._id.toString();
+  return { fileId, url: `/api/images/${fileId}` };
+}
+
+/**
+ * Record that a stored file was handed out again, so orphan cleanup gives it
+ * a fresh grace period before a listing references it
+ * @param fileId File ID
+ */
+export async function markGridFSFileReused(fileId: string): Promise<void> {
+  await getGridFSBucket();
+  await mongoose.connection.db
+    ?.collection('images.files')
+    .updateOne({ _id: new ObjectId(fileId) }, { $set: { 'metadata.reusedAt': new Date() } });
+}
+
+/**
+ * Delete a file from GridFS, along with any variants of it
+ * @param fileId File ID
+ */
+export async function deleteFromGridFS(fileId: string): Promise<void> {
+  const bucket = await getGridFSBucket();
+  const variants = await bucket.find({ 'metadata.variantOf': new ObjectId(fileId) }).toArray();
+  await Promise.all(variants.map((variant) => bucket.delete(variant._id)));
+  await bucket.delete(new ObjectId(fileId));
 }
@@ -0,0 +1,43 @@
+/**
+ * Byte range of a file, with `end` inclusive as in Content-Range
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a single-range `Range` header against a file of `size` bytes
+ * @returns The range to serve, null to serve the whole file, or 'unsatisfiable'
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+  // Multi-range and non-byte requests may be answered with the whole file
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, first, last] = match;
+  if (!first && !last) {
+    return null;
+  }
+
+  // bytes=-N asks for the last N bytes
+  if (!first) {
+    const suffix = Number(last);
+    if (suffix === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+
+  const start = Number(first);
+  if (last && Number(last) < start) {
+    // Invalid ranges are ignored rather than refused
+    return null;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+  return { start, end: last ? Math.min(Number(last), size - 1) : size - 1 };
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock mongodb connection
+vi.mock('./mongodb', () => ({
+  default: vi.fn(async () => ({})),
+}));
+
+vi.mock('./models/Listing', () => ({
+  default: {
+    exists: vi.fn(),
+  },
+}));
+
+// Mock GridFS storage
+vi.mock('./gridfs', () => ({
+  deleteFromGridFS: vi.fn(),
+  getGridFSBucket: vi.fn(),
+}));
+
+vi.mock('./storage', () => ({
+  findStoredObject: vi.fn(),
+  GridFSStorage: vi.fn(),
+}));
+
+import Listing from './models/Listing';
+import { findStoredObject } from './storage';
+import { deleteUnreferencedImages, findOrphanedImages, StoredImageFile } from './image-gc';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2026-06-01T12:00:00Z');
+const cutoff = new Date(now.getTime() - 24 * HOUR);
+
+const fileArb = fc.record({
+  id: fc.hexaString({ minLength: 24, maxLength: 24 }),
+  ageHours: fc.integer({ min: 0, max: 24 * 30 }),
+  referenced: fc.boolean(),
+  reusedHoursAgo: fc.option(fc.integer({ min: 0, max: 24 * 30 }), { nil: undefined }),
+});
+
+function storedFile(id: string, ageHours: number, metadata: StoredImageFile['metadata'] = {}): StoredImageFile {
+  return {
+    _id: id,
+    filename: `${id}.jpg`,
+    length: 1000,
+    uploadDate: new Date(now.getTime() - ageHours * HOUR),
+    metadata,
+  };
+}
+
+describe('Image GC Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 58: Only unreferenced images past the grace period are collected
+   */
+  it('Property 58: Orphaned images - referenced and recent files are never collected', () => {
+    fc.assert(
+      fc.property(fc.uniqueArray(fileArb, { selector: (file) => file.id, maxLength: 30 }), (specs) => {
+        const files = specs.map((spec) =>
+          storedFile(spec.id, spec.ageHours, {
+            reusedAt: spec.reusedHoursAgo === undefined ? undefined : new Date(now.getTime() - spec.reusedHoursAgo * HOUR),
+          })
+        );
+        const referenced = new Set(specs.filter((spec) => spec.referenced).map((spec) => spec.id));
+
+        const orphaned = new Set(findOrphanedImages(files, referenced, cutoff).map((file) => file.fileId));
+
+        for (const spec of specs) {
+          const lastUsedHoursAgo = Math.min(spec.ageHours, spec.reusedHoursAgo ?? Infinity);
+          expect(orphaned.has(spec.id)).toBe(!spec.referenced && lastUsedHoursAgo > 24);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 58: Orphaned images - variants follow their original', () => {
+    fc.assert(
+      fc.property(
+        fc.hexaString({ minLength: 24, maxLength: 24 }),
+        fc.hexaString({ minLength: 24, maxLength: 24 }),
+        fc.boolean(),
+        (originalId, variantId, originalStored) => {
+          fc.pre(originalId !== variantId);
+          const variant = storedFile(variantId, 48, { variantOf: originalId });
+          const files = originalStored ? [storedFile(originalId, 48), variant] : [variant];
+
+          const orphaned = findOrphanedImages(files, new Set([originalId]), cutoff).map((file) => file.fileId);
+
+          expect(orphaned.includes(variantId)).toBe(!originalStored);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('deleteUnreferencedImages', () => {
+  const storage = { delete: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(findStoredObject).mockImplementation((url: string) =>
+      url.startsWith('/api/images/') ? { storage: storage as any, key: url.slice('/api/images/'.length) } : null
+    );
+  });
+
+  it('deletes stored images no other listing uses', async () => {
+    vi.mocked(Listing.exists).mockImplementation((async (filter: any) =>
+      filter.images === '/api/images/shared' ? { _id: 'other-listing' } : null) as any);
+
+    await deleteUnreferencedImages([
+      '/api/images/only-here',
+      '/api/images/shared',
+      'https://cdn.example.com/external.jpg',
+      '/api/images/only-here',
+    ]);
+
+    expect(storage.delete).toHaveBeenCalledTimes(1);
+    expect(storage.delete).toHaveBeenCalledWith('only-here');
+  });
+
+  it('keeps going when a delete fails', async () => {
+    vi.mocked(Listing.exists).mockResolvedValue(null);
+    storage.delete.mockRejectedValueOnce(new Error('gone')).mockResolvedValue(undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await deleteUnreferencedImages(['/api/images/a', '/api/images/b']);
+
+    expect(storage.delete).toHaveBeenCalledWith('b');
+  });
+});
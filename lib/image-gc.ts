@@ -0,0 +1,147 @@
+import connectDB from './mongodb';
+import Listing from './models/Listing';
+import { deleteFromGridFS, getGridFSBucket } from './gridfs';
+import { findStoredObject, GridFSStorage } from './storage';
+
+// Uploads happen before the listing that uses them is saved, and scraped
+// images are reused by content; give both time to be referenced
+export const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredImageFile {
+  _id: { toString(): string };
+  filename: string;
+  length: number;
+  uploadDate: Date;
+  metadata?: { variantOf?: { toString(): string }; reusedAt?: Date };
+}
+
+export interface OrphanedImage {
+  fileId: string;
+  filename: string;
+  length: number;
+  uploadDate: Date;
+}
+
+export interface ImageGCReport {
+  dryRun: boolean;
+  scanned: number;
+  orphaned: OrphanedImage[];
+  /** Bytes held by the orphaned files, not counting their variants */
+  bytes: number;
+  deleted: number;
+  errors: string[];
+}
+
+/**
+ * GridFS files that no listing refers to and that are older than `cutoff`.
+ * Variants count as referenced through their original; variants whose
+ * original is gone are orphans themselves.
+ */
+export function findOrphanedImages(
+  files: StoredImageFile[],
+  referencedIds: Set<string>,
+  cutoff: Date
+): OrphanedImage[] {
+  const fileIds = new Set(files.map((file) => file._id.toString()));
+
+  return files
+    .filter((file) => {
+      const lastUsed = file.metadata?.reusedAt && file.metadata.reusedAt > file.uploadDate
+        ? file.metadata.reusedAt
+        : file.uploadDate;
+      if (lastUsed >= cutoff) {
+        return false;
+      }
+
+      const variantOf = file.metadata?.variantOf?.toString();
+      return variantOf ? !fileIds.has(variantOf) : !referencedIds.has(file._id.toString());
+    })
+    .map((file) => ({
+      fileId: file._id.toString(),
+      filename: file.filename,
+      length: file.length,
+      uploadDate: file.uploadDate,
+    }));
+}
+
+/**
+ * IDs of the GridFS files referenced from any listing's images
+ */
+async function referencedImageIds(): Promise<Set<string>> {
+  const gridfs = new GridFSStorage();
+  const ids = new Set<string>();
+
+  const listings = Listing.find({}).select('images').lean().cursor();
+  for await (const listing of listings) {
+    for (const url of (listing.images as string[]) || []) {
+      const key = gridfs.keyFromUrl(url);
+      if (key) ids.add(key.toLowerCase());
+    }
+  }
+  return ids;
+}
+
+/**
+ * Find GridFS images no listing refers to and, unless `dryRun`, delete them
+ * together with their variants
+ */
+export async function collectOrphanedImages({
+  dryRun = true,
+  gracePeriodMs = ORPHAN_GRACE_PERIOD_MS,
+}: { dryRun?: boolean; gracePeriodMs?: number } = {}): Promise<ImageGCReport> {
+  await connectDB();
+  const cutoff = new Date(Date.now() - gracePeriodMs);
+
+  // Files first, then references: anything referenced in between is kept
+  const bucket = await getGridFSBucket();
+  const files = (await bucket
+    .find({}, { projection: { filename: 1, length: 1, uploadDate: 1, 'metadata.variantOf': 1, 'metadata.reusedAt': 1 } })
+    .toArray()) as StoredImageFile[];
+  const orphaned = findOrphanedImages(files, await referencedImageIds(), cutoff);
+
+  const report: ImageGCReport = {
+    dryRun,
+    scanned: files.length,
+    orphaned,
+    bytes: orphaned.reduce((total, file) => total + file.length, 0),
+    deleted: 0,
+    errors: [],
+  };
+
+  if (!dryRun) {
+    for (const file of orphaned) {
+      try {
+        await deleteFromGridFS(file.fileId);
+        report.deleted++;
+      } catch (error) {
+        report.errors.push(`${file.fileId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Delete stored images that no listing refers to any more, e.g. after a
+ * listing is deleted or its photos are replaced. Merged duplicates and reused
+ * scraped photos can share files, so each URL is checked first. Failures are
+ * logged; the GC job picks up anything left behind.
+ */
+export async function deleteUnreferencedImages(urls: string[]): Promise<void> {
+  for (const url of Array.from(new Set(urls))) {
+    const stored = findStoredObject(url);
+    if (!stored) {
+      continue;
+    }
+
+    try {
+      if (await Listing.exists({ images: url })) {
+        continue;
+      }
+      await stored.storage.delete(stored.key);
+    } catch (error) {
+      console.error(`Error deleting image ${url}:`, error);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import sharp from 'sharp';
+import { findStoredObject } from './storage';
+
+// Only the first few photos are compared; they are usually the exterior shots
+export const HASHED_IMAGES_PER_LISTING = 3;
+
+// Skip anything larger than an uploaded photo is allowed to be
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * 64-bit difference hash of an image as 16 hex characters. Resized and
+ * recompressed copies of the same photo hash to within a few bits.
+ */
+export async function computeImageHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = BigInt(0);
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      hash = (hash << BigInt(1)) | (left > right ? BigInt(1) : BigInt(0));
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Read an image from our own storage, or download it
+ */
+export async function loadImage(url: string): Promise<Buffer> {
+  // Our own uploads are read straight from storage
+  const stored = findStoredObject(url);
+  if (stored) {
+    const object = await stored.storage.get(stored.key);
+    if (!object) {
+      throw new Error('Image not found');
+    }
+    return object.buffer;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), IMAGE_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status}`);
+    }
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (buffer.byteLength > MAX_IMAGE_BYTES) {
+      throw new Error('Image too large to hash');
+    }
+    return buffer;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Hash a listing's leading images, skipping any that cannot be loaded
+ */
+export async function hashListingImages(
+  images: string[],
+  load: (url: string) => Promise<Buffer> = loadImage
+): Promise<string[]> {
+  const hashes = await Promise.all(
+    images.slice(0, HASHED_IMAGES_PER_LISTING).map(async (url) => {
+      try {
+        return await computeImageHash(await load(url));
+      } catch (error) {
+        console.error(`Error hashing image ${url}:`, error);
+        return null;
+      }
+    })
+  );
+  return hashes.filter((hash): hash is string => hash !== null);
+}
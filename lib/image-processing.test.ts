@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import sharp from 'sharp';
+import { processImage } from './image-processing';
+import { IMAGE_VARIANT_WIDTHS, imageVariantUrl, requestedVariant, variantForWidth } from './image-variants';
+
+describe('Image Variant Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 55: Image variants fit their size and carry no metadata
+   */
+  it('Property 55: Image variants - a requested width maps to the smallest variant that covers it', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 4000 }), (width) => {
+        const size = variantForWidth(width);
+        const covering = Object.values(IMAGE_VARIANT_WIDTHS).filter((variantWidth) => variantWidth >= width);
+
+        if (covering.length === 0) {
+          expect(size).toBe('large');
+        } else {
+          expect(IMAGE_VARIANT_WIDTHS[size]).toBe(Math.min(...covering));
+        }
+        expect(requestedVariant(new URLSearchParams({ w: String(width) }))).toBe(size);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 55: Image variants - only stored images get variant URLs', () => {
+    fc.assert(
+      fc.property(fc.hexaString({ minLength: 24, maxLength: 24 }), fc.webUrl(), (id, externalUrl) => {
+        expect(imageVariantUrl(`/api/images/${id}`, 'medium')).toBe(`/api/images/${id}?size=medium`);
+        expect(imageVariantUrl(externalUrl, 'medium')).toBe(externalUrl);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 55: Image variants - variants never exceed their width or the original', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 16, max: 2000 }), fc.integer({ min: 16, max: 1200 }), async (width, height) => {
+        const input = await sharp({
+          create: { width, height, channels: 3, background: { r: 40, g: 120, b: 200 } },
+        }).jpeg().toBuffer();
+
+        const { original, variants } = await processImage(input);
+
+        expect(variants).toHaveLength(6);
+        for (const variant of variants) {
+          expect(variant.width).toBeLessThanOrEqual(Math.min(IMAGE_VARIANT_WIDTHS[variant.size], original.width));
+          expect((await sharp(variant.buffer).metadata()).format).toBe(variant.format);
+        }
+      }),
+      { numRuns: 10 }
+    );
+  });
+});
+
+describe('Image Processing', () => {
+  it('strips EXIF and GPS data and keeps photos upright', async () => {
+    const input = await sharp({
+      create: { width: 200, height: 100, channels: 3, background: { r: 200, g: 60, b: 60 } },
+    })
+      .jpeg()
+      .withMetadata({
+        orientation: 6,
+        exif: {
+          IFD0: { Make: 'PhoneMaker', Model: 'Phone 12' },
+          IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '19/1 4/1 0/1' },
+        },
+      })
+      .toBuffer();
+    expect((await sharp(input).metadata()).exif).toBeDefined();
+
+    const { original, variants } = await processImage(input);
+
+    for (const image of [original, ...variants]) {
+      const metadata = await sharp(image.buffer).metadata();
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+    }
+    // Orientation 6 is a 90° turn, so the stored photo is portrait
+    expect(original).toMatchObject({ width: 100, height: 200, contentType: 'image/jpeg' });
+  });
+
+  it('keeps PNG originals as PNG and flattens their JPEG variants', async () => {
+    const input = await sharp({
+      create: { width: 64, height: 64, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+    }).png().toBuffer();
+
+    const { original, variants } = await processImage(input);
+
+    expect(original.contentType).toBe('image/png');
+    const jpeg = variants.find((variant) => variant.format === 'jpeg')!;
+    const { data } = await sharp(jpeg.buffer).raw().toBuffer({ resolveWithObject: true });
+    expect(data[0]).toBeGreaterThan(240);
+  });
+});
@@ -0,0 +1,72 @@
+import sharp from 'sharp';
+import { IMAGE_VARIANT_SIZES, IMAGE_VARIANT_WIDTHS, ImageVariantFormat, ImageVariantSize } from './image-variants';
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageVariant extends ProcessedImage {
+  size: ImageVariantSize;
+  format: ImageVariantFormat;
+}
+
+const VARIANT_QUALITY: Record<ImageVariantFormat, number> = {
+  webp: 80,
+  jpeg: 82,
+};
+
+// Re-encoding the original only to drop metadata, so keep it close to the upload
+const ORIGINAL_QUALITY = 92;
+
+/**
+ * Strip EXIF (including GPS) from an upload and build its resized variants.
+ * Photos are turned upright first, since the orientation tag goes with the metadata.
+ */
+export async function processImage(input: Buffer): Promise<{ original: ProcessedImage; variants: ImageVariant[] }> {
+  const upright = sharp(input).rotate();
+  const { format } = await sharp(input).metadata();
+
+  // sharp writes no metadata unless asked to, so re-encoding removes it
+  const original =
+    format === 'png'
+      ? upright.png()
+      : format === 'webp'
+        ? upright.webp({ quality: ORIGINAL_QUALITY })
+        : upright.jpeg({ quality: ORIGINAL_QUALITY, mozjpeg: true });
+  const { data, info } = await original.toBuffer({ resolveWithObject: true });
+
+  const variants = await Promise.all(
+    IMAGE_VARIANT_SIZES.flatMap((size) =>
+      (['webp', 'jpeg'] as const).map(async (variantFormat): Promise<ImageVariant> => {
+        const resized = sharp(data).resize({ width: IMAGE_VARIANT_WIDTHS[size], withoutEnlargement: true });
+        const encoded =
+          variantFormat === 'webp'
+            ? resized.webp({ quality: VARIANT_QUALITY.webp })
+            // JPEG has no alpha channel; flatten transparent PNGs onto white
+            : resized.flatten({ background: '#ffffff' }).jpeg({ quality: VARIANT_QUALITY.jpeg, mozjpeg: true });
+        const variant = await encoded.toBuffer({ resolveWithObject: true });
+        return {
+          size,
+          format: variantFormat,
+          buffer: variant.data,
+          contentType: `image/${variantFormat}`,
+          width: variant.info.width,
+          height: variant.info.height,
+        };
+      })
+    )
+  );
+
+  return {
+    original: {
+      buffer: data,
+      contentType: `image/${info.format}`,
+      width: info.width,
+      height: info.height,
+    },
+    variants,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Catalog of problems the upload checks can find in a listing photo
+ * Sellers see the hints as warnings; moderators see the labels as flags
+ */
+export const IMAGE_QUALITY_ISSUES = [
+  {
+    code: 'low_resolution',
+    label: 'Low resolution',
+    hint: 'Upload photos at least 640×480 pixels.',
+  },
+  {
+    code: 'blurry',
+    label: 'Blurry',
+    hint: 'Hold the camera steady and make sure the car is in focus.',
+  },
+  {
+    code: 'too_dark',
+    label: 'Too dark',
+    hint: 'Take photos in daylight or a well-lit space.',
+  },
+  {
+    code: 'too_bright',
+    label: 'Overexposed',
+    hint: 'Avoid direct sunlight and flash glare on the car.',
+  },
+  {
+    code: 'screenshot',
+    label: 'Looks like a screenshot',
+    hint: 'Upload your own photos of the car, not screenshots of other sites.',
+  },
+  {
+    code: 'duplicate',
+    label: 'Repeats another photo',
+    hint: 'Show the car from a different angle in each photo.',
+  },
+] as const;
+
+export type ImageQualityIssueCode = (typeof IMAGE_QUALITY_ISSUES)[number]['code'];
+
+export const IMAGE_QUALITY_ISSUE_CODES = IMAGE_QUALITY_ISSUES.map((issue) => issue.code) as [
+  ImageQualityIssueCode,
+  ...ImageQualityIssueCode[],
+];
+
+/**
+ * A problem found in one of a listing's photos, by position in `images`
+ */
+export interface ImageQualityFlag {
+  image: number;
+  issue: ImageQualityIssueCode;
+}
+
+/**
+ * Get the catalog entry for an image quality issue code
+ */
+export function getImageQualityIssue(code: string) {
+  return IMAGE_QUALITY_ISSUES.find((issue) => issue.code === code);
+}
+
+/**
+ * Warning shown to the seller for a flagged photo
+ */
+export function describeImageQualityFlag(flag: ImageQualityFlag): string {
+  const issue = getImageQualityIssue(flag.issue);
+  return `Photo ${flag.image + 1}: ${issue?.label ?? flag.issue}. ${issue?.hint ?? ''}`.trim();
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import sharp from 'sharp';
+
+// Mock image storage
+vi.mock('./storage', () => ({
+  findStoredObject: vi.fn(() => null),
+}));
+
+import {
+  assessImageQuality,
+  checkImageQuality,
+  ImageQualityMetrics,
+  MAX_BRIGHTNESS,
+  MIN_BRIGHTNESS,
+  MIN_IMAGE_LONG_SIDE,
+  MIN_IMAGE_SHORT_SIDE,
+  MIN_SHARPNESS,
+} from './image-quality';
+
+/**
+ * A detailed, evenly lit test photo: seeded noise around mid grey
+ */
+function testPhoto(width: number, height: number, seed = 1) {
+  const pixels = Buffer.alloc(width * height * 3);
+  let state = seed;
+  for (let i = 0; i < pixels.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    pixels[i] = 60 + ((state >> 16) % 140);
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+}
+
+const metricsArb: fc.Arbitrary<ImageQualityMetrics> = fc.record({
+  width: fc.integer({ min: 100, max: 4000 }),
+  height: fc.integer({ min: 100, max: 4000 }),
+  sharpness: fc.double({ min: 0, max: 3000, noNaN: true }),
+  brightness: fc.double({ min: 0, max: 255, noNaN: true }),
+  flatRowRatio: fc.double({ min: 0, max: 1, noNaN: true }),
+  format: fc.constantFrom('jpeg', 'png', 'webp'),
+  hasExif: fc.boolean(),
+  hash: fc.hexaString({ minLength: 16, maxLength: 16 }),
+});
+
+describe('Image Quality Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 60: Photo quality flags follow the thresholds
+   */
+  it('Property 60: Image quality - resolution, blur and brightness are flagged exactly at the thresholds', () => {
+    fc.assert(
+      fc.property(metricsArb, (metrics) => {
+        const issues = assessImageQuality([metrics]).map((flag) => flag.issue);
+
+        const shortSide = Math.min(metrics.width, metrics.height);
+        const longSide = Math.max(metrics.width, metrics.height);
+        expect(issues.includes('low_resolution')).toBe(shortSide < MIN_IMAGE_SHORT_SIDE || longSide < MIN_IMAGE_LONG_SIDE);
+        expect(issues.includes('blurry')).toBe(metrics.sharpness < MIN_SHARPNESS);
+        expect(issues.includes('too_dark')).toBe(metrics.brightness < MIN_BRIGHTNESS);
+        expect(issues.includes('too_bright')).toBe(metrics.brightness > MAX_BRIGHTNESS);
+        expect(issues.includes('duplicate')).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 60: Image quality - only later copies of a repeated photo are flagged', () => {
+    fc.assert(
+      fc.property(fc.array(metricsArb, { minLength: 1, maxLength: 5 }), fc.nat(), (photos, pick) => {
+        const original = pick % photos.length;
+        const withCopy = [...photos, { ...photos[original] }];
+
+        const flags = assessImageQuality(withCopy);
+
+        expect(flags).toContainEqual({ image: withCopy.length - 1, issue: 'duplicate' });
+        expect(flags.filter((flag) => flag.issue === 'duplicate').every((flag) => flag.image > 0)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('checkImageQuality', () => {
+  it('passes a clear photo and flags blurry, dark, tiny and repeated ones', async () => {
+    const clear = await testPhoto(800, 600).jpeg().toBuffer();
+    const blurry = await testPhoto(800, 600, 2).blur(4).jpeg().toBuffer();
+    const dark = await testPhoto(800, 600, 3).linear(0.2, 0).jpeg().toBuffer();
+    const tiny = await testPhoto(320, 240, 4).jpeg().toBuffer();
+
+    const report = await checkImageQuality([clear, blurry, dark, tiny, clear]);
+
+    expect(report.unreadable).toEqual([]);
+    expect(report.flags).toEqual([
+      { image: 1, issue: 'blurry' },
+      { image: 2, issue: 'too_dark' },
+      { image: 3, issue: 'low_resolution' },
+      { image: 4, issue: 'duplicate' },
+    ]);
+  });
+
+  it('flags phone screenshots', async () => {
+    const screenshot = await testPhoto(1080, 2340).png().toBuffer();
+
+    const report = await checkImageQuality([screenshot]);
+
+    expect(report.flags).toContainEqual({ image: 0, issue: 'screenshot' });
+  });
+
+  it('reports files that cannot be decoded and keeps positions for the rest', async () => {
+    const blurry = await testPhoto(800, 600).blur(4).jpeg().toBuffer();
+
+    const report = await checkImageQuality([Buffer.from('not an image'), blurry]);
+
+    expect(report.unreadable).toEqual([0]);
+    expect(report.flags).toEqual([{ image: 1, issue: 'blurry' }]);
+  });
+});
@@ -0,0 +1,175 @@
+import sharp from 'sharp';
+import { computeImageHash } from './image-hash';
+import { hammingDistance } from './duplicate-detection';
+import type { ImageQualityFlag } from './image-quality-issues';
+
+// Shorter and longer side a listing photo needs, in either orientation
+export const MIN_IMAGE_SHORT_SIDE = 480;
+export const MIN_IMAGE_LONG_SIDE = 640;
+
+// Variance of the Laplacian below this, measured at ANALYSIS_SIZE, reads as out of focus
+export const MIN_SHARPNESS = 50;
+
+// Mean grey level (0-255) outside this range is too dark or washed out
+export const MIN_BRIGHTNESS = 45;
+export const MAX_BRIGHTNESS = 215;
+
+// Photos whose hashes are this close are the same shot
+const DUPLICATE_HASH_DISTANCE = 6;
+
+// Images are scaled to fit this box first, so sharpness compares across resolutions
+const ANALYSIS_SIZE = 512;
+
+// Phone screens are 19.5:9 or taller; camera photos are 4:3 or 16:9
+const SCREEN_ASPECT_RATIO = 1.9;
+
+// Share of perfectly flat rows (app bars, page backgrounds) typical of a screenshot
+const SCREENSHOT_FLAT_ROW_RATIO = 0.2;
+
+export interface ImageQualityMetrics {
+  width: number;
+  height: number;
+  sharpness: number;
+  brightness: number;
+  flatRowRatio: number;
+  format?: string;
+  hasExif: boolean;
+  hash: string;
+}
+
+export interface ImageQualityReport {
+  flags: ImageQualityFlag[];
+  // Positions of files that could not be decoded as images
+  unreadable: number[];
+}
+
+/**
+ * Decode an image and measure its resolution, sharpness, brightness and
+ * screenshot-like traits
+ */
+export async function measureImage(input: Buffer): Promise<ImageQualityMetrics> {
+  const metadata = await sharp(input).metadata();
+  const { data, info } = await sharp(input)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize({ width: ANALYSIS_SIZE, height: ANALYSIS_SIZE, fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height, channels } = info;
+  const at = (x: number, y: number) => data[(y * width + x) * channels];
+
+  let total = 0;
+  let flatRows = 0;
+  for (let y = 0; y < height; y++) {
+    let min = 255;
+    let max = 0;
+    for (let x = 0; x < width; x++) {
+      const value = at(x, y);
+      total += value;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    if (max - min <= 2) flatRows++;
+  }
+
+  // Variance of the 4-neighbour Laplacian: sharp edges give large responses
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const laplacian = 4 * at(x, y) - at(x - 1, y) - at(x + 1, y) - at(x, y - 1) - at(x, y + 1);
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+
+  return {
+    width: metadata.width ?? info.width,
+    height: metadata.height ?? info.height,
+    sharpness: count > 0 ? sumSquares / count - mean * mean : 0,
+    brightness: total / (width * height),
+    flatRowRatio: flatRows / height,
+    format: metadata.format,
+    hasExif: !!metadata.exif,
+    hash: await computeImageHash(input),
+  };
+}
+
+/**
+ * Screenshots are PNGs without camera metadata, shaped like a phone screen,
+ * or full of flat UI rows; any two of those together are enough
+ */
+function looksLikeScreenshot(metrics: ImageQualityMetrics): boolean {
+  const aspectRatio = Math.max(metrics.width, metrics.height) / Math.min(metrics.width, metrics.height);
+  const signals = [
+    metrics.format === 'png' && !metrics.hasExif,
+    aspectRatio >= SCREEN_ASPECT_RATIO,
+    metrics.flatRowRatio >= SCREENSHOT_FLAT_ROW_RATIO,
+  ];
+  return signals.filter(Boolean).length >= 2;
+}
+
+/**
+ * Flag the problems in a listing's photos from their measurements.
+ * A photo repeating an earlier one is flagged, the first copy is not.
+ */
+export function assessImageQuality(photos: ImageQualityMetrics[]): ImageQualityFlag[] {
+  const flags: ImageQualityFlag[] = [];
+
+  photos.forEach((metrics, image) => {
+    if (
+      Math.min(metrics.width, metrics.height) < MIN_IMAGE_SHORT_SIDE ||
+      Math.max(metrics.width, metrics.height) < MIN_IMAGE_LONG_SIDE
+    ) {
+      flags.push({ image, issue: 'low_resolution' });
+    }
+    if (metrics.sharpness < MIN_SHARPNESS) {
+      flags.push({ image, issue: 'blurry' });
+    }
+    if (metrics.brightness < MIN_BRIGHTNESS) {
+      flags.push({ image, issue: 'too_dark' });
+    } else if (metrics.brightness > MAX_BRIGHTNESS) {
+      flags.push({ image, issue: 'too_bright' });
+    }
+    if (looksLikeScreenshot(metrics)) {
+      flags.push({ image, issue: 'screenshot' });
+    }
+    if (photos.slice(0, image).some((earlier) => hammingDistance(earlier.hash, metrics.hash) <= DUPLICATE_HASH_DISTANCE)) {
+      flags.push({ image, issue: 'duplicate' });
+    }
+  });
+
+  return flags;
+}
+
+/**
+ * Check a listing's photos, in display order. Runs after `validateImageFiles`
+ * has checked their type and size, and never blocks a listing on its own.
+ */
+export async function checkImageQuality(images: Buffer[]): Promise<ImageQualityReport> {
+  const measured = await Promise.all(
+    images.map(async (image) => {
+      try {
+        return await measureImage(image);
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  const unreadable = measured.flatMap((metrics, index) => (metrics ? [] : [index]));
+  const readable = measured.flatMap((metrics, index) => (metrics ? [{ metrics, index }] : []));
+
+  return {
+    flags: assessImageQuality(readable.map(({ metrics }) => metrics)).map((flag) => ({
+      ...flag,
+      image: readable[flag.image].index,
+    })),
+    unreadable,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Resized copies stored next to every uploaded image, by maximum width
+ */
+export const IMAGE_VARIANT_WIDTHS = {
+  thumbnail: 320,
+  medium: 800,
+  large: 1600,
+} as const;
+
+export type ImageVariantSize = keyof typeof IMAGE_VARIANT_WIDTHS;
+export type ImageVariantFormat = 'webp' | 'jpeg';
+
+export const IMAGE_VARIANT_SIZES = Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariantSize[];
+
+/**
+ * Smallest variant at least `width` pixels wide, or the largest one
+ */
+export function variantForWidth(width: number): ImageVariantSize {
+  return IMAGE_VARIANT_SIZES.find((size) => IMAGE_VARIANT_WIDTHS[size] >= width) || 'large';
+}
+
+/**
+ * Variant requested by an image URL's `?size=` or `?w=` parameter, if any
+ */
+export function requestedVariant(params: URLSearchParams): ImageVariantSize | null {
+  const size = params.get('size');
+  if (size && size in IMAGE_VARIANT_WIDTHS) {
+    return size as ImageVariantSize;
+  }
+  const width = Number(params.get('w'));
+  if (Number.isInteger(width) && width > 0) {
+    return variantForWidth(width);
+  }
+  return null;
+}
+
+/**
+ * URL of a variant of one of our stored images; other URLs are returned as-is
+ */
+export function imageVariantUrl(url: string, size: ImageVariantSize): string {
+  return /^\/api\/images\/[a-f0-9]{24}$/i.test(url) ? `${url}?size=${size}` : url;
+}
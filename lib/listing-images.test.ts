@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { applyImageOrder, checkImageOrder, moveImage, moveToCover } from './listing-images';
+import { ImageOrderEntry, imageOrderSchema } from './validation';
+
+const urlArb = fc.hexaString({ minLength: 24, maxLength: 24 }).map((id) => `/api/images/${id}`);
+
+// Current photos, plus an edit that keeps some of them and places some uploads
+const editArb = fc
+  .record({
+    current: fc.uniqueArray(urlArb, { minLength: 1, maxLength: 10 }),
+    uploadCount: fc.integer({ min: 0, max: 5 }),
+  })
+  .chain(({ current, uploadCount }) =>
+    fc
+      .subarray(current)
+      .chain((kept) => {
+        const entries: ImageOrderEntry[] = [
+          ...kept.map((url) => ({ existing: url })),
+          ...Array.from({ length: uploadCount }, (_, upload) => ({ upload })),
+        ];
+        return fc.shuffledSubarray(entries, { minLength: entries.length, maxLength: entries.length });
+      })
+      .map((order) => ({ current, uploadCount, order }))
+  );
+
+describe('Listing Image Order Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 59: Edited photo order is applied exactly
+   */
+  it('Property 59: Image order - valid edits keep, add and order photos as requested', () => {
+    fc.assert(
+      fc.property(editArb, ({ current, uploadCount, order }) => {
+        fc.pre(order.length > 0);
+        const uploadedUrls = Array.from({ length: uploadCount }, (_, i) => `/api/images/upload-${i}`);
+
+        expect(checkImageOrder(current, order, uploadCount)).toBeNull();
+
+        const images = applyImageOrder(order, uploadedUrls);
+        expect(images).toHaveLength(order.length);
+        order.forEach((entry, index) => {
+          expect(images[index]).toBe('existing' in entry ? entry.existing : uploadedUrls[entry.upload]);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 59: Image order - photos from other listings and unplaced uploads are rejected', () => {
+    fc.assert(
+      fc.property(editArb, urlArb, ({ current, uploadCount, order }, foreignUrl) => {
+        fc.pre(!current.includes(foreignUrl));
+
+        expect(checkImageOrder(current, [...order, { existing: foreignUrl }], uploadCount)).not.toBeNull();
+        expect(checkImageOrder(current, [...order, { upload: uploadCount }], uploadCount)).not.toBeNull();
+        expect(checkImageOrder(current, order, uploadCount + 1)).not.toBeNull();
+        if (order.length > 0) {
+          expect(checkImageOrder(current, [...order, order[0]], uploadCount)).not.toBeNull();
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 59: Image order - moving photos never loses or duplicates any', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(urlArb, { minLength: 1, maxLength: 10 }).chain((images) =>
+          fc.tuple(
+            fc.constant(images),
+            fc.nat({ max: images.length - 1 }),
+            fc.nat({ max: images.length - 1 })
+          )
+        ),
+        ([images, from, to]) => {
+          const moved = moveImage(images, from, to);
+          expect([...moved].sort()).toEqual([...images].sort());
+          expect(moved[to]).toBe(images[from]);
+
+          const covered = moveToCover(images, from);
+          expect(covered[0]).toBe(images[from]);
+          expect([...covered].sort()).toEqual([...images].sort());
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 59: Image order - more than 10 photos are rejected', () => {
+    const order = Array.from({ length: 11 }, (_, upload) => ({ upload }));
+
+    const result = imageOrderSchema.safeParse(order);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].message).toBe('Maximum 10 images allowed');
+  });
+});
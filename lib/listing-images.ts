@@ -0,0 +1,64 @@
+import type { ImageOrderEntry } from './validation';
+
+/**
+ * Check an edited photo order against the listing's current photos and the
+ * number of files uploaded with it
+ * @returns An error message, or null if the order can be applied
+ */
+export function checkImageOrder(current: string[], order: ImageOrderEntry[], uploadCount: number): string | null {
+  const kept = new Set<string>();
+  const used = new Set<number>();
+
+  for (const entry of order) {
+    if ('existing' in entry) {
+      if (!current.includes(entry.existing)) {
+        return 'Images can only be kept from this listing';
+      }
+      if (kept.has(entry.existing)) {
+        return 'Each image can only appear once';
+      }
+      kept.add(entry.existing);
+    } else {
+      if (entry.upload >= uploadCount) {
+        return 'Image order refers to a missing upload';
+      }
+      if (used.has(entry.upload)) {
+        return 'Each image can only appear once';
+      }
+      used.add(entry.upload);
+    }
+  }
+
+  // Uploads left out of the order would be stored but never shown
+  if (used.size !== uploadCount) {
+    return 'Every uploaded image must be placed in the image order';
+  }
+
+  return null;
+}
+
+/**
+ * Photo URLs in their new order, given the URLs the uploads were stored at.
+ * Storage can hand back the same URL for identical uploads, so repeats are dropped.
+ */
+export function applyImageOrder(order: ImageOrderEntry[], uploadedUrls: string[]): string[] {
+  const images = order.map((entry) => ('existing' in entry ? entry.existing : uploadedUrls[entry.upload]));
+  return images.filter((url, index) => images.indexOf(url) === index);
+}
+
+/**
+ * Move a photo to the front, where it becomes the cover
+ */
+export function moveToCover<T>(items: T[], index: number): T[] {
+  return [items[index], ...items.filter((_, i) => i !== index)];
+}
+
+/**
+ * Move a photo from one position to another
+ */
+export function moveImage<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  buildFacetPipeline,
+  buildListingQuery,
+  buildListingSort,
+  parseFacetResult,
+  parseFilterCriteria,
+  toTextSearch,
+  PRICE_BUCKETS,
+  YEAR_BUCKETS,
+} from './listing-search';
+
+const brandArbitrary = fc.constantFrom('Toyota', 'Honda', 'Maruti', 'Hyundai', 'Tata');
+const cityArbitrary = fc.constantFrom('Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Pune');
+
+describe('Listing Search Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 41: Search queries are literal and facets ignore their own filter
+   */
+  it('Property 41: Search - user input never reaches the query as operators', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), (q) => {
+        const criteria = parseFilterCriteria({ q });
+        const query = buildListingQuery(criteria);
+
+        expect(query.status).toBe('approved');
+        expect(JSON.stringify(query)).not.toContain('$regex');
+        if (query.$text) {
+          expect(query.$text.$search).not.toMatch(/["\\]/);
+          expect(query.$text.$search).not.toMatch(/(^|\s)-/);
+          expect(query.$text.$search.length).toBeLessThanOrEqual(100);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 41: Search - invalid numeric parameters are dropped', () => {
+    fc.assert(
+      fc.property(fc.string().filter(s => !/^\s*[-+]?\d/.test(s)), (value) => {
+        const criteria = parseFilterCriteria({ priceMin: value, yearMax: value });
+        expect(criteria.priceMin).toBeUndefined();
+        expect(criteria.yearMax).toBeUndefined();
+        expect(buildListingQuery(criteria).price).toBeUndefined();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 41: Search - each facet is counted without its own filter', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(brandArbitrary, { minLength: 1 }),
+        fc.uniqueArray(cityArbitrary, { minLength: 1 }),
+        (brands, cities) => {
+          const criteria = parseFilterCriteria({
+            brands: brands.join(','),
+            cities: cities.join(','),
+          });
+          const [, facetStage] = buildFacetPipeline(criteria) as any[];
+          const brandMatch = facetStage.$facet.brands[0].$match;
+          const cityMatch = facetStage.$facet.cities[0].$match;
+
+          expect(brandMatch.brand).toBeUndefined();
+          expect(brandMatch.city).toEqual({ $in: cities });
+          expect(cityMatch.city).toBeUndefined();
+          expect(cityMatch.brand).toEqual({ $in: brands });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 41: Search - text searches sort by relevance by default', () => {
+    expect(buildListingSort(undefined, true)).toHaveProperty('score');
+    expect(buildListingSort('relevance', false)).toEqual({ createdAt: -1 });
+    expect(buildListingSort('price_asc', true)).toEqual({ price: 1 });
+    expect(buildListingSort('price_drop', false)).toEqual({ priceDrop: -1, createdAt: -1 });
+  });
+
+  it('Property 41: Search - bucket counts cover every bucket in order', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(PRICE_BUCKETS).chain((buckets) =>
+          fc.tuple(fc.constant(buckets), fc.array(fc.nat(), { minLength: buckets.length, maxLength: buckets.length }))
+        ),
+        ([buckets, counts]) => {
+          const raw = { prices: buckets.map((bucket, i) => ({ _id: bucket.min, count: counts[i] })) };
+          const facets = parseFacetResult(raw);
+
+          expect(facets.prices.map(b => b.label)).toEqual(PRICE_BUCKETS.map(b => b.label));
+          expect(facets.years).toHaveLength(YEAR_BUCKETS.length);
+          facets.prices.forEach((bucket) => {
+            const index = buckets.findIndex(b => b.min === bucket.min);
+            expect(bucket.count).toBe(index >= 0 ? counts[index] : 0);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 41: Search - choosing a bucket filters to exactly the values it counts', () => {
+    for (const buckets of [PRICE_BUCKETS, YEAR_BUCKETS]) {
+      // $bucket counts from each min up to the next one
+      buckets.slice(1).forEach((bucket, i) => {
+        expect(buckets[i].max).toBe(bucket.min - 1);
+      });
+      expect(buckets[buckets.length - 1].max).toBeUndefined();
+    }
+    PRICE_BUCKETS.forEach(({ min, max }) => {
+      expect(buildListingQuery({ priceMin: min, priceMax: max }).price).toEqual(
+        max === undefined ? { $gte: min } : { $gte: min, $lte: max }
+      );
+    });
+  });
+
+  it('Property 41: Search - phrase and negation operators are stripped', () => {
+    expect(toTextSearch('"swift" -diesel')).toBe('swift diesel');
+    expect(toTextSearch('wagon-r')).toBe('wagon-r');
+  });
+});
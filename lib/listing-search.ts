@@ -0,0 +1,269 @@
+import type { PipelineStage } from 'mongoose';
+import { FilterCriteria } from './filters';
+
+export interface RangeBucket {
+  label: string;
+  min: number;
+  max?: number; // inclusive, like the priceMax and yearMax filters
+}
+
+export const PRICE_BUCKETS: RangeBucket[] = [
+  { label: 'Under ₹3 Lakh', min: 0, max: 299999 },
+  { label: '₹3 - 5 Lakh', min: 300000, max: 499999 },
+  { label: '₹5 - 10 Lakh', min: 500000, max: 999999 },
+  { label: '₹10 - 20 Lakh', min: 1000000, max: 1999999 },
+  { label: 'Above ₹20 Lakh', min: 2000000 },
+];
+
+export const YEAR_BUCKETS: RangeBucket[] = [
+  { label: 'Before 2010', min: 0, max: 2009 },
+  { label: '2010 - 2014', min: 2010, max: 2014 },
+  { label: '2015 - 2018', min: 2015, max: 2018 },
+  { label: '2019 & newer', min: 2019 },
+];
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface BucketCount extends RangeBucket {
+  count: number;
+}
+
+export interface ListingFacets {
+  brands: FacetCount[];
+  cities: FacetCount[];
+  fuelTypes: FacetCount[];
+  transmissions: FacetCount[];
+  years: BucketCount[];
+  prices: BucketCount[];
+}
+
+type FacetField = 'brands' | 'cities' | 'fuelTypes' | 'transmissions' | 'years' | 'prices';
+
+const MAX_QUERY_LENGTH = 100;
+
+function parseList(value?: string): string[] | undefined {
+  const items = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function parseNumber(value?: string): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse /buy-car query string parameters into filter criteria
+ * Invalid numbers and empty lists are dropped rather than producing bad queries
+ */
+export function parseFilterCriteria(params: Record<string, string | undefined>): FilterCriteria {
+  const searchQuery = params.q?.trim().slice(0, MAX_QUERY_LENGTH);
+
+  return {
+    searchQuery: searchQuery || undefined,
+    brands: parseList(params.brands),
+    cities: parseList(params.cities),
+    fuelTypes: parseList(params.fuel),
+    transmissions: parseList(params.transmission),
+    priceMin: parseNumber(params.priceMin),
+    priceMax: parseNumber(params.priceMax),
+    yearMin: parseNumber(params.yearMin),
+    yearMax: parseNumber(params.yearMax),
+  };
+}
+
+/**
+ * Serialize filter criteria back into /buy-car query string parameters
+ */
+export function toSearchParams(criteria: FilterCriteria): URLSearchParams {
+  const params = new URLSearchParams();
+  const setList = (key: string, values?: string[]) => {
+    if (values && values.length > 0) params.set(key, values.join(','));
+  };
+  const setNumber = (key: string, value?: number) => {
+    if (value !== undefined) params.set(key, value.toString());
+  };
+
+  if (criteria.searchQuery) params.set('q', criteria.searchQuery);
+  setList('brands', criteria.brands);
+  setList('cities', criteria.cities);
+  setList('fuel', criteria.fuelTypes);
+  setList('transmission', criteria.transmissions);
+  setNumber('priceMin', criteria.priceMin);
+  setNumber('priceMax', criteria.priceMax);
+  setNumber('yearMin', criteria.yearMin);
+  setNumber('yearMax', criteria.yearMax);
+  return params;
+}
+
+/**
+ * Turn free text into a literal $text search string
+ * Strips the phrase and negation operators so user input is always treated as plain terms
+ */
+export function toTextSearch(query: string): string {
+  return query
+    .replace(/["\\]/g, ' ')
+    .replace(/(^|\s)-+/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function rangeFilter(min?: number, max?: number): Record<string, number> | undefined {
+  if (min === undefined && max === undefined) return undefined;
+  const range: Record<string, number> = {};
+  if (min !== undefined) range.$gte = min;
+  if (max !== undefined) range.$lte = max;
+  return range;
+}
+
+/**
+ * Build the field filters for the criteria, optionally leaving out one facet
+ * Leaving out a facet's own filter keeps its other options countable while it is selected
+ */
+function buildFieldFilters(criteria: FilterCriteria, omit?: FacetField): Record<string, any> {
+  const filter: Record<string, any> = {};
+
+  if (criteria.brands && omit !== 'brands') filter.brand = { $in: criteria.brands };
+  if (criteria.cities && omit !== 'cities') filter.city = { $in: criteria.cities };
+  if (criteria.fuelTypes && omit !== 'fuelTypes') filter.fuelType = { $in: criteria.fuelTypes };
+  if (criteria.transmissions && omit !== 'transmissions') {
+    filter.transmission = { $in: criteria.transmissions };
+  }
+
+  const price = omit === 'prices' ? undefined : rangeFilter(criteria.priceMin, criteria.priceMax);
+  if (price) filter.price = price;
+
+  const year = omit === 'years' ? undefined : rangeFilter(criteria.yearMin, criteria.yearMax);
+  if (year) filter.yearOfOwnership = year;
+
+  return filter;
+}
+
+function buildBaseQuery(criteria: FilterCriteria): Record<string, any> {
+  const query: Record<string, any> = { status: 'approved' };
+  const text = criteria.searchQuery ? toTextSearch(criteria.searchQuery) : '';
+  if (text) {
+    query.$text = { $search: text };
+  }
+  return query;
+}
+
+export function hasTextSearch(criteria: FilterCriteria): boolean {
+  return !!criteria.searchQuery && toTextSearch(criteria.searchQuery).length > 0;
+}
+
+/**
+ * Build the MongoDB query for approved listings matching the criteria
+ */
+export function buildListingQuery(criteria: FilterCriteria): Record<string, any> {
+  return { ...buildBaseQuery(criteria), ...buildFieldFilters(criteria) };
+}
+
+/**
+ * Build the sort for a listing query
+ * Text searches default to relevance; relevance without a search falls back to newest
+ */
+export function buildListingSort(sort: string | undefined, textSearch: boolean): Record<string, any> {
+  switch (sort) {
+    case 'price_asc':
+      return { price: 1 };
+    case 'price_desc':
+      return { price: -1 };
+    case 'year_desc':
+      return { yearOfOwnership: -1 };
+    case 'km_asc':
+      return { kmDriven: 1 };
+    case 'price_drop':
+      return { priceDrop: -1, createdAt: -1 };
+    case 'newest':
+      return { createdAt: -1 };
+    default:
+      return textSearch ? { score: { $meta: 'textScore' }, createdAt: -1 } : { createdAt: -1 };
+  }
+}
+
+function boundaries(buckets: RangeBucket[]): number[] {
+  return [...buckets.map((bucket) => bucket.min), Number.MAX_SAFE_INTEGER];
+}
+
+function countBy(field: string, criteria: FilterCriteria, omit: FacetField): PipelineStage.FacetPipelineStage[] {
+  return [
+    { $match: buildFieldFilters(criteria, omit) },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+  ];
+}
+
+function bucketBy(
+  field: string,
+  buckets: RangeBucket[],
+  criteria: FilterCriteria,
+  omit: FacetField
+): PipelineStage.FacetPipelineStage[] {
+  return [
+    { $match: buildFieldFilters(criteria, omit) },
+    {
+      $bucket: {
+        groupBy: `$${field}`,
+        boundaries: boundaries(buckets),
+        default: 'other',
+        output: { count: { $sum: 1 } },
+      },
+    },
+  ];
+}
+
+/**
+ * Build an aggregation returning live facet counts for the current search
+ * Each facet is counted with every filter applied except its own
+ */
+export function buildFacetPipeline(criteria: FilterCriteria): PipelineStage[] {
+  return [
+    { $match: buildBaseQuery(criteria) },
+    {
+      $facet: {
+        brands: countBy('brand', criteria, 'brands'),
+        cities: countBy('city', criteria, 'cities'),
+        fuelTypes: countBy('fuelType', criteria, 'fuelTypes'),
+        transmissions: countBy('transmission', criteria, 'transmissions'),
+        years: bucketBy('yearOfOwnership', YEAR_BUCKETS, criteria, 'years'),
+        prices: bucketBy('price', PRICE_BUCKETS, criteria, 'prices'),
+      },
+    },
+  ];
+}
+
+function toFacetCounts(rows: any[] = []): FacetCount[] {
+  return rows
+    .filter((row) => typeof row._id === 'string' && row._id.length > 0)
+    .map((row) => ({ value: row._id, count: row.count }));
+}
+
+function toBucketCounts(buckets: RangeBucket[], rows: any[] = []): BucketCount[] {
+  return buckets.map((bucket) => ({
+    ...bucket,
+    count: rows.find((row) => row._id === bucket.min)?.count || 0,
+  }));
+}
+
+/**
+ * Convert the raw $facet output into facet counts for the filter panel
+ */
+export function parseFacetResult(raw: any): ListingFacets {
+  return {
+    brands: toFacetCounts(raw?.brands),
+    cities: toFacetCounts(raw?.cities),
+    fuelTypes: toFacetCounts(raw?.fuelTypes),
+    transmissions: toFacetCounts(raw?.transmissions),
+    years: toBucketCounts(YEAR_BUCKETS, raw?.years),
+    prices: toBucketCounts(PRICE_BUCKETS, raw?.prices),
+  };
+}
+
+export const EMPTY_FACETS: ListingFacets = parseFacetResult({});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  LISTING_STATUSES,
+  LISTING_STATUS_TRANSITIONS,
+  canTransition,
+  assertTransition,
+  getAllowedTransitions,
+  InvalidStatusTransitionError,
+  INVALID_STATUS_TRANSITION,
+} from './listing-status';
+
+const statusArbitrary = fc.constantFrom(...LISTING_STATUSES);
+
+describe('Listing Status Transition Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 38: Listing status transitions follow the transition table
+   */
+  it('Property 38: Status transitions - canTransition agrees with the transition table', () => {
+    fc.assert(
+      fc.property(statusArbitrary, statusArbitrary, (from, to) => {
+        expect(canTransition(from, to)).toBe(LISTING_STATUS_TRANSITIONS[from].includes(to));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 38: Status transitions - invalid transitions throw a typed error', () => {
+    fc.assert(
+      fc.property(statusArbitrary, statusArbitrary, (from, to) => {
+        fc.pre(!canTransition(from, to));
+
+        try {
+          assertTransition(from, to);
+          expect.unreachable();
+        } catch (error) {
+          expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+          expect((error as InvalidStatusTransitionError).code).toBe(INVALID_STATUS_TRANSITION);
+          expect((error as InvalidStatusTransitionError).from).toBe(from);
+          expect((error as InvalidStatusTransitionError).to).toBe(to);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 38: Status transitions - unknown statuses are never allowed', () => {
+    fc.assert(
+      fc.property(
+        fc.string().filter(s => !(LISTING_STATUSES as readonly string[]).includes(s)),
+        statusArbitrary,
+        (unknown, status) => {
+          expect(canTransition(unknown, status)).toBe(false);
+          expect(canTransition(status, unknown)).toBe(false);
+          expect(getAllowedTransitions(unknown)).toEqual([]);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 38: Status transitions - only live listings can be sold and sold is terminal', () => {
+    LISTING_STATUSES.forEach((from) => {
+      expect(canTransition(from, 'sold')).toBe(from === 'approved' || from === 'paused');
+    });
+    expect(getAllowedTransitions('sold')).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Listing status state machine
+ * Single source of truth for which status changes are allowed
+ */
+
+export const LISTING_STATUSES = ['pending', 'approved', 'rejected', 'sold', 'expired', 'paused'] as const;
+
+export type ListingStatus = (typeof LISTING_STATUSES)[number];
+
+// Sellers, the staff role that made the change, or an automated job
+export const STATUS_ACTOR_ROLES = ['seller', 'moderator', 'admin', 'superadmin', 'system'] as const;
+
+export type StatusActorRole = (typeof STATUS_ACTOR_ROLES)[number];
+
+export interface StatusHistoryEntry {
+  from: ListingStatus | null;
+  to: ListingStatus;
+  actor: string;
+  actorRole: StatusActorRole;
+  reason?: string;
+  timestamp: Date;
+}
+
+/**
+ * Allowed transitions from each status
+ * - pending: awaiting moderation
+ * - rejected: can be resubmitted for moderation
+ * - approved/paused: live (or temporarily hidden) listings
+ * - expired: can be relisted through moderation
+ * - sold: terminal
+ */
+export const LISTING_STATUS_TRANSITIONS: Record<ListingStatus, readonly ListingStatus[]> = {
+  pending: ['approved', 'rejected'],
+  approved: ['sold', 'expired', 'paused', 'rejected'],
+  rejected: ['pending'],
+  paused: ['approved', 'sold', 'expired'],
+  expired: ['pending'],
+  sold: [],
+};
+
+export const INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION';
+
+/**
+ * Error raised when a listing is moved to a status its current status does not allow
+ */
+export class InvalidStatusTransitionError extends Error {
+  readonly code = INVALID_STATUS_TRANSITION;
+  readonly from: string;
+  readonly to: string;
+
+  constructor(from: string, to: string) {
+    super(`Cannot change listing status from ${from} to ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function isListingStatus(value: unknown): value is ListingStatus {
+  return typeof value === 'string' && (LISTING_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Get the statuses a listing can move to from its current status
+ */
+export function getAllowedTransitions(from: string): readonly ListingStatus[] {
+  return isListingStatus(from) ? LISTING_STATUS_TRANSITIONS[from] : [];
+}
+
+/**
+ * Check whether a status change is allowed
+ */
+export function canTransition(from: string, to: string): boolean {
+  return isListingStatus(to) && getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Throw if a status change is not allowed
+ */
+export function assertTransition(from: string, to: string): asserts to is ListingStatus {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+}
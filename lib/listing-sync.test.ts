@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import * as cheerio from 'cheerio';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+// Mock mongodb connection
+vi.mock('./mongodb', () => ({
+  default: vi.fn(async () => ({})),
+}));
+
+// Mock models
+vi.mock('./models/Listing', () => ({
+  default: {
+    find: vi.fn(),
+    updateOne: vi.fn(),
+  },
+}));
+
+vi.mock('./models/AdminLog', () => ({
+  default: {
+    create: vi.fn(),
+  },
+}));
+
+vi.mock('./listing-workflow', () => ({
+  transitionListing: vi.fn(),
+}));
+
+vi.mock('./scraped-images', () => ({
+  copyScrapedImages: vi.fn(async (urls: string[]) => ({
+    images: urls.map((url, index) => ({ url: `/api/images/${index}`, buffer: Buffer.alloc(0), sourceUrl: url })),
+    errors: [],
+  })),
+}));
+
+import Listing from './models/Listing';
+import AdminLog from './models/AdminLog';
+import { transitionListing } from './listing-workflow';
+import { planListingSync, SourceCheck, syncScrapedListing } from './listing-sync';
+import { carDekhoAdapter } from './scrapers/cardekho';
+import { carWaleAdapter } from './scrapers/carwale';
+import { cars24Adapter } from './scrapers/cars24';
+import { olxAdapter } from './scrapers/olx';
+import { genericAdapter } from './scrapers/generic';
+
+const scraped = {
+  images: ['https://stimg.cardekho.com/swift-front.jpg'],
+  carName: 'Maruti Swift VXI',
+  model: 'Swift VXI',
+  price: 550000,
+  ownerName: 'Seller',
+  yearOfPurchase: 2019,
+  kmDriven: 35000,
+  numberOfOwners: 1,
+  city: 'Delhi',
+};
+
+const listing = {
+  _id: 'listing-1',
+  price: 550000,
+  priceHistory: [{ price: 550000, changedAt: new Date('2026-01-01') }],
+  images: ['https://stimg.cardekho.com/swift-front.jpg'],
+  status: 'approved',
+  source: 'scraped',
+  sourceUrl: 'https://www.cardekho.com/used-car-details/used-maruti-swift-vxi-2019-cars-delhi_4a1b2c3d.htm',
+  sourceSite: 'CarDekho',
+} as any;
+
+const fetcherFor = (status: number, body = '') => vi.fn(async () => new Response(body, { status }));
+
+describe('Listing Sync Property Tests', () => {
+  const listingArb = fc.record({
+    price: fc.integer({ min: 10000, max: 10000000 }),
+    images: fc.array(fc.webUrl(), { minLength: 1, maxLength: 10 }),
+    status: fc.constantFrom('approved' as const, 'paused' as const),
+  });
+
+  /**
+   * Feature: drivesphere-marketplace, Property 51: Source sync only changes what the source changed
+   */
+  it('Property 51: Source sync - an unchanged source produces no changes', () => {
+    fc.assert(
+      fc.property(listingArb, (current) => {
+        const check: SourceCheck = { kind: 'found', data: { ...scraped, price: current.price, images: current.images } };
+        expect(planListingSync(current, check)).toEqual([]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 51: Source sync - price and image changes are picked up', () => {
+    fc.assert(
+      fc.property(listingArb, fc.integer({ min: 10000, max: 10000000 }), fc.webUrl(), (current, price, extraImage) => {
+        const images = [extraImage, ...current.images].slice(0, 10);
+        const check: SourceCheck = { kind: 'found', data: { ...scraped, price, images } };
+        const changes = planListingSync(current, check);
+
+        expect(changes.some((change) => change.field === 'price')).toBe(price !== current.price);
+        expect(changes).toContainEqual({ field: 'images', from: current.images, to: images });
+        expect(changes.some((change) => change.field === 'status')).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 51: Source sync - sold and missing sources end the listing', () => {
+    fc.assert(
+      fc.property(listingArb, fc.constantFrom(404, 410), (current, status) => {
+        expect(planListingSync(current, { kind: 'sold' })).toEqual([
+          expect.objectContaining({ field: 'status', from: current.status, to: 'sold' }),
+        ]);
+        expect(planListingSync(current, { kind: 'gone', status })).toEqual([
+          expect.objectContaining({ field: 'status', from: current.status, to: 'expired' }),
+        ]);
+        expect(planListingSync(current, { kind: 'error', error: 'Failed to fetch URL: 503' })).toEqual([]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 51: Source sync - an unclear sold signal is flagged for review once, never sold', () => {
+    fc.assert(
+      fc.property(listingArb, (current) => {
+        expect(planListingSync(current, { kind: 'unclear' })).toEqual([
+          { field: 'review', reason: expect.any(String) },
+        ]);
+        const flagged = { ...current, sourceReview: { reason: 'Flagged before', flaggedAt: new Date('2026-01-01') } };
+        expect(planListingSync(flagged, { kind: 'unclear' })).toEqual([]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Listing Sync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not mistake live fixture pages for sold ones', () => {
+    const adapters = { cardekho: carDekhoAdapter, carwale: carWaleAdapter, cars24: cars24Adapter, olx: olxAdapter, generic: genericAdapter };
+    for (const [site, adapter] of Object.entries(adapters)) {
+      const html = readFileSync(path.join(__dirname, 'scrapers', 'fixtures', site, 'detail.html'), 'utf8');
+      expect(adapter.isSold(cheerio.load(html)), site).toBe('available');
+    }
+  });
+
+  it('only trusts sold markers inside the listing\'s own detail block', () => {
+    const soldBadge = '<div class="vehicleDetail"><h1>Maruti Swift VXI</h1><span class="badge">This car has been sold</span></div>';
+    expect(carDekhoAdapter.isSold(cheerio.load(soldBadge))).toBe('sold');
+
+    const soldCarousel =
+      '<div class="vehicleDetail"><h1>Maruti Swift VXI</h1></div>' +
+      '<section><h2>Recently sold cars</h2><div class="car-card"><span class="badge-sold">Sold</span></div></section>';
+    expect(carDekhoAdapter.isSold(cheerio.load(soldCarousel))).toBe('available');
+
+    const noDetailBlock = '<h1>Maruti Swift VXI</h1><div class="car-card"><span class="sold-out">Sold out</span></div>';
+    expect(carDekhoAdapter.isSold(cheerio.load(noDetailBlock))).toBe('unclear');
+  });
+
+  it('flags a listing for review instead of selling it when the source is unclear', async () => {
+    const now = new Date('2026-03-01');
+    const html = '<html><head><title>Sold - Maruti Swift VXI</title></head><body><div class="vehicleDetail"><h1>Maruti Swift VXI</h1></div></body></html>';
+    const result = await syncScrapedListing(listing, fetcherFor(200, html), now);
+
+    expect(result.check.kind).toBe('unclear');
+    expect(transitionListing).not.toHaveBeenCalled();
+    expect(Listing.updateOne).toHaveBeenCalledWith(
+      { _id: 'listing-1' },
+      { $set: { lastSyncedAt: now, sourceReview: { reason: expect.any(String), flaggedAt: now } } }
+    );
+    expect(AdminLog.create).toHaveBeenCalled();
+  });
+
+  it('expires a listing whose source is gone and logs the change', async () => {
+    const now = new Date('2026-03-01');
+    const result = await syncScrapedListing(listing, fetcherFor(404), now);
+
+    expect(result.changes).toEqual([expect.objectContaining({ field: 'status', to: 'expired' })]);
+    expect(transitionListing).toHaveBeenCalledWith(
+      listing,
+      'expired',
+      { actor: 'source-sync', actorRole: 'system', reason: 'Source listing returned 404' },
+      { $set: { lastSyncedAt: now } }
+    );
+    expect(AdminLog.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'sync_scraped_listing',
+        targetId: 'listing-1',
+        details: expect.objectContaining({ changes: result.changes }),
+      })
+    );
+  });
+
+  it('records a new price in the price history', async () => {
+    const now = new Date('2026-03-01');
+    const html = readFileSync(path.join(__dirname, 'scrapers', 'fixtures', 'cardekho', 'detail.html'), 'utf8');
+    const result = await syncScrapedListing({ ...listing, price: 600000 }, fetcherFor(200, html), now);
+
+    const priceChange = result.changes.find((change) => change.field === 'price');
+    expect(priceChange).toMatchObject({ from: 600000 });
+    expect(Listing.updateOne).toHaveBeenCalledWith(
+      { _id: 'listing-1' },
+      expect.objectContaining({
+        $set: expect.objectContaining({ lastSyncedAt: now, price: (priceChange as any).to }),
+        $push: { priceHistory: { price: (priceChange as any).to, changedAt: now } },
+      })
+    );
+    expect(transitionListing).not.toHaveBeenCalled();
+  });
+
+  it('stores copies of new source images and remembers their source URLs', async () => {
+    const now = new Date('2026-03-01');
+    const html = readFileSync(path.join(__dirname, 'scrapers', 'fixtures', 'cardekho', 'detail.html'), 'utf8');
+    const result = await syncScrapedListing(listing, fetcherFor(200, html), now);
+
+    const imageChange = result.changes.find((change) => change.field === 'images') as any;
+    expect(imageChange.from).toEqual(listing.images);
+    expect(Listing.updateOne).toHaveBeenCalledWith(
+      { _id: 'listing-1' },
+      expect.objectContaining({
+        $set: expect.objectContaining({
+          images: imageChange.to.map((_: string, index: number) => `/api/images/${index}`),
+          sourceImages: imageChange.to,
+        }),
+      })
+    );
+
+    vi.mocked(Listing.updateOne).mockClear();
+    await syncScrapedListing(
+      { ...listing, images: ['/api/images/0'], sourceImages: imageChange.to },
+      fetcherFor(200, html),
+      now
+    );
+    expect((vi.mocked(Listing.updateOne).mock.calls[0] as any[])[1]).not.toHaveProperty('$set.images');
+  });
+
+  it('only stamps the sync time when the source cannot be read', async () => {
+    const now = new Date('2026-03-01');
+    const result = await syncScrapedListing(listing, fetcherFor(503), now);
+
+    expect(result.check.kind).toBe('error');
+    expect(Listing.updateOne).toHaveBeenCalledWith({ _id: 'listing-1' }, { $set: { lastSyncedAt: now } });
+    expect(AdminLog.create).not.toHaveBeenCalled();
+  });
+});
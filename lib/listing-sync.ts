@@ -0,0 +1,248 @@
+import * as cheerio from 'cheerio';
+import connectDB from './mongodb';
+import Listing, { IListing } from './models/Listing';
+import AdminLog from './models/AdminLog';
+import { ListingStatus } from './listing-status';
+import { StatusActor, transitionListing } from './listing-workflow';
+import { buildPriceChange } from './price-history';
+import { copyScrapedImages } from './scraped-images';
+import { Fetcher, getSiteAdapter, ScrapedCarData } from './scrapers';
+import { createHostLimiter } from './scrapers/host-limiter';
+
+/**
+ * What the source site says about a listing right now
+ */
+export type SourceCheck =
+  | { kind: 'found'; data: ScrapedCarData }
+  | { kind: 'sold' }
+  | { kind: 'unclear' }
+  | { kind: 'gone'; status: number }
+  | { kind: 'error'; error: string };
+
+export type SyncChange =
+  | { field: 'price'; from: number; to: number }
+  | { field: 'images'; from: string[]; to: string[] }
+  | { field: 'status'; from: ListingStatus; to: 'sold' | 'expired'; reason: string }
+  | { field: 'review'; reason: string };
+
+export interface ListingSyncResult {
+  checked: number;
+  updated: number;
+  sold: number;
+  expired: number;
+  flagged: number;
+  failed: number;
+}
+
+type SyncableListing = Pick<IListing, 'price' | 'images' | 'sourceImages' | 'status' | 'sourceReview'>;
+
+// Listings are re-checked at most this often
+const SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Keeps one cron run well inside a request timeout
+const SYNC_BATCH_SIZE = 25;
+
+// Statuses that are still on sale and worth re-checking
+const SYNCABLE_STATUSES: ListingStatus[] = ['approved', 'paused'];
+
+// Be gentle with source sites: one request at a time per host, a second apart
+const SYNC_CONCURRENCY = 1;
+const SYNC_DELAY_MS = 1000;
+
+const SYNC_ACTOR: StatusActor = { actor: 'source-sync', actorRole: 'system' };
+
+/**
+ * Re-fetch a listing's source page
+ */
+export async function checkSource(url: string, fetcher: Fetcher = fetch): Promise<SourceCheck> {
+  let response: Response;
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 15000);
+    response = await fetcher(url, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+      },
+    });
+    clearTimeout(timeoutId);
+  } catch (error) {
+    return { kind: 'error', error: error instanceof Error ? error.message : 'Failed to fetch the URL' };
+  }
+
+  if (response.status === 404 || response.status === 410) {
+    return { kind: 'gone', status: response.status };
+  }
+  if (!response.ok) {
+    return { kind: 'error', error: `Failed to fetch URL: ${response.status} ${response.statusText}` };
+  }
+
+  const $ = cheerio.load(await response.text());
+  const adapter = getSiteAdapter(url);
+  const sold = adapter.isSold($);
+  if (sold !== 'available') {
+    return { kind: sold };
+  }
+
+  const data = adapter.extractDetail($, url);
+  if (!data) {
+    return { kind: 'error', error: 'Could not read the listing from the source page' };
+  }
+  return { kind: 'found', data };
+}
+
+/**
+ * Work out what should change on a listing given its source check.
+ * Only the price and images are taken from the source; other fields may
+ * have been corrected by staff since import.
+ */
+export function planListingSync(listing: SyncableListing, check: SourceCheck): SyncChange[] {
+  switch (check.kind) {
+    case 'sold':
+      return [{ field: 'status', from: listing.status, to: 'sold', reason: 'Marked sold on the source site' }];
+    case 'unclear':
+      // Sold is final, so a doubtful page goes to staff instead; flagged once
+      return listing.sourceReview
+        ? []
+        : [{ field: 'review', reason: 'The source page may show this car as sold' }];
+    case 'gone':
+      return [{ field: 'status', from: listing.status, to: 'expired', reason: `Source listing returned ${check.status}` }];
+    case 'error':
+      return [];
+    case 'found': {
+      const changes: SyncChange[] = [];
+      if (check.data.price > 0 && check.data.price !== listing.price) {
+        changes.push({ field: 'price', from: listing.price, to: check.data.price });
+      }
+      // Compared by source URL; listings imported before images were copied only have `images`
+      const current = listing.sourceImages || listing.images;
+      const images = check.data.images.slice(0, 10);
+      const sameImages =
+        images.length === current.length && images.every((image, index) => image === current[index]);
+      if (images.length > 0 && !sameImages) {
+        changes.push({ field: 'images', from: current, to: images });
+      }
+      return changes;
+    }
+  }
+}
+
+/**
+ * Check one scraped listing against its source and apply any changes
+ */
+export async function syncScrapedListing(
+  listing: IListing,
+  fetcher: Fetcher = fetch,
+  now: Date = new Date()
+): Promise<{ check: SourceCheck; changes: SyncChange[] }> {
+  const check = await checkSource(listing.sourceUrl!, fetcher);
+  const changes = planListingSync(listing, check);
+
+  const $set: Record<string, any> = { lastSyncedAt: now };
+  let $push: Record<string, any> | undefined;
+  // A page that reads clearly again settles an earlier review flag
+  const $unset = check.kind === 'found' && listing.sourceReview ? { sourceReview: 1 } : undefined;
+  let statusChange: Extract<SyncChange, { field: 'status' }> | undefined;
+
+  for (const change of changes) {
+    if (change.field === 'price') {
+      const priceUpdate = buildPriceChange(listing, change.to, now);
+      if (priceUpdate) {
+        Object.assign($set, priceUpdate.$set);
+        $push = priceUpdate.$push;
+      }
+    } else if (change.field === 'images') {
+      const copied = await copyScrapedImages(
+        change.to,
+        { sourcePage: listing.sourceUrl, sourceSite: listing.sourceSite },
+        fetcher
+      );
+      // Keep the current photos if none of the new ones could be copied
+      if (copied.images.length > 0) {
+        $set.images = copied.images.map((image) => image.url);
+        $set.sourceImages = change.to;
+      }
+    } else if (change.field === 'review') {
+      $set.sourceReview = { reason: change.reason, flaggedAt: now };
+    } else {
+      statusChange = change;
+    }
+  }
+
+  if (statusChange) {
+    await transitionListing(listing, statusChange.to, { ...SYNC_ACTOR, reason: statusChange.reason }, { $set });
+  } else {
+    await Listing.updateOne({ _id: listing._id }, { $set, ...($push && { $push }), ...($unset && { $unset }) });
+  }
+
+  if (changes.length > 0) {
+    await AdminLog.create({
+      action: 'sync_scraped_listing',
+      targetId: listing._id,
+      targetType: 'listing',
+      details: {
+        sourceUrl: listing.sourceUrl,
+        sourceSite: listing.sourceSite,
+        changes,
+        adminEmail: SYNC_ACTOR.actor,
+      },
+    });
+  }
+
+  return { check, changes };
+}
+
+/**
+ * Re-check scraped listings that have not been synced for a day, oldest first
+ */
+export async function runListingSync(
+  fetcher: Fetcher = fetch,
+  now: Date = new Date()
+): Promise<ListingSyncResult> {
+  await connectDB();
+
+  const listings = await Listing.find({
+    source: 'scraped',
+    sourceUrl: { $exists: true, $ne: '' },
+    status: { $in: SYNCABLE_STATUSES },
+    $or: [
+      { lastSyncedAt: { $exists: false } },
+      { lastSyncedAt: { $lt: new Date(now.getTime() - SYNC_INTERVAL_MS) } },
+    ],
+  })
+    .sort({ lastSyncedAt: 1 })
+    .limit(SYNC_BATCH_SIZE);
+
+  const limiter = createHostLimiter({ concurrency: SYNC_CONCURRENCY, delayMs: SYNC_DELAY_MS });
+  const result: ListingSyncResult = { checked: 0, updated: 0, sold: 0, expired: 0, flagged: 0, failed: 0 };
+
+  await Promise.all(
+    listings.map((listing) =>
+      limiter.run(listing.sourceUrl!, async () => {
+        result.checked++;
+        try {
+          const { check, changes } = await syncScrapedListing(listing, fetcher, now);
+
+          if (check.kind === 'error') {
+            result.failed++;
+            console.error(`Error syncing listing ${listing._id} from ${listing.sourceUrl}: ${check.error}`);
+          } else if (check.kind === 'sold') {
+            result.sold++;
+          } else if (check.kind === 'gone') {
+            result.expired++;
+          } else if (check.kind === 'unclear') {
+            if (changes.length > 0) result.flagged++;
+          } else if (changes.length > 0) {
+            result.updated++;
+          }
+        } catch (error) {
+          result.failed++;
+          console.error(`Error syncing listing ${listing._id}:`, error);
+        }
+      })
+    )
+  );
+
+  return result;
+}
@@ -0,0 +1,83 @@
+import Listing, { IListing } from './models/Listing';
+import {
+  assertTransition,
+  InvalidStatusTransitionError,
+  ListingStatus,
+  StatusActorRole,
+  StatusHistoryEntry,
+} from './listing-status';
+
+export interface StatusActor {
+  actor: string;
+  actorRole: StatusActorRole;
+  reason?: string;
+}
+
+/**
+ * Move a listing to a new status and record the change in its status history
+ * @param listing Listing as currently loaded from the database
+ * @param to Target status
+ * @param actor Who made the change and why
+ * @param extraUpdate Additional $set/$inc/$push operations applied in the same write
+ * @returns The updated listing
+ * @throws InvalidStatusTransitionError if the transition is not allowed,
+ *         or if the listing changed status since it was loaded
+ */
+export async function transitionListing(
+  listing: IListing,
+  to: ListingStatus,
+  actor: StatusActor,
+  extraUpdate: {
+    $set?: Record<string, any>;
+    $inc?: Record<string, number>;
+    $push?: Record<string, any>;
+  } = {}
+): Promise<IListing> {
+  const from = listing.status;
+  assertTransition(from, to);
+
+  const entry: StatusHistoryEntry = {
+    from,
+    to,
+    actor: actor.actor,
+    actorRole: actor.actorRole,
+    reason: actor.reason,
+    timestamp: new Date(),
+  };
+
+  // Match on the current status so concurrent changes cannot skip the table
+  const updated = await Listing.findOneAndUpdate(
+    { _id: listing._id, status: from },
+    {
+      ...extraUpdate,
+      $set: { ...extraUpdate.$set, status: to },
+      $push: { ...extraUpdate.$push, statusHistory: entry },
+    },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+
+  return updated;
+}
+
+/**
+ * Build the first status history entry for a newly created listing
+ */
+export function initialStatusHistory(
+  status: ListingStatus,
+  actor: StatusActor
+): StatusHistoryEntry[] {
+  return [
+    {
+      from: null,
+      to: status,
+      actor: actor.actor,
+      actorRole: actor.actorRole,
+      reason: actor.reason,
+      timestamp: new Date(),
+    },
+  ];
+}
@@ -1,7 +1,18 @@
 import mongoose, { Schema, Document, Model, Types } from 'mongoose';
 
 export interface IAdminLog extends Document {
-  action: 'approve_listing' | 'reject_listing' | 'ban_user' | 'import_scraped';
+  action:
+    | 'approve_listing'
+    | 'reject_listing'
+    | 'ban_user'
+    | 'unban_user'
+    | 'import_scraped'
+    | 'delete_listing'
+    | 'update_listing_status'
+    | 'update_user_role'
+    | 'sync_scraped_listing'
+    | 'merge_duplicate'
+    | 'dismiss_duplicate';
   targetId: Types.ObjectId;
   targetType: 'listing' | 'user';
   details: Record<string, any>;
@@ -12,7 +23,19 @@ const AdminLogSchema = new Schema<IAdminLog>(
   {
     action: {
       type: String,
-      enum: ['approve_listing', 'reject_listing', 'ban_user', 'import_scraped'],
+      enum: [
+        'approve_listing',
+        'reject_listing',
+        'ban_user',
+        'unban_user',
+        'import_scraped',
+        'delete_listing',
+        'update_listing_status',
+        'update_user_role',
+        'sync_scraped_listing',
+        'merge_duplicate',
+        'dismiss_duplicate',
+      ],
       required: true,
     },
     targetId: {
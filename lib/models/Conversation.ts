@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export interface IConversation extends Document {
+  listingId: Types.ObjectId;
+  buyerId: Types.ObjectId;
+  sellerId: Types.ObjectId;
+  contactRevealed: boolean;
+  lastMessageAt: Date;
+  lastMessagePreview: string;
+  buyerUnreadCount: number;
+  sellerUnreadCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ConversationSchema = new Schema<IConversation>(
+  {
+    listingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Listing',
+      required: true,
+    },
+    buyerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    sellerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    contactRevealed: {
+      type: Boolean,
+      default: false,
+    },
+    lastMessageAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastMessagePreview: {
+      type: String,
+      default: '',
+    },
+    buyerUnreadCount: {
+      type: Number,
+      default: 0,
+    },
+    sellerUnreadCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One thread per buyer per listing
+ConversationSchema.index({ listingId: 1, buyerId: 1 }, { unique: true });
+// Index for inbox ordering
+ConversationSchema.index({ lastMessageAt: -1 });
+
+const Conversation: Model<IConversation> = (mongoose.models && mongoose.models.Conversation) || mongoose.model<IConversation>('Conversation', ConversationSchema);
+
+export default Conversation;
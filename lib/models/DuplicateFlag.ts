@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export type DuplicateFlagStatus = 'open' | 'merged' | 'dismissed';
+
+export interface IDuplicateFlag extends Document {
+  listingId: Types.ObjectId;
+  duplicateOfId: Types.ObjectId;
+  score: number;
+  breakdown: Record<string, number>;
+  status: DuplicateFlagStatus;
+  keptListingId?: Types.ObjectId;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DuplicateFlagSchema = new Schema<IDuplicateFlag>(
+  {
+    // The newer listing, flagged when it was imported
+    listingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Listing',
+      required: true,
+    },
+    // The existing listing it looks like
+    duplicateOfId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Listing',
+      required: true,
+    },
+    score: {
+      type: Number,
+      required: true,
+    },
+    breakdown: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ['open', 'merged', 'dismissed'],
+      default: 'open',
+      index: true,
+    },
+    keptListingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Listing',
+    },
+    resolvedBy: String,
+    resolvedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One flag per pair, so re-imports do not pile up in the review queue
+DuplicateFlagSchema.index({ listingId: 1, duplicateOfId: 1 }, { unique: true });
+
+const DuplicateFlag: Model<IDuplicateFlag> = (mongoose.models && mongoose.models.DuplicateFlag) || mongoose.model<IDuplicateFlag>('DuplicateFlag', DuplicateFlagSchema);
+
+export default DuplicateFlag;
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export interface IFavourite extends Document {
+  listingId: Types.ObjectId;
+  userId: Types.ObjectId;
+  priceWhenSaved: number;
+  createdAt: Date;
+}
+
+const FavouriteSchema = new Schema<IFavourite>(
+  {
+    listingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Listing',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    priceWhenSaved: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Compound unique index to prevent duplicate favourites
+FavouriteSchema.index({ userId: 1, listingId: 1 }, { unique: true });
+// Index for the saved cars list
+FavouriteSchema.index({ userId: 1, createdAt: -1 });
+
+const Favourite: Model<IFavourite> = (mongoose.models && mongoose.models.Favourite) || mongoose.model<IFavourite>('Favourite', FavouriteSchema);
+
+export default Favourite;
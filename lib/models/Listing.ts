@@ -1,4 +1,28 @@
 import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { LISTING_STATUSES, ListingStatus, STATUS_ACTOR_ROLES, StatusHistoryEntry } from '../listing-status';
+import { REJECTION_REASON_CODES, RejectionReasonCode } from '../rejection-reasons';
+import { PriceHistoryEntry } from '../price-history';
+import { IMAGE_QUALITY_ISSUE_CODES, ImageQualityFlag } from '../image-quality-issues';
+import type { RegistrationVerificationStatus } from '../registration-verifier';
+
+export interface ListingRejection {
+  reasons: RejectionReasonCode[];
+  note?: string;
+  rejectedAt: Date;
+  rejectedBy: string;
+}
+
+export interface ListingRegistration {
+  number: string;
+  status: RegistrationVerificationStatus;
+  provider: string;
+  verifiedAt: Date;
+}
+
+export interface ListingSourceReview {
+  reason: string;
+  flaggedAt: Date;
+}
 
 export interface IListing extends Document {
   sellerId: Types.ObjectId;
@@ -14,14 +38,159 @@ export interface IListing extends Document {
   state: string;
   description: string;
   price: number;
+  priceHistory: PriceHistoryEntry[];
+  priceDrop: number;
   images: string[];
-  status: 'pending' | 'approved' | 'rejected' | 'sold';
+  imageHashes: string[];
+  imageQualityFlags: ImageQualityFlag[];
+  status: ListingStatus;
+  statusHistory: StatusHistoryEntry[];
+  rejection?: ListingRejection;
+  registration?: ListingRegistration;
+  resubmissionCount: number;
   interestCount: number;
   source: 'user' | 'scraped';
+  sourceUrl?: string;
+  sourceSite?: string;
+  sourceImages?: string[];
+  sourceReview?: ListingSourceReview;
+  lastSyncedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const StatusHistorySchema = new Schema<StatusHistoryEntry>(
+  {
+    from: {
+      type: String,
+      enum: [...LISTING_STATUSES, null],
+      default: null,
+    },
+    to: {
+      type: String,
+      enum: LISTING_STATUSES,
+      required: true,
+    },
+    actor: {
+      type: String,
+      required: true,
+    },
+    actorRole: {
+      type: String,
+      enum: STATUS_ACTOR_ROLES,
+      required: true,
+    },
+    reason: {
+      type: String,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const PriceHistorySchema = new Schema<PriceHistoryEntry>(
+  {
+    price: {
+      type: Number,
+      required: true,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const RejectionSchema = new Schema<ListingRejection>(
+  {
+    reasons: {
+      type: [String],
+      enum: REJECTION_REASON_CODES,
+      default: [],
+    },
+    note: {
+      type: String,
+    },
+    rejectedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    rejectedBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const ImageQualityFlagSchema = new Schema<ImageQualityFlag>(
+  {
+    image: {
+      type: Number,
+      required: true,
+    },
+    issue: {
+      type: String,
+      enum: IMAGE_QUALITY_ISSUE_CODES,
+      required: true,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const RegistrationSchema = new Schema<ListingRegistration>(
+  {
+    number: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['verified', 'unconfirmed'],
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    verifiedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const SourceReviewSchema = new Schema<ListingSourceReview>(
+  {
+    reason: {
+      type: String,
+      required: true,
+    },
+    flaggedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
 const ListingSchema = new Schema<IListing>(
   {
     sellerId: {
@@ -80,16 +249,50 @@ const ListingSchema = new Schema<IListing>(
       type: Number,
       required: true,
     },
+    priceHistory: {
+      type: [PriceHistorySchema],
+      default: [],
+    },
+    // Highest previous price minus current price, kept for the price drop sort
+    priceDrop: {
+      type: Number,
+      default: 0,
+    },
     images: {
       type: [String],
       required: true,
     },
+    // Perceptual hashes of the leading images, used by duplicate detection
+    imageHashes: {
+      type: [String],
+      default: [],
+    },
+    // Problems the upload checks found in the photos, shown to moderators
+    imageQualityFlags: {
+      type: [ImageQualityFlagSchema],
+      default: [],
+    },
     status: {
       type: String,
-      enum: ['pending', 'approved', 'rejected', 'sold'],
+      enum: LISTING_STATUSES,
       default: 'pending',
       index: true,
     },
+    statusHistory: {
+      type: [StatusHistorySchema],
+      default: [],
+    },
+    rejection: {
+      type: RejectionSchema,
+    },
+    // Ownership check the seller passed before listing; scraped listings have none
+    registration: {
+      type: RegistrationSchema,
+    },
+    resubmissionCount: {
+      type: Number,
+      default: 0,
+    },
     interestCount: {
       type: Number,
       default: 0,
@@ -99,6 +302,19 @@ const ListingSchema = new Schema<IListing>(
       enum: ['user', 'scraped'],
       default: 'user',
     },
+    // Where a scraped listing came from, re-checked by the source sync job
+    sourceUrl: String,
+    sourceSite: String,
+    // Image URLs on the source site; `images` holds our stored copies
+    sourceImages: {
+      type: [String],
+      default: undefined,
+    },
+    // Set when the source page might say the car is sold; staff decide
+    sourceReview: {
+      type: SourceReviewSchema,
+    },
+    lastSyncedAt: Date,
   },
   {
     timestamps: true,
@@ -108,6 +324,17 @@ const ListingSchema = new Schema<IListing>(
 // Compound index for search optimization
 ListingSchema.index({ brand: 1, city: 1, price: 1 });
 ListingSchema.index({ createdAt: -1 });
+ListingSchema.index({ priceDrop: -1, createdAt: -1 });
+ListingSchema.index({ source: 1, lastSyncedAt: 1 });
+
+// Full-text search for /buy-car, weighted towards make and model
+ListingSchema.index(
+  { brand: 'text', carModel: 'text', variant: 'text', description: 'text', city: 'text' },
+  {
+    name: 'listing_text_search',
+    weights: { brand: 10, carModel: 10, variant: 5, city: 3, description: 1 },
+  }
+);
 
 const Listing: Model<IListing> = (mongoose.models && mongoose.models.Listing) || mongoose.model<IListing>('Listing', ListingSchema);
 
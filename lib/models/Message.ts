@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export interface IMessage extends Document {
+  conversationId: Types.ObjectId;
+  senderId: Types.ObjectId;
+  body: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+const MessageSchema = new Schema<IMessage>(
+  {
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Conversation',
+      required: true,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    body: {
+      type: String,
+      required: true,
+      maxlength: 2000,
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Index for loading a thread in order
+MessageSchema.index({ conversationId: 1, createdAt: 1 });
+
+const Message: Model<IMessage> = (mongoose.models && mongoose.models.Message) || mongoose.model<IMessage>('Message', MessageSchema);
+
+export default Message;
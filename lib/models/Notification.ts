@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export interface INotification extends Document {
+  userId: Types.ObjectId;
+  type: 'saved_search_match';
+  title: string;
+  body: string;
+  link: string;
+  listingId?: Types.ObjectId;
+  savedSearchId?: Types.ObjectId;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['saved_search_match'],
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    body: {
+      type: String,
+      default: '',
+    },
+    link: {
+      type: String,
+      required: true,
+    },
+    listingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Listing',
+    },
+    savedSearchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SavedSearch',
+    },
+    readAt: Date,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Index for the notification feed
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+// A saved search alerts about each listing at most once
+NotificationSchema.index(
+  { savedSearchId: 1, listingId: 1 },
+  { unique: true, partialFilterExpression: { savedSearchId: { $exists: true } } }
+);
+
+const Notification: Model<INotification> = (mongoose.models && mongoose.models.Notification) || mongoose.model<INotification>('Notification', NotificationSchema);
+
+export default Notification;
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import type { RegistrationVerificationStatus } from '../registration-verifier';
+
+// How long a seller has to finish the listing form after verifying ownership
+export const REGISTRATION_VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+
+export interface IRegistrationVerification extends Document {
+  userId: Types.ObjectId;
+  registrationNumber: string;
+  status: RegistrationVerificationStatus;
+  provider: string;
+  verifiedAt: Date;
+}
+
+const RegistrationVerificationSchema = new Schema<IRegistrationVerification>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  // Normalized, e.g. MH12AB1234
+  registrationNumber: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['verified', 'unconfirmed'],
+    required: true,
+  },
+  provider: {
+    type: String,
+    required: true,
+  },
+  verifiedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// One pending verification per seller and car
+RegistrationVerificationSchema.index({ userId: 1, registrationNumber: 1 }, { unique: true });
+// Verifications that were never used for a listing expire
+RegistrationVerificationSchema.index({ verifiedAt: 1 }, { expireAfterSeconds: REGISTRATION_VERIFICATION_TTL_SECONDS });
+
+const RegistrationVerification: Model<IRegistrationVerification> =
+  (mongoose.models && mongoose.models.RegistrationVerification) ||
+  mongoose.model<IRegistrationVerification>('RegistrationVerification', RegistrationVerificationSchema);
+
+export default RegistrationVerification;
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export interface ISavedSearch extends Document {
+  userId: Types.ObjectId;
+  name: string;
+  searchQuery?: string;
+  brands: string[];
+  cities: string[];
+  fuelTypes: string[];
+  transmissions: string[];
+  priceMin?: number;
+  priceMax?: number;
+  yearMin?: number;
+  yearMax?: number;
+  alertsEnabled: boolean;
+  lastCheckedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SavedSearchSchema = new Schema<ISavedSearch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      maxlength: 60,
+    },
+    searchQuery: String,
+    brands: {
+      type: [String],
+      default: [],
+    },
+    cities: {
+      type: [String],
+      default: [],
+    },
+    fuelTypes: {
+      type: [String],
+      default: [],
+    },
+    transmissions: {
+      type: [String],
+      default: [],
+    },
+    priceMin: Number,
+    priceMax: Number,
+    yearMin: Number,
+    yearMax: Number,
+    alertsEnabled: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    // Listings approved after this point have not been checked yet
+    lastCheckedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const SavedSearch: Model<ISavedSearch> = (mongoose.models && mongoose.models.SavedSearch) || mongoose.model<ISavedSearch>('SavedSearch', SavedSearchSchema);
+
+export default SavedSearch;
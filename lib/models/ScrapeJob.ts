@@ -0,0 +1,133 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import type { ScrapedCarData } from '../scrapers/types';
+
+export const SCRAPE_JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+export type ScrapeJobStatus = (typeof SCRAPE_JOB_STATUSES)[number];
+
+export const SCRAPE_JOB_MODES = ['single', 'crawl'] as const;
+export type ScrapeJobMode = (typeof SCRAPE_JOB_MODES)[number];
+
+export interface IScrapeJobCrawlOptions {
+  maxPages: number;
+  maxItems: number;
+  followDetails: boolean;
+  concurrency: number;
+  delayMs: number;
+  robotsTxt?: string;
+}
+
+export interface IScrapeJobProgress {
+  pagesVisited: number;
+  itemsFound: number;
+  message?: string;
+}
+
+export interface IScrapeJob extends Document {
+  url: string;
+  mode: ScrapeJobMode;
+  crawlOptions?: IScrapeJobCrawlOptions;
+  status: ScrapeJobStatus;
+  progress: IScrapeJobProgress;
+  results: ScrapedCarData[];
+  // `errors` is reserved by mongoose documents
+  scrapeErrors: { url: string; error: string }[];
+  error?: string;
+  createdByEmail: string;
+  rerunOf?: Types.ObjectId;
+  attempts: number;
+  heartbeatAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScrapedCarSchema = new Schema<ScrapedCarData>(
+  {
+    images: { type: [String], default: [] },
+    carName: String,
+    model: String,
+    price: Number,
+    ownerName: String,
+    yearOfPurchase: Number,
+    kmDriven: Number,
+    numberOfOwners: Number,
+    city: String,
+    sourceUrl: String,
+  },
+  { _id: false }
+);
+
+const ScrapeJobSchema = new Schema<IScrapeJob>(
+  {
+    url: {
+      type: String,
+      required: true,
+    },
+    mode: {
+      type: String,
+      enum: SCRAPE_JOB_MODES,
+      default: 'single',
+    },
+    crawlOptions: {
+      type: new Schema<IScrapeJobCrawlOptions>(
+        {
+          maxPages: Number,
+          maxItems: Number,
+          followDetails: Boolean,
+          concurrency: Number,
+          delayMs: Number,
+          robotsTxt: String,
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    status: {
+      type: String,
+      enum: SCRAPE_JOB_STATUSES,
+      default: 'queued',
+      index: true,
+    },
+    progress: {
+      pagesVisited: { type: Number, default: 0 },
+      itemsFound: { type: Number, default: 0 },
+      message: String,
+    },
+    results: {
+      type: [ScrapedCarSchema],
+      default: [],
+    },
+    scrapeErrors: {
+      type: [{ url: String, error: String, _id: false }],
+      default: [],
+    },
+    error: String,
+    createdByEmail: {
+      type: String,
+      required: true,
+    },
+    rerunOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'ScrapeJob',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    // Bumped while a worker is running the job; a stale value means the worker died
+    heartbeatAt: Date,
+    startedAt: Date,
+    finishedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The worker takes the oldest queued job first
+ScrapeJobSchema.index({ status: 1, createdAt: 1 });
+
+const ScrapeJob: Model<IScrapeJob> = (mongoose.models && mongoose.models.ScrapeJob) || mongoose.model<IScrapeJob>('ScrapeJob', ScrapeJobSchema);
+
+export default ScrapeJob;
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { encrypt, decrypt } from '../encryption';
+import { ROLES, Role } from '../roles';
 
 export interface IUser extends Document {
   googleId: string;
@@ -10,6 +11,7 @@ export interface IUser extends Document {
   documentNumber: string;
   verified: boolean;
   banned: boolean;
+  role: Role;
   createdAt: Date;
   updatedAt: Date;
   getDecryptedDocumentNumber(): string;
@@ -55,6 +57,12 @@ const UserSchema = new Schema<IUser>(
       default: false,
       index: true,
     },
+    role: {
+      type: String,
+      enum: ROLES,
+      default: 'user',
+      index: true,
+    },
   },
   {
     timestamps: true,
@@ -2,8 +2,24 @@ export { default as User } from './User';
 export { default as Listing } from './Listing';
 export { default as Interest } from './Interest';
 export { default as AdminLog } from './AdminLog';
+export { default as Conversation } from './Conversation';
+export { default as Message } from './Message';
+export { default as SavedSearch } from './SavedSearch';
+export { default as Notification } from './Notification';
+export { default as Favourite } from './Favourite';
+export { default as ScrapeJob } from './ScrapeJob';
+export { default as DuplicateFlag } from './DuplicateFlag';
+export { default as RegistrationVerification } from './RegistrationVerification';
 
 export type { IUser } from './User';
 export type { IListing } from './Listing';
 export type { IInterest } from './Interest';
 export type { IAdminLog } from './AdminLog';
+export type { IConversation } from './Conversation';
+export type { IMessage } from './Message';
+export type { ISavedSearch } from './SavedSearch';
+export type { INotification } from './Notification';
+export type { IFavourite } from './Favourite';
+export type { IScrapeJob } from './ScrapeJob';
+export type { IDuplicateFlag } from './DuplicateFlag';
+export type { IRegistrationVerification } from './RegistrationVerification';
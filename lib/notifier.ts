@@ -0,0 +1,57 @@
+/**
+ * Outbound notification delivery
+ * The in-app feed is always written to the Notification collection; a notifier
+ * additionally delivers each alert to the user (console in dev, email/push later)
+ */
+
+export interface NotificationMessage {
+  userId: string;
+  email?: string;
+  title: string;
+  body: string;
+  link: string;
+}
+
+export interface Notifier {
+  readonly name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Logs notifications instead of delivering them
+ */
+export class ConsoleNotifier implements Notifier {
+  readonly name = 'console';
+
+  async send(message: NotificationMessage): Promise<void> {
+    console.log(`[notify] ${message.email || message.userId}: ${message.title} - ${message.link}`);
+  }
+}
+
+/**
+ * Keeps sent notifications in memory so tests can inspect them
+ */
+export class MemoryNotifier implements Notifier {
+  readonly name = 'memory';
+  readonly sent: NotificationMessage[] = [];
+
+  async send(message: NotificationMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+const notifiers: Record<string, () => Notifier> = {
+  console: () => new ConsoleNotifier(),
+  memory: () => new MemoryNotifier(),
+};
+
+/**
+ * Get the notifier configured by NOTIFIER (defaults to console)
+ */
+export function getNotifier(name = process.env.NOTIFIER || 'console'): Notifier {
+  const create = notifiers[name];
+  if (!create) {
+    throw new Error(`Unknown notifier: ${name}`);
+  }
+  return create();
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { buildPriceChange, calculatePriceDrop, getPriceHistory, initialPriceHistory } from './price-history';
+
+const priceArbitrary = fc.integer({ min: 50000, max: 10000000 });
+
+/**
+ * Apply a price change to an in-memory listing the way MongoDB would
+ */
+function applyChange(listing: { price: number; priceDrop: number; priceHistory: any[] }, newPrice: number, at: Date) {
+  const change = buildPriceChange(listing, newPrice, at);
+  if (!change) return listing;
+  return {
+    ...listing,
+    ...change.$set,
+    priceHistory: change.$push
+      ? [...listing.priceHistory, change.$push.priceHistory]
+      : change.$set.priceHistory!,
+  };
+}
+
+describe('Price History Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 45: Price changes are recorded and drops are measured from the peak
+   */
+  it('Property 45: Price history - every change is appended and the drop is the peak minus the current price', () => {
+    fc.assert(
+      fc.property(priceArbitrary, fc.array(priceArbitrary, { maxLength: 10 }), (initialPrice, newPrices) => {
+        let listing = { price: initialPrice, priceDrop: 0, priceHistory: initialPriceHistory(initialPrice, new Date(0)) };
+        const offered = [initialPrice];
+
+        newPrices.forEach((price, index) => {
+          listing = applyChange(listing, price, new Date(index + 1));
+          if (price !== offered[offered.length - 1]) offered.push(price);
+        });
+
+        expect(listing.priceHistory.map((entry) => entry.price)).toEqual(offered);
+        expect(listing.price).toBe(offered[offered.length - 1]);
+        expect(listing.priceDrop).toBe(Math.max(...offered) - listing.price);
+        expect(listing.priceDrop).toBeGreaterThanOrEqual(0);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 45: Price history - unchanged prices record nothing', () => {
+    fc.assert(
+      fc.property(priceArbitrary, (price) => {
+        expect(buildPriceChange({ price, priceHistory: initialPriceHistory(price) }, price)).toBeNull();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 45: Price history - listings without stored history are backfilled from their current price', () => {
+    fc.assert(
+      fc.property(priceArbitrary, priceArbitrary, (oldPrice, newPrice) => {
+        fc.pre(oldPrice !== newPrice);
+        const createdAt = new Date('2024-01-01');
+
+        expect(getPriceHistory({ price: oldPrice, createdAt })).toEqual([{ price: oldPrice, changedAt: createdAt }]);
+
+        const change = buildPriceChange({ price: oldPrice, createdAt }, newPrice);
+        expect(change?.$push).toBeUndefined();
+        expect(change?.$set.priceHistory?.map((entry) => entry.price)).toEqual([oldPrice, newPrice]);
+        expect(change?.$set.priceDrop).toBe(calculatePriceDrop([{ price: oldPrice, changedAt: createdAt }], newPrice));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
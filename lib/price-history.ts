@@ -0,0 +1,57 @@
+export interface PriceHistoryEntry {
+  price: number;
+  changedAt: Date;
+}
+
+/**
+ * Price history for a newly created listing
+ */
+export function initialPriceHistory(price: number, at: Date = new Date()): PriceHistoryEntry[] {
+  return [{ price, changedAt: at }];
+}
+
+/**
+ * Price history of a listing, falling back to its current price for listings
+ * created before history was recorded
+ */
+export function getPriceHistory(listing: {
+  price: number;
+  priceHistory?: PriceHistoryEntry[];
+  createdAt?: Date;
+}): PriceHistoryEntry[] {
+  if (listing.priceHistory && listing.priceHistory.length > 0) {
+    return listing.priceHistory;
+  }
+  return initialPriceHistory(listing.price, listing.createdAt ? new Date(listing.createdAt) : new Date(0));
+}
+
+/**
+ * How far the current price is below the highest price the listing was offered at
+ */
+export function calculatePriceDrop(history: PriceHistoryEntry[], currentPrice: number): number {
+  const peak = Math.max(currentPrice, ...history.map((entry) => entry.price));
+  return peak - currentPrice;
+}
+
+/**
+ * Build the update recording a price change, or null if the price is unchanged
+ * The listing's priceDrop is kept in step so it can be sorted on
+ */
+export function buildPriceChange(
+  listing: { price: number; priceHistory?: PriceHistoryEntry[]; createdAt?: Date },
+  newPrice: number,
+  at: Date = new Date()
+): { $set: { price: number; priceDrop: number; priceHistory?: PriceHistoryEntry[] }; $push?: { priceHistory: PriceHistoryEntry } } | null {
+  if (newPrice === listing.price) return null;
+
+  const entry: PriceHistoryEntry = { price: newPrice, changedAt: at };
+  const history = getPriceHistory(listing);
+  const priceDrop = calculatePriceDrop(history, newPrice);
+
+  // Older listings have no stored history, so write the backfilled start along with the change
+  if (!listing.priceHistory || listing.priceHistory.length === 0) {
+    return { $set: { price: newPrice, priceDrop, priceHistory: [...history, entry] } };
+  }
+
+  return { $set: { price: newPrice, priceDrop }, $push: { priceHistory: entry } };
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fc from 'fast-check';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  DemoRegistrationVerifier,
+  getRegistrationVerifier,
+  HttpRegistrationVerifier,
+  MemoryRegistrationVerifier,
+  RegistrationProviderError,
+  RegistrationRecord,
+} from './registration-verifier';
+
+const API_KEY = 'test-api-key';
+
+const records: RegistrationRecord[] = [
+  { registrationNumber: 'MH12AB1234', ownerName: 'RAHUL KUMAR SHARMA', maker: 'MARUTI SUZUKI', model: 'SWIFT VXI' },
+  { registrationNumber: '22BH1234AA', ownerName: 'PRIYA NAIR' },
+];
+
+/**
+ * A registration lookup API in the shape HttpRegistrationVerifier expects,
+ * refusing requests without the API key; MH99ZZ9999 always fails
+ */
+function startRegistryStandIn(): Promise<{ server: Server; baseUrl: string; requests: string[] }> {
+  const requests: string[] = [];
+
+  const server = createServer((request, response) => {
+    requests.push(request.url || '');
+    if (request.headers['x-api-key'] !== API_KEY) {
+      response.writeHead(401).end();
+      return;
+    }
+
+    const match = request.url?.match(/^\/v1\/registrations\/([A-Z0-9]+)$/);
+    if (match?.[1] === 'MH99ZZ9999') {
+      response.writeHead(503).end();
+      return;
+    }
+    const record = records.find((entry) => entry.registrationNumber === match?.[1]);
+    if (!record) {
+      response.writeHead(404).end();
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(record));
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/v1`, requests });
+    });
+  });
+}
+
+let registryServer: Server;
+let registryUrl: string;
+let registryRequests: string[];
+let http: HttpRegistrationVerifier;
+
+beforeAll(async () => {
+  const standIn = await startRegistryStandIn();
+  registryServer = standIn.server;
+  registryUrl = standIn.baseUrl;
+  registryRequests = standIn.requests;
+  http = new HttpRegistrationVerifier({ baseUrl: standIn.baseUrl, apiKey: API_KEY });
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => registryServer.close(resolve));
+});
+
+describe('Registration Verifier Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 62: Every verifier gives the same verdict for the same registry records
+   */
+  it('Property 62: Registration verifiers - the HTTP adapter agrees with the in-memory registry', async () => {
+    const memory = new MemoryRegistrationVerifier(records);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom('mh 12 ab 1234', 'MH12AB1234', '22 BH 1234 AA', 'KA01AB0001', 'XX12AB1234'),
+        fc.constantFrom('Rahul Sharma', 'Sharma Rahul K', 'Priya Nair', 'Priya', 'Anil Mehta'),
+        async (registrationNumber, ownerName) => {
+          const expected = await memory.verify(registrationNumber, ownerName);
+          const actual = await http.verify(registrationNumber, ownerName);
+
+          expect(actual.status).toBe(expected.status);
+          expect(actual.registrationNumber).toBe(expected.registrationNumber);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('HttpRegistrationVerifier', () => {
+  it('verifies a matching owner and returns the registry record', async () => {
+    const check = await http.verify('mh-12-ab-1234', 'Rahul Sharma');
+
+    expect(check).toEqual({
+      status: 'verified',
+      registrationNumber: 'MH12AB1234',
+      record: records[0],
+    });
+    expect(registryRequests).toContain('/v1/registrations/MH12AB1234');
+  });
+
+  it('does not call the provider for badly formatted numbers', async () => {
+    registryRequests.length = 0;
+
+    const check = await http.verify('MH12AB', 'Rahul Sharma');
+
+    expect(check.status).toBe('invalid_format');
+    expect(registryRequests).toEqual([]);
+  });
+
+  it('raises a provider error when the registry is down or refuses the key', async () => {
+    const unauthorized = new HttpRegistrationVerifier({ baseUrl: registryUrl, apiKey: 'wrong-key' });
+
+    await expect(http.verify('MH99ZZ9999', 'Rahul Sharma')).rejects.toBeInstanceOf(RegistrationProviderError);
+    await expect(unauthorized.verify('MH12AB1234', 'Rahul Sharma')).rejects.toBeInstanceOf(RegistrationProviderError);
+  });
+});
+
+describe('getRegistrationVerifier', () => {
+  it('defaults to the format-only demo verifier', async () => {
+    const verifier = getRegistrationVerifier('demo');
+
+    expect(verifier).toBeInstanceOf(DemoRegistrationVerifier);
+    expect(await verifier.verify('dl 3c ab 1234', 'Anyone')).toEqual({
+      status: 'unconfirmed',
+      registrationNumber: 'DL3CAB1234',
+    });
+    expect(() => getRegistrationVerifier('vahan')).toThrow('Unknown registration verifier: vahan');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Vehicle registration lookups
+ * A verifier checks a registration number against a registry (VAHAN through a
+ * provider API) and compares the owner name on record with the one the seller gave
+ */
+import type { Fetcher } from './scrapers/types';
+import { ownerNamesMatch, parseRegistrationNumber } from './registration';
+
+// Stored on the listing: checked against a registry, or format-checked only
+export type RegistrationVerificationStatus = 'verified' | 'unconfirmed';
+
+export interface RegistrationRecord {
+  registrationNumber: string;
+  ownerName: string;
+  maker?: string;
+  model?: string;
+}
+
+export type RegistrationCheck =
+  | { status: RegistrationVerificationStatus; registrationNumber: string; record?: RegistrationRecord }
+  | { status: 'invalid_format' | 'not_found' | 'name_mismatch'; registrationNumber: string };
+
+export interface RegistrationVerifier {
+  readonly name: string;
+  verify(registrationNumber: string, ownerName: string): Promise<RegistrationCheck>;
+}
+
+/**
+ * The registry could not be reached or gave an unexpected answer
+ */
+export class RegistrationProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RegistrationProviderError';
+  }
+}
+
+/**
+ * Shared checks once a registry record has been looked up
+ */
+function checkRecord(
+  registrationNumber: string,
+  ownerName: string,
+  record: RegistrationRecord | null
+): RegistrationCheck {
+  if (!record) {
+    return { status: 'not_found', registrationNumber };
+  }
+  if (!ownerNamesMatch(ownerName, record.ownerName)) {
+    return { status: 'name_mismatch', registrationNumber };
+  }
+  return { status: 'verified', registrationNumber, record };
+}
+
+/**
+ * Checks the format only; listings are marked unconfirmed for moderators
+ */
+export class DemoRegistrationVerifier implements RegistrationVerifier {
+  readonly name = 'demo';
+
+  async verify(registrationNumber: string): Promise<RegistrationCheck> {
+    const parsed = parseRegistrationNumber(registrationNumber);
+    if (!parsed) {
+      return { status: 'invalid_format', registrationNumber };
+    }
+    return { status: 'unconfirmed', registrationNumber: parsed.normalized };
+  }
+}
+
+/**
+ * Looks registrations up in a fixed set of records, for tests and local setups
+ */
+export class MemoryRegistrationVerifier implements RegistrationVerifier {
+  readonly name = 'memory';
+  private readonly records = new Map<string, RegistrationRecord>();
+
+  constructor(records: RegistrationRecord[] = []) {
+    for (const record of records) {
+      const parsed = parseRegistrationNumber(record.registrationNumber);
+      this.records.set(parsed?.normalized ?? record.registrationNumber, record);
+    }
+  }
+
+  async verify(registrationNumber: string, ownerName: string): Promise<RegistrationCheck> {
+    const parsed = parseRegistrationNumber(registrationNumber);
+    if (!parsed) {
+      return { status: 'invalid_format', registrationNumber };
+    }
+    return checkRecord(parsed.normalized, ownerName, this.records.get(parsed.normalized) ?? null);
+  }
+}
+
+export interface HttpRegistrationVerifierConfig {
+  baseUrl: string;
+  apiKey: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Adapter for a registration lookup API:
+ * `GET <baseUrl>/registrations/<number>` with an `x-api-key` header, answering
+ * 404 for unknown numbers or `{ registrationNumber, ownerName, maker?, model? }`
+ */
+export class HttpRegistrationVerifier implements RegistrationVerifier {
+  readonly name = 'http';
+
+  constructor(
+    private readonly config: HttpRegistrationVerifierConfig,
+    private readonly fetcher: Fetcher = fetch
+  ) {}
+
+  async verify(registrationNumber: string, ownerName: string): Promise<RegistrationCheck> {
+    const parsed = parseRegistrationNumber(registrationNumber);
+    if (!parsed) {
+      return { status: 'invalid_format', registrationNumber };
+    }
+    return checkRecord(parsed.normalized, ownerName, await this.lookup(parsed.normalized));
+  }
+
+  private async lookup(registrationNumber: string): Promise<RegistrationRecord | null> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/registrations/${encodeURIComponent(registrationNumber)}`;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await this.fetcher(url, {
+        headers: { 'x-api-key': this.config.apiKey, accept: 'application/json' },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new RegistrationProviderError(`Registration lookup failed: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new RegistrationProviderError(`Registration lookup failed: ${response.status}`);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!body || typeof body.ownerName !== 'string') {
+      throw new RegistrationProviderError('Registration lookup returned no owner name');
+    }
+    return {
+      registrationNumber: typeof body.registrationNumber === 'string' ? body.registrationNumber : registrationNumber,
+      ownerName: body.ownerName,
+      maker: typeof body.maker === 'string' ? body.maker : undefined,
+      model: typeof body.model === 'string' ? body.model : undefined,
+    };
+  }
+}
+
+function requiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required for the http registration verifier`);
+  }
+  return value;
+}
+
+const verifiers: Record<string, () => RegistrationVerifier> = {
+  demo: () => new DemoRegistrationVerifier(),
+  memory: () => new MemoryRegistrationVerifier(),
+  http: () =>
+    new HttpRegistrationVerifier({
+      baseUrl: requiredEnv('REGISTRATION_API_URL'),
+      apiKey: requiredEnv('REGISTRATION_API_KEY'),
+    }),
+};
+
+/**
+ * Get the verifier configured by REGISTRATION_VERIFIER (defaults to demo)
+ */
+export function getRegistrationVerifier(name = process.env.REGISTRATION_VERIFIER || 'demo'): RegistrationVerifier {
+  const create = verifiers[name];
+  if (!create) {
+    throw new Error(`Unknown registration verifier: ${name}`);
+  }
+  return create();
+}
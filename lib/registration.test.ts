@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { ownerNamesMatch, parseRegistrationNumber, REGISTRATION_STATE_CODES } from './registration';
+
+const letters = (chars: string, minLength: number, maxLength: number) =>
+  fc.stringOf(fc.constantFrom(...chars.split('')), { minLength, maxLength });
+
+const standardArb = fc.record({
+  stateCode: fc.constantFrom(...REGISTRATION_STATE_CODES),
+  rtoCode: fc.integer({ min: 1, max: 99 }).map((n) => n.toString().padStart(2, '0')),
+  series: letters('ABCDEFGHJKLMNPQRSTUVWXYZ', 1, 3),
+  number: fc.integer({ min: 1, max: 9999 }).map((n) => n.toString().padStart(4, '0')),
+});
+
+const bhArb = fc.record({
+  year: fc.integer({ min: 21, max: 99 }).map(String),
+  number: fc.integer({ min: 1, max: 9999 }).map((n) => n.toString().padStart(4, '0')),
+  series: letters('ABCDEFGHJKLMNPQRSTUVWXYZ', 1, 2),
+});
+
+// Lower case or spaced out the way people type it
+const typedArb = (parts: string[]) =>
+  fc.tuple(fc.boolean(), fc.constantFrom('', ' ', '-')).map(([lower, separator]) => {
+    const typed = parts.join(separator);
+    return lower ? typed.toLowerCase() : typed;
+  });
+
+const namePartArb = letters('abcdefghijklmnopqrstuvwxyz', 4, 12);
+
+describe('Registration Number Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 61: Registration numbers and owner names are checked strictly but fairly
+   */
+  it('Property 61: Registration format - standard plates parse into their parts however they are typed', () => {
+    fc.assert(
+      fc.property(
+        standardArb.chain((parts) =>
+          typedArb([parts.stateCode, parts.rtoCode, parts.series, parts.number]).map((typed) => ({ parts, typed }))
+        ),
+        ({ parts, typed }) => {
+          expect(parseRegistrationNumber(typed)).toEqual({
+            kind: 'standard',
+            normalized: `${parts.stateCode}${parts.rtoCode}${parts.series}${parts.number}`,
+            ...parts,
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 61: Registration format - Bharat series plates parse into their parts', () => {
+    fc.assert(
+      fc.property(
+        bhArb.chain((parts) =>
+          typedArb([parts.year, 'BH', parts.number, parts.series]).map((typed) => ({ parts, typed }))
+        ),
+        ({ parts, typed }) => {
+          expect(parseRegistrationNumber(typed)).toEqual({
+            kind: 'bh',
+            normalized: `${parts.year}BH${parts.number}${parts.series}`,
+            ...parts,
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 61: Registration format - numbers RTOs never issue are rejected', () => {
+    fc.assert(
+      fc.property(standardArb, bhArb, (standard, bh) => {
+        expect(parseRegistrationNumber(`XX${standard.rtoCode}${standard.series}${standard.number}`)).toBeNull();
+        expect(parseRegistrationNumber(`${standard.stateCode}00${standard.series}${standard.number}`)).toBeNull();
+        expect(parseRegistrationNumber(`${standard.stateCode}${standard.rtoCode}${standard.series}0000`)).toBeNull();
+        expect(parseRegistrationNumber(`${standard.stateCode}${standard.rtoCode}${standard.number}`)).toBeNull();
+        expect(parseRegistrationNumber(`20BH${bh.number}${bh.series}`)).toBeNull();
+        expect(parseRegistrationNumber(`${bh.year}BH${bh.number}IO`)).toBeNull();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 61: Owner names - order, case, honorifics and middle names do not matter', () => {
+    fc.assert(
+      fc.property(namePartArb, namePartArb, namePartArb, (first, middle, last) => {
+        const registered = `${first} ${middle} ${last}`.toUpperCase();
+
+        expect(ownerNamesMatch(`${first} ${last}`, registered)).toBe(true);
+        expect(ownerNamesMatch(`Mr. ${last} ${first}`, registered)).toBe(true);
+        expect(ownerNamesMatch(`${first[0]}. ${middle} ${last}`, registered)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 61: Owner names - a different surname or a lone first name does not match', () => {
+    fc.assert(
+      fc.property(namePartArb, namePartArb, namePartArb, (first, last, other) => {
+        fc.pre(other.slice(0, 2) !== last.slice(0, 2) && Math.abs(other.length - last.length) > 2);
+
+        expect(ownerNamesMatch(`${first} ${other}`, `${first} ${last}`)).toBe(false);
+        expect(ownerNamesMatch(first, `${first} ${last}`)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('tolerates small spelling differences and masked registry names', () => {
+    expect(ownerNamesMatch('Mohamed Irfan', 'MOHAMMED IRFAN')).toBe(true);
+    expect(ownerNamesMatch('Rahul Sharma', 'R***L SH***A')).toBe(true);
+    expect(ownerNamesMatch('R. K.', 'Rahul Kumar')).toBe(false);
+  });
+});
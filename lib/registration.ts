@@ -0,0 +1,155 @@
+/**
+ * Indian vehicle registration numbers and owner names
+ * Pure helpers, shared by the sell-car form validation and the verifiers
+ */
+
+// State and union territory codes issued by RTOs, including the older DD, DN and OR
+export const REGISTRATION_STATE_CODES = [
+  'AN', 'AP', 'AR', 'AS', 'BR', 'CG', 'CH', 'DD', 'DL', 'DN', 'GA', 'GJ', 'HP', 'HR', 'JH', 'JK',
+  'KA', 'KL', 'LA', 'LD', 'MH', 'ML', 'MN', 'MP', 'MZ', 'NL', 'OD', 'OR', 'PB', 'PY', 'RJ', 'SK',
+  'TN', 'TR', 'TS', 'UK', 'UP', 'WB',
+] as const;
+
+// Bharat series plates were first issued in 2021
+const FIRST_BH_SERIES_YEAR = 21;
+
+export type ParsedRegistration =
+  | {
+      kind: 'standard';
+      // Upper case with spaces and hyphens removed, e.g. MH12AB1234
+      normalized: string;
+      stateCode: string;
+      rtoCode: string;
+      series: string;
+      number: string;
+    }
+  | {
+      kind: 'bh';
+      // e.g. 22BH1234AA
+      normalized: string;
+      year: string;
+      number: string;
+      series: string;
+    };
+
+/**
+ * Upper-case a registration number and drop spaces, hyphens and dots
+ */
+export function normalizeRegistrationNumber(input: string): string {
+  return input.toUpperCase().replace(/[\s.-]+/g, '');
+}
+
+/**
+ * Split a registration number into its parts: state code, RTO code, series
+ * and number (MH 12 AB 1234), or year, number and series for Bharat series
+ * plates (22 BH 1234 AA)
+ * @returns null if the number is not in a format RTOs issue
+ */
+export function parseRegistrationNumber(input: string): ParsedRegistration | null {
+  const normalized = normalizeRegistrationNumber(input);
+
+  const bh = normalized.match(/^(\d{2})BH(\d{4})([A-Z]{1,2})$/);
+  if (bh) {
+    const [, year, number, series] = bh;
+    // I and O are never issued, they read as 1 and 0
+    if (Number(year) < FIRST_BH_SERIES_YEAR || Number(number) === 0 || /[IO]/.test(series)) {
+      return null;
+    }
+    return { kind: 'bh', normalized, year, number, series };
+  }
+
+  const standard = normalized.match(/^([A-Z]{2})(\d{1,2})([A-Z]{1,3})(\d{1,4})$/);
+  if (standard) {
+    const [, stateCode, rtoCode, series, number] = standard;
+    if (
+      !(REGISTRATION_STATE_CODES as readonly string[]).includes(stateCode) ||
+      Number(rtoCode) === 0 ||
+      Number(number) === 0
+    ) {
+      return null;
+    }
+    return { kind: 'standard', normalized, stateCode, rtoCode, series, number };
+  }
+
+  return null;
+}
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'shri', 'sri', 'smt', 'kumari', 'km', 'late']);
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z*\s]+/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !HONORIFICS.has(token));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether two name parts can be the same: equal, an initial, a registry-masked
+ * part (R***L), or a spelling variant a letter or two apart (Mohamed / Mohammed)
+ */
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (a.length === 1 || b.length === 1) return a[0] === b[0];
+  if (a.includes('*') || b.includes('*')) {
+    return a.length === b.length && a.split('').every((char, i) => char === '*' || b[i] === '*' || char === b[i]);
+  }
+
+  const shorter = Math.min(a.length, b.length);
+  const allowed = shorter >= 8 ? 2 : shorter >= 4 ? 1 : 0;
+  return editDistance(a, b) <= allowed;
+}
+
+/**
+ * Fuzzy-match the owner name a seller typed against the one on the registration.
+ * Word order, honorifics, initials and small spelling differences are ignored,
+ * and a middle name may be left out, but at least two parts must match when the
+ * registration has two or more.
+ */
+export function ownerNamesMatch(claimed: string, registered: string): boolean {
+  const claimedTokens = nameTokens(claimed);
+  const registeredTokens = nameTokens(registered);
+  if (claimedTokens.length === 0 || registeredTokens.length === 0) {
+    return false;
+  }
+
+  const [shorter, longer] =
+    claimedTokens.length <= registeredTokens.length
+      ? [claimedTokens, registeredTokens]
+      : [registeredTokens, claimedTokens];
+  if (shorter.length < Math.min(2, longer.length)) {
+    return false;
+  }
+
+  const remaining = [...longer];
+  let fullMatches = 0;
+  for (const token of shorter) {
+    const index = remaining.findIndex((other) => tokensMatch(token, other));
+    if (index === -1) {
+      return false;
+    }
+    if (token.length > 1 && remaining[index].length > 1) {
+      fullMatches++;
+    }
+    remaining.splice(index, 1);
+  }
+
+  // Initials alone are not enough to identify anyone
+  return fullMatches > 0;
+}
@@ -0,0 +1,40 @@
+/**
+ * Catalog of reasons moderators can pick when rejecting a listing
+ * Labels are shown to sellers in My Garage
+ */
+export const REJECTION_REASONS = [
+  {
+    code: 'blurry_photos',
+    label: 'Blurry or low-quality photos',
+    hint: 'Upload clear, well-lit photos of the exterior and interior.',
+  },
+  {
+    code: 'price_out_of_range',
+    label: 'Price out of range',
+    hint: 'Set a price in line with similar cars of the same year and condition.',
+  },
+  {
+    code: 'duplicate',
+    label: 'Duplicate listing',
+    hint: 'This car is already listed. Edit the existing listing instead.',
+  },
+  {
+    code: 'prohibited_content',
+    label: 'Prohibited content',
+    hint: 'Remove contact details, links and offensive content from photos and description.',
+  },
+] as const;
+
+export type RejectionReasonCode = (typeof REJECTION_REASONS)[number]['code'];
+
+export const REJECTION_REASON_CODES = REJECTION_REASONS.map((reason) => reason.code) as [
+  RejectionReasonCode,
+  ...RejectionReasonCode[],
+];
+
+/**
+ * Get the catalog entry for a rejection reason code
+ */
+export function getRejectionReason(code: string) {
+  return REJECTION_REASONS.find((reason) => reason.code === code);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  ROLES,
+  ROLE_PERMISSIONS,
+  Permission,
+  hasPermission,
+  requireRole,
+  getAssignableRoles,
+} from './roles';
+
+const ALL_PERMISSIONS = Array.from(new Set(Object.values(ROLE_PERMISSIONS).flat())) as Permission[];
+
+const roleArbitrary = fc.constantFrom(...ROLES);
+const permissionArbitrary = fc.constantFrom(...ALL_PERMISSIONS);
+
+describe('Role-Based Access Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 40: Staff access is granted by role permissions
+   */
+  it('Property 40: Role access - requireRole agrees with the permission table', () => {
+    fc.assert(
+      fc.property(fc.emailAddress(), roleArbitrary, permissionArbitrary, (email, role, permission) => {
+        const result = requireRole({ email, role, banned: false }, permission);
+        expect(result.allowed).toBe(ROLE_PERMISSIONS[role].includes(permission));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 40: Role access - missing sessions are unauthorized and banned users are forbidden', () => {
+    fc.assert(
+      fc.property(fc.emailAddress(), roleArbitrary, permissionArbitrary, (email, role, permission) => {
+        expect(requireRole(null, permission)).toMatchObject({ allowed: false, status: 401 });
+        expect(requireRole({ role }, permission)).toMatchObject({ allowed: false, status: 401 });
+        expect(requireRole({ email, role, banned: true }, permission)).toMatchObject({
+          allowed: false,
+          status: 403,
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 40: Role access - unknown roles have no permissions', () => {
+    fc.assert(
+      fc.property(
+        fc.string().filter(s => !(ROLES as readonly string[]).includes(s)),
+        permissionArbitrary,
+        (role, permission) => {
+          expect(hasPermission(role, permission)).toBe(false);
+          expect(getAssignableRoles(role)).toEqual([]);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 40: Role access - moderators can moderate but not ban, scrape or grant roles', () => {
+    expect(hasPermission('moderator', 'listings:moderate')).toBe(true);
+    expect(hasPermission('moderator', 'users:ban')).toBe(false);
+    expect(hasPermission('moderator', 'scraper:run')).toBe(false);
+    expect(hasPermission('moderator', 'roles:manage')).toBe(false);
+    expect(getAssignableRoles('admin')).toEqual([]);
+    expect(getAssignableRoles('superadmin')).toEqual(ROLES);
+  });
+});
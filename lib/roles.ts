@@ -0,0 +1,99 @@
+/**
+ * Staff roles and permissions
+ * Pure module so it can run in middleware (edge runtime) as well as on the server
+ */
+
+export const ROLES = ['user', 'moderator', 'admin', 'superadmin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Roles with any permission at all
+export type StaffRole = Exclude<Role, 'user'>;
+
+export type Permission =
+  | 'admin:access'
+  | 'listings:moderate'
+  | 'listings:manage'
+  | 'users:view'
+  | 'users:ban'
+  | 'scraper:run'
+  | 'roles:manage';
+
+/**
+ * Permissions granted to each role
+ * - moderator: review the listing queue (approve/reject)
+ * - admin: everything except granting roles
+ * - superadmin: everything
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  moderator: ['admin:access', 'listings:moderate'],
+  admin: [
+    'admin:access',
+    'listings:moderate',
+    'listings:manage',
+    'users:view',
+    'users:ban',
+    'scraper:run',
+  ],
+  superadmin: [
+    'admin:access',
+    'listings:moderate',
+    'listings:manage',
+    'users:view',
+    'users:ban',
+    'scraper:run',
+    'roles:manage',
+  ],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a role grants a permission
+ * Unknown roles have no permissions
+ */
+export function hasPermission(role: unknown, permission: Permission): boolean {
+  return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Minimal shape shared by next-auth sessions and JWT tokens
+ */
+export interface RoleSubject {
+  email?: string | null;
+  role?: string | null;
+  banned?: boolean;
+}
+
+export type RoleCheck =
+  | { allowed: true; email: string; role: StaffRole }
+  | { allowed: false; status: 401 | 403; error: string };
+
+/**
+ * Require a signed-in, non-banned user whose role grants a permission
+ * Used by server actions, API routes and middleware so they all apply the same rules
+ */
+export function requireRole(
+  subject: RoleSubject | null | undefined,
+  permission: Permission
+): RoleCheck {
+  if (!subject?.email) {
+    return { allowed: false, status: 401, error: 'Unauthorized' };
+  }
+
+  if (subject.banned || !hasPermission(subject.role, permission)) {
+    return { allowed: false, status: 403, error: 'Forbidden' };
+  }
+
+  return { allowed: true, email: subject.email, role: subject.role as StaffRole };
+}
+
+/**
+ * Roles a user may grant to others
+ */
+export function getAssignableRoles(role: unknown): readonly Role[] {
+  return hasPermission(role, 'roles:manage') ? ROLES : [];
+}
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock mongodb connection
+vi.mock('./mongodb', () => ({
+  default: vi.fn(async () => ({})),
+}));
+
+// Mock models
+vi.mock('./models/Listing', () => ({
+  default: {
+    find: vi.fn(),
+  },
+}));
+
+vi.mock('./models/User', () => ({
+  default: {
+    find: vi.fn(),
+  },
+}));
+
+vi.mock('./models/SavedSearch', () => ({
+  default: {
+    find: vi.fn(),
+    updateOne: vi.fn(),
+  },
+}));
+
+vi.mock('./models/Notification', () => ({
+  default: {
+    create: vi.fn(),
+  },
+}));
+
+import Listing from './models/Listing';
+import User from './models/User';
+import SavedSearch from './models/SavedSearch';
+import Notification from './models/Notification';
+import { MemoryNotifier } from './notifier';
+import { findFreshListings, findSavedSearchMatches, runSavedSearchAlerts } from './saved-search-alerts';
+
+const brandArbitrary = fc.constantFrom('Toyota', 'Honda', 'Maruti', 'Hyundai', 'Tata');
+const cityArbitrary = fc.constantFrom('Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Pune');
+const sellerArbitrary = fc.constantFrom('buyer-1', 'seller-1', 'seller-2');
+
+const CHECKPOINT = new Date('2024-06-01T00:00:00Z');
+
+const listingArbitrary = fc.record({
+  _id: fc.uuid(),
+  sellerId: sellerArbitrary,
+  brand: brandArbitrary,
+  carModel: fc.constantFrom('City', 'Swift', 'Nexon', 'Creta'),
+  variant: fc.constant('VX'),
+  city: cityArbitrary,
+  price: fc.integer({ min: 100000, max: 3000000 }),
+  yearOfOwnership: fc.integer({ min: 2005, max: 2024 }),
+  fuelType: fc.constantFrom('petrol', 'diesel'),
+  transmission: fc.constantFrom('manual', 'automatic'),
+  // Approved up to a day either side of the checkpoint
+  approvedOffset: fc.integer({ min: -86400000, max: 86400000 }).filter(n => n !== 0),
+}).map(({ approvedOffset, ...listing }) => ({
+  ...listing,
+  status: 'approved',
+  statusHistory: [
+    { to: 'pending', timestamp: new Date(CHECKPOINT.getTime() - 2 * 86400000) },
+    { to: 'approved', timestamp: new Date(CHECKPOINT.getTime() + approvedOffset) },
+  ],
+}));
+
+function lean<T>(value: T) {
+  return { lean: vi.fn().mockResolvedValue(value) } as any;
+}
+
+/**
+ * Stand-in for Listing.find: the scan for fresh listings returns them all, and the
+ * match query applies its _id list and brand/city filters like MongoDB would
+ */
+function mockListingFind(listings: any[]) {
+  vi.mocked(Listing.find).mockImplementation(((filter: any) => {
+    if (!filter._id) return lean(listings);
+    const matching = listings.filter((listing) =>
+      filter._id.$in.includes(listing._id) &&
+      (!filter.brand || filter.brand.$in.includes(listing.brand)) &&
+      (!filter.city || filter.city.$in.includes(listing.city))
+    );
+    return { select: vi.fn().mockReturnValue(lean(matching)) };
+  }) as any);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('Saved Search Alert Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 42: Saved search alerts cover new matching listings only
+   */
+  it('Property 42: Saved search alerts - only listings approved since the last check that match are alerted', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(listingArbitrary, { maxLength: 30 }),
+        fc.uniqueArray(brandArbitrary, { maxLength: 2 }),
+        fc.uniqueArray(cityArbitrary, { maxLength: 2 }),
+        async (listings, brands, cities) => {
+          mockListingFind(listings);
+          const search = {
+            userId: 'buyer-1',
+            lastCheckedAt: CHECKPOINT,
+            brands,
+            cities,
+            fuelTypes: [],
+            transmissions: [],
+          };
+
+          const matches = await findSavedSearchMatches(search, listings);
+
+          const expected = listings.filter((listing) =>
+            listing.statusHistory[1].timestamp > CHECKPOINT &&
+            listing.sellerId !== 'buyer-1' &&
+            (brands.length === 0 || brands.includes(listing.brand)) &&
+            (cities.length === 0 || cities.includes(listing.city))
+          );
+          expect(matches.map(m => m._id)).toEqual(expected.map(e => e._id));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 42: Saved search alerts - text queries use the same $text search as /buy-car', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(listingArbitrary, { minLength: 1, maxLength: 15 }), async (listings) => {
+        vi.clearAllMocks();
+        mockListingFind(listings);
+        const search = {
+          userId: 'buyer-1',
+          lastCheckedAt: CHECKPOINT,
+          searchQuery: 'VX diesel',
+          brands: [],
+          cities: [],
+          fuelTypes: [],
+          transmissions: [],
+        };
+
+        await findSavedSearchMatches(search, listings);
+
+        const fresh = findFreshListings(search, listings);
+        if (fresh.length === 0) {
+          expect(Listing.find).not.toHaveBeenCalled();
+        } else {
+          expect(Listing.find).toHaveBeenCalledWith({
+            status: 'approved',
+            $text: { $search: 'VX diesel' },
+            _id: { $in: fresh.map((listing) => listing._id) },
+          });
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property 42: Saved search alerts - each match is recorded and delivered once, then the search is checkpointed', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(listingArbitrary, { maxLength: 15 }), async (listings) => {
+        vi.clearAllMocks();
+        const now = new Date(CHECKPOINT.getTime() + 2 * 86400000);
+        const search = {
+          _id: 'search-1',
+          userId: 'buyer-1',
+          name: 'Anything',
+          lastCheckedAt: CHECKPOINT,
+          alertsEnabled: true,
+          brands: [],
+          cities: [],
+          fuelTypes: [],
+          transmissions: [],
+        };
+
+        vi.mocked(SavedSearch.find).mockReturnValue(lean([search]));
+        mockListingFind(listings);
+        vi.mocked(User.find).mockReturnValue({
+          select: vi.fn().mockReturnValue(lean([{ _id: 'buyer-1', email: 'buyer@example.com' }])),
+        } as any);
+        vi.mocked(Notification.create).mockResolvedValue({} as any);
+
+        const notifier = new MemoryNotifier();
+        const result = await runSavedSearchAlerts(notifier, now);
+
+        const expected = findFreshListings(search, listings);
+        expect(result.notificationsCreated).toBe(expected.length);
+        expect(Notification.create).toHaveBeenCalledTimes(expected.length);
+        expect(notifier.sent).toHaveLength(expected.length);
+        notifier.sent.forEach((message) => expect(message.email).toBe('buyer@example.com'));
+        expect(SavedSearch.updateOne).toHaveBeenCalledWith({ _id: 'search-1' }, { lastCheckedAt: now });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property 42: Saved search alerts - duplicate alerts are skipped and delivery failures do not stop the job', async () => {
+    const listings = [
+      {
+        _id: 'listing-1',
+        sellerId: 'seller-1',
+        brand: 'Honda',
+        carModel: 'City',
+        variant: 'VX',
+        city: 'Pune',
+        price: 800000,
+        yearOfOwnership: 2019,
+        fuelType: 'petrol',
+        transmission: 'manual',
+        statusHistory: [{ to: 'approved', timestamp: new Date(CHECKPOINT.getTime() + 1000) }],
+      },
+      {
+        _id: 'listing-2',
+        sellerId: 'seller-2',
+        brand: 'Tata',
+        carModel: 'Nexon',
+        variant: 'XZ',
+        city: 'Pune',
+        price: 900000,
+        yearOfOwnership: 2021,
+        fuelType: 'diesel',
+        transmission: 'manual',
+        statusHistory: [{ to: 'approved', timestamp: new Date(CHECKPOINT.getTime() + 2000) }],
+      },
+    ];
+
+    vi.mocked(SavedSearch.find).mockReturnValue(lean([
+      { _id: 'search-1', userId: 'buyer-1', name: 'Pune', lastCheckedAt: CHECKPOINT, cities: ['Pune'] },
+    ]));
+    mockListingFind(listings);
+    vi.mocked(User.find).mockReturnValue({ select: vi.fn().mockReturnValue(lean([])) } as any);
+    vi.mocked(Notification.create)
+      .mockRejectedValueOnce(Object.assign(new Error('duplicate'), { code: 11000 }))
+      .mockResolvedValueOnce({} as any);
+
+    const notifier = { name: 'failing', send: vi.fn().mockRejectedValue(new Error('smtp down')) };
+    const result = await runSavedSearchAlerts(notifier);
+
+    expect(result.notificationsCreated).toBe(1);
+    expect(notifier.send).toHaveBeenCalledTimes(1);
+    expect(SavedSearch.updateOne).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,173 @@
+import connectDB from './mongodb';
+import Listing from './models/Listing';
+import SavedSearch, { ISavedSearch } from './models/SavedSearch';
+import Notification from './models/Notification';
+import User from './models/User';
+import { FilterCriteria } from './filters';
+import { buildListingQuery } from './listing-search';
+import { Notifier, getNotifier } from './notifier';
+
+export interface SavedSearchAlertResult {
+  searchesChecked: number;
+  listingsConsidered: number;
+  notificationsCreated: number;
+}
+
+type SavedSearchFields = Pick<
+  ISavedSearch,
+  | 'searchQuery'
+  | 'brands'
+  | 'cities'
+  | 'fuelTypes'
+  | 'transmissions'
+  | 'priceMin'
+  | 'priceMax'
+  | 'yearMin'
+  | 'yearMax'
+>;
+
+const nonEmpty = (values?: string[]) => (values && values.length > 0 ? values : undefined);
+
+/**
+ * Convert a saved search into filter criteria
+ */
+export function savedSearchCriteria(search: SavedSearchFields): FilterCriteria {
+  return {
+    searchQuery: search.searchQuery || undefined,
+    brands: nonEmpty(search.brands),
+    cities: nonEmpty(search.cities),
+    fuelTypes: nonEmpty(search.fuelTypes),
+    transmissions: nonEmpty(search.transmissions),
+    priceMin: search.priceMin ?? undefined,
+    priceMax: search.priceMax ?? undefined,
+    yearMin: search.yearMin ?? undefined,
+    yearMax: search.yearMax ?? undefined,
+  };
+}
+
+/**
+ * When a listing last moved to approved, from its status history
+ */
+export function getApprovedAt(listing: { statusHistory?: { to: string; timestamp: Date }[] }): Date | null {
+  const approvals = (listing.statusHistory || []).filter((entry) => entry.to === 'approved');
+  if (approvals.length === 0) return null;
+  return new Date(Math.max(...approvals.map((entry) => new Date(entry.timestamp).getTime())));
+}
+
+/**
+ * Listings approved since the search was last checked
+ * Sellers are never alerted about their own listings
+ */
+export function findFreshListings<T extends { sellerId: any; statusHistory?: any[] }>(
+  search: { userId: any; lastCheckedAt: Date },
+  listings: T[]
+): T[] {
+  return listings.filter((listing) => {
+    const approvedAt = getApprovedAt(listing);
+    return (
+      approvedAt !== null &&
+      approvedAt > new Date(search.lastCheckedAt) &&
+      listing.sellerId?.toString() !== search.userId.toString()
+    );
+  });
+}
+
+/**
+ * Find the fresh listings that match the search, using the same query as /buy-car
+ * so text searches hit variants and descriptions and match any term
+ */
+export async function findSavedSearchMatches<T extends { _id: any; sellerId: any; statusHistory?: any[] }>(
+  search: SavedSearchFields & { userId: any; lastCheckedAt: Date },
+  listings: T[]
+): Promise<T[]> {
+  const fresh = findFreshListings(search, listings);
+  if (fresh.length === 0) {
+    return [];
+  }
+
+  const matched = await Listing.find({
+    ...buildListingQuery(savedSearchCriteria(search)),
+    _id: { $in: fresh.map((listing) => listing._id) },
+  })
+    .select('_id')
+    .lean();
+  const matchedIds = new Set(matched.map((listing) => listing._id.toString()));
+  return fresh.filter((listing) => matchedIds.has(listing._id.toString()));
+}
+
+/**
+ * Check every saved search with alerts enabled against newly approved listings,
+ * record matches in the notification feed and deliver them through the notifier
+ */
+export async function runSavedSearchAlerts(
+  notifier: Notifier = getNotifier(),
+  now: Date = new Date()
+): Promise<SavedSearchAlertResult> {
+  await connectDB();
+
+  const searches = await SavedSearch.find({ alertsEnabled: true }).lean();
+  if (searches.length === 0) {
+    return { searchesChecked: 0, listingsConsidered: 0, notificationsCreated: 0 };
+  }
+
+  const since = new Date(Math.min(...searches.map((search) => new Date(search.lastCheckedAt).getTime())));
+  const listings = await Listing.find({
+    status: 'approved',
+    statusHistory: { $elemMatch: { to: 'approved', timestamp: { $gt: since, $lte: now } } },
+  }).lean();
+
+  const users = await User.find({ _id: { $in: searches.map((search) => search.userId) } })
+    .select('email')
+    .lean();
+  const emails = new Map(users.map((user) => [user._id.toString(), user.email]));
+
+  let notificationsCreated = 0;
+
+  for (const search of searches) {
+    const matches = await findSavedSearchMatches(search, listings);
+
+    for (const listing of matches) {
+      const title = `New match for "${search.name}"`;
+      const body = `${listing.brand} ${listing.carModel} ${listing.variant} · ₹${listing.price.toLocaleString('en-IN')} · ${listing.city}`;
+      const link = `/listings/${listing._id}`;
+
+      try {
+        await Notification.create({
+          userId: search.userId,
+          type: 'saved_search_match',
+          title,
+          body,
+          link,
+          listingId: listing._id,
+          savedSearchId: search._id,
+        });
+      } catch (error: any) {
+        // Already alerted about this listing for this search
+        if (error?.code === 11000) continue;
+        throw error;
+      }
+      notificationsCreated++;
+
+      try {
+        await notifier.send({
+          userId: search.userId.toString(),
+          email: emails.get(search.userId.toString()),
+          title,
+          body,
+          link,
+        });
+      } catch (error) {
+        // The in-app notification is already recorded, so delivery failures are not fatal
+        console.error(`Error delivering notification via ${notifier.name}:`, error);
+      }
+    }
+
+    await SavedSearch.updateOne({ _id: search._id }, { lastCheckedAt: now });
+  }
+
+  return {
+    searchesChecked: searches.length,
+    listingsConsidered: listings.length,
+    notificationsCreated,
+  };
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock mongodb connection
+vi.mock('./mongodb', () => ({
+  default: vi.fn(async () => ({})),
+}));
+
+// Mock models
+vi.mock('./models/ScrapeJob', () => ({
+  SCRAPE_JOB_STATUSES: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+  default: {
+    updateOne: vi.fn(),
+    updateMany: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+  },
+}));
+
+// Keep Puppeteer out of the test run
+vi.mock('./scraper-enhanced', () => ({
+  extractWithPuppeteer: vi.fn(),
+}));
+
+vi.mock('./scrapers/crawler', () => ({
+  crawlListings: vi.fn(),
+}));
+
+import ScrapeJob, { SCRAPE_JOB_STATUSES } from './models/ScrapeJob';
+import { crawlListings, CrawlProgressEvent } from './scrapers/crawler';
+import {
+  canCancelScrapeJob,
+  canRerunScrapeJob,
+  CrawlProgressState,
+  processScrapeJob,
+  recordCrawlProgress,
+  runScrapeWorker,
+} from './scrape-jobs';
+
+const car = {
+  images: ['https://example.com/swift.jpg'],
+  carName: 'Maruti Swift VXI',
+  model: 'Swift VXI',
+  price: 550000,
+  ownerName: 'Seller',
+  yearOfPurchase: 2019,
+  kmDriven: 35000,
+  numberOfOwners: 1,
+  city: 'Delhi',
+};
+
+const crawlJob = {
+  _id: 'job-1',
+  url: 'https://www.cardekho.com/used-cars+in+delhi',
+  mode: 'crawl',
+  crawlOptions: { maxPages: 2, maxItems: 10, followDetails: false, concurrency: 1, delayMs: 250 },
+} as any;
+
+describe('Scrape Job Property Tests', () => {
+  const eventArb: fc.Arbitrary<CrawlProgressEvent> = fc.oneof(
+    fc.record({ type: fc.constant('page' as const), url: fc.webUrl(), page: fc.integer({ min: 1, max: 20 }), cards: fc.nat(20) }),
+    fc.record({
+      type: fc.constant('item' as const),
+      car: fc.record({ carName: fc.string({ minLength: 1 }), price: fc.integer({ min: 1 }) }).map((fields) => ({ ...car, ...fields })),
+      total: fc.nat(),
+    }),
+    fc.record({ type: fc.constant('skipped' as const), url: fc.webUrl(), reason: fc.string() }),
+    fc.record({ type: fc.constant('error' as const), url: fc.webUrl(), error: fc.string() })
+  );
+
+  /**
+   * Feature: drivesphere-marketplace, Property 50: Scrape job progress and lifecycle
+   */
+  it('Property 50: Scrape job progress - stored progress matches the crawl events', () => {
+    fc.assert(
+      fc.property(fc.array(eventArb, { maxLength: 30 }), (events) => {
+        const initial: CrawlProgressState = {
+          progress: { pagesVisited: 0, itemsFound: 0 },
+          results: [],
+          scrapeErrors: [],
+        };
+        const state = events.reduce(recordCrawlProgress, initial);
+
+        const items = events.flatMap((event) => (event.type === 'item' ? [event.car] : []));
+        const errors = events.flatMap((event) => (event.type === 'error' ? [{ url: event.url, error: event.error }] : []));
+        const pages = events.filter((event) => event.type === 'page');
+
+        expect(state.results).toEqual(items);
+        expect(state.progress.itemsFound).toBe(items.length);
+        expect(state.scrapeErrors).toEqual(errors);
+        expect(state.progress.pagesVisited).toBe(pages.length > 0 ? (pages[pages.length - 1] as any).page : 0);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 50: Scrape job lifecycle - every job can be either cancelled or re-run, never both', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...SCRAPE_JOB_STATUSES), (status) => {
+        expect(canCancelScrapeJob(status)).toBe(!canRerunScrapeJob(status));
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
+
+describe('Scrape Job Worker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ScrapeJob.updateMany).mockResolvedValue({} as any);
+  });
+
+  it('saves crawl results when the job completes', async () => {
+    vi.mocked(crawlListings).mockImplementation(async (_url, options) => {
+      options?.onProgress?.({ type: 'page', url: crawlJob.url, page: 1, cards: 1 });
+      options?.onProgress?.({ type: 'item', car, total: 1 });
+      return { success: true, data: [car], pagesVisited: 1, errors: [], skipped: [] };
+    });
+    vi.mocked(ScrapeJob.updateOne).mockResolvedValue({ matchedCount: 1 } as any);
+
+    const status = await processScrapeJob(crawlJob);
+
+    expect(status).toBe('completed');
+    expect(vi.mocked(crawlListings).mock.calls[0][1]).toMatchObject(crawlJob.crawlOptions);
+    expect(ScrapeJob.updateOne).toHaveBeenCalledWith(
+      { _id: 'job-1', status: 'running' },
+      {
+        $set: expect.objectContaining({
+          status: 'completed',
+          results: [car],
+          progress: expect.objectContaining({ pagesVisited: 1, itemsFound: 1 }),
+        }),
+      }
+    );
+  });
+
+  it('keeps a cancelled job cancelled along with its partial results', async () => {
+    vi.mocked(crawlListings).mockResolvedValue({
+      success: true,
+      data: [car],
+      pagesVisited: 1,
+      errors: [],
+      skipped: [],
+    });
+    // The job was cancelled, so the update guarded on status: 'running' matches nothing
+    vi.mocked(ScrapeJob.updateOne)
+      .mockResolvedValueOnce({ matchedCount: 0 } as any)
+      .mockResolvedValueOnce({ matchedCount: 1 } as any);
+
+    const status = await processScrapeJob(crawlJob);
+
+    expect(status).toBe('cancelled');
+    expect(ScrapeJob.updateOne).toHaveBeenLastCalledWith(
+      { _id: 'job-1', status: 'cancelled' },
+      { $set: expect.objectContaining({ results: [car] }) }
+    );
+  });
+
+  it('marks the job failed with the crawl error', async () => {
+    vi.mocked(crawlListings).mockResolvedValue({
+      success: false,
+      data: [],
+      pagesVisited: 0,
+      errors: [{ url: crawlJob.url, error: 'Failed to fetch URL: 403 Forbidden' }],
+      skipped: [],
+      error: 'Failed to fetch URL: 403 Forbidden',
+    });
+    vi.mocked(ScrapeJob.updateOne).mockResolvedValue({ matchedCount: 1 } as any);
+
+    const status = await processScrapeJob(crawlJob);
+
+    expect(status).toBe('failed');
+    expect(ScrapeJob.updateOne).toHaveBeenCalledWith(
+      { _id: 'job-1', status: 'running' },
+      { $set: expect.objectContaining({ status: 'failed', error: 'Failed to fetch URL: 403 Forbidden' }) }
+    );
+  });
+
+  it('works through the queue until no job is left', async () => {
+    vi.mocked(ScrapeJob.findOneAndUpdate)
+      .mockResolvedValueOnce(crawlJob)
+      .mockResolvedValueOnce({ ...crawlJob, _id: 'job-2' })
+      .mockResolvedValueOnce(null);
+    vi.mocked(crawlListings).mockResolvedValue({ success: true, data: [car], pagesVisited: 1, errors: [], skipped: [] });
+    vi.mocked(ScrapeJob.updateOne).mockResolvedValue({ matchedCount: 1 } as any);
+
+    const result = await runScrapeWorker();
+
+    expect(result).toEqual({ processed: 2, completed: 2, failed: 0, cancelled: 0 });
+    expect(ScrapeJob.findOneAndUpdate).toHaveBeenCalledWith(
+      { status: 'queued' },
+      expect.objectContaining({ $inc: { attempts: 1 } }),
+      { sort: { createdAt: 1 }, new: true }
+    );
+  });
+});
@@ -0,0 +1,437 @@
+import * as cheerio from 'cheerio';
+import connectDB from './mongodb';
+import ScrapeJob, { IScrapeJob, IScrapeJobProgress, ScrapeJobStatus } from './models/ScrapeJob';
+import { extractMultipleCarData, ScrapedCarData } from './scraper';
+import { getSiteAdapter, PageType } from './scrapers';
+import { getMissingFields } from './scrapers/shared';
+import { crawlListings, CrawlProgressEvent } from './scrapers/crawler';
+import { extractWithPuppeteer } from './scraper-enhanced';
+
+export interface ScrapeOutcome {
+  success: boolean;
+  data?: ScrapedCarData[];
+  error?: string;
+  message?: string;
+}
+
+export interface CrawlProgressState {
+  progress: IScrapeJobProgress;
+  results: ScrapedCarData[];
+  scrapeErrors: { url: string; error: string }[];
+}
+
+/**
+ * A job as sent to the admin scraper page
+ */
+export interface ScrapeJobView {
+  _id: string;
+  url: string;
+  mode: IScrapeJob['mode'];
+  status: ScrapeJobStatus;
+  progress: IScrapeJobProgress;
+  results: ScrapedCarData[];
+  scrapeErrors: { url: string; error: string }[];
+  error?: string;
+  createdByEmail: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface ScrapeWorkerResult {
+  processed: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+}
+
+// How often a running job saves progress and checks it was not cancelled
+const PROGRESS_FLUSH_MS = 2000;
+
+// A running job whose worker has been silent this long is assumed dead
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+// Jobs that keep killing their worker are failed rather than retried forever
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Scrape one URL: detail pages through Puppeteer with the site adapter as
+ * fallback, listing pages through the adapter's card extraction
+ */
+export async function scrapeUrl(url: string): Promise<ScrapeOutcome> {
+  // Check if demo mode is requested
+  if (url.toLowerCase().includes('demo') || url.toLowerCase().includes('test')) {
+    // Demo mode uses extractMultipleCarData which has built-in demo support
+    const multipleResult = await extractMultipleCarData(url);
+    if (multipleResult.success && multipleResult.data && multipleResult.data.length > 0) {
+      return {
+        success: true,
+        data: multipleResult.data,
+        message: `Successfully scraped ${multipleResult.count} car listings`,
+      };
+    }
+  }
+
+  // Fetch HTML to detect page type
+  let html: string;
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 15000);
+
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+      },
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: `Failed to fetch URL: ${response.status} ${response.statusText}`,
+      };
+    }
+
+    html = await response.text();
+  } catch (fetchError) {
+    console.error('Error fetching URL:', fetchError);
+    return {
+      success: false,
+      error: fetchError instanceof Error && fetchError.name === 'AbortError'
+        ? 'Request timed out after 15 seconds'
+        : 'Failed to fetch the URL',
+    };
+  }
+
+  // Parse HTML with cheerio and hand it to the adapter for this site
+  const $ = cheerio.load(html);
+
+  const adapter = getSiteAdapter(url);
+  const pageType = adapter.detectPageType(url, $);
+
+  console.log(`Detected page type: ${pageType} (${adapter.name} adapter)`);
+
+  // Parses the HTML we already fetched rather than requesting the page again
+  const extractDetail = (): { data?: ScrapedCarData; error?: string } => {
+    const data = adapter.extractDetail($, url);
+    if (!data) {
+      return { error: 'Failed to extract car data from the page. The website structure may not be supported.' };
+    }
+    const missingFields = getMissingFields(data);
+    if (missingFields.length > 0) {
+      return { error: `Failed to extract required car data from the page. Missing fields: ${missingFields.join(', ')}` };
+    }
+    return { data };
+  };
+
+  // Route to appropriate extractor based on page type
+  if (pageType === PageType.DETAIL_PAGE) {
+    // Use enhanced Puppeteer scraper for detail pages to get ALL data
+    console.log('Using enhanced Puppeteer scraper for comprehensive data extraction...');
+
+    const enhancedResult = await extractWithPuppeteer(url);
+
+    if (!enhancedResult.success || !enhancedResult.data) {
+      // Fallback to the site adapter if Puppeteer fails
+      console.log('Puppeteer failed, falling back to regular scraper...');
+      const detail = extractDetail();
+
+      if (!detail.data) {
+        return {
+          success: false,
+          error: detail.error || 'Failed to scrape listing data',
+        };
+      }
+
+      return {
+        success: true,
+        data: [detail.data], // Wrap in array for consistency
+        message: 'Listing scraped successfully (basic data only)',
+      };
+    }
+
+    return {
+      success: true,
+      data: [{ ...enhancedResult.data, sourceUrl: url }], // Wrap in array for consistency
+      message: 'Listing scraped successfully with comprehensive data',
+    };
+  } else if (pageType === PageType.LISTING_PAGE) {
+    // Use the adapter's card extraction for listing pages
+    const cars = adapter.extractCards($, url);
+
+    if (cars.length > 0) {
+      return {
+        success: true,
+        data: cars,
+        message: `Successfully scraped ${cars.length} car listings from ${adapter.name}`,
+      };
+    }
+
+    return {
+      success: false,
+      error: 'No car listings found on the page. The page structure might not be supported yet.',
+    };
+  } else {
+    // Unknown page type - try enhanced scraper first
+    console.log('Unknown page type, trying enhanced Puppeteer scraper first');
+
+    const enhancedResult = await extractWithPuppeteer(url);
+    if (enhancedResult.success && enhancedResult.data) {
+      return {
+        success: true,
+        data: [{ ...enhancedResult.data, sourceUrl: url }],
+        message: 'Listing scraped successfully with comprehensive data',
+      };
+    }
+
+    // Try single car extraction
+    const detail = extractDetail();
+    if (detail.data) {
+      return {
+        success: true,
+        data: [detail.data], // Wrap in array for consistency
+        message: 'Listing scraped successfully (basic data only)',
+      };
+    }
+
+    // Fallback to multiple car extraction
+    const cars = adapter.extractCards($, url);
+    if (cars.length > 0) {
+      return {
+        success: true,
+        data: cars,
+        message: `Successfully scraped ${cars.length} car listings from ${adapter.name}`,
+      };
+    }
+
+    // All failed
+    return {
+      success: false,
+      error: enhancedResult.error || detail.error || 'Failed to scrape listing data. The page structure may not be supported.',
+    };
+  }
+}
+
+/**
+ * Jobs an admin can still stop
+ */
+export function canCancelScrapeJob(status: ScrapeJobStatus): boolean {
+  return status === 'queued' || status === 'running';
+}
+
+/**
+ * Jobs that have finished, one way or another, and can be queued again
+ */
+export function canRerunScrapeJob(status: ScrapeJobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Plain, serializable copy of a job document
+ */
+export function toScrapeJobView(job: Pick<IScrapeJob, keyof Omit<ScrapeJobView, '_id'>> & { _id: unknown }): ScrapeJobView {
+  return {
+    _id: String(job._id),
+    url: job.url,
+    mode: job.mode,
+    status: job.status,
+    progress: {
+      pagesVisited: job.progress?.pagesVisited || 0,
+      itemsFound: job.progress?.itemsFound || 0,
+      message: job.progress?.message,
+    },
+    results: job.results || [],
+    scrapeErrors: (job.scrapeErrors || []).map(({ url, error }) => ({ url, error })),
+    error: job.error,
+    createdByEmail: job.createdByEmail,
+    createdAt: new Date(job.createdAt).toISOString(),
+    startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : undefined,
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+  };
+}
+
+/**
+ * Fold a crawler progress event into the job's stored progress
+ */
+export function recordCrawlProgress(state: CrawlProgressState, event: CrawlProgressEvent): CrawlProgressState {
+  switch (event.type) {
+    case 'page':
+      return {
+        ...state,
+        progress: {
+          ...state.progress,
+          pagesVisited: event.page,
+          message: `Page ${event.page}: found ${event.cards} car${event.cards === 1 ? '' : 's'}`,
+        },
+      };
+    case 'item':
+      return {
+        ...state,
+        results: [...state.results, event.car],
+        progress: { ...state.progress, itemsFound: state.results.length + 1 },
+      };
+    case 'skipped':
+      return { ...state, progress: { ...state.progress, message: `Skipped ${event.url}: ${event.reason}` } };
+    case 'error':
+      return { ...state, scrapeErrors: [...state.scrapeErrors, { url: event.url, error: event.error }] };
+  }
+}
+
+/**
+ * Take the oldest queued job, first putting back any job whose worker died
+ */
+export async function claimNextScrapeJob(now: Date = new Date()): Promise<IScrapeJob | null> {
+  await connectDB();
+
+  const staleBefore = new Date(now.getTime() - STALE_JOB_MS);
+  await ScrapeJob.updateMany(
+    { status: 'running', heartbeatAt: { $lt: staleBefore }, attempts: { $gte: MAX_ATTEMPTS } },
+    { $set: { status: 'failed', error: 'Worker stopped responding', finishedAt: now } }
+  );
+  await ScrapeJob.updateMany(
+    { status: 'running', heartbeatAt: { $lt: staleBefore } },
+    { $set: { status: 'queued' } }
+  );
+
+  return ScrapeJob.findOneAndUpdate(
+    { status: 'queued' },
+    {
+      $set: {
+        status: 'running',
+        startedAt: now,
+        heartbeatAt: now,
+        progress: { pagesVisited: 0, itemsFound: 0, message: 'Starting' },
+        results: [],
+        scrapeErrors: [],
+      },
+      $unset: { error: 1, finishedAt: 1 },
+      $inc: { attempts: 1 },
+    },
+    { sort: { createdAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Run a claimed job to completion. Progress is saved every couple of
+ * seconds; if an admin cancels the job meanwhile the crawl is aborted and
+ * the partial results kept.
+ */
+export async function processScrapeJob(job: IScrapeJob): Promise<'completed' | 'failed' | 'cancelled'> {
+  const controller = new AbortController();
+  let state: CrawlProgressState = {
+    progress: { pagesVisited: 0, itemsFound: 0, message: 'Starting' },
+    results: [],
+    scrapeErrors: [],
+  };
+
+  // Saving only while the job is still running doubles as the cancellation check
+  const flush = async () => {
+    const saved = await ScrapeJob.updateOne(
+      { _id: job._id, status: 'running' },
+      { $set: { progress: state.progress, heartbeatAt: new Date() } }
+    );
+    if (saved.matchedCount === 0) {
+      controller.abort();
+    }
+  };
+  const timer = setInterval(() => {
+    flush().catch((error) => console.error('Error saving scrape job progress:', error));
+  }, PROGRESS_FLUSH_MS);
+
+  let outcome: ScrapeOutcome;
+  try {
+    if (job.mode === 'crawl') {
+      const result = await crawlListings(job.url, {
+        ...job.crawlOptions,
+        signal: controller.signal,
+        onProgress: (event) => {
+          state = recordCrawlProgress(state, event);
+        },
+      });
+      outcome = {
+        success: result.success,
+        data: result.data,
+        error: result.error,
+        message: `Crawled ${result.pagesVisited} page${result.pagesVisited === 1 ? '' : 's'}, found ${result.data.length} car${result.data.length === 1 ? '' : 's'}`,
+      };
+      state = { ...state, scrapeErrors: result.errors };
+    } else {
+      state = { ...state, progress: { ...state.progress, message: 'Scraping page' } };
+      outcome = await scrapeUrl(job.url);
+      state = { ...state, progress: { ...state.progress, pagesVisited: 1 } };
+    }
+  } catch (error) {
+    console.error('Error running scrape job:', error);
+    outcome = { success: false, error: 'An error occurred while scraping' };
+  } finally {
+    clearInterval(timer);
+  }
+
+  const results = outcome.data || state.results;
+  const finished = {
+    results,
+    scrapeErrors: state.scrapeErrors,
+    progress: {
+      ...state.progress,
+      itemsFound: results.length,
+      message: outcome.success ? outcome.message : outcome.error,
+    },
+    finishedAt: new Date(),
+  };
+  const status = outcome.success ? 'completed' : 'failed';
+
+  const saved = await ScrapeJob.updateOne(
+    { _id: job._id, status: 'running' },
+    { $set: { ...finished, status, ...(outcome.success ? {} : { error: outcome.error }) } }
+  );
+
+  if (saved.matchedCount === 0) {
+    // Cancelled while running; keep whatever was collected
+    await ScrapeJob.updateOne(
+      { _id: job._id, status: 'cancelled' },
+      { $set: { ...finished, progress: { ...finished.progress, message: 'Cancelled' } } }
+    );
+    return 'cancelled';
+  }
+
+  return status;
+}
+
+/**
+ * Work through queued jobs one at a time until the queue is empty or
+ * `maxJobs` have been processed
+ */
+export async function runScrapeWorker(maxJobs = 5): Promise<ScrapeWorkerResult> {
+  const result: ScrapeWorkerResult = { processed: 0, completed: 0, failed: 0, cancelled: 0 };
+
+  while (result.processed < maxJobs) {
+    const job = await claimNextScrapeJob();
+    if (!job) break;
+
+    const status = await processScrapeJob(job);
+    result.processed++;
+    result[status]++;
+  }
+
+  return result;
+}
+
+let inProcessWorker: Promise<unknown> | null = null;
+
+/**
+ * Start draining the queue in this server process unless it already is.
+ * The cron route picks up anything left when the process cannot run
+ * background work.
+ */
+export function startScrapeWorker(): void {
+  if (inProcessWorker) return;
+
+  inProcessWorker = runScrapeWorker(Infinity)
+    .catch((error) => console.error('Error in scrape worker:', error))
+    .finally(() => {
+      inProcessWorker = null;
+    });
+}
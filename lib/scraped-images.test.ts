@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock image storage
+vi.mock('./storage', () => ({
+  storeImage: vi.fn(),
+}));
+
+import { storeImage } from './storage';
+import { copyScrapedImage, copyScrapedImages, fetchScrapedImages, sniffImageType } from './scraped-images';
+import { MAX_FILE_SIZE } from './validation';
+
+const JPEG_HEADER = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const WEBP_HEADER = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WEBP')]);
+
+const imageFetcher = (body: Buffer, headers: Record<string, string> = {}) =>
+  vi.fn(async () => new Response(new Uint8Array(body), { status: 200, headers: { 'Content-Type': 'image/jpeg', ...headers } }));
+
+describe('Scraped Image Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 54: Copied images are typed by content, not by header
+   */
+  it('Property 54: Scraped image copy - image type comes from the file content', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(
+          { header: JPEG_HEADER, type: 'image/jpeg' },
+          { header: PNG_HEADER, type: 'image/png' },
+          { header: WEBP_HEADER, type: 'image/webp' }
+        ),
+        fc.uint8Array({ maxLength: 64 }),
+        ({ header, type }, rest) => {
+          expect(sniffImageType(Buffer.concat([header, Buffer.from(rest)]))).toBe(type);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 54: Scraped image copy - anything else is not an image', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 64 }), (text) => {
+        fc.pre(!text.startsWith('RIFF'));
+        expect(sniffImageType(Buffer.from(`<html>${text}`))).toBeNull();
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Scraped Image Copy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storeImage).mockResolvedValue({ key: 'new-file', url: '/api/images/new-file' });
+  });
+
+  it('stores images with their source and content hash in the metadata', async () => {
+    const photo = Buffer.concat([JPEG_HEADER, Buffer.from('photo')]);
+    const result = await copyScrapedImage(
+      'https://images10.cardekho.com/used-cars/swift-front.jpg',
+      { sourcePage: 'https://www.cardekho.com/used-car-details/swift.htm', sourceSite: 'CarDekho' },
+      imageFetcher(photo)
+    );
+
+    expect(result).toEqual({
+      url: '/api/images/new-file',
+      buffer: photo,
+      sourceUrl: 'https://images10.cardekho.com/used-cars/swift-front.jpg',
+    });
+    expect(storeImage).toHaveBeenCalledWith(
+      photo,
+      expect.stringMatching(/^scraped-[0-9a-f]{16}\.jpg$/),
+      expect.objectContaining({
+        sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+        source: 'scraped',
+        sourceUrl: 'https://images10.cardekho.com/used-cars/swift-front.jpg',
+        sourcePage: 'https://www.cardekho.com/used-car-details/swift.htm',
+        sourceSite: 'CarDekho',
+      })
+    );
+  });
+
+  it('applies the upload rules to downloaded images', async () => {
+    await expect(
+      copyScrapedImage('https://cdn.example.com/page', {}, imageFetcher(Buffer.from('<html></html>')))
+    ).rejects.toThrow('Invalid file type');
+
+    await expect(
+      copyScrapedImage('https://cdn.example.com/huge.jpg', {}, imageFetcher(Buffer.concat([JPEG_HEADER, Buffer.alloc(MAX_FILE_SIZE)])))
+    ).rejects.toThrow('File size must be less than 5MB');
+
+    expect(storeImage).not.toHaveBeenCalled();
+  });
+
+  it('skips failed images and keeps one copy of repeated photos', async () => {
+    const fetcher = vi.fn(async (url: string) =>
+      url.endsWith('missing.jpg')
+        ? new Response('', { status: 404 })
+        : new Response(new Uint8Array(Buffer.concat([JPEG_HEADER, Buffer.from('same photo')])), { status: 200 })
+    );
+    // Storage hands back the earlier copy for the same content
+    vi.mocked(storeImage).mockResolvedValue({ key: 'first', url: '/api/images/first' });
+
+    const result = await copyScrapedImages(
+      ['https://cdn.example.com/front.jpg', 'https://cdn.example.com/missing.jpg', 'https://cdn.example.com/front-2.jpg'],
+      {},
+      fetcher
+    );
+
+    expect(result.images.map((image) => image.url)).toEqual(['/api/images/first']);
+    expect(result.errors).toEqual(['https://cdn.example.com/missing.jpg: Failed to fetch image: 404']);
+  });
+
+  it('downloads and checks images without storing them', async () => {
+    const photo = Buffer.concat([JPEG_HEADER, Buffer.from('photo')]);
+    const result = await fetchScrapedImages(
+      ['https://cdn.example.com/front.jpg', 'https://cdn.example.com/front-copy.jpg'],
+      imageFetcher(photo)
+    );
+
+    expect(result.images).toEqual([
+      {
+        buffer: photo,
+        sourceUrl: 'https://cdn.example.com/front.jpg',
+        type: 'image/jpeg',
+        sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+      },
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(storeImage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import { storeImage } from './storage';
+import { MAX_FILE_SIZE, validateImageFile } from './validation';
+import type { Fetcher } from './scrapers/types';
+
+/**
+ * Where a copied image came from, kept in its stored metadata
+ */
+export interface ImageAttribution {
+  sourcePage?: string;
+  sourceSite?: string;
+}
+
+/**
+ * A downloaded image that passed the upload rules, not yet stored
+ */
+export interface FetchedImage {
+  buffer: Buffer;
+  sourceUrl: string;
+  type: string;
+  sha256: string;
+}
+
+export interface CopiedImage {
+  url: string;
+  buffer: Buffer;
+  sourceUrl: string;
+}
+
+const IMAGE_FETCH_TIMEOUT_MS = 15000;
+
+/**
+ * Image type from the file's magic bytes; sites often send the wrong Content-Type
+ */
+export function sniffImageType(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+async function downloadImage(url: string, fetcher: Fetcher): Promise<Buffer> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), IMAGE_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetcher(url, {
+      signal: controller.signal,
+      headers: { 'Accept': 'image/webp,image/jpeg,image/png,image/*;q=0.8' },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status}`);
+    }
+
+    // Refuse oversized files before reading them when the server says how big they are
+    const declaredSize = Number(response.headers.get('content-length'));
+    if (declaredSize > MAX_FILE_SIZE) {
+      throw new Error(`File size must be less than ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Download a scraped image and check it against the upload rules
+ * @throws Error if the image cannot be downloaded or fails upload validation
+ */
+export async function fetchScrapedImage(url: string, fetcher: Fetcher = fetch): Promise<FetchedImage> {
+  const buffer = await downloadImage(url, fetcher);
+
+  const type = sniffImageType(buffer) || 'application/octet-stream';
+  const validation = validateImageFile({ type, size: buffer.byteLength });
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  return { buffer, sourceUrl: url, type, sha256: createHash('sha256').update(buffer).digest('hex') };
+}
+
+/**
+ * Download a listing's scraped images, skipping any that fail.
+ * Repeats of a photo under different source URLs are kept once.
+ * @returns Downloaded images in their original order, plus a message per skipped image
+ */
+export async function fetchScrapedImages(
+  urls: string[],
+  fetcher: Fetcher = fetch
+): Promise<{ images: FetchedImage[]; errors: string[] }> {
+  const images: FetchedImage[] = [];
+  const errors: string[] = [];
+
+  for (const url of urls) {
+    try {
+      const image = await fetchScrapedImage(url, fetcher);
+      if (!images.some((fetched) => fetched.sha256 === image.sha256)) {
+        images.push(image);
+      }
+    } catch (error) {
+      errors.push(`${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return { images, errors };
+}
+
+/**
+ * Store a downloaded image, reusing the stored copy when the same content
+ * was copied before
+ */
+export async function storeScrapedImage(image: FetchedImage, attribution: ImageAttribution = {}): Promise<CopiedImage> {
+  const metadata: Record<string, string> = { sha256: image.sha256, source: 'scraped', sourceUrl: image.sourceUrl };
+  if (attribution.sourcePage) metadata.sourcePage = attribution.sourcePage;
+  if (attribution.sourceSite) metadata.sourceSite = attribution.sourceSite;
+
+  const { url } = await storeImage(image.buffer, `scraped-${image.sha256.slice(0, 16)}.${EXTENSIONS[image.type]}`, metadata);
+  return { url, buffer: image.buffer, sourceUrl: image.sourceUrl };
+}
+
+/**
+ * Download a scraped image and store it
+ * @returns The local image URL and the downloaded bytes
+ * @throws Error if the image cannot be downloaded or fails upload validation
+ */
+export async function copyScrapedImage(
+  url: string,
+  attribution: ImageAttribution = {},
+  fetcher: Fetcher = fetch
+): Promise<CopiedImage> {
+  return storeScrapedImage(await fetchScrapedImage(url, fetcher), attribution);
+}
+
+/**
+ * Copy a listing's scraped images into storage, skipping any that fail.
+ * Images are copied one at a time so repeats of a photo are stored once.
+ * @returns Copied images in their original order, plus a message per skipped image
+ */
+export async function copyScrapedImages(
+  urls: string[],
+  attribution: ImageAttribution = {},
+  fetcher: Fetcher = fetch
+): Promise<{ images: CopiedImage[]; errors: string[] }> {
+  const fetched = await fetchScrapedImages(urls, fetcher);
+  const images: CopiedImage[] = [];
+  const errors = [...fetched.errors];
+
+  for (const image of fetched.images) {
+    try {
+      images.push(await storeScrapedImage(image, attribution));
+    } catch (error) {
+      errors.push(`${image.sourceUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return { images, errors };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { normalizeScrapedCar } from './scraped-import';
+import { scrapedImportRowSchema } from './validation';
+import { CITY_STATES, VEHICLE_BRANDS } from './vehicle-catalog';
+import type { ScrapedCarData } from './scrapers/types';
+
+const scraped: ScrapedCarData = {
+  images: ['https://images10.cardekho.com/used-cars/swift-4a1b2c3d-front.jpg'],
+  carName: '2019 Maruti Swift VXI',
+  model: 'Maruti Swift VXI',
+  price: 550000,
+  ownerName: 'Rohit Sharma',
+  yearOfPurchase: 2019,
+  kmDriven: 35120,
+  numberOfOwners: 1,
+  city: 'delhi',
+  sourceUrl: 'https://www.cardekho.com/used-car-details/used-maruti-swift-vxi-2019-cars-delhi_4a1b2c3d.htm',
+};
+
+describe('Scraped Import Property Tests', () => {
+  const catalogCarArb = fc
+    .constantFrom(...VEHICLE_BRANDS)
+    .chain((brand) =>
+      fc.record({
+        brand: fc.constant(brand),
+        alias: fc.constantFrom(...brand.aliases),
+        model: fc.constantFrom(...brand.models),
+        variant: fc.constantFrom('LXI', 'VXI', 'ZXI Plus', 'SX (O)', 'Asta'),
+        year: fc.integer({ min: 2005, max: 2024 }),
+      })
+    );
+
+  /**
+   * Feature: drivesphere-marketplace, Property 53: Import normalization maps known names to the catalog
+   */
+  it('Property 53: Import normalization - catalog brands and models are recognized with confidence', () => {
+    fc.assert(
+      fc.property(catalogCarArb, ({ brand, alias, model, variant, year }) => {
+        const { row, lowConfidence } = normalizeScrapedCar({
+          ...scraped,
+          carName: `${year} ${alias.toUpperCase()} ${model} ${variant}`,
+          model: `${model} ${variant}`,
+        });
+
+        expect(row.brand).toBe(brand.name);
+        // A longer catalog model may contain the generated one, e.g. "Nexon EV" and "EV"
+        expect(row.model.toLowerCase()).toContain(model.toLowerCase());
+        expect(lowConfidence).not.toContain('brand');
+        expect(lowConfidence).not.toContain('model');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 53: Import normalization - known cities come with their state', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...Object.keys(CITY_STATES)), (city) => {
+        const { row, lowConfidence } = normalizeScrapedCar({ ...scraped, city: `  ${city.toUpperCase()} ` });
+
+        expect(row).toMatchObject(CITY_STATES[city]);
+        expect(lowConfidence).not.toContain('city');
+        expect(lowConfidence).not.toContain('state');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 53: Import normalization - guesses are always marked low confidence', () => {
+    fc.assert(
+      fc.property(
+        fc.stringMatching(/^[A-Z][a-z]{3,8}$/),
+        fc.stringMatching(/^[A-Z][a-z]{3,8}$/),
+        (brandName, city) => {
+          fc.pre(!VEHICLE_BRANDS.some((brand) => brand.aliases.includes(brandName.toLowerCase())));
+          fc.pre(!CITY_STATES[city.toLowerCase()]);
+
+          const { row, lowConfidence } = normalizeScrapedCar({
+            ...scraped,
+            carName: `${brandName} Roadster`,
+            model: 'Roadster',
+            city,
+          });
+
+          expect(row.brand).toBe(brandName);
+          expect(row.state).toBe('');
+          expect(lowConfidence).toEqual(
+            expect.arrayContaining(['brand', 'model', 'fuelType', 'transmission', 'city', 'state'])
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Scraped Import', () => {
+  it('normalizes a CarDekho detail page', () => {
+    const { row, lowConfidence } = normalizeScrapedCar(scraped);
+
+    expect(row).toMatchObject({
+      brand: 'Maruti Suzuki',
+      model: 'Swift',
+      variant: 'VXI',
+      city: 'Delhi',
+      state: 'Delhi',
+      yearOfOwnership: 2019,
+      sourceUrl: scraped.sourceUrl,
+    });
+    expect(lowConfidence).toEqual(['fuelType', 'transmission']);
+    expect(scrapedImportRowSchema.safeParse(row).success).toBe(true);
+  });
+
+  it('reads fuel and transmission from the title', () => {
+    const diesel = normalizeScrapedCar({ ...scraped, carName: 'Hyundai Creta 1.6 CRDi SX AT', model: 'Creta 1.6 CRDi SX AT' });
+    expect(diesel.row).toMatchObject({ brand: 'Hyundai', model: 'Creta', fuelType: 'diesel', transmission: 'automatic' });
+    expect(diesel.lowConfidence).not.toContain('fuelType');
+    expect(diesel.lowConfidence).not.toContain('transmission');
+
+    const electric = normalizeScrapedCar({ ...scraped, carName: 'Tata Nexon EV XZ Plus', model: 'Nexon EV XZ Plus' });
+    expect(electric.row).toMatchObject({ model: 'Nexon EV', variant: 'XZ Plus', fuelType: 'electric' });
+  });
+
+  it('leaves rows with missing data for the admin to fix', () => {
+    const { row, lowConfidence } = normalizeScrapedCar({ ...scraped, city: 'Somewhere', price: 0 });
+
+    expect(lowConfidence).toEqual(expect.arrayContaining(['price', 'state']));
+    expect(scrapedImportRowSchema.safeParse(row).success).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+import type { ScrapedCarData } from './scrapers/types';
+import type { ScrapedImportRow } from './validation';
+import { CITY_STATES, VEHICLE_BRANDS } from './vehicle-catalog';
+
+export type ImportField = keyof Omit<ScrapedImportRow, 'images' | 'sourceUrl'>;
+
+/**
+ * A scraped car mapped onto listing fields, with the fields that were
+ * guessed rather than read from the source
+ */
+export interface NormalizedImportRow {
+  row: ScrapedImportRow;
+  lowConfidence: ImportField[];
+}
+
+const FUEL_KEYWORDS: [ScrapedImportRow['fuelType'], RegExp][] = [
+  ['electric', /\b(ev|electric)\b/i],
+  ['cng', /\bcng\b/i],
+  ['diesel', /\b(diesel|crdi|tdi|dicor|ddis|mhawk)\b/i],
+  ['petrol', /\b(petrol|kappa|vtvt|i-?vtec)\b/i],
+];
+
+const AUTOMATIC_KEYWORDS = /\b(at|amt|automatic|cvt|dct|dsg|ivt|tc)\b/i;
+const MANUAL_KEYWORDS = /\b(mt|manual)\b/i;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsWord(text: string, phrase: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegex(phrase.toLowerCase())}($|[^a-z0-9])`).test(text.toLowerCase());
+}
+
+function removeWord(text: string, phrase: string): string {
+  return text.replace(new RegExp(`(^|\\s)${escapeRegex(phrase)}(?=\\s|$)`, 'i'), ' ');
+}
+
+function titleCase(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/(^|[\s-])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+/**
+ * Longest phrase from the list that appears as a whole word in the text
+ */
+function longestMatch(text: string, phrases: string[]): string | undefined {
+  return phrases
+    .filter((phrase) => containsWord(text, phrase))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Map a scraped car onto listing fields using the brand/model dictionaries,
+ * the city→state table and fuel/transmission keywords in the title
+ */
+export function normalizeScrapedCar(data: ScrapedCarData): NormalizedImportRow {
+  const lowConfidence: ImportField[] = [];
+  // Titles often start with the year, e.g. "2019 Maruti Swift VXI"
+  const title = `${data.carName || ''} ${data.model || ''}`.replace(/\b(19|20)\d{2}\b/g, ' ');
+
+  const brandEntry = VEHICLE_BRANDS.find((entry) => longestMatch(title, entry.aliases));
+  let brand: string;
+  if (brandEntry) {
+    brand = brandEntry.name;
+  } else {
+    brand = titleCase(title.trim().split(/\s+/)[0] || '');
+    lowConfidence.push('brand');
+  }
+
+  // The variant is whatever follows the brand and model in the model text
+  let remainder = (data.model || data.carName || '').replace(/\b(19|20)\d{2}\b/g, ' ');
+  for (const alias of brandEntry?.aliases || [brand]) {
+    remainder = removeWord(remainder, alias);
+  }
+
+  const modelName = brandEntry && longestMatch(title, brandEntry.models);
+  let model: string;
+  if (modelName) {
+    model = modelName;
+    remainder = removeWord(remainder, modelName);
+  } else {
+    const [first = '', ...rest] = remainder.trim().split(/\s+/);
+    model = first;
+    remainder = rest.join(' ');
+    lowConfidence.push('model');
+  }
+
+  let variant = remainder.replace(/\s+/g, ' ').trim();
+  if (!variant) {
+    variant = 'Standard';
+    lowConfidence.push('variant');
+  }
+
+  const fuelType = FUEL_KEYWORDS.find(([, pattern]) => pattern.test(title))?.[0];
+  if (!fuelType) lowConfidence.push('fuelType');
+
+  const automatic = AUTOMATIC_KEYWORDS.test(title);
+  if (!automatic && !MANUAL_KEYWORDS.test(title)) lowConfidence.push('transmission');
+
+  const place = CITY_STATES[(data.city || '').trim().toLowerCase()];
+  if (!place) lowConfidence.push('city', 'state');
+
+  if (!data.yearOfPurchase) lowConfidence.push('yearOfOwnership');
+  if (!data.numberOfOwners) lowConfidence.push('numberOfOwners');
+  if (!data.kmDriven) lowConfidence.push('kmDriven');
+  if (!data.price || data.price <= 0) lowConfidence.push('price');
+
+  return {
+    row: {
+      brand,
+      model,
+      variant,
+      fuelType: fuelType || 'petrol',
+      transmission: automatic ? 'automatic' : 'manual',
+      kmDriven: data.kmDriven || 0,
+      city: place?.city || titleCase(data.city || ''),
+      state: place?.state || '',
+      description: `Imported listing: ${[brand, model, variant === 'Standard' ? '' : variant].filter(Boolean).join(' ')}`,
+      price: data.price || 0,
+      yearOfOwnership: data.yearOfPurchase || new Date().getFullYear(),
+      numberOfOwners: data.numberOfOwners || 1,
+      images: (data.images || []).slice(0, 10),
+      sourceUrl: data.sourceUrl,
+    },
+    lowConfidence,
+  };
+}
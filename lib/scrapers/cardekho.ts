@@ -0,0 +1,160 @@
+import * as cheerio from 'cheerio';
+import { ScrapedCarData, SiteAdapter } from './types';
+import {
+  detectSold,
+  extractCardList,
+  extractDetailImages,
+  extractSellerInfo,
+  extractSpecTable,
+  findNextPageUrl,
+  matchesHost,
+  parsePrice,
+} from './shared';
+import { COMMON_NEXT_PAGE_SELECTORS, detectPageTypeWithPatterns } from './generic';
+
+/**
+ * Extract car data from CarDekho detail page
+ */
+function extractCarDekhoDetail($: cheerio.CheerioAPI, url: string): ScrapedCarData | null {
+  try {
+    // Extract car name from h1 or title
+    const carName = $('h1.car-title, h1[itemprop="name"], h1, .heading').first().text().trim();
+    
+    if (!carName) return null;
+    
+    // Fallback to page text for all extractions (CarDekho uses client-side rendering)
+    const pageText = $('body').text();
+    
+    // Extract price from price section or page text
+    let priceText = $('.price-section, [itemprop="price"], .price, .priceInfo, strong:contains("₹")').first().text().trim();
+    let price = parsePrice(priceText);
+    
+    // If price not found in selectors, search page text for price pattern
+    if (!price || price <= 0) {
+      const priceMatch = pageText.match(/₹\s*[\d,]+(?:\.\d+)?\s*(?:Lakh|Crore)/i);
+      if (priceMatch) {
+        price = parsePrice(priceMatch[0]);
+      }
+    }
+    
+    // Extract images from gallery using helper function
+    const images = extractDetailImages($, url);
+    
+    // Extract specifications from table if available
+    const specs = extractSpecTable($, '.specs-table, .specifications, .car-specs, .overview-list');
+    
+    // Extract seller information
+    const sellerInfo = extractSellerInfo($, '.seller-info, .owner-details, .dealer-info');
+    
+    // Extract year (from specs or page text)
+    let year = specs.yearOfPurchase;
+    if (!year) {
+      // Try to find year in car name first (more reliable for CarDekho)
+      const carNameYearMatch = carName.match(/\b(20\d{2})\b/);
+      if (carNameYearMatch) {
+        year = parseInt(carNameYearMatch[1]);
+      } else {
+        // Fallback to page text
+        const yearMatch = pageText.match(/\b(20\d{2})\b/);
+        year = yearMatch ? parseInt(yearMatch[1]) : new Date().getFullYear();
+      }
+    }
+    
+    // Extract km driven (from specs or page text)
+    let kmDriven = specs.kmDriven || 0;
+    if (!kmDriven) {
+      const kmMatch = pageText.match(/(\d[\d,]*)\s*(?:km|Km|KM)/i);
+      kmDriven = kmMatch ? parseInt(kmMatch[1].replace(/,/g, '')) : 0;
+    }
+    
+    // Extract number of owners (from specs or page text)
+    let numberOfOwners = specs.numberOfOwners || 1;
+    if (!numberOfOwners || numberOfOwners === 1) {
+      const ownerMatch = pageText.toLowerCase().match(/(\d+)(?:st|nd|rd|th)?\s*owner/);
+      numberOfOwners = ownerMatch ? parseInt(ownerMatch[1]) : 1;
+    }
+    
+    // Extract city (from specs, selectors, or URL)
+    let city = specs.city || sellerInfo.city || $('.location, .city, [data-location]').first().text().trim();
+    
+    // Try to extract city from URL if not found
+    if (!city || city === 'Unknown') {
+      const urlCityMatch = url.match(/cars-([A-Za-z]+)_/);
+      if (urlCityMatch) {
+        city = urlCityMatch[1];
+      } else {
+        // Try to find city name in page text (look for "in [City]" pattern)
+        const cityMatch = pageText.match(/in\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?),/);
+        if (cityMatch) {
+          city = cityMatch[1];
+        } else {
+          city = 'Unknown';
+        }
+      }
+    }
+    
+    // Extract model from car name
+    const nameParts = carName.split(' ');
+    const model = nameParts.length > 1 ? nameParts.slice(1).join(' ') : carName;
+    
+    // Use seller name or default
+    const ownerName = sellerInfo.name || 'CarDekho Seller';
+    
+    return {
+      images: images.slice(0, 15),
+      carName,
+      model,
+      price,
+      ownerName,
+      yearOfPurchase: year,
+      kmDriven,
+      numberOfOwners,
+      city,
+      sourceUrl: url,
+    };
+  } catch (error) {
+    console.error('Error extracting CarDekho detail:', error);
+    return null;
+  }
+}
+
+export const carDekhoAdapter: SiteAdapter = {
+  name: 'CarDekho',
+
+  canHandle(url) {
+    return matchesHost(url, ['cardekho.com']);
+  },
+
+  detectPageType(url, $) {
+    return detectPageTypeWithPatterns(url, $, {
+      detail: [
+        /\/used-car-details\//,         // /used-car-details/used-maruti-swift-cars-delhi_abc123.htm
+        /\/used-[^\/]+\/\d+/,           // /used-car-name/12345
+      ],
+      listing: [
+        /\/used-cars\+in\+/,            // /used-cars+in+delhi
+        /\/used-cars\b/,                // /used-cars, /used-cars/maruti
+      ],
+    });
+  },
+
+  extractCards($, url) {
+    return extractCardList($, url, '.gsc_col, .usedCarTile, [data-track-label*="car"], .card, .listing-card', {
+      siteName: 'CarDekho',
+      nameSelector: 'h3, .title, [data-track-label*="title"], a[title]',
+      priceSelector: '.price, [data-price], .amount, strong:contains("₹")',
+      citySelector: '.location, [data-location], .city',
+      ownerName: 'CarDekho Seller',
+    });
+  },
+
+  extractDetail: extractCarDekhoDetail,
+
+  isSold($) {
+    return detectSold($, '.vehicleDetail, .car-detail-page');
+  },
+
+  getNextPageUrl($, url) {
+    return findNextPageUrl($, url, ['.pagination li.next a', ...COMMON_NEXT_PAGE_SELECTORS]);
+  },
+};
@@ -0,0 +1,53 @@
+import { SiteAdapter } from './types';
+import { detectSold, extractCardList, extractDetailData, findNextPageUrl, matchesHost } from './shared';
+import { COMMON_NEXT_PAGE_SELECTORS, detectPageTypeWithPatterns } from './generic';
+
+export const cars24Adapter: SiteAdapter = {
+  name: 'Cars24',
+
+  canHandle(url) {
+    return matchesHost(url, ['cars24.com']);
+  },
+
+  detectPageType(url, $) {
+    return detectPageTypeWithPatterns(url, $, {
+      detail: [
+        /\/buy-used-[^\/]+\/\d+/,                  // /buy-used-car-name/12345
+        /\/buy-used-[a-z0-9-]+-\d{6,}\/?/,         // /buy-used-honda-city-2019-cars-new-delhi-10012345678/
+      ],
+      listing: [
+        /\/buy-used-cars?(?:-[a-z-]+)?\/?(?:[?#]|$)/, // /buy-used-cars-new-delhi/, /buy-used-car?sort=
+      ],
+    });
+  },
+
+  extractCards($, url) {
+    return extractCardList($, url, '.car-card, [data-car-id], .vehicle-card, .listing-card, article', {
+      siteName: 'Cars24',
+      nameSelector: 'h1, h2, h3, .car-name, .vehicle-name, [data-car-name]',
+      priceSelector: '.price, [data-price], .amount, strong',
+      citySelector: '.location, .city, [data-location]',
+      ownerName: 'Cars24 Seller',
+    });
+  },
+
+  extractDetail($, url) {
+    return extractDetailData($, url, {
+      siteName: 'Cars24',
+      nameSelector: 'h1, h2.car-name, h1.car-title, [data-car-name]',
+      priceSelector: '.price, [data-price], .amount, .car-price',
+      specSelector: '.specifications, .car-specs, .details-table, .overview',
+      sellerSelector: '.seller-info, .dealer-details',
+      citySelector: '.location, .city, [data-location]',
+      ownerName: 'Cars24 Seller',
+    });
+  },
+
+  isSold($) {
+    return detectSold($, '.car-detail, .vehicle-detail, [data-testid="car-detail"]');
+  },
+
+  getNextPageUrl($, url) {
+    return findNextPageUrl($, url, COMMON_NEXT_PAGE_SELECTORS);
+  },
+};
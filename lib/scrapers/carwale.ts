@@ -0,0 +1,53 @@
+import { SiteAdapter } from './types';
+import { detectSold, extractCardList, extractDetailData, findNextPageUrl, matchesHost } from './shared';
+import { COMMON_NEXT_PAGE_SELECTORS, detectPageTypeWithPatterns } from './generic';
+
+export const carWaleAdapter: SiteAdapter = {
+  name: 'CarWale',
+
+  canHandle(url) {
+    return matchesHost(url, ['carwale.com']);
+  },
+
+  detectPageType(url, $) {
+    return detectPageTypeWithPatterns(url, $, {
+      detail: [
+        /\/used\/[^\/]+\/[^\/]+\/[^\/]*\d{4,}/,   // /used/delhi/hyundai-creta/2020-sx-d8675309/
+      ],
+      listing: [
+        /\/used\/[^\/?#]+\/?(?:[?#]|$)/,          // /used/delhi/
+        /\/used\/?(?:[?#]|$)/,                     // /used/
+      ],
+    });
+  },
+
+  extractCards($, url) {
+    return extractCardList($, url, '.used-car-item, .car-info, .listing-item, [data-vehicle-id], .vehicle-card', {
+      siteName: 'CarWale',
+      nameSelector: '.car-name, .vehicle-name, h3, .title, a',
+      priceSelector: '.price, .car-price, .amount, [data-price]',
+      citySelector: '.location, .city, [data-location]',
+      ownerName: 'CarWale Seller',
+    });
+  },
+
+  extractDetail($, url) {
+    return extractDetailData($, url, {
+      siteName: 'CarWale',
+      nameSelector: 'h1.car-name, h1.vehicle-name, h1.used-car-name, h1',
+      priceSelector: '.price, .car-price, .used-car-price, [data-price]',
+      specSelector: '.specifications, .spec-table, .car-details, .overview-section',
+      sellerSelector: '.seller-details, .dealer-info, .owner-info',
+      citySelector: '.location, .city, [data-location]',
+      ownerName: 'CarWale Seller',
+    });
+  },
+
+  isSold($) {
+    return detectSold($, '.used-car-detail, .vehicle-detail, [data-testid="used-car-detail"]');
+  },
+
+  getNextPageUrl($, url) {
+    return findNextPageUrl($, url, ['a[data-testid="pagination-next"]', ...COMMON_NEXT_PAGE_SELECTORS]);
+  },
+};
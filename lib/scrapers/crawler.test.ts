@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { crawlListings } from './crawler';
+import { createHostLimiter } from './host-limiter';
+import { isAllowedByRobots, parseRobotsTxt } from './robots';
+
+const SITE = 'https://www.autobazaar.example';
+
+function listingUrl(page: number): string {
+  return page === 1 ? `${SITE}/listings` : `${SITE}/listings?page=${page}`;
+}
+
+function carId(page: number, index: number): number {
+  return page * 100 + index;
+}
+
+function listingHtml(page: number, pages: number, cardsPerPage: number): string {
+  const cards = Array.from({ length: cardsPerPage }, (_, index) => {
+    const id = carId(page, index);
+    return `
+      <div class="car-card">
+        <a href="/vehicle/${id}"><img src="/photos/${id}.jpg" alt="Car ${id}"><h2>Kia Seltos ${id}</h2></a>
+        <span class="price">₹13.5 Lakh</span>
+        <span class="city">Pune</span>
+      </div>`;
+  }).join('');
+  const next = page < pages ? `<a rel="next" href="${listingUrl(page + 1)}">Next page</a>` : '';
+  return `<html><body><div class="results">${cards}</div><div class="pagination">${next}</div></body></html>`;
+}
+
+function detailHtml(id: number): string {
+  return `
+    <html><body><div class="car-detail">
+      <h1 class="car-title">Kia Seltos ${id}</h1>
+      <div class="price">₹13.5 Lakh</div>
+      <div class="car-gallery">
+        <img src="/photos/${id}.jpg" alt="Kia Seltos">
+        <img src="/photos/${id}-rear.jpg" alt="Kia Seltos rear">
+      </div>
+      <table class="specs"><tr><td>Model Year</td><td>2021</td></tr></table>
+    </div></body></html>`;
+}
+
+/**
+ * Serve a paginated fake site and record every URL requested
+ */
+function createSite(pages: number, cardsPerPage: number) {
+  const requested: string[] = [];
+  const fetcher = async (url: string) => {
+    requested.push(url);
+    for (let page = 1; page <= pages; page++) {
+      if (url === listingUrl(page)) {
+        return new Response(listingHtml(page, pages, cardsPerPage), { status: 200 });
+      }
+    }
+    const detail = url.match(/\/vehicle\/(\d+)$/);
+    if (detail) {
+      return new Response(detailHtml(Number(detail[1])), { status: 200 });
+    }
+    return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+  };
+  return { fetcher, requested };
+}
+
+describe('Scraper Crawler Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 49: Crawling respects its budgets and robots rules
+   */
+  it('Property 49: Crawling - page and item budgets are never exceeded', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: 1, max: 30 }),
+        fc.boolean(),
+        async (pages, cardsPerPage, maxPages, maxItems, followDetails) => {
+          const site = createSite(pages, cardsPerPage);
+          const result = await crawlListings(listingUrl(1), {
+            maxPages,
+            maxItems,
+            followDetails,
+            delayMs: 0,
+            fetcher: site.fetcher,
+          });
+
+          const reachable = Math.min(pages, maxPages) * cardsPerPage;
+          expect(result.data).toHaveLength(Math.min(maxItems, reachable));
+          expect(result.pagesVisited).toBeLessThanOrEqual(maxPages);
+          expect(new Set(site.requested).size).toBe(site.requested.length);
+          expect(result.errors).toEqual([]);
+
+          const detailRequests = site.requested.filter((url) => url.includes('/vehicle/'));
+          expect(detailRequests).toHaveLength(followDetails ? result.data.length : 0);
+          result.data.forEach((car) => {
+            expect(car.sourceUrl).toMatch(/\/vehicle\/\d+$/);
+            expect(car.images).toHaveLength(followDetails ? 2 : 1);
+          });
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property 49: Crawling - URLs disallowed by robots.txt are never fetched', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 5 }),
+        fc.integer({ min: 1, max: 4 }),
+        fc.integer({ min: 2, max: 5 }),
+        async (pages, cardsPerPage, blockedPage) => {
+          const site = createSite(pages, cardsPerPage);
+          const robotsTxt = [
+            'User-agent: *',
+            `Disallow: /listings?page=${blockedPage}`,
+            'Disallow: /vehicle/',
+            `Allow: /vehicle/${carId(1, 0)}$`,
+          ].join('\n');
+
+          const result = await crawlListings(listingUrl(1), {
+            maxPages: 10,
+            robotsTxt,
+            delayMs: 0,
+            fetcher: site.fetcher,
+          });
+
+          const visiblePages = Math.min(pages, blockedPage - 1);
+          expect(result.pagesVisited).toBe(visiblePages);
+          expect(result.data).toHaveLength(visiblePages * cardsPerPage);
+          expect(site.requested.filter((url) => url.includes('/vehicle/'))).toEqual([
+            `${SITE}/vehicle/${carId(1, 0)}`,
+          ]);
+          expect(site.requested).not.toContain(listingUrl(blockedPage));
+          expect(result.skipped.filter((entry) => entry.url.includes('/vehicle/'))).toHaveLength(
+            result.data.length - 1
+          );
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property 49: Crawling - per-host concurrency is never exceeded', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 4 }),
+        fc.array(fc.constantFrom('a.example', 'b.example'), { minLength: 1, maxLength: 12 }),
+        async (concurrency, hosts) => {
+          const limiter = createHostLimiter({ concurrency, delayMs: 0 });
+          const active = new Map<string, number>();
+          let peak = 0;
+
+          await Promise.all(
+            hosts.map((host, index) =>
+              limiter.run(`https://${host}/page/${index}`, async () => {
+                active.set(host, (active.get(host) || 0) + 1);
+                peak = Math.max(peak, active.get(host)!);
+                await new Promise((resolve) => setTimeout(resolve, 1));
+                active.set(host, active.get(host)! - 1);
+              })
+            )
+          );
+
+          expect(peak).toBeLessThanOrEqual(concurrency);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('Scraper Crawler', () => {
+  it('stops when pagination loops back to a visited page', async () => {
+    const requested: string[] = [];
+    const html = listingHtml(1, 1, 2).replace(
+      '<div class="pagination"></div>',
+      `<div class="pagination"><a rel="next" href="${listingUrl(1)}">Next page</a></div>`
+    );
+    const result = await crawlListings(listingUrl(1), {
+      followDetails: false,
+      delayMs: 0,
+      fetcher: async (url) => {
+        requested.push(url);
+        return new Response(html, { status: 200 });
+      },
+    });
+
+    expect(result.pagesVisited).toBe(1);
+    expect(requested).toEqual([listingUrl(1)]);
+  });
+
+  it('spaces requests to one host by the configured delay', async () => {
+    const limiter = createHostLimiter({ concurrency: 2, delayMs: 30 });
+    const starts: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map((index) =>
+        limiter.run(`https://a.example/${index}`, async () => {
+          starts.push(Date.now());
+        })
+      )
+    );
+
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(25);
+    expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(25);
+  });
+
+  it('reports a failed first page as the crawl error', async () => {
+    const site = createSite(1, 1);
+    const result = await crawlListings(`${SITE}/missing`, { delayMs: 0, fetcher: site.fetcher });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('404');
+  });
+});
+
+describe('robots.txt rules', () => {
+  const robotsTxt = `
+    # Rules for everyone
+    User-agent: *
+    Disallow: /private
+    Crawl-delay: 2
+
+    User-agent: DriveSphereBot
+    User-agent: OtherBot
+    Disallow: /search
+    Allow: /search/used-cars
+    Disallow: /*.pdf$
+  `;
+
+  it('uses the group for our user agent over the wildcard group', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'DriveSphereBot/1.0');
+    expect(rules.disallow).toEqual(['/search', '/*.pdf$']);
+    expect(rules.crawlDelay).toBeUndefined();
+    expect(isAllowedByRobots(rules, 'https://site.example/private/page')).toBe(true);
+  });
+
+  it('falls back to the wildcard group for other agents', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'SomeoneElse');
+    expect(rules.crawlDelay).toBe(2);
+    expect(isAllowedByRobots(rules, 'https://site.example/private/page')).toBe(false);
+  });
+
+  it('lets the longest matching rule win and supports wildcards', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'DriveSphereBot');
+    expect(isAllowedByRobots(rules, 'https://site.example/search?q=swift')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://site.example/search/used-cars?page=2')).toBe(true);
+    expect(isAllowedByRobots(rules, 'https://site.example/brochures/swift.pdf')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://site.example/brochures/swift.pdf?v=2')).toBe(true);
+  });
+});
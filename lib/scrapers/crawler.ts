@@ -0,0 +1,214 @@
+import * as cheerio from 'cheerio';
+import { Fetcher, PageType, ScrapedCarData } from './types';
+import { getSiteAdapter } from './index';
+import { createHostLimiter } from './host-limiter';
+import { isAllowedByRobots, parseRobotsTxt, RobotsRules } from './robots';
+
+/** Token matched against User-agent groups in supplied robots.txt rules */
+export const CRAWLER_USER_AGENT = 'DriveSphereBot';
+
+export const CRAWL_DEFAULTS = {
+  maxPages: 5,
+  maxItems: 100,
+  followDetails: true,
+  concurrency: 2,
+  delayMs: 1000,
+};
+
+const PAGE_TIMEOUT_MS = 15000;
+const MAX_PAGE_MB = 10;
+
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+export interface CrawlOptions {
+  maxPages?: number;
+  maxItems?: number;
+  /** Open each card's own page to fill in images and specs */
+  followDetails?: boolean;
+  /** Requests in flight per host */
+  concurrency?: number;
+  /** Minimum gap between requests to one host */
+  delayMs?: number;
+  /** robots.txt content for the site being crawled */
+  robotsTxt?: string;
+  fetcher?: Fetcher;
+  onProgress?: (event: CrawlProgressEvent) => void;
+  signal?: AbortSignal;
+}
+
+export type CrawlProgressEvent =
+  | { type: 'page'; url: string; page: number; cards: number }
+  | { type: 'item'; car: ScrapedCarData; total: number }
+  | { type: 'skipped'; url: string; reason: string }
+  | { type: 'error'; url: string; error: string };
+
+export interface CrawlResult {
+  success: boolean;
+  data: ScrapedCarData[];
+  pagesVisited: number;
+  errors: Array<{ url: string; error: string }>;
+  skipped: Array<{ url: string; reason: string }>;
+  error?: string;
+}
+
+/** What the crawl route streams: progress events, then the final result */
+export type CrawlStreamEvent = CrawlProgressEvent | ({ type: 'done' } & CrawlResult);
+
+/**
+ * Keep the card's values wherever the detail page came back empty
+ */
+function mergeDetail(card: ScrapedCarData, detail: ScrapedCarData): ScrapedCarData {
+  const merged = { ...card };
+  for (const key of Object.keys(detail) as Array<keyof ScrapedCarData>) {
+    const value = detail[key];
+    const empty = value === undefined || value === '' || value === 0 || (Array.isArray(value) && value.length === 0);
+    if (!empty) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Follow next-page links from a listing page, optionally opening each
+ * car's detail page, until the page or item budget runs out
+ */
+export async function crawlListings(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const maxPages = options.maxPages ?? CRAWL_DEFAULTS.maxPages;
+  const maxItems = options.maxItems ?? CRAWL_DEFAULTS.maxItems;
+  const followDetails = options.followDetails ?? CRAWL_DEFAULTS.followDetails;
+  const fetcher = options.fetcher || fetch;
+  const emit = options.onProgress || (() => {});
+
+  const robots: RobotsRules | null = options.robotsTxt
+    ? parseRobotsTxt(options.robotsTxt, CRAWLER_USER_AGENT)
+    : null;
+
+  // A Crawl-delay in robots.txt can only slow us down
+  const delayMs = Math.max(
+    options.delayMs ?? CRAWL_DEFAULTS.delayMs,
+    robots?.crawlDelay !== undefined ? robots.crawlDelay * 1000 : 0
+  );
+  const limiter = createHostLimiter({
+    concurrency: options.concurrency ?? CRAWL_DEFAULTS.concurrency,
+    delayMs,
+  });
+
+  const result: CrawlResult = { success: false, data: [], pagesVisited: 0, errors: [], skipped: [] };
+  const visited = new Set<string>();
+  const seenCars = new Set<string>();
+
+  const skip = (url: string, reason: string) => {
+    result.skipped.push({ url, reason });
+    emit({ type: 'skipped', url, reason });
+  };
+  const fail = (url: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    result.errors.push({ url, error: message });
+    emit({ type: 'error', url, error: message });
+  };
+
+  // Claim a URL for fetching; false if already seen or blocked
+  const claim = (url: string): boolean => {
+    if (visited.has(url)) return false;
+    visited.add(url);
+    if (robots && !isAllowedByRobots(robots, url)) {
+      skip(url, 'Disallowed by robots.txt');
+      return false;
+    }
+    return true;
+  };
+
+  const loadPage = (url: string) =>
+    limiter.run(url, async () => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), PAGE_TIMEOUT_MS);
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort);
+
+      try {
+        const response = await fetcher(url, { signal: controller.signal, headers: BROWSER_HEADERS });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+        }
+        const html = await response.text();
+        if (Buffer.byteLength(html, 'utf8') / (1024 * 1024) > MAX_PAGE_MB) {
+          throw new Error(`HTML content too large (>${MAX_PAGE_MB}MB)`);
+        }
+        return cheerio.load(html);
+      } finally {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+    });
+
+  const enrich = async (card: ScrapedCarData): Promise<ScrapedCarData> => {
+    if (!card.sourceUrl || options.signal?.aborted || !claim(card.sourceUrl)) {
+      return card;
+    }
+    try {
+      const $ = await loadPage(card.sourceUrl);
+      const detail = getSiteAdapter(card.sourceUrl).extractDetail($, card.sourceUrl);
+      return detail ? mergeDetail(card, detail) : card;
+    } catch (error) {
+      fail(card.sourceUrl, error);
+      return card;
+    }
+  };
+
+  const addCar = (car: ScrapedCarData) => {
+    result.data.push(car);
+    emit({ type: 'item', car, total: result.data.length });
+  };
+
+  let pageUrl: string | null = startUrl;
+
+  while (pageUrl && result.pagesVisited < maxPages && result.data.length < maxItems) {
+    if (options.signal?.aborted || !claim(pageUrl)) break;
+
+    let $: cheerio.CheerioAPI;
+    try {
+      $ = await loadPage(pageUrl);
+    } catch (error) {
+      fail(pageUrl, error);
+      break;
+    }
+
+    result.pagesVisited++;
+    const adapter = getSiteAdapter(pageUrl);
+
+    // A detail page has nothing to paginate; take the one car and stop
+    if (adapter.detectPageType(pageUrl, $) === PageType.DETAIL_PAGE) {
+      const detail = adapter.extractDetail($, pageUrl);
+      emit({ type: 'page', url: pageUrl, page: result.pagesVisited, cards: detail ? 1 : 0 });
+      if (detail) addCar(detail);
+      break;
+    }
+
+    const cards = adapter.extractCards($, pageUrl);
+    emit({ type: 'page', url: pageUrl, page: result.pagesVisited, cards: cards.length });
+
+    // The same car can show up on more than one results page
+    const fresh = cards.filter((card) => {
+      if (!card.sourceUrl) return true;
+      if (seenCars.has(card.sourceUrl)) return false;
+      seenCars.add(card.sourceUrl);
+      return true;
+    });
+    const batch = fresh.slice(0, maxItems - result.data.length);
+    const cars = followDetails ? await Promise.all(batch.map(enrich)) : batch;
+    cars.forEach(addCar);
+
+    pageUrl = adapter.getNextPageUrl($, pageUrl);
+  }
+
+  result.success = result.data.length > 0;
+  if (!result.success) {
+    result.error = result.errors[0]?.error || 'No car listings found while crawling';
+  }
+  return result;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  createFixtureFetcher,
+  diffGolden,
+  FIXTURE_PAGES,
+  fixtureLabel,
+  formatDiffReport,
+  readGolden,
+  runFixture,
+  writeGolden,
+} from './fixture-harness';
+
+// Set UPDATE_GOLDEN=1 (npm run test:golden) to accept the current output
+const updateGolden = !!process.env.UPDATE_GOLDEN;
+
+describe('Scraper Fixture Goldens', () => {
+  it.each(FIXTURE_PAGES.map((fixture) => ({ ...fixture, label: fixtureLabel(fixture) })))(
+    '$label matches its golden output',
+    async (fixture) => {
+      const output = await runFixture(fixture);
+
+      if (updateGolden) {
+        writeGolden(fixture, output);
+        return;
+      }
+
+      const golden = readGolden(fixture);
+      expect(golden, `No golden for ${fixture.label}. Run npm run test:golden to create it.`).not.toBeNull();
+
+      const changes = diffGolden(golden, output);
+      expect(changes, formatDiffReport(fixture.label, changes)).toEqual([]);
+    }
+  );
+
+  it('never goes to the network for unknown URLs', async () => {
+    const response = await createFixtureFetcher()('https://www.cardekho.com/not-a-fixture');
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Golden Diff Property Tests', () => {
+  const jsonValue = fc.letrec((tie) => ({
+    value: fc.oneof(
+      { depthSize: 'small' },
+      fc.string(),
+      fc.integer(),
+      fc.boolean(),
+      fc.constant(null),
+      fc.array(tie('value'), { maxLength: 4 }),
+      fc.dictionary(
+        fc.string({ minLength: 1, maxLength: 6 }).filter((key) => !/[.[\]]/.test(key)),
+        tie('value'),
+        { maxKeys: 4 }
+      )
+    ),
+  })).value;
+
+  /**
+   * Feature: drivesphere-marketplace, Property 48: Golden diff reports changed fields
+   */
+  it('Property 48: Golden diff - identical outputs have no changes', () => {
+    fc.assert(
+      fc.property(jsonValue, (value) => {
+        expect(diffGolden(value, JSON.parse(JSON.stringify(value)))).toEqual([]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 48: Golden diff - a changed field is reported by its path', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            carName: fc.string(),
+            price: fc.integer({ min: 1, max: 10000000 }),
+            images: fc.array(fc.webUrl(), { maxLength: 3 }),
+          }),
+          { minLength: 1, maxLength: 5 }
+        ),
+        fc.nat(),
+        fc.integer({ min: 1, max: 100000 }),
+        (cars, pick, delta) => {
+          const index = pick % cars.length;
+          const changed = cars.map((car, i) => (i === index ? { ...car, price: car.price + delta } : car));
+
+          const changes = diffGolden({ result: { data: cars } }, { result: { data: changed } });
+
+          expect(changes).toEqual([
+            { path: `result.data[${index}].price`, expected: cars[index].price, actual: cars[index].price + delta },
+          ]);
+          expect(formatDiffReport('site/listing', changes)).toContain(`result.data[${index}].price`);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 48: Golden diff - added and removed entries are reported as missing', () => {
+    fc.assert(
+      fc.property(fc.array(fc.webUrl(), { minLength: 1, maxLength: 5 }), fc.webUrl(), (images, extra) => {
+        const added = diffGolden({ images }, { images: [...images, extra] });
+        expect(added).toEqual([{ path: `images[${images.length}]`, expected: undefined, actual: extra }]);
+
+        const removed = diffGolden({ images: [...images, extra] }, { images });
+        expect(removed).toEqual([{ path: `images[${images.length}]`, expected: extra, actual: undefined }]);
+        expect(formatDiffReport('site/detail', removed)).toContain('(missing)');
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
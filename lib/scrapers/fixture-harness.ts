@@ -0,0 +1,161 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import {
+  detectPageType,
+  extractMultipleCarData,
+  extractSingleCarData,
+  Fetcher,
+  MultipleScrapedResult,
+  PageType,
+  ScrapeResult,
+} from '../scraper';
+
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * A saved page in the fixture corpus and the live URL it was captured from
+ */
+export interface FixturePage {
+  site: string;
+  page: 'listing' | 'detail';
+  url: string;
+}
+
+/**
+ * What the scraper produced for a fixture, as stored in its golden file
+ */
+export interface GoldenOutput {
+  url: string;
+  pageType: PageType;
+  result: MultipleScrapedResult | ScrapeResult;
+}
+
+export interface FieldChange {
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export const FIXTURE_PAGES: FixturePage[] = [
+  { site: 'cardekho', page: 'listing', url: 'https://www.cardekho.com/used-cars+in+delhi' },
+  {
+    site: 'cardekho',
+    page: 'detail',
+    url: 'https://www.cardekho.com/used-car-details/used-maruti-swift-vxi-2019-cars-delhi_4a1b2c3d.htm',
+  },
+  { site: 'carwale', page: 'listing', url: 'https://www.carwale.com/used/delhi/' },
+  { site: 'carwale', page: 'detail', url: 'https://www.carwale.com/used/delhi/hyundai-creta/2020-sx-d8675309/' },
+  { site: 'cars24', page: 'listing', url: 'https://www.cars24.com/buy-used-cars-new-delhi/' },
+  { site: 'cars24', page: 'detail', url: 'https://www.cars24.com/buy-used-honda-city-2019-cars-new-delhi-10012345678/' },
+  { site: 'olx', page: 'listing', url: 'https://www.olx.in/delhi_g4058659/cars_c84' },
+  { site: 'olx', page: 'detail', url: 'https://www.olx.in/item/maruti-suzuki-alto-800-lxi-2016-iid-1712345678' },
+  { site: 'generic', page: 'listing', url: 'https://www.autobazaar.example/listings' },
+  { site: 'generic', page: 'detail', url: 'https://www.autobazaar.example/vehicle/48213' },
+];
+
+export function fixtureLabel(fixture: FixturePage): string {
+  return `${fixture.site}/${fixture.page}`;
+}
+
+function htmlPath(fixture: FixturePage): string {
+  return path.join(FIXTURES_DIR, fixture.site, `${fixture.page}.html`);
+}
+
+function goldenPath(fixture: FixturePage): string {
+  return path.join(FIXTURES_DIR, fixture.site, `${fixture.page}.golden.json`);
+}
+
+export function readFixtureHtml(fixture: FixturePage): string {
+  return readFileSync(htmlPath(fixture), 'utf8');
+}
+
+/**
+ * A fetcher that serves fixture HTML by URL and 404s for anything else,
+ * so a scraper run never touches the network
+ */
+export function createFixtureFetcher(pages: FixturePage[] = FIXTURE_PAGES): Fetcher {
+  return async (url) => {
+    const fixture = pages.find((page) => page.url === url);
+    if (!fixture) {
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }
+    return new Response(readFixtureHtml(fixture), {
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  };
+}
+
+/**
+ * Feed a fixture through page type detection and the matching extractor
+ */
+export async function runFixture(
+  fixture: FixturePage,
+  fetcher: Fetcher = createFixtureFetcher()
+): Promise<GoldenOutput> {
+  const pageType = detectPageType(fixture.url, cheerio.load(readFixtureHtml(fixture)));
+  const result = fixture.page === 'listing'
+    ? await extractMultipleCarData(fixture.url, { fetcher })
+    : await extractSingleCarData(fixture.url, { fetcher });
+
+  // Round-trip through JSON so the output compares like the stored golden
+  return JSON.parse(JSON.stringify({ url: fixture.url, pageType, result }));
+}
+
+export function readGolden(fixture: FixturePage): GoldenOutput | null {
+  const file = goldenPath(fixture);
+  if (!existsSync(file)) return null;
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+export function writeGolden(fixture: FixturePage, output: GoldenOutput): void {
+  writeFileSync(goldenPath(fixture), `${JSON.stringify(output, null, 2)}\n`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Every leaf field that differs between a golden and a fresh run, with
+ * paths like `result.data[1].price`
+ */
+export function diffGolden(expected: unknown, actual: unknown, fieldPath = ''): FieldChange[] {
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)])).sort();
+    return keys.flatMap((key) =>
+      diffGolden(expected[key], actual[key], fieldPath ? `${fieldPath}.${key}` : key)
+    );
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    return Array.from({ length }, (_, index) =>
+      diffGolden(expected[index], actual[index], `${fieldPath}[${index}]`)
+    ).flat();
+  }
+
+  if (Object.is(expected, actual)) return [];
+
+  return [{ path: fieldPath || '(root)', expected, actual }];
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(missing)' : JSON.stringify(value);
+}
+
+/**
+ * Human-readable list of changed fields for a failing fixture
+ */
+export function formatDiffReport(label: string, changes: FieldChange[]): string {
+  if (changes.length === 0) return `${label}: no changes`;
+
+  const lines = changes.map(
+    (change) => `  ${change.path}: ${formatValue(change.expected)} → ${formatValue(change.actual)}`
+  );
+  return [
+    `${label}: ${changes.length} field${changes.length === 1 ? '' : 's'} changed`,
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,594 @@
+import * as cheerio from 'cheerio';
+import { PageType, ScrapedCarData, SiteAdapter } from './types';
+import {
+  detectSold,
+  extractCardList,
+  extractDetailImages,
+  extractSellerInfo,
+  extractSpecTable,
+  findNextPageUrl,
+  isLogoOrIcon,
+  isValidImageUrl,
+  parsePrice,
+} from './shared';
+
+/**
+ * Pagination links most sites use, tried when an adapter has none of its own
+ */
+export const COMMON_NEXT_PAGE_SELECTORS = [
+  'link[rel="next"]',
+  'a[rel="next"]',
+  '.pagination .next a',
+  '.pagination a.next',
+  'a[aria-label="Next"]',
+  'a[aria-label="Next page"]',
+];
+
+/**
+ * Detect whether a URL points to a listing page or detail page
+ * Uses URL pattern analysis and content structure analysis as fallback
+ */
+export function detectGenericPageType(url: string, $: cheerio.CheerioAPI): PageType {
+  // URL pattern analysis for detail pages
+  const detailPatterns = [
+    /\/used-[^\/]+\/\d+/,           // CarDekho detail pattern: /used-car-name/12345
+    /\/car\/[^\/]+\/\d+/,            // Generic detail pattern: /car/name/12345
+    /\/buy-used-[^\/]+\/\d+/,        // Cars24 detail pattern: /buy-used-car-name/12345
+    /\/[^\/]+-\d+\.html/,            // OLX detail pattern: /car-name-12345.html
+    /\/listing\/\d+/,                // Generic listing detail: /listing/12345
+    /\/vehicle\/\d+/,                // Generic vehicle detail: /vehicle/12345
+    /\/ad\/\d+/,                     // Ad detail pattern: /ad/12345
+    /\/details\/\d+/,                // Details pattern: /details/12345
+  ];
+  
+  // URL pattern analysis for listing pages
+  const listingPatterns = [
+    /\/used-cars\+in\+/,             // CarDekho listing pattern: /used-cars+in+city
+    /\/used-cars\//,                 // Generic listing pattern: /used-cars/
+    /\/buy-used-cars/,               // Generic buy listing: /buy-used-cars
+    /\/search/,                      // Search results page
+    /\/listings/,                    // Listings page
+    /\/cars-for-sale/,               // Cars for sale page
+    /\/browse/,                      // Browse page
+  ];
+  
+  // Check URL patterns for detail pages first (more specific)
+  for (const pattern of detailPatterns) {
+    if (pattern.test(url)) {
+      return PageType.DETAIL_PAGE;
+    }
+  }
+  
+  // Check URL patterns for listing pages
+  for (const pattern of listingPatterns) {
+    if (pattern.test(url)) {
+      return PageType.LISTING_PAGE;
+    }
+  }
+  
+  // Content structure analysis as fallback
+  // Check for multiple car cards (indicates listing page)
+  const carCardSelectors = [
+    '.car-card',
+    '.listing-card',
+    '.vehicle-card',
+    '[data-car]',
+    '[data-listing]',
+    '.gsc_col',
+    '.usedCarTile',
+    '.used-car-item',
+  ];
+  
+  let carCardCount = 0;
+  for (const selector of carCardSelectors) {
+    const count = $(selector).length;
+    if (count > carCardCount) {
+      carCardCount = count;
+    }
+  }
+  
+  // If we find multiple car cards, it's a listing page
+  if (carCardCount > 1) {
+    return PageType.LISTING_PAGE;
+  }
+  
+  // Check for detail page layout indicators
+  const detailLayoutSelectors = [
+    '.car-detail',
+    '.vehicle-detail',
+    '.detail-page',
+    '.car-info-detail',
+    '.vehicle-info-detail',
+    '.product-detail',
+    '.listing-detail',
+    '[data-detail-page]',
+    '.gallery',
+    '.image-carousel',
+    '.car-gallery',
+  ];
+  
+  for (const selector of detailLayoutSelectors) {
+    if ($(selector).length > 0) {
+      return PageType.DETAIL_PAGE;
+    }
+  }
+  
+  // Check for single large image gallery (common in detail pages)
+  const galleryImages = $('.gallery img, .image-carousel img, .car-gallery img').length;
+  if (galleryImages >= 3) {
+    return PageType.DETAIL_PAGE;
+  }
+  
+  // If we have exactly one car card, it might be a detail page
+  if (carCardCount === 1) {
+    return PageType.DETAIL_PAGE;
+  }
+  
+  // Unable to determine page type
+  return PageType.UNKNOWN;
+}
+
+/**
+ * Check a site's own URL patterns before falling back to generic detection
+ */
+export function detectPageTypeWithPatterns(
+  url: string,
+  $: cheerio.CheerioAPI,
+  patterns: { detail: RegExp[]; listing: RegExp[] }
+): PageType {
+  if (patterns.detail.some((pattern) => pattern.test(url))) {
+    return PageType.DETAIL_PAGE;
+  }
+  if (patterns.listing.some((pattern) => pattern.test(url))) {
+    return PageType.LISTING_PAGE;
+  }
+  return detectGenericPageType(url, $);
+}
+
+/**
+ * Generic detail page extractor for unsupported websites
+ * Uses common patterns to extract car data as fallback
+ */
+function extractGenericDetail($: cheerio.CheerioAPI, url: string): ScrapedCarData | null {
+  try {
+    // Extract car name using generic selectors
+    const carName = extractCarName($);
+    
+    if (!carName) return null;
+    
+    // Extract price
+    const price = extractPrice($);
+    
+    // Extract images using helper function (best effort)
+    const images = extractDetailImages($, url);
+    
+    // Try to extract specs from any table-like structure
+    const specs = extractSpecTable($, 'table, .details, .info, .specs');
+    
+    // Try to extract seller info
+    const sellerInfo = extractSellerInfo($, '.seller, .owner, .dealer');
+    
+    // Extract year (from specs or generic extraction)
+    const year = specs.yearOfPurchase || extractYear($);
+    
+    // Extract km driven (from specs or generic extraction)
+    const kmDriven = specs.kmDriven || extractKmDriven($);
+    
+    // Extract number of owners (from specs or generic extraction)
+    const numberOfOwners = specs.numberOfOwners || extractNumberOfOwners($);
+    
+    // Extract city (from specs or generic extraction)
+    const city = specs.city || sellerInfo.city || extractCity($);
+    
+    // Extract model
+    const model = extractModel($);
+    
+    // Return null if critical fields are missing
+    if (!carName || !price || images.length === 0) {
+      return null;
+    }
+    
+    return {
+      images: images.slice(0, 15),
+      carName,
+      model,
+      price,
+      ownerName: sellerInfo.name || 'Seller',
+      yearOfPurchase: year,
+      kmDriven,
+      numberOfOwners,
+      city,
+      sourceUrl: url,
+    };
+  } catch (error) {
+    console.error('Error extracting generic detail:', error);
+    return null;
+  }
+}
+
+/**
+ * Fallback adapter for sites without a dedicated module
+ */
+export const genericAdapter: SiteAdapter = {
+  name: 'Generic',
+
+  canHandle() {
+    return true;
+  },
+
+  detectPageType: detectGenericPageType,
+
+  extractCards($, url) {
+    return extractCardList(
+      $,
+      url,
+      '.car-card, .listing-card, .vehicle-card, [data-car], [data-listing], .car-item, .vehicle-item',
+      {
+        siteName: 'Generic',
+        nameSelector: 'h2, h3, .title, .car-name',
+        priceSelector: '.price, .amount, [data-price]',
+        citySelector: '.location, .city, [data-location]',
+        ownerName: 'Seller',
+      }
+    );
+  },
+
+  extractDetail: extractGenericDetail,
+
+  isSold($) {
+    return detectSold($, '.car-detail, .vehicle-detail, .listing-detail, [itemtype*="Vehicle"]');
+  },
+
+  getNextPageUrl($, url) {
+    return findNextPageUrl($, url, COMMON_NEXT_PAGE_SELECTORS);
+  },
+};
+
+export function extractImages($: cheerio.CheerioAPI): string[] {
+  const images: string[] = [];
+  
+  // Try common image selectors with priority order
+  const selectors = [
+    'img[src*="car"]',
+    'img[alt*="car"]',
+    'img[alt*="vehicle"]',
+    '.car-image img',
+    '.listing-image img',
+    '.gallery img',
+    '.slider img',
+    '.carousel img',
+    '[data-gallery] img',
+    'img[src*="vehicle"]',
+    'img[src*="auto"]',
+    'img[data-src]',
+    'img[data-lazy-src]',
+    'img[data-original]',
+    // Fallback to all images if nothing specific found
+    'img',
+  ];
+
+  const seenUrls = new Set<string>();
+  
+  for (const selector of selectors) {
+    $(selector).each((_, el) => {
+      // Try multiple attributes for lazy-loaded images
+      const src = $(el).attr('src') || 
+                  $(el).attr('data-src') || 
+                  $(el).attr('data-lazy') ||
+                  $(el).attr('data-lazy-src') ||
+                  $(el).attr('data-original') ||
+                  $(el).attr('data-lazy-original') ||
+                  $(el).attr('srcset')?.split(',')[0]?.split(' ')[0];
+      const alt = $(el).attr('alt') || '';
+      const className = $(el).attr('class') || '';
+      
+      // Skip logos, icons, and small images
+      if (src && isValidImageUrl(src) && !seenUrls.has(src) && !isLogoOrIcon(src, alt, className)) {
+        seenUrls.add(src);
+        images.push(src);
+      }
+    });
+    
+    // Stop if we have enough images
+    if (images.length >= 10) break;
+  }
+
+  return images.slice(0, 10); // Limit to 10 images
+}
+
+export function extractCarName($: cheerio.CheerioAPI): string {
+  // Try common selectors for car name/title with priority order
+  const selectors = [
+    'h1.car-title',
+    'h1.listing-title',
+    'h1.vehicle-title',
+    '.car-name',
+    '.vehicle-name',
+    '.listing-name',
+    'h1[itemprop="name"]',
+    '[data-car-name]',
+    '[data-vehicle-name]',
+    'title', // Page title as fallback
+    'h1',
+    'h2.car-title',
+    'h2.listing-title',
+  ];
+
+  for (const selector of selectors) {
+    const text = $(selector).first().text().trim();
+    // Filter out generic titles
+    if (text && text.length > 3 && !text.toLowerCase().includes('buy') && !text.toLowerCase().includes('sell')) {
+      return text;
+    }
+  }
+
+  return '';
+}
+
+export function extractModel($: cheerio.CheerioAPI): string {
+  // Try to extract model from various locations
+  const selectors = [
+    '.car-model',
+    '[data-model]',
+    '.model-name',
+  ];
+
+  for (const selector of selectors) {
+    const text = $(selector).first().text().trim();
+    if (text) return text;
+  }
+
+  // Fallback: try to extract from car name
+  const carName = extractCarName($);
+  const parts = carName.split(' ');
+  return parts.length > 1 ? parts.slice(1).join(' ') : carName;
+}
+
+export function extractPrice($: cheerio.CheerioAPI): number {
+  const selectors = [
+    '.price',
+    '[itemprop="price"]',
+    '.car-price',
+    '.listing-price',
+    '.vehicle-price',
+    '[data-price]',
+    '.amount',
+    '.cost',
+    'span:contains("₹")',
+    'div:contains("₹")',
+    'p:contains("₹")',
+  ];
+
+  for (const selector of selectors) {
+    let foundPrice = 0;
+    $(selector).each((_, el) => {
+      const text = $(el).text().trim();
+      const price = parsePrice(text);
+      if (price > 0) {
+        foundPrice = price;
+        return false; // Break the loop
+      }
+    });
+    if (foundPrice > 0) return foundPrice;
+  }
+
+  // Try to find price in the entire page text as last resort
+  const bodyText = $('body').text();
+  const priceMatch = bodyText.match(/₹\s*[\d,]+(?:\s*(?:lakh|crore))?/i);
+  if (priceMatch) {
+    const price = parsePrice(priceMatch[0]);
+    if (price > 0) return price;
+  }
+
+  return 0;
+}
+
+export function extractOwnerName($: cheerio.CheerioAPI): string {
+  const selectors = [
+    '.owner-name',
+    '.seller-name',
+    '[itemprop="seller"]',
+    '[data-seller]',
+    '[data-owner]',
+    '.seller',
+    '.owner',
+    'span:contains("Seller")',
+    'div:contains("Seller")',
+    'span:contains("Owner")',
+    'div:contains("Owner")',
+  ];
+
+  for (const selector of selectors) {
+    let foundName = '';
+    $(selector).each((_, el) => {
+      const text = $(el).text().trim();
+      // Filter out labels and keep only names
+      if (text && text.length > 3 && text.length < 100 && !text.toLowerCase().includes('seller:') && !text.toLowerCase().includes('owner:')) {
+        // Check if it looks like a name (has at least 2 words)
+        const words = text.split(/\s+/);
+        if (words.length >= 2) {
+          foundName = text;
+          return false; // Break the loop
+        }
+      }
+    });
+    if (foundName) return foundName;
+  }
+
+  return 'Unknown Owner';
+}
+
+export function extractYear($: cheerio.CheerioAPI): number {
+  const selectors = [
+    '.year',
+    '[data-year]',
+    '.car-year',
+    '.vehicle-year',
+    '.model-year',
+    '[data-model-year]',
+    'span:contains("Year")',
+    'div:contains("Year")',
+    'td:contains("Year")',
+  ];
+
+  const currentYear = new Date().getFullYear();
+
+  for (const selector of selectors) {
+    let foundYear = 0;
+    $(selector).each((_, el) => {
+      const text = $(el).text().trim();
+      // Extract 4-digit year
+      const yearMatch = text.match(/\b(19\d{2}|20\d{2})\b/);
+      if (yearMatch) {
+        const year = parseInt(yearMatch[1]);
+        if (year >= 1990 && year <= currentYear) {
+          foundYear = year;
+          return false; // Break the loop
+        }
+      }
+    });
+    if (foundYear > 0) return foundYear;
+  }
+
+  // Try to find year in the entire page text
+  const bodyText = $('body').text();
+  const yearMatch = bodyText.match(/\b(19\d{2}|20\d{2})\b/);
+  if (yearMatch) {
+    const year = parseInt(yearMatch[1]);
+    if (year >= 1990 && year <= currentYear) {
+      return year;
+    }
+  }
+
+  return currentYear;
+}
+
+export function extractKmDriven($: cheerio.CheerioAPI): number {
+  const selectors = [
+    '.km-driven',
+    '.mileage',
+    '.odometer',
+    '[data-km]',
+    '[data-mileage]',
+    'span:contains("km")',
+    'div:contains("km")',
+    'td:contains("km")',
+    'span:contains("Km")',
+    'div:contains("Km")',
+  ];
+
+  for (const selector of selectors) {
+    let foundKm = 0;
+    $(selector).each((_, el) => {
+      const text = $(el).text().trim();
+      // Extract numbers followed by km/Km
+      const kmMatch = text.match(/(\d[\d,]*)\s*(?:km|Km|KM|kilometers)/i);
+      if (kmMatch) {
+        const km = parseInt(kmMatch[1].replace(/,/g, ''));
+        if (km > 0 && km < 1000000) {
+          foundKm = km;
+          return false; // Break the loop
+        }
+      }
+    });
+    if (foundKm > 0) return foundKm;
+  }
+
+  // Try to find km in the entire page text
+  const bodyText = $('body').text();
+  const kmMatch = bodyText.match(/(\d[\d,]*)\s*(?:km|Km|KM|kilometers)/i);
+  if (kmMatch) {
+    const km = parseInt(kmMatch[1].replace(/,/g, ''));
+    if (km > 0 && km < 1000000) return km;
+  }
+
+  return 0;
+}
+
+export function extractNumberOfOwners($: cheerio.CheerioAPI): number {
+  const selectors = [
+    '.owners',
+    '.owner-count',
+    '[data-owners]',
+    'span:contains("owner")',
+    'div:contains("owner")',
+    'td:contains("owner")',
+    'span:contains("Owner")',
+    'div:contains("Owner")',
+  ];
+
+  for (const selector of selectors) {
+    let foundOwners = 0;
+    $(selector).each((_, el) => {
+      const text = $(el).text().trim().toLowerCase();
+      
+      // Check for "1st owner", "2nd owner", etc.
+      const ordinalMatch = text.match(/(\d+)(?:st|nd|rd|th)\s*owner/);
+      if (ordinalMatch) {
+        const owners = parseInt(ordinalMatch[1]);
+        if (owners > 0 && owners <= 10) {
+          foundOwners = owners;
+          return false; // Break the loop
+        }
+      }
+      
+      // Check for "X owners"
+      const countMatch = text.match(/(\d+)\s*owners?/);
+      if (countMatch) {
+        const owners = parseInt(countMatch[1]);
+        if (owners > 0 && owners <= 10) {
+          foundOwners = owners;
+          return false; // Break the loop
+        }
+      }
+    });
+    if (foundOwners > 0) return foundOwners;
+  }
+
+  // Try to find owner info in the entire page text
+  const bodyText = $('body').text().toLowerCase();
+  const ordinalMatch = bodyText.match(/(\d+)(?:st|nd|rd|th)\s*owner/);
+  if (ordinalMatch) {
+    const owners = parseInt(ordinalMatch[1]);
+    if (owners > 0 && owners <= 10) return owners;
+  }
+
+  return 1;
+}
+
+export function extractCity($: cheerio.CheerioAPI): string {
+  const selectors = [
+    '.city',
+    '.location',
+    '[itemprop="addressLocality"]',
+    '[data-city]',
+    '[data-location]',
+    '.address',
+    'span:contains("Location")',
+    'div:contains("Location")',
+    'span:contains("City")',
+    'div:contains("City")',
+  ];
+
+  for (const selector of selectors) {
+    let foundCity = '';
+    $(selector).each((_, el) => {
+      const text = $(el).text().trim();
+      // Filter out long addresses, keep only city names
+      if (text && text.length > 2 && text.length < 50 && !text.includes('\n')) {
+        // Extract city from "City, State" format
+        const parts = text.split(',');
+        if (parts.length > 0) {
+          const city = parts[0].trim();
+          if (city.length > 2) {
+            foundCity = city;
+            return false; // Break the loop
+          }
+        }
+      }
+    });
+    if (foundCity) return foundCity;
+  }
+
+  return 'Unknown';
+}
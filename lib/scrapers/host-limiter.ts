@@ -0,0 +1,73 @@
+export interface HostLimiterOptions {
+  /** Requests allowed in flight per host */
+  concurrency: number;
+  /** Minimum gap between request starts on the same host */
+  delayMs: number;
+}
+
+export interface HostLimiter {
+  run<T>(url: string, task: () => Promise<T>): Promise<T>;
+}
+
+interface HostState {
+  active: number;
+  nextStartAt: number;
+  waiting: Array<() => void>;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Queue tasks per host so no site sees more than `concurrency` requests at
+ * once or two requests started closer than `delayMs` apart
+ */
+export function createHostLimiter(options: HostLimiterOptions): HostLimiter {
+  const concurrency = Math.max(1, options.concurrency);
+  const hosts = new Map<string, HostState>();
+
+  function stateFor(host: string): HostState {
+    let state = hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStartAt: 0, waiting: [] };
+      hosts.set(host, state);
+    }
+    return state;
+  }
+
+  async function acquire(state: HostState): Promise<void> {
+    if (state.active < concurrency) {
+      state.active++;
+    } else {
+      // release() hands its slot straight to us, so active is unchanged
+      await new Promise<void>((resolve) => state.waiting.push(resolve));
+    }
+
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStartAt);
+    state.nextStartAt = startAt + options.delayMs;
+    if (startAt > now) {
+      await sleep(startAt - now);
+    }
+  }
+
+  function release(state: HostState): void {
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      state.active--;
+    }
+  }
+
+  return {
+    async run(url, task) {
+      const state = stateFor(new URL(url).host);
+      await acquire(state);
+      try {
+        return await task();
+      } finally {
+        release(state);
+      }
+    },
+  };
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import * as cheerio from 'cheerio';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { getSiteAdapter, genericAdapter, PageType, ScrapedCarData, SiteAdapter } from './index';
+import { carDekhoAdapter } from './cardekho';
+import { carWaleAdapter } from './carwale';
+import { cars24Adapter } from './cars24';
+import { olxAdapter } from './olx';
+
+function loadFixture(site: string, page: 'listing' | 'detail'): cheerio.CheerioAPI {
+  return cheerio.load(readFileSync(path.join(__dirname, 'fixtures', site, `${page}.html`), 'utf8'));
+}
+
+interface AdapterFixture {
+  site: string;
+  adapter: SiteAdapter;
+  listingUrl: string;
+  detailUrl: string;
+  nextPageUrl: string | null;
+  cards: Partial<ScrapedCarData>[];
+  detail: ScrapedCarData;
+}
+
+const fixtures: AdapterFixture[] = [
+  {
+    site: 'cardekho',
+    adapter: carDekhoAdapter,
+    listingUrl: 'https://www.cardekho.com/used-cars+in+delhi',
+    detailUrl: 'https://www.cardekho.com/used-car-details/used-maruti-swift-vxi-2019-cars-delhi_4a1b2c3d.htm',
+    nextPageUrl: 'https://www.cardekho.com/used-cars+in+delhi?page=2',
+    cards: [
+      {
+        carName: 'Maruti Swift VXI',
+        price: 550000,
+        yearOfPurchase: 2019,
+        kmDriven: 35120,
+        numberOfOwners: 1,
+        city: 'Delhi',
+        images: ['https://images10.cardekho.com/used-cars/maruti-swift-vxi-front.jpg'],
+      },
+      {
+        carName: 'Hyundai Creta SX',
+        price: 1225000,
+        numberOfOwners: 2,
+        images: ['https://www.cardekho.com/used-cars/hyundai-creta-sx-front.jpg'],
+      },
+    ],
+    detail: {
+      images: [
+        'https://images10.cardekho.com/used-cars/swift-4a1b2c3d-front.jpg',
+        'https://images10.cardekho.com/used-cars/swift-4a1b2c3d-side.jpg',
+        'https://images10.cardekho.com/used-cars/swift-4a1b2c3d-interior.jpg',
+      ],
+      carName: '2019 Maruti Swift VXI',
+      model: 'Maruti Swift VXI',
+      price: 550000,
+      ownerName: 'Rohit Sharma',
+      yearOfPurchase: 2019,
+      kmDriven: 35120,
+      numberOfOwners: 1,
+      city: 'delhi',
+    },
+  },
+  {
+    site: 'carwale',
+    adapter: carWaleAdapter,
+    listingUrl: 'https://www.carwale.com/used/delhi/',
+    detailUrl: 'https://www.carwale.com/used/delhi/hyundai-creta/2020-sx-d8675309/',
+    nextPageUrl: 'https://www.carwale.com/used/delhi/?page=2',
+    cards: [
+      { carName: 'Hyundai Creta SX 1.5 Diesel', price: 1275000, yearOfPurchase: 2020, kmDriven: 41000, city: 'Delhi' },
+      { carName: 'Honda City VX CVT', price: 850000, numberOfOwners: 2, city: 'Noida' },
+    ],
+    detail: {
+      images: [
+        'https://www.carwale.com/used/hyundai-creta-sx-d8675309-1.jpg',
+        'https://www.carwale.com/used/hyundai-creta-sx-d8675309-2.jpg',
+      ],
+      carName: 'Hyundai Creta SX 1.5 Diesel',
+      model: 'Creta SX 1.5 Diesel',
+      price: 1275000,
+      ownerName: 'Capital Motors',
+      yearOfPurchase: 2020,
+      kmDriven: 41000,
+      numberOfOwners: 1,
+      city: 'Delhi',
+    },
+  },
+  {
+    site: 'cars24',
+    adapter: cars24Adapter,
+    listingUrl: 'https://www.cars24.com/buy-used-cars-new-delhi/',
+    detailUrl: 'https://www.cars24.com/buy-used-honda-city-2019-cars-new-delhi-10012345678/',
+    nextPageUrl: 'https://www.cars24.com/buy-used-cars-new-delhi/?page=2',
+    cards: [
+      { carName: '2019 Honda City V MT', price: 725000, yearOfPurchase: 2019, kmDriven: 52300, ownerName: 'Cars24 Seller' },
+      { carName: '2021 Tata Nexon XZ Plus', price: 950000, yearOfPurchase: 2021, city: 'Rohini, New Delhi' },
+    ],
+    detail: {
+      images: [
+        'https://fastly-production.24c.in/hello-ar/dev/uploads/honda-city-10012345678-1.jpg',
+        'https://fastly-production.24c.in/hello-ar/dev/uploads/honda-city-10012345678-2.jpg',
+        'https://fastly-production.24c.in/hello-ar/dev/uploads/honda-city-10012345678-3.jpg',
+      ],
+      carName: '2019 Honda City V MT',
+      model: 'Honda City V MT',
+      price: 725000,
+      ownerName: 'Cars24 Seller',
+      yearOfPurchase: 2019,
+      kmDriven: 52300,
+      numberOfOwners: 1,
+      city: 'Dwarka, New Delhi',
+    },
+  },
+  {
+    site: 'olx',
+    adapter: olxAdapter,
+    listingUrl: 'https://www.olx.in/delhi_g4058659/cars_c84',
+    detailUrl: 'https://www.olx.in/item/maruti-suzuki-alto-800-lxi-2016-iid-1712345678',
+    nextPageUrl: 'https://www.olx.in/delhi_g4058659/cars_c84?page=2',
+    cards: [
+      { carName: 'Maruti Suzuki Alto 800 LXI', price: 225000, yearOfPurchase: 2016, kmDriven: 48000, city: 'Dwarka, Delhi' },
+      { carName: 'Hyundai i20 Asta', price: 475000, yearOfPurchase: 2017, kmDriven: 67250 },
+    ],
+    detail: {
+      images: [
+        'https://apollo.olxcdn.com/v1/files/alto-front-IN/image.jpg',
+        'https://apollo.olxcdn.com/v1/files/alto-rear-IN/image.jpg',
+      ],
+      carName: 'Maruti Suzuki Alto 800 LXI',
+      model: 'Suzuki Alto 800 LXI',
+      price: 225000,
+      ownerName: 'Amit Verma',
+      yearOfPurchase: 2016,
+      kmDriven: 48000,
+      numberOfOwners: 2,
+      city: 'Dwarka, Delhi',
+    },
+  },
+  {
+    site: 'generic',
+    adapter: genericAdapter,
+    listingUrl: 'https://www.autobazaar.example/listings',
+    detailUrl: 'https://www.autobazaar.example/vehicle/48213',
+    nextPageUrl: 'https://www.autobazaar.example/listings?page=2',
+    cards: [
+      {
+        carName: 'Kia Seltos HTX',
+        price: 1350000,
+        yearOfPurchase: 2021,
+        kmDriven: 22000,
+        city: 'Pune',
+        ownerName: 'Seller',
+        images: ['https://www.autobazaar.example/photos/kia-seltos-htx.jpg'],
+      },
+      { carName: 'Toyota Innova Crysta GX', price: 1575000, numberOfOwners: 2, city: 'Mumbai' },
+    ],
+    detail: {
+      images: [
+        'https://www.autobazaar.example/photos/kia-seltos-htx.jpg',
+        'https://www.autobazaar.example/photos/kia-seltos-htx-rear.jpg',
+      ],
+      carName: 'Kia Seltos HTX',
+      model: 'Seltos HTX',
+      price: 1350000,
+      ownerName: 'Sahil Motors',
+      yearOfPurchase: 2021,
+      kmDriven: 22000,
+      numberOfOwners: 1,
+      city: 'Pune',
+    },
+  },
+];
+
+describe('Scraper Site Adapters', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 47: Site adapter dispatch
+   */
+  it('Property 47: Site adapter dispatch - supported hosts resolve to their adapter', () => {
+    const sites = [
+      { domain: 'cardekho.com', adapter: carDekhoAdapter },
+      { domain: 'carwale.com', adapter: carWaleAdapter },
+      { domain: 'cars24.com', adapter: cars24Adapter },
+      { domain: 'olx.in', adapter: olxAdapter },
+      { domain: 'olx.com', adapter: olxAdapter },
+    ];
+
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...sites),
+        fc.constantFrom('', 'www.', 'm.'),
+        fc.webPath(),
+        (site, subdomain, urlPath) => {
+          const url = `https://${subdomain}${site.domain}${urlPath}`;
+          expect(getSiteAdapter(url)).toBe(site.adapter);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 47: Site adapter dispatch - other hosts fall back to the generic adapter', () => {
+    fc.assert(
+      fc.property(
+        fc.domain().filter((domain) => !/(cardekho|carwale|cars24|olx)\.(com|in)$/.test(domain)),
+        fc.constantFrom('cardekho.com', 'carwale.com', 'cars24.com', 'olx.in'),
+        (domain, mentioned) => {
+          expect(getSiteAdapter(`https://${domain}/redirect?to=${mentioned}`)).toBe(genericAdapter);
+          expect(getSiteAdapter(`https://${domain}/${mentioned}/used-cars`)).toBe(genericAdapter);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  describe.each(fixtures)('$site fixtures', (fixture) => {
+    it('is selected by the registry for its URLs', () => {
+      expect(getSiteAdapter(fixture.listingUrl)).toBe(fixture.adapter);
+      expect(getSiteAdapter(fixture.detailUrl)).toBe(fixture.adapter);
+    });
+
+    it('detects listing and detail pages', () => {
+      const listing = loadFixture(fixture.site, 'listing');
+      const detail = loadFixture(fixture.site, 'detail');
+
+      expect(fixture.adapter.detectPageType(fixture.listingUrl, listing)).toBe(PageType.LISTING_PAGE);
+      expect(fixture.adapter.detectPageType(fixture.detailUrl, detail)).toBe(PageType.DETAIL_PAGE);
+    });
+
+    it('extracts listing cards', () => {
+      const cards = fixture.adapter.extractCards(loadFixture(fixture.site, 'listing'), fixture.listingUrl);
+
+      expect(cards).toHaveLength(fixture.cards.length);
+      fixture.cards.forEach((expected, index) => {
+        expect(cards[index]).toMatchObject(expected);
+      });
+    });
+
+    it('extracts the detail page', () => {
+      const data = fixture.adapter.extractDetail(loadFixture(fixture.site, 'detail'), fixture.detailUrl);
+      expect(data).toEqual({ ...fixture.detail, sourceUrl: fixture.detailUrl });
+    });
+
+    it('finds the next results page', () => {
+      const listing = loadFixture(fixture.site, 'listing');
+      expect(fixture.adapter.getNextPageUrl(listing, fixture.listingUrl)).toBe(fixture.nextPageUrl);
+      expect(fixture.adapter.getNextPageUrl(loadFixture(fixture.site, 'detail'), fixture.detailUrl)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { SiteAdapter } from './types';
+import { carDekhoAdapter } from './cardekho';
+import { carWaleAdapter } from './carwale';
+import { cars24Adapter } from './cars24';
+import { olxAdapter } from './olx';
+import { genericAdapter } from './generic';
+
+export { PageType } from './types';
+export type { Fetcher, ScrapedCarData, SiteAdapter, SoldSignal } from './types';
+export { genericAdapter };
+
+/**
+ * Site adapters in the order they are tried. The generic adapter is not
+ * listed; it handles any URL none of these claim.
+ */
+const adapters: SiteAdapter[] = [carDekhoAdapter, carWaleAdapter, cars24Adapter, olxAdapter];
+
+/**
+ * Add support for a new site. Later registrations take precedence so a
+ * more specific adapter can override a built-in one.
+ */
+export function registerSiteAdapter(adapter: SiteAdapter): void {
+  const existing = adapters.findIndex((candidate) => candidate.name === adapter.name);
+  if (existing !== -1) {
+    adapters.splice(existing, 1);
+  }
+  adapters.unshift(adapter);
+}
+
+/**
+ * All registered site adapters, excluding the generic fallback
+ */
+export function getSiteAdapters(): readonly SiteAdapter[] {
+  return adapters;
+}
+
+/**
+ * Pick the adapter for a URL, falling back to generic scraping
+ */
+export function getSiteAdapter(url: string): SiteAdapter {
+  return adapters.find((adapter) => adapter.canHandle(url)) || genericAdapter;
+}
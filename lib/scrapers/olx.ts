@@ -0,0 +1,53 @@
+import { SiteAdapter } from './types';
+import { detectSold, extractCardList, extractDetailData, findNextPageUrl, matchesHost } from './shared';
+import { COMMON_NEXT_PAGE_SELECTORS, detectPageTypeWithPatterns } from './generic';
+
+export const olxAdapter: SiteAdapter = {
+  name: 'OLX',
+
+  canHandle(url) {
+    return matchesHost(url, ['olx.in', 'olx.com']);
+  },
+
+  detectPageType(url, $) {
+    return detectPageTypeWithPatterns(url, $, {
+      detail: [
+        /\/item\/[^\/]+-iid-\d+/,                  // /item/honda-city-2018-iid-1712345678
+        /\/[^\/]+-\d+\.html/,                      // /car-name-12345.html
+      ],
+      listing: [
+        /\/cars_c\d+/,                             // /delhi_g4058659/cars_c84
+      ],
+    });
+  },
+
+  extractCards($, url) {
+    return extractCardList($, url, 'li[data-aut-id="itemBox"], [data-aut-id="itemBox"]', {
+      siteName: 'OLX',
+      nameSelector: '[data-aut-id="itemTitle"], .title, h2, h3',
+      priceSelector: '[data-aut-id="itemPrice"], .price',
+      citySelector: '[data-aut-id="item-location"], .location',
+      ownerName: 'OLX Seller',
+    });
+  },
+
+  extractDetail($, url) {
+    return extractDetailData($, url, {
+      siteName: 'OLX',
+      nameSelector: 'h1, [data-aut-id="itemTitle"], .ad-title',
+      priceSelector: '.price, [data-aut-id="itemPrice"], .ad-price',
+      specSelector: '.details-list, .ad-details, .specifications',
+      sellerSelector: '.seller-info, .user-info, [data-aut-id="seller"]',
+      citySelector: '.location, [data-aut-id="item-location"]',
+      ownerName: 'OLX Seller',
+    });
+  },
+
+  isSold($) {
+    return detectSold($, '[data-aut-id="itemDetails"], .ad-detail');
+  },
+
+  getNextPageUrl($, url) {
+    return findNextPageUrl($, url, ['a[data-aut-id="btnLoadMore"]', ...COMMON_NEXT_PAGE_SELECTORS]);
+  },
+};
@@ -0,0 +1,98 @@
+/**
+ * robots.txt rules that apply to one user agent
+ */
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  /** Seconds between requests, if the site asks for one */
+  crawlDelay?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRules;
+}
+
+/**
+ * Parse robots.txt and keep the group for our user agent, falling back to
+ * the `*` group. Unknown directives are ignored.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' && value) {
+      current.rules.allow.push(value);
+    } else if (field === 'disallow' && value) {
+      current.rules.disallow.push(value);
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.rules.crawlDelay = delay;
+      }
+    }
+  }
+
+  const token = userAgent.toLowerCase().split('/')[0];
+  const match =
+    groups.find((group) => group.agents.some((agent) => agent !== '*' && token.includes(agent))) ||
+    groups.find((group) => group.agents.includes('*'));
+
+  return match ? match.rules : { allow: [], disallow: [] };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Whether a URL may be crawled. The longest matching rule wins and Allow
+ * wins a tie, as in Google's implementation.
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  let target: string;
+  try {
+    const parsed = new URL(url);
+    target = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return false;
+  }
+
+  const longestMatch = (patterns: string[]) =>
+    patterns.reduce(
+      (longest, pattern) => (pattern.length > longest && patternToRegExp(pattern).test(target) ? pattern.length : longest),
+      -1
+    );
+
+  const allowed = longestMatch(rules.allow);
+  const disallowed = longestMatch(rules.disallow);
+  return disallowed === -1 || allowed >= disallowed;
+}
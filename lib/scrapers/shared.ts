@@ -0,0 +1,614 @@
+import * as cheerio from 'cheerio';
+import { ScrapedCarData, SoldSignal } from './types';
+
+const MAX_CARDS = 20; // Reduced limit to prevent stack overflow
+
+/**
+ * Selectors and defaults for pulling one car out of a listing page card
+ */
+export interface CardOptions {
+  siteName: string;
+  nameSelector: string;
+  priceSelector: string;
+  citySelector: string;
+  ownerName: string;
+}
+
+/**
+ * Selectors and defaults for a detail page laid out as title, price,
+ * spec table and seller box
+ */
+export interface DetailOptions {
+  siteName: string;
+  nameSelector: string;
+  priceSelector: string;
+  specSelector: string;
+  sellerSelector: string;
+  citySelector: string;
+  ownerName: string;
+}
+
+/**
+ * Skip cards that are really news, reviews or category links
+ */
+function isNonListingTitle(carName: string): boolean {
+  const lower = carName.toLowerCase();
+  return (
+    lower.includes('news') ||
+    lower.includes('best') ||
+    lower.includes('top') ||
+    lower.includes('features') ||
+    lower.includes('review') ||
+    lower.includes('cars between') ||
+    lower.includes('upcoming') ||
+    lower.includes('cars with') ||
+    carName.length > 100
+  );
+}
+
+/**
+ * Whether a URL's host is one of the given domains or a subdomain of one
+ */
+export function matchesHost(url: string, domains: string[]): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a possibly relative URL against the page it was found on
+ */
+export function toAbsoluteUrl(src: string, pageUrl: string): string {
+  try {
+    return new URL(src, pageUrl).toString();
+  } catch {
+    return src;
+  }
+}
+
+/**
+ * Extract car data from a single listing card
+ */
+export function extractCardData(
+  $: cheerio.CheerioAPI,
+  $card: cheerio.Cheerio<any>,
+  pageUrl: string,
+  options: CardOptions
+): ScrapedCarData | null {
+  try {
+    // Extract car name
+    const carName = $card.find(options.nameSelector).first().text().trim() ||
+                    $card.find('a').first().attr('title') || '';
+
+    if (!carName || isNonListingTitle(carName)) {
+      return null;
+    }
+
+    // Extract price
+    const priceText = $card.find(options.priceSelector).first().text().trim();
+    const price = parsePrice(priceText);
+
+    // Skip if no valid price found
+    if (!price || price <= 0 || isNaN(price)) {
+      return null;
+    }
+
+    const cardText = $card.text();
+
+    // Extract year
+    const yearMatch = cardText.match(/\b(19\d{2}|20\d{2})\b/);
+    const year = yearMatch ? parseInt(yearMatch[1]) : new Date().getFullYear();
+
+    // Extract km driven
+    const kmMatch = cardText.match(/(\d[\d,]*)\s*(?:km|Km|KM)/i);
+    const kmDriven = kmMatch ? parseInt(kmMatch[1].replace(/,/g, '')) : 0;
+
+    // Extract number of owners
+    const ownerMatch = cardText.toLowerCase().match(/(\d+)(?:st|nd|rd|th)?\s*owner/);
+    const numberOfOwners = ownerMatch ? parseInt(ownerMatch[1]) : 1;
+
+    // Extract city
+    const city = $card.find(options.citySelector).first().text().trim() || 'Unknown';
+
+    // Extract images - filter out logos and icons
+    const images: string[] = [];
+    $card.find('img').each((_, img) => {
+      const src = $(img).attr('src') ||
+                  $(img).attr('data-src') ||
+                  $(img).attr('data-lazy-src') ||
+                  $(img).attr('data-original') ||
+                  $(img).attr('data-lazy') ||
+                  $(img).attr('srcset')?.split(',')[0]?.split(' ')[0];
+      const alt = $(img).attr('alt') || '';
+      const className = $(img).attr('class') || '';
+
+      // Skip logos, icons, and small images
+      if (src && isValidImageUrl(src) && !isLogoOrIcon(src, alt, className)) {
+        images.push(toAbsoluteUrl(src, pageUrl));
+      }
+    });
+
+    // If no images found in card, this might be a detail page - skip it
+    // The detail page scraper will handle it differently
+    if (images.length === 0) {
+      return null;
+    }
+
+    // Extract model from car name
+    const nameParts = carName.split(' ');
+    const model = nameParts.length > 1 ? nameParts.slice(1).join(' ') : carName;
+
+    // Link to the car's own page, followed when crawling detail pages
+    const href = ($card.is('a[href]') ? $card : $card.find('a[href]').first()).attr('href')?.trim();
+    const sourceUrl = href && !href.startsWith('#') && !href.startsWith('javascript:')
+      ? toAbsoluteUrl(href, pageUrl)
+      : undefined;
+
+    return {
+      images: images.slice(0, 10),
+      carName,
+      model,
+      price,
+      ownerName: options.ownerName,
+      yearOfPurchase: year,
+      kmDriven,
+      numberOfOwners,
+      city,
+      ...(sourceUrl && { sourceUrl }),
+    };
+  } catch (error) {
+    console.error(`Error extracting ${options.siteName} card:`, error);
+    return null;
+  }
+}
+
+/**
+ * Extract every car card matching a selector, capped at MAX_CARDS
+ */
+export function extractCardList(
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  cardSelector: string,
+  options: CardOptions
+): ScrapedCarData[] {
+  const cars: ScrapedCarData[] = [];
+  const carCards = $(cardSelector);
+  console.log(`Found ${carCards.length} potential car cards on ${options.siteName}`);
+
+  let processedCount = 0;
+
+  try {
+    carCards.each((_, card) => {
+      if (processedCount >= MAX_CARDS) {
+        console.log(`Reached maximum card limit (${MAX_CARDS}), stopping extraction`);
+        return false; // Break the loop
+      }
+
+      processedCount++;
+
+      try {
+        const carData = extractCardData($, $(card), pageUrl, options);
+        if (carData && carData.carName) {
+          cars.push(carData);
+        }
+      } catch (error) {
+        console.error(`Error extracting ${options.siteName} card ${processedCount}:`, error);
+      }
+    });
+  } catch (loopError) {
+    console.error('Error during card extraction loop:', loopError);
+    // Continue with whatever cars we've extracted so far
+  }
+
+  return cars;
+}
+
+/**
+ * Extract car data from a detail page using site-specific selectors,
+ * falling back to page text for any specs the selectors miss
+ */
+export function extractDetailData(
+  $: cheerio.CheerioAPI,
+  url: string,
+  options: DetailOptions
+): ScrapedCarData | null {
+  try {
+    const carName = $(options.nameSelector).first().text().trim();
+
+    if (!carName) return null;
+
+    const priceText = $(options.priceSelector).first().text().trim();
+    const price = parsePrice(priceText);
+
+    // Extract images using helper function
+    const images = extractDetailImages($, url);
+
+    // Extract specifications from table if available
+    const specs = extractSpecTable($, options.specSelector);
+
+    // Extract seller information
+    const sellerInfo = extractSellerInfo($, options.sellerSelector);
+
+    // Fallback to page text for missing specs
+    const pageText = $('body').text();
+
+    // Extract year (from specs or page text)
+    let year = specs.yearOfPurchase;
+    if (!year) {
+      const yearMatch = pageText.match(/\b(19\d{2}|20\d{2})\b/);
+      year = yearMatch ? parseInt(yearMatch[1]) : new Date().getFullYear();
+    }
+
+    // Extract km driven (from specs or page text)
+    let kmDriven = specs.kmDriven || 0;
+    if (!kmDriven) {
+      const kmMatch = pageText.match(/(\d[\d,]*)\s*(?:km|Km|KM)/i);
+      kmDriven = kmMatch ? parseInt(kmMatch[1].replace(/,/g, '')) : 0;
+    }
+
+    // Extract number of owners (from specs or page text)
+    let numberOfOwners = specs.numberOfOwners || 1;
+    if (!numberOfOwners || numberOfOwners === 1) {
+      const ownerMatch = pageText.toLowerCase().match(/(\d+)(?:st|nd|rd|th)?\s*owner/);
+      numberOfOwners = ownerMatch ? parseInt(ownerMatch[1]) : 1;
+    }
+
+    // Extract city (from specs or selectors)
+    const city = specs.city || sellerInfo.city || $(options.citySelector).first().text().trim() || 'Unknown';
+
+    // Extract model from car name
+    const nameParts = carName.split(' ');
+    const model = nameParts.length > 1 ? nameParts.slice(1).join(' ') : carName;
+
+    return {
+      images: images.slice(0, 15),
+      carName,
+      model,
+      price,
+      ownerName: sellerInfo.name || options.ownerName,
+      yearOfPurchase: year,
+      kmDriven,
+      numberOfOwners,
+      city,
+      sourceUrl: url,
+    };
+  } catch (error) {
+    console.error(`Error extracting ${options.siteName} detail:`, error);
+    return null;
+  }
+}
+
+/**
+ * Find the next results page from the first matching pagination link
+ */
+export function findNextPageUrl(
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  selectors: string[]
+): string | null {
+  for (const selector of selectors) {
+    const href = $(selector).first().attr('href')?.trim();
+    if (!href || href === '#' || href.startsWith('javascript:')) continue;
+
+    const nextUrl = toAbsoluteUrl(href, pageUrl);
+    if (nextUrl !== pageUrl && /^https?:\/\//.test(nextUrl)) {
+      return nextUrl;
+    }
+  }
+
+  return null;
+}
+
+const SOLD_MARKERS = '.sold, .sold-out, .badge-sold, [data-sold="true"], [data-status="sold"]';
+const SOLD_TEXT = /\b(this car (has been|is) sold|sold out|car sold|already sold)\b/i;
+
+/**
+ * Whether an element carries a sold marker or a sold headline
+ */
+function hasSoldMarker($: cheerio.CheerioAPI, $scope: cheerio.Cheerio<any>): boolean {
+  if ($scope.is(SOLD_MARKERS) || $scope.find(SOLD_MARKERS).length > 0) {
+    return true;
+  }
+  const headline = $scope
+    .find('h1, h2, .status, .badge, .listing-status')
+    .map((_, element) => $(element).text())
+    .get()
+    .join(' ');
+  return SOLD_TEXT.test(headline);
+}
+
+/**
+ * Look for sold markers inside the listing's own detail block. Markers
+ * elsewhere on the page (a "recently sold" carousel, related car cards) or
+ * a page whose detail block cannot be found only make the signal unclear.
+ */
+export function detectSold($: cheerio.CheerioAPI, containerSelector: string): SoldSignal {
+  const $container = $(containerSelector).first();
+  if ($container.length > 0 && hasSoldMarker($, $container)) {
+    return 'sold';
+  }
+
+  const soldTitle = /^\s*sold\b/i.test($('title').text());
+  if (soldTitle || ($container.length === 0 && hasSoldMarker($, $.root()))) {
+    return 'unclear';
+  }
+  return 'available';
+}
+
+/**
+ * Required fields that are missing or empty in extracted car data
+ */
+export function getMissingFields(data: ScrapedCarData): string[] {
+  const missingFields: string[] = [];
+  if (!data.carName) missingFields.push('carName');
+  if (!data.model) missingFields.push('model');
+  if (!data.price || data.price <= 0) missingFields.push('price');
+  if (!data.images || data.images.length === 0) missingFields.push('images');
+  return missingFields;
+}
+
+/**
+ * Extract images from detail page gallery
+ * Prioritizes high-resolution images and filters out UI elements
+ */
+export function extractDetailImages($: cheerio.CheerioAPI, baseUrl?: string): string[] {
+  const images: string[] = [];
+  const seenUrls = new Set<string>();
+
+  // Try gallery-specific selectors first
+  const gallerySelectors = [
+    '.gallery img',
+    '.image-carousel img',
+    '.car-gallery img',
+    '.photo-gallery img',
+    '.slider img',
+    '[data-gallery] img',
+    '.swiper-slide img',
+  ];
+
+  for (const selector of gallerySelectors) {
+    $(selector).each((_, img) => {
+      let src = extractImageUrl($(img));
+      if (src && !seenUrls.has(src) && !isLogoOrIcon(src, $(img).attr('alt') || '', $(img).attr('class') || '')) {
+        // Convert relative URLs to absolute if baseUrl is provided
+        if (baseUrl && src.startsWith('/')) {
+          try {
+            const urlObj = new URL(baseUrl);
+            src = `${urlObj.protocol}//${urlObj.host}${src}`;
+          } catch (e) {
+            // If URL parsing fails, keep the original src
+          }
+        }
+        seenUrls.add(src);
+        images.push(src);
+      }
+    });
+
+    // If we found images in a gallery, stop looking
+    if (images.length > 0) break;
+  }
+
+  // Fallback to all images if gallery not found
+  if (images.length === 0) {
+    $('img').each((_, img) => {
+      let src = extractImageUrl($(img));
+      if (src && !seenUrls.has(src) && !isLogoOrIcon(src, $(img).attr('alt') || '', $(img).attr('class') || '')) {
+        // Convert relative URLs to absolute if baseUrl is provided
+        if (baseUrl && src.startsWith('/')) {
+          try {
+            const urlObj = new URL(baseUrl);
+            src = `${urlObj.protocol}//${urlObj.host}${src}`;
+          } catch (e) {
+            // If URL parsing fails, keep the original src
+          }
+        }
+        seenUrls.add(src);
+        images.push(src);
+      }
+    });
+  }
+
+  return images.slice(0, 15); // Limit to 15 images
+}
+
+/**
+ * Extract image URL from img element, handling lazy-loaded images
+ * Prioritizes lazy-loading attributes over src to get high-resolution images
+ */
+export function extractImageUrl($img: cheerio.Cheerio<any>): string | null {
+  // Try lazy-loading attributes first (they usually contain the actual high-res image)
+  // Note: Skip 'data-lazy' as it's often a boolean flag, not a URL
+  const src = $img.attr('data-src') ||
+              $img.attr('data-lazy-src') ||
+              $img.attr('data-original') ||
+              $img.attr('data-lazy-original') ||
+              $img.attr('srcset')?.split(',')[0]?.split(' ')[0] ||
+              $img.attr('src'); // Fallback to src if no lazy-loading attributes
+
+  // Ensure we return a string or null, not boolean or other types
+  // Also filter out placeholder images
+  if (typeof src === 'string' && src.length > 0 && !src.includes('spacer') && !src.includes('placeholder')) {
+    return src;
+  }
+  return null;
+}
+
+/**
+ * Extract specifications from structured table or list
+ */
+export function extractSpecTable($: cheerio.CheerioAPI, tableSelector: string): Partial<ScrapedCarData> {
+  const specs: any = {};
+
+  // Try table format. Scope with find() so every selector in a comma
+  // separated list is treated as a container, not just the last one
+  $(tableSelector).find('tr, .spec-row, .specification-item').each((_, row) => {
+    const $row = $(row);
+    const label = $row.find('td:first-child, th, .label, .spec-label').text().trim().toLowerCase();
+    const value = $row.find('td:last-child, .value, .spec-value').text().trim();
+
+    if (label.includes('year') || label.includes('registration')) {
+      const yearMatch = value.match(/\b(19\d{2}|20\d{2})\b/);
+      if (yearMatch) specs.yearOfPurchase = parseInt(yearMatch[1]);
+    } else if (label.includes('km') || label.includes('mileage') || label.includes('driven')) {
+      const kmMatch = value.match(/(\d[\d,]*)/);
+      if (kmMatch) specs.kmDriven = parseInt(kmMatch[1].replace(/,/g, ''));
+    } else if (label.includes('owner')) {
+      const ownerMatch = value.match(/(\d+)/);
+      if (ownerMatch) specs.numberOfOwners = parseInt(ownerMatch[1]);
+    } else if (label.includes('city') || label.includes('location')) {
+      specs.city = value;
+    }
+  });
+
+  return specs;
+}
+
+/**
+ * Extract seller information from detail page
+ */
+export function extractSellerInfo($: cheerio.CheerioAPI, sellerSelector: string): { name: string; city: string } {
+  const $seller = $(sellerSelector);
+  const name = $seller.find('.seller-name, .owner-name, .dealer-name').first().text().trim();
+  const city = $seller.find('.seller-location, .location, .city').first().text().trim();
+
+  return { name, city };
+}
+
+/**
+ * Extract and clean description from detail page
+ * Removes HTML tags, preserves paragraph breaks, combines multiple sections
+ */
+export function extractDescription($: cheerio.CheerioAPI): string {
+  const descriptionSelectors = [
+    '.description',
+    '.car-description',
+    '.vehicle-description',
+    '.ad-description',
+    '[data-description]',
+    '.details-description',
+    '.about',
+    '.overview-text',
+  ];
+
+  let description = '';
+
+  // Try each selector
+  for (const selector of descriptionSelectors) {
+    const $desc = $(selector).first();
+    if ($desc.length > 0) {
+      // Get text content, which automatically removes HTML tags
+      let text = $desc.text().trim();
+
+      // If we found content, use it
+      if (text && text.length > 10) {
+        description = text;
+        break;
+      }
+    }
+  }
+
+  // If no description found, try to find multiple description sections
+  if (!description) {
+    const sections: string[] = [];
+    $('.description-section, .detail-section, p.description').each((_, el) => {
+      const text = $(el).text().trim();
+      if (text && text.length > 10) {
+        sections.push(text);
+      }
+    });
+
+    if (sections.length > 0) {
+      description = sections.join('\n\n');
+    }
+  }
+
+  // Clean up the description
+  if (description) {
+    // Remove excessive whitespace
+    description = description.replace(/\s+/g, ' ').trim();
+
+    // Preserve paragraph breaks by looking for sentence endings
+    description = description.replace(/\.\s+/g, '.\n');
+
+    // Remove any remaining HTML entities
+    description = description
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'");
+  }
+
+  return description || '';
+}
+
+export function parsePrice(text: string): number {
+  // Remove currency symbols and commas
+  const cleaned = text.replace(/[₹$,]/g, '').trim();
+
+  // Handle lakhs and crores
+  if (cleaned.toLowerCase().includes('lakh')) {
+    const num = parseFloat(cleaned.replace(/[^\d.]/g, ''));
+    return num * 100000;
+  }
+  if (cleaned.toLowerCase().includes('crore')) {
+    const num = parseFloat(cleaned.replace(/[^\d.]/g, ''));
+    return num * 10000000;
+  }
+
+  return parseInt(cleaned.replace(/\D/g, ''));
+}
+
+export function isValidImageUrl(url: string): boolean {
+  if (!url) return false;
+
+  // Handle relative URLs
+  if (url.startsWith('/')) return true;
+
+  // Check if it's a valid URL
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if an image is likely a logo or icon
+ */
+export function isLogoOrIcon(src: string, alt: string, className: string): boolean {
+  const lowerSrc = src.toLowerCase();
+  const lowerAlt = alt.toLowerCase();
+  const lowerClass = className.toLowerCase();
+
+  // Check for common logo/icon patterns in URL
+  const logoPatterns = [
+    'logo', 'icon', 'sprite', 'badge', 'button',
+    'arrow', 'chevron', 'menu', 'nav', 'header',
+    'footer', 'social', 'brand', 'favicon',
+    'placeholder', 'loading', 'spinner'
+  ];
+
+  for (const pattern of logoPatterns) {
+    if (lowerSrc.includes(pattern) || lowerAlt.includes(pattern) || lowerClass.includes(pattern)) {
+      return true;
+    }
+  }
+
+  // Check for SVG (often used for icons)
+  if (lowerSrc.endsWith('.svg')) {
+    return true;
+  }
+
+  // Check for very small dimensions in the URL (like 24x24, 32x32)
+  if (/\d{1,2}x\d{1,2}/.test(lowerSrc)) {
+    return true;
+  }
+
+  return false;
+}
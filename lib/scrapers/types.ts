@@ -0,0 +1,52 @@
+import type * as cheerio from 'cheerio';
+
+export interface ScrapedCarData {
+  images: string[];
+  carName: string;
+  model: string;
+  price: number;
+  ownerName: string;
+  yearOfPurchase: number;
+  kmDriven: number;
+  numberOfOwners: number;
+  city: string;
+  /** Page the car was scraped from */
+  sourceUrl?: string;
+}
+
+/**
+ * Fetches a page for scraping. Defaults to the global fetch; tests inject
+ * one that serves saved HTML fixtures.
+ */
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * What a detail page says about whether the car is still for sale. `unclear`
+ * means sold markers were found, but not in the listing's own detail block.
+ */
+export type SoldSignal = 'sold' | 'unclear' | 'available';
+
+/**
+ * Page type enum for detecting listing vs detail pages
+ */
+export enum PageType {
+  LISTING_PAGE = 'LISTING_PAGE',
+  DETAIL_PAGE = 'DETAIL_PAGE',
+  UNKNOWN = 'UNKNOWN'
+}
+
+/**
+ * A supported website. Each adapter owns the URL patterns, selectors and
+ * pagination rules for its site; the registry picks one per URL.
+ */
+export interface SiteAdapter {
+  name: string;
+  canHandle(url: string): boolean;
+  detectPageType(url: string, $: cheerio.CheerioAPI): PageType;
+  extractCards($: cheerio.CheerioAPI, url: string): ScrapedCarData[];
+  extractDetail($: cheerio.CheerioAPI, url: string): ScrapedCarData | null;
+  /** Whether the detail page marks this car as sold */
+  isSold($: cheerio.CheerioAPI): SoldSignal;
+  /** Absolute URL of the next results page, or null on the last page */
+  getNextPageUrl($: cheerio.CheerioAPI, url: string): string | null;
+}
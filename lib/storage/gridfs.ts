@@ -0,0 +1,79 @@
+import type { Readable } from 'stream';
+import {
+  deleteFromGridFS,
+  downloadFromGridFS,
+  findGridFSFileByHash,
+  getGridFSFile,
+  markGridFSFileReused,
+  openGridFSStream,
+  uploadImageToGridFS,
+  uploadToGridFS,
+} from '../gridfs';
+import type { ByteRange } from '../http-range';
+import type { PutOptions, StorageProvider, StoredObject, StoredObjectInfo } from './types';
+
+/**
+ * Images in MongoDB GridFS, served by /api/images/<id>. The only provider
+ * that keeps resized variants, since that route is what serves them.
+ */
+export class GridFSStorage implements StorageProvider {
+  readonly name = 'gridfs';
+
+  async put(buffer: Buffer, options: PutOptions): Promise<StoredObject> {
+    const { fileId, url } = await uploadToGridFS(buffer, options.filename, options.contentType, options.metadata);
+    return { key: fileId, url };
+  }
+
+  /**
+   * Store an upload with its variants, reusing an earlier copy when the
+   * metadata carries the SHA-256 of the same content
+   */
+  async putImage(buffer: Buffer, filename: string, metadata: Record<string, string> = {}): Promise<StoredObject> {
+    const existing = metadata.sha256 ? await findGridFSFileByHash(metadata.sha256) : null;
+    if (existing) {
+      await markGridFSFileReused(existing.fileId);
+      return { key: existing.fileId, url: existing.url };
+    }
+
+    const { fileId, url } = await uploadImageToGridFS(buffer, filename, metadata);
+    return { key: fileId, url };
+  }
+
+  async get(key: string): Promise<(StoredObjectInfo & { buffer: Buffer }) | null> {
+    const info = await this.stat(key);
+    if (!info) {
+      return null;
+    }
+    const { buffer } = await downloadFromGridFS(key);
+    return { ...info, buffer };
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    const file = await getGridFSFile(key);
+    if (!file) {
+      return null;
+    }
+    return {
+      contentType: file.contentType || 'application/octet-stream',
+      length: file.length,
+      lastModified: file.uploadDate,
+    };
+  }
+
+  stream(key: string, range?: ByteRange): Promise<Readable> {
+    return openGridFSStream(key, range);
+  }
+
+  delete(key: string): Promise<void> {
+    return deleteFromGridFS(key);
+  }
+
+  // Images are public, so the plain route URL is enough
+  async signedUrl(key: string): Promise<string> {
+    return `/api/images/${key}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    return url.match(/^\/api\/images\/([a-f0-9]{24})$/i)?.[1] || null;
+  }
+}
@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { createHash } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+
+// Mock mongodb connection
+vi.mock('../mongodb', () => ({
+  default: vi.fn(async () => ({})),
+}));
+
+vi.mock('../models/Listing', () => ({
+  default: {
+    find: vi.fn(),
+    updateOne: vi.fn(),
+  },
+}));
+
+// Mock GridFS storage
+vi.mock('../gridfs', () => ({
+  findGridFSFileByHash: vi.fn(),
+  markGridFSFileReused: vi.fn(),
+  uploadImageToGridFS: vi.fn(),
+}));
+
+import Listing from '../models/Listing';
+import { findGridFSFileByHash, markGridFSFileReused, uploadImageToGridFS } from '../gridfs';
+import { getStorage, GridFSStorage, LocalDiskStorage, S3Storage, StorageProvider, storeImage } from './index';
+import { migrateImages } from './migrate';
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+interface StandInObject {
+  body: Buffer;
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Just enough of the S3 object API to stand in for MinIO: path-style
+ * PUT/GET/HEAD/DELETE with Range, refusing unsigned requests
+ */
+function startS3StandIn(bucket: string): Promise<{ server: Server; endpoint: string; objects: Map<string, StandInObject> }> {
+  const objects = new Map<string, StandInObject>();
+
+  const server = createServer(async (request, response) => {
+    const body = await readAll(request);
+    const authorization = String(request.headers.authorization || '');
+    const payloadHash = request.headers['x-amz-content-sha256'];
+    if (
+      !/^AWS4-HMAC-SHA256 Credential=test-key\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=[a-z0-9;-]+, Signature=[0-9a-f]{64}$/.test(authorization) ||
+      payloadHash !== createHash('sha256').update(body).digest('hex')
+    ) {
+      response.writeHead(403).end();
+      return;
+    }
+
+    const prefix = `/${bucket}/`;
+    if (!request.url?.startsWith(prefix)) {
+      response.writeHead(404).end();
+      return;
+    }
+    const key = request.url.slice(prefix.length);
+    const object = objects.get(key);
+
+    if (request.method === 'PUT') {
+      const metadata: Record<string, string> = {};
+      for (const [name, value] of Object.entries(request.headers)) {
+        if (name.startsWith('x-amz-meta-')) metadata[name.slice('x-amz-meta-'.length)] = String(value);
+      }
+      objects.set(key, { body, contentType: String(request.headers['content-type']), metadata });
+      response.writeHead(200).end();
+    } else if (request.method === 'DELETE') {
+      objects.delete(key);
+      response.writeHead(204).end();
+    } else if (!object) {
+      response.writeHead(404).end();
+    } else {
+      const range = String(request.headers.range || '').match(/^bytes=(\d+)-(\d+)$/);
+      const part = range ? object.body.subarray(Number(range[1]), Number(range[2]) + 1) : object.body;
+      response.writeHead(range ? 206 : 200, {
+        'Content-Type': object.contentType,
+        'Content-Length': String(request.method === 'HEAD' ? object.body.length : part.length),
+        'Last-Modified': new Date().toUTCString(),
+      });
+      response.end(request.method === 'HEAD' ? undefined : part);
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects });
+    });
+  });
+}
+
+let localDir: string;
+let local: LocalDiskStorage;
+let s3: S3Storage;
+let s3Server: Server;
+let s3Objects: Map<string, StandInObject>;
+
+beforeAll(async () => {
+  localDir = await mkdtemp(path.join(tmpdir(), 'drivesphere-storage-'));
+  local = new LocalDiskStorage(localDir);
+
+  const standIn = await startS3StandIn('listing-images');
+  s3Server = standIn.server;
+  s3Objects = standIn.objects;
+  s3 = new S3Storage({
+    endpoint: standIn.endpoint,
+    region: 'us-east-1',
+    bucket: 'listing-images',
+    accessKeyId: 'test-key',
+    secretAccessKey: 'test-secret',
+  });
+});
+
+afterAll(async () => {
+  await rm(localDir, { recursive: true, force: true });
+  await new Promise((resolve) => s3Server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('Storage Provider Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 57: Stored objects read back byte for byte
+   */
+  it('Property 57: Storage round trip - local disk and S3 return what was stored', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom<StorageProvider>(local, s3),
+        fc.uint8Array({ minLength: 1, maxLength: 4096 }),
+        fc.constantFrom('image/jpeg', 'image/png', 'image/webp'),
+        async (storage, bytes, contentType) => {
+          const buffer = Buffer.from(bytes);
+          const { key, url } = await storage.put(buffer, { filename: 'photo', contentType });
+
+          expect(storage.keyFromUrl(url)).toBe(key);
+          const object = await storage.get(key);
+          expect(object?.buffer.equals(buffer)).toBe(true);
+          expect(object?.contentType).toBe(contentType);
+          expect((await storage.stat(key))?.length).toBe(buffer.length);
+
+          const start = Math.floor(buffer.length / 3);
+          const end = buffer.length - 1;
+          expect((await readAll(await storage.stream(key, { start, end }))).equals(buffer.subarray(start))).toBe(true);
+
+          await storage.delete(key);
+          expect(await storage.stat(key)).toBeNull();
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('Property 57: Storage round trip - the same bytes are stored once', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uint8Array({ minLength: 1, maxLength: 256 }), async (bytes) => {
+        const buffer = Buffer.from(bytes);
+        const first = await local.put(buffer, { filename: 'a.jpg', contentType: 'image/jpeg' });
+        const second = await local.put(buffer, { filename: 'b.jpg', contentType: 'image/jpeg' });
+        expect(second).toEqual(first);
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
+
+describe('Storage providers', () => {
+  it('refuses keys that would escape the storage directory', async () => {
+    expect(local.keyFromUrl('/api/storage/../../etc/passwd')).toBeNull();
+    await expect(local.get('../secrets.json')).rejects.toThrow('Invalid storage key');
+  });
+
+  it('sends S3 metadata and recognises only its own URLs', async () => {
+    const { key, url } = await s3.put(Buffer.from('photo'), {
+      filename: 'front.jpg',
+      contentType: 'image/jpeg',
+      metadata: { sourceSite: 'CarDekho' },
+    });
+
+    expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/listing-images\/images\/[0-9a-f]{64}\.jpg$/);
+    expect(s3Objects.get(key)?.metadata).toEqual({ filename: 'front.jpg', sourcesite: 'CarDekho' });
+    expect(s3.keyFromUrl('/api/images/65a1b2c3d4e5f6a7b8c9d0e1')).toBeNull();
+  });
+
+  it('presigns S3 URLs', async () => {
+    const url = new URL(await s3.signedUrl('images/abc.jpg', 600));
+
+    expect(url.pathname).toBe('/listing-images/images/abc.jpg');
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('600');
+    expect(url.searchParams.get('X-Amz-Credential')).toMatch(/^test-key\/\d{8}\/us-east-1\/s3\/aws4_request$/);
+    expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('is picked by STORAGE_PROVIDER', () => {
+    expect(getStorage().name).toBe('gridfs');
+    expect(getStorage('local').name).toBe('local');
+    expect(() => getStorage('dropbox')).toThrow('Unknown storage provider: dropbox');
+  });
+});
+
+describe('storeImage', () => {
+  it('strips EXIF data before storing on disk', async () => {
+    const photo = await sharp({ create: { width: 32, height: 32, channels: 3, background: '#336699' } })
+      .jpeg()
+      .withMetadata({ exif: { IFD0: { Make: 'PhoneMaker' } } })
+      .toBuffer();
+
+    const { key } = await storeImage(photo, 'photo.jpg', {}, local);
+
+    const stored = await local.get(key);
+    expect((await sharp(stored!.buffer).metadata()).exif).toBeUndefined();
+  });
+
+  it('reuses a GridFS copy with the same content hash', async () => {
+    vi.mocked(findGridFSFileByHash).mockResolvedValue({ fileId: 'existing', url: '/api/images/existing' });
+
+    const result = await storeImage(Buffer.from('photo'), 'photo.jpg', { sha256: 'abc' }, new GridFSStorage());
+
+    expect(result).toEqual({ key: 'existing', url: '/api/images/existing' });
+    expect(markGridFSFileReused).toHaveBeenCalledWith('existing');
+    expect(uploadImageToGridFS).not.toHaveBeenCalled();
+  });
+});
+
+describe('migrateImages', () => {
+  function listingCursor(listings: Array<{ _id: string; images: string[] }>) {
+    vi.mocked(Listing.find).mockReturnValue({
+      select: () => ({ lean: () => ({ cursor: () => listings }) }),
+    } as any);
+  }
+
+  it('copies images to the new provider and rewrites listing URLs', async () => {
+    const { url: shared } = await local.put(Buffer.from('shared photo'), { filename: 'a.jpg', contentType: 'image/jpeg' });
+    listingCursor([
+      { _id: 'listing-1', images: [shared, 'https://cdn.example.com/elsewhere.jpg'] },
+      { _id: 'listing-2', images: [shared, '/api/storage/images/missing.jpg'] },
+    ]);
+
+    const result = await migrateImages(local, s3, { log: () => {} });
+
+    const [copied] = (vi.mocked(Listing.updateOne).mock.calls[0] as any[])[1].$set.images as string[];
+    expect(s3.keyFromUrl(copied)).not.toBeNull();
+    expect(Listing.updateOne).toHaveBeenCalledWith(
+      { _id: 'listing-1' },
+      { $set: { images: [copied, 'https://cdn.example.com/elsewhere.jpg'] } }
+    );
+    expect(Listing.updateOne).toHaveBeenCalledWith(
+      { _id: 'listing-2' },
+      { $set: { images: [copied, '/api/storage/images/missing.jpg'] } }
+    );
+    expect(result).toEqual({
+      listings: 2,
+      copied: 1,
+      failed: ['/api/storage/images/missing.jpg: not found'],
+    });
+  });
+
+  it('changes nothing on a dry run', async () => {
+    const { url } = await local.put(Buffer.from('dry run photo'), { filename: 'a.jpg', contentType: 'image/jpeg' });
+    listingCursor([{ _id: 'listing-1', images: [url] }]);
+    const objectsBefore = s3Objects.size;
+
+    const result = await migrateImages(local, s3, { dryRun: true, log: () => {} });
+
+    expect(result.listings).toBe(1);
+    expect(Listing.updateOne).not.toHaveBeenCalled();
+    expect(s3Objects.size).toBe(objectsBefore);
+  });
+});
@@ -0,0 +1,92 @@
+import path from 'path';
+import { processImage } from '../image-processing';
+import { GridFSStorage } from './gridfs';
+import { LocalDiskStorage } from './local';
+import { S3Storage } from './s3';
+import type { StorageProvider, StoredObject } from './types';
+
+export type { PutOptions, StorageProvider, StoredObject, StoredObjectInfo } from './types';
+export { GridFSStorage, LocalDiskStorage, S3Storage };
+
+function requiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required for S3 storage`);
+  }
+  return value;
+}
+
+const providers: Record<string, () => StorageProvider> = {
+  gridfs: () => new GridFSStorage(),
+  local: () => new LocalDiskStorage(path.resolve(process.env.STORAGE_LOCAL_DIR || 'uploads')),
+  s3: () =>
+    new S3Storage({
+      endpoint: requiredEnv('STORAGE_S3_ENDPOINT'),
+      region: process.env.STORAGE_S3_REGION || 'us-east-1',
+      bucket: requiredEnv('STORAGE_S3_BUCKET'),
+      accessKeyId: requiredEnv('STORAGE_S3_ACCESS_KEY_ID'),
+      secretAccessKey: requiredEnv('STORAGE_S3_SECRET_ACCESS_KEY'),
+      publicUrl: process.env.STORAGE_S3_PUBLIC_URL,
+    }),
+};
+
+/**
+ * Get the storage provider configured by STORAGE_PROVIDER (defaults to gridfs)
+ */
+export function getStorage(name = process.env.STORAGE_PROVIDER || 'gridfs'): StorageProvider {
+  const create = providers[name];
+  if (!create) {
+    throw new Error(`Unknown storage provider: ${name}`);
+  }
+  return create();
+}
+
+/**
+ * Provider and key for a stored image URL. GridFS is checked after the
+ * configured provider so images from before a switch keep working.
+ */
+export function findStoredObject(url: string): { storage: StorageProvider; key: string } | null {
+  const candidates = [getStorage()];
+  if (candidates[0].name !== 'gridfs') {
+    candidates.push(new GridFSStorage());
+  }
+
+  for (const storage of candidates) {
+    const key = storage.keyFromUrl(url);
+    if (key) {
+      return { storage, key };
+    }
+  }
+  return null;
+}
+
+/**
+ * Store an uploaded image with its EXIF data stripped
+ * @param metadata Extra metadata; a `sha256` of the upload lets GridFS reuse an earlier copy
+ * @returns Key and URL to keep in `Listing.images`
+ */
+export async function storeImage(
+  buffer: Buffer,
+  filename: string,
+  metadata: Record<string, string> = {},
+  storage: StorageProvider = getStorage()
+): Promise<StoredObject> {
+  if (storage instanceof GridFSStorage) {
+    return storage.putImage(buffer, filename, metadata);
+  }
+
+  // Only GridFS keeps resized variants. The other providers use
+  // content-addressed keys, so repeated uploads are stored once.
+  const { original } = await processImage(buffer);
+  return storage.put(original.buffer, { filename, contentType: original.contentType, metadata });
+}
+
+/**
+ * Store several uploaded images
+ * @returns Their URLs, in order
+ */
+export async function storeImages(files: Array<{ buffer: Buffer; filename: string }>): Promise<string[]> {
+  const storage = getStorage();
+  const stored = await Promise.all(files.map((file) => storeImage(file.buffer, file.filename, {}, storage)));
+  return stored.map((image) => image.url);
+}
@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Content-addressed key for providers that choose their own keys, so storing
+ * the same bytes twice keeps one copy
+ */
+export function contentKey(buffer: Buffer, contentType: string): string {
+  const sha256 = createHash('sha256').update(buffer).digest('hex');
+  return `images/${sha256}.${EXTENSIONS[contentType] || 'bin'}`;
+}
+
+/**
+ * Whether a key is safe to use as a relative path or URL path
+ */
+export function isValidKey(key: string): boolean {
+  return /^[\w-]+(\/[\w-]+)*(\.[\w]+)?$/.test(key);
+}
@@ -0,0 +1,93 @@
+import { createReadStream } from 'fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Readable } from 'stream';
+import type { ByteRange } from '../http-range';
+import { contentKey, isValidKey } from './keys';
+import type { PutOptions, StorageProvider, StoredObject, StoredObjectInfo } from './types';
+
+interface Sidecar {
+  contentType: string;
+  filename: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Images on the server's disk under STORAGE_LOCAL_DIR, served by
+ * /api/storage/<key>. Each file has a `.json` sidecar with its content type.
+ */
+export class LocalDiskStorage implements StorageProvider {
+  readonly name = 'local';
+
+  constructor(private readonly root: string) {}
+
+  private filePath(key: string): string {
+    if (!isValidKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.root, key);
+  }
+
+  async put(buffer: Buffer, options: PutOptions): Promise<StoredObject> {
+    const key = contentKey(buffer, options.contentType);
+    const filePath = this.filePath(key);
+
+    if (!(await this.stat(key))) {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const sidecar: Sidecar = {
+        contentType: options.contentType,
+        filename: options.filename,
+        metadata: options.metadata || {},
+      };
+      await writeFile(`${filePath}.json`, JSON.stringify(sidecar));
+      await writeFile(filePath, buffer);
+    }
+
+    return { key, url: `/api/storage/${key}` };
+  }
+
+  async get(key: string): Promise<(StoredObjectInfo & { buffer: Buffer }) | null> {
+    const info = await this.stat(key);
+    if (!info) {
+      return null;
+    }
+    return { ...info, buffer: await readFile(this.filePath(key)) };
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    const filePath = this.filePath(key);
+    try {
+      const [file, sidecar] = await Promise.all([stat(filePath), readFile(`${filePath}.json`, 'utf8')]);
+      return {
+        contentType: (JSON.parse(sidecar) as Sidecar).contentType,
+        length: file.size,
+        lastModified: file.mtime,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    return createReadStream(this.filePath(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.filePath(key);
+    await rm(filePath, { force: true });
+    await rm(`${filePath}.json`, { force: true });
+  }
+
+  // Images are public, so the plain route URL is enough
+  async signedUrl(key: string): Promise<string> {
+    return `/api/storage/${key}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const key = url.match(/^\/api\/storage\/(.+)$/)?.[1];
+    return key && isValidKey(key) ? key : null;
+  }
+}
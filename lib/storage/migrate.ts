@@ -0,0 +1,71 @@
+import connectDB from '../mongodb';
+import Listing from '../models/Listing';
+import type { StorageProvider } from './types';
+
+export interface ImageMigrationResult {
+  listings: number;
+  copied: number;
+  failed: string[];
+}
+
+/**
+ * Copy every listing image held by `from` into `to` and point `Listing.images`
+ * at the copies. Originals are left in place so a failed run can be repeated;
+ * images that fail to copy keep their old URL.
+ */
+export async function migrateImages(
+  from: StorageProvider,
+  to: StorageProvider,
+  { dryRun = false, log = console.log }: { dryRun?: boolean; log?: (message: string) => void } = {}
+): Promise<ImageMigrationResult> {
+  await connectDB();
+
+  const result: ImageMigrationResult = { listings: 0, copied: 0, failed: [] };
+  // Listings merged as duplicates can share images
+  const copies = new Map<string, string>();
+
+  const listings = Listing.find({ images: { $exists: true, $ne: [] } }).select('_id images').lean().cursor();
+
+  for await (const listing of listings) {
+    let changed = false;
+    const images: string[] = [];
+
+    for (const url of listing.images as string[]) {
+      const key = from.keyFromUrl(url);
+      if (!key) {
+        images.push(url);
+        continue;
+      }
+
+      try {
+        let copyUrl = copies.get(url);
+        if (!copyUrl) {
+          const object = await from.get(key);
+          if (!object) {
+            throw new Error('not found');
+          }
+          copyUrl = dryRun
+            ? url
+            : (await to.put(object.buffer, { filename: key, contentType: object.contentType })).url;
+          copies.set(url, copyUrl);
+          result.copied++;
+        }
+        images.push(copyUrl);
+        changed = true;
+      } catch (error) {
+        result.failed.push(`${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        images.push(url);
+      }
+    }
+
+    if (changed) {
+      if (!dryRun) {
+        await Listing.updateOne({ _id: listing._id }, { $set: { images } });
+      }
+      result.listings++;
+      log(`${dryRun ? '[dry run] ' : ''}Listing ${listing._id}: ${images.length} images`);
+    }
+  }
+
+  return result;
+}
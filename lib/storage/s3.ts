@@ -0,0 +1,216 @@
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { Fetcher } from '../scrapers/types';
+import type { ByteRange } from '../http-range';
+import { contentKey, isValidKey } from './keys';
+import type { PutOptions, StorageProvider, StoredObject, StoredObjectInfo } from './types';
+
+export interface S3StorageConfig {
+  /** e.g. https://s3.ap-south-1.amazonaws.com or http://localhost:9000 for MinIO */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Where browsers read objects from; defaults to the bucket's path-style URL */
+  publicUrl?: string;
+}
+
+const DEFAULT_SIGNED_URL_SECONDS = 3600;
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// 20240131T093000Z
+function amzTimestamp(): string {
+  return new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// SigV4 wants RFC 3986 encoding, which is stricter than encodeURIComponent
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Images in an S3-compatible bucket (AWS S3, MinIO, R2...), addressed
+ * path-style and signed with AWS Signature Version 4
+ */
+export class S3Storage implements StorageProvider {
+  readonly name = 's3';
+  private readonly publicUrl: string;
+
+  constructor(
+    private readonly config: S3StorageConfig,
+    private readonly fetcher: Fetcher = fetch
+  ) {
+    this.publicUrl = (config.publicUrl || `${config.endpoint.replace(/\/$/, '')}/${config.bucket}`).replace(/\/$/, '');
+  }
+
+  private objectPath(key: string): string {
+    if (!isValidKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return `/${encodeRfc3986(this.config.bucket)}/${key.split('/').map(encodeRfc3986).join('/')}`;
+  }
+
+  private scope(date: string): string {
+    return `${date}/${this.config.region}/s3/aws4_request`;
+  }
+
+  private signature(date: string, stringToSign: string): string {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, date);
+    const signingKey = hmac(hmac(hmac(dateKey, this.config.region), 's3'), 'aws4_request');
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private stringToSign(amzDate: string, canonicalRequest: string): string {
+    return ['AWS4-HMAC-SHA256', amzDate, this.scope(amzDate.slice(0, 8)), sha256Hex(canonicalRequest)].join('\n');
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    { body, headers = {} }: { body?: Buffer; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const url = new URL(this.objectPath(key), this.config.endpoint);
+    const amzDate = amzTimestamp();
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+
+    const signed: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    for (const [name, value] of Object.entries(headers)) {
+      signed[name.toLowerCase()] = value.trim();
+    }
+    const names = Object.keys(signed).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      names.map((name) => `${name}:${signed[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const signature = this.signature(date, this.stringToSign(amzDate, canonicalRequest));
+
+    // fetch sets Host itself
+    const sent = { ...signed };
+    delete sent.host;
+    return this.fetcher(url.toString(), {
+      method,
+      body: body ? new Uint8Array(body) : undefined,
+      headers: {
+        ...sent,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.scope(date)}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+    });
+  }
+
+  async put(buffer: Buffer, options: PutOptions): Promise<StoredObject> {
+    const key = contentKey(buffer, options.contentType);
+
+    if (!(await this.stat(key))) {
+      const headers: Record<string, string> = { 'content-type': options.contentType };
+      for (const [name, value] of Object.entries({ filename: options.filename, ...options.metadata })) {
+        headers[`x-amz-meta-${name.toLowerCase()}`] = encodeURIComponent(value);
+      }
+      const response = await this.request('PUT', key, { body: buffer, headers });
+      if (!response.ok) {
+        throw new Error(`Failed to upload ${key}: ${response.status}`);
+      }
+    }
+
+    return { key, url: `${this.publicUrl}/${key}` };
+  }
+
+  private info(response: Response): StoredObjectInfo {
+    return {
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+      length: Number(response.headers.get('content-length')),
+      lastModified: new Date(response.headers.get('last-modified') || Date.now()),
+    };
+  }
+
+  async get(key: string): Promise<(StoredObjectInfo & { buffer: Buffer }) | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to read ${key}: ${response.status}`);
+    }
+    return { ...this.info(response), buffer: Buffer.from(await response.arrayBuffer()) };
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to look up ${key}: ${response.status}`);
+    }
+    return this.info(response);
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.request('GET', key, {
+      headers: range ? { range: `bytes=${range.start}-${range.end}` } : {},
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to read ${key}: ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as NodeReadableStream);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    // S3 answers 204 whether or not the object existed
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete ${key}: ${response.status}`);
+    }
+  }
+
+  /**
+   * Presigned GET URL, valid for `expiresInSeconds` (at most a week)
+   */
+  async signedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_SECONDS): Promise<string> {
+    const url = new URL(this.objectPath(key), this.config.endpoint);
+    const amzDate = amzTimestamp();
+    const date = amzDate.slice(0, 8);
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${this.scope(date)}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(expiresInSeconds, 604800)),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    const canonicalRequest = ['GET', url.pathname, canonicalQuery, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${this.signature(date, this.stringToSign(amzDate, canonicalRequest))}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    if (!url.startsWith(`${this.publicUrl}/`)) {
+      return null;
+    }
+    const key = url.slice(this.publicUrl.length + 1);
+    return isValidKey(key) ? key : null;
+  }
+}
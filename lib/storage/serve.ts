@@ -0,0 +1,70 @@
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseRangeHeader } from '../http-range';
+import type { StorageProvider } from './types';
+
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * Whether an If-None-Match header matches the given ETag
+ */
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === etag || tag === '*');
+}
+
+/**
+ * Stream a stored object in answer to a GET, honouring If-None-Match and Range.
+ * Metadata is read first so a missing object is a 404 before anything is streamed.
+ */
+export async function serveStoredObject(
+  request: NextRequest,
+  storage: StorageProvider,
+  key: string,
+  extraHeaders: Record<string, string> = {}
+): Promise<NextResponse> {
+  const info = await storage.stat(key);
+  if (!info) {
+    return NextResponse.json(
+      { error: 'Image not found' },
+      { status: 404 }
+    );
+  }
+
+  // Stored objects never change under the same key, so the key is a strong validator
+  const etag = `"${key}"`;
+  const headers: Record<string, string> = {
+    ...extraHeaders,
+    'Cache-Control': CACHE_CONTROL,
+    'ETag': etag,
+    'Last-Modified': info.lastModified.toUTCString(),
+    'Accept-Ranges': 'bytes',
+  };
+
+  if (matchesETag(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const range = parseRangeHeader(request.headers.get('range'), info.length);
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${info.length}` },
+    });
+  }
+
+  const stream = await storage.stream(key, range || undefined);
+
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+    status: range ? 206 : 200,
+    headers: {
+      ...headers,
+      'Content-Type': info.contentType,
+      'Content-Length': String(range ? range.end - range.start + 1 : info.length),
+      ...(range && { 'Content-Range': `bytes ${range.start}-${range.end}/${info.length}` }),
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import type { Readable } from 'stream';
+import type { ByteRange } from '../http-range';
+
+export interface PutOptions {
+  /** Original filename, kept for reference */
+  filename: string;
+  contentType: string;
+  /** Extra string metadata stored with the object */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * A stored object: `key` identifies it within its provider and `url` is what
+ * listings keep in `images`
+ */
+export interface StoredObject {
+  key: string;
+  url: string;
+}
+
+export interface StoredObjectInfo {
+  contentType: string;
+  /** Size in bytes */
+  length: number;
+  lastModified: Date;
+}
+
+/**
+ * Somewhere images can be kept. Providers are picked by STORAGE_PROVIDER;
+ * see `getStorage` in `lib/storage`.
+ */
+export interface StorageProvider {
+  readonly name: string;
+  put(buffer: Buffer, options: PutOptions): Promise<StoredObject>;
+  /** Whole object, or null if there is no such key */
+  get(key: string): Promise<(StoredObjectInfo & { buffer: Buffer }) | null>;
+  /** Size and type of an object without reading it, or null if there is no such key */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  stream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  /** URL that can read the object for a while, even from a private bucket */
+  signedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  /** Key of an object from its stored URL, or null if the URL is not from this provider */
+  keyFromUrl(url: string): string | null;
+}
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
 import mongoose from 'mongoose';
 import { MongoMemoryServer } from 'mongodb-memory-server';
-import { formatINR, maskOwnerName } from './utils';
+import { formatINR, maskOwnerName, maskContactDetails } from './utils';
 import Listing from './models/Listing';
 import User from './models/User';
 
@@ -208,3 +208,26 @@ describe('Listing Visibility Property Tests', () => {
     );
   });
 });
+
+describe('Contact Detail Masking Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 37: Contact details masked until revealed
+   */
+  it('Property 37: Contact masking - phone numbers and emails are removed from text', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 6000000000, max: 9999999999 }).map(n => n.toString()),
+        fc.emailAddress(),
+        (phone, email) => {
+          const masked = maskContactDetails(`Call ${phone} or write to ${email} today`);
+
+          expect(masked).not.toContain(phone);
+          expect(masked).not.toContain(email);
+          expect(masked).toContain('Call');
+          expect(masked).toContain('today');
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -53,3 +53,13 @@ export function maskOwnerName(fullName: string): string {
   
   return `${firstName} ${lastNameInitial}.`;
 }
+
+/**
+ * Mask phone numbers and email addresses inside free text
+ * Example: "Call me on 9876543210" -> "Call me on [hidden]"
+ */
+export function maskContactDetails(text: string): string {
+  return text
+    .replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[hidden]')
+    .replace(/(?:\+?91[\s-]?)?[6-9](?:[\s-]?\d){9}/g, '[hidden]');
+}
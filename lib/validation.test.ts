@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
-import { sanitizeString, sanitizeObject } from './validation';
+import { sanitizeString, sanitizeObject, listingRejectionSchema } from './validation';
+import { REJECTION_REASON_CODES } from './rejection-reasons';
 
 describe('Input Sanitization Property Tests', () => {
   /**
@@ -246,3 +247,45 @@ describe('Input Sanitization Property Tests', () => {
     );
   });
 });
+
+describe('Listing Rejection Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 39: Rejections carry a catalog reason or a note
+   */
+  it('Property 39: Rejection - catalog reasons are accepted', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(fc.constantFrom(...REJECTION_REASON_CODES), { minLength: 1 }),
+        async (reasons) => {
+          expect(listingRejectionSchema.safeParse({ reasons }).success).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 39: Rejection - unknown reason codes are rejected', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.string().filter(s => !(REJECTION_REASON_CODES as readonly string[]).includes(s)),
+        async (code) => {
+          expect(listingRejectionSchema.safeParse({ reasons: [code] }).success).toBe(false);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 39: Rejection - a rejection needs a reason or a non-blank note', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.string({ maxLength: 500 }),
+        async (note) => {
+          const result = listingRejectionSchema.safeParse({ reasons: [], note });
+          expect(result.success).toBe(note.trim().length > 0);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { REJECTION_REASON_CODES } from './rejection-reasons';
+import { normalizeRegistrationNumber, parseRegistrationNumber } from './registration';
 
 /**
  * Sanitize string input to prevent XSS attacks
@@ -58,20 +60,23 @@ export const profileFormSchema = z.object({
 export type ProfileFormData = z.infer<typeof profileFormSchema>;
 
 // Ownership Verification Form Schema
+// Registration numbers are normalized to upper case without spaces (MH12AB1234)
 export const ownershipFormSchema = z.object({
   registrationNumber: z
     .string()
     .min(5, 'Registration number must be at least 5 characters')
     .max(20, 'Registration number must be less than 20 characters')
-    .regex(
-      /^[A-Z]{2}[0-9]{1,2}[A-Z]{1,3}[0-9]{4}$/,
-      'Invalid registration number format (e.g., MH12AB1234)'
+    .transform(normalizeRegistrationNumber)
+    .refine(
+      (value) => parseRegistrationNumber(value) !== null,
+      'Invalid registration number format (e.g., MH12AB1234 or 22BH1234AA)'
     ),
   ownerName: z
     .string()
+    .trim()
     .min(2, 'Owner name must be at least 2 characters')
     .max(100, 'Owner name must be less than 100 characters')
-    .regex(/^[a-zA-Z\s]+$/, 'Owner name can only contain letters and spaces'),
+    .regex(/^[a-zA-Z\s.']+$/, 'Owner name can only contain letters, spaces, dots and apostrophes'),
 });
 
 export type OwnershipFormData = z.infer<typeof ownershipFormSchema>;
@@ -139,6 +144,39 @@ export const listingUpdateSchema = carListingFormSchema.partial().extend({
 
 export type ListingUpdateData = z.infer<typeof listingUpdateSchema>;
 
+export const MAX_LISTING_IMAGES = 10;
+
+// Final photo order when editing a listing: kept photos by URL, new uploads by
+// their position among the uploaded files. The first photo is the cover.
+export const imageOrderSchema = z
+  .array(
+    z.union([
+      z.object({ existing: z.string().min(1) }).strict(),
+      z.object({ upload: z.number().int().min(0) }).strict(),
+    ])
+  )
+  .min(1, 'At least one image is required')
+  .max(MAX_LISTING_IMAGES, `Maximum ${MAX_LISTING_IMAGES} images allowed`);
+
+export type ImageOrderEntry = z.infer<typeof imageOrderSchema>[number];
+
+// Listing Rejection Schema
+export const listingRejectionSchema = z
+  .object({
+    reasons: z.array(
+      z.enum(REJECTION_REASON_CODES, {
+        errorMap: () => ({ message: 'Invalid rejection reason' }),
+      })
+    ),
+    note: z.string().max(500, 'Note must be less than 500 characters').optional(),
+  })
+  .refine((data) => data.reasons.length > 0 || !!data.note?.trim(), {
+    message: 'Select at least one rejection reason or add a note',
+    path: ['reasons'],
+  });
+
+export type ListingRejectionData = z.infer<typeof listingRejectionSchema>;
+
 // Admin Login Schema
 export const adminLoginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -151,7 +189,7 @@ export type AdminLoginData = z.infer<typeof adminLoginSchema>;
 export const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
 
-export function validateImageFile(file: File): { valid: boolean; error?: string } {
+export function validateImageFile(file: Pick<File, 'type' | 'size'>): { valid: boolean; error?: string } {
   if (!file) {
     return { valid: false, error: 'No file provided' };
   }
@@ -180,8 +218,8 @@ export function validateImageFiles(files: File[]): { valid: boolean; errors: str
     return { valid: false, errors: ['At least one image is required'] };
   }
 
-  if (files.length > 10) {
-    return { valid: false, errors: ['Maximum 10 images allowed'] };
+  if (files.length > MAX_LISTING_IMAGES) {
+    return { valid: false, errors: [`Maximum ${MAX_LISTING_IMAGES} images allowed`] };
   }
 
   files.forEach((file, index) => {
@@ -227,3 +265,69 @@ export const scraperUrlSchema = z.object({
 });
 
 export type ScraperUrlData = z.infer<typeof scraperUrlSchema>;
+
+// Multi-page crawl request from the admin scraper page
+export const crawlRequestSchema = scraperUrlSchema.extend({
+  maxPages: z.coerce.number().int().min(1, 'Crawl at least 1 page').max(20, 'Crawl at most 20 pages').default(5),
+  maxItems: z.coerce.number().int().min(1, 'Collect at least 1 car').max(200, 'Collect at most 200 cars').default(50),
+  followDetails: z.boolean().default(true),
+  concurrency: z.coerce.number().int().min(1).max(4).default(2),
+  delayMs: z.coerce.number().int().min(250, 'Delay must be at least 250ms').max(10000).default(1000),
+  robotsTxt: z.string().max(20000, 'robots.txt must be less than 20000 characters').optional(),
+});
+
+export type CrawlRequestData = z.infer<typeof crawlRequestSchema>;
+
+// Background scrape job queued from the admin scraper page
+export const scrapeJobSchema = scraperUrlSchema.extend({
+  mode: z.enum(['single', 'crawl']).default('single'),
+  crawlOptions: crawlRequestSchema.omit({ url: true }).optional(),
+});
+
+export type ScrapeJobData = z.infer<typeof scrapeJobSchema>;
+
+// One reviewed row from the scraper import preview
+export const scrapedImportRowSchema = carListingFormSchema.extend({
+  images: z
+    .array(z.string().url('Image must be a URL'))
+    .min(1, 'At least one image is required')
+    .max(10, 'At most 10 images are allowed'),
+  sourceUrl: z.string().url('Source must be a URL').optional(),
+});
+
+export type ScrapedImportRow = z.infer<typeof scrapedImportRowSchema>;
+
+// Message Schema
+export const messageSchema = z.object({
+  body: z
+    .string()
+    .min(1, 'Message cannot be empty')
+    .max(2000, 'Message must be less than 2000 characters'),
+});
+
+export type MessageData = z.infer<typeof messageSchema>;
+
+// Saved Search Schema
+export const savedSearchSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(60, 'Name must be less than 60 characters'),
+});
+
+export type SavedSearchData = z.infer<typeof savedSearchSchema>;
+
+// Fair price estimate request from the sell form
+export const valuationInputSchema = z.object({
+  brand: carListingFormSchema.shape.brand,
+  carModel: carListingFormSchema.shape.model,
+  variant: z.string().max(50).optional(),
+  yearOfOwnership: carListingFormSchema.shape.yearOfOwnership,
+  kmDriven: carListingFormSchema.shape.kmDriven,
+  fuelType: carListingFormSchema.shape.fuelType,
+  transmission: carListingFormSchema.shape.transmission,
+  numberOfOwners: carListingFormSchema.shape.numberOfOwners,
+  city: z.string().max(50).optional(),
+});
+
+export type ValuationInputData = z.infer<typeof valuationInputSchema>;
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { adjustComparablePrice, classifyPrice, estimateValue, MIN_COMPARABLES } from './valuation';
+
+const subjectArbitrary = fc.record({
+  brand: fc.constant('Honda'),
+  carModel: fc.constant('City'),
+  variant: fc.constantFrom('V', 'VX', 'ZX'),
+  yearOfOwnership: fc.integer({ min: 2012, max: 2022 }),
+  kmDriven: fc.integer({ min: 0, max: 150000 }),
+  fuelType: fc.constantFrom('petrol', 'diesel'),
+  transmission: fc.constantFrom('manual', 'automatic'),
+  numberOfOwners: fc.integer({ min: 1, max: 3 }),
+  city: fc.constantFrom('Mumbai', 'Pune'),
+});
+
+const comparableArbitrary = subjectArbitrary.chain((car) =>
+  fc.integer({ min: 200000, max: 1500000 }).map((price) => ({ ...car, price }))
+);
+
+describe('Valuation Property Tests', () => {
+  /**
+   * Feature: drivesphere-marketplace, Property 46: Fair price estimates from comparable listings
+   */
+  it('Property 46: Valuation - too few comparables give no estimate', () => {
+    fc.assert(
+      fc.property(subjectArbitrary, fc.array(comparableArbitrary, { maxLength: MIN_COMPARABLES - 1 }), (subject, comparables) => {
+        expect(estimateValue(subject, comparables)).toBeNull();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property 46: Valuation - the estimate lies inside its range and confidence is between 0 and 1', () => {
+    fc.assert(
+      fc.property(
+        subjectArbitrary,
+        fc.array(comparableArbitrary, { minLength: MIN_COMPARABLES, maxLength: 30 }),
+        (subject, comparables) => {
+          const valuation = estimateValue(subject, comparables)!;
+
+          expect(valuation.low).toBeLessThanOrEqual(valuation.estimate);
+          expect(valuation.estimate).toBeLessThanOrEqual(valuation.high);
+          expect(valuation.confidence).toBeGreaterThanOrEqual(0);
+          expect(valuation.confidence).toBeLessThanOrEqual(1);
+          expect(valuation.comparableCount).toBe(comparables.length);
+
+          // Every adjusted comparable price bounds the range
+          const adjusted = comparables.map((c) => adjustComparablePrice(subject, c));
+          expect(valuation.low).toBeGreaterThanOrEqual(Math.floor(Math.min(...adjusted) / 1000) * 1000 - 1000);
+          expect(valuation.high).toBeLessThanOrEqual(Math.ceil(Math.max(...adjusted) / 1000) * 1000 + 1000);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 46: Valuation - identical comparables value the car at their price', () => {
+    fc.assert(
+      fc.property(comparableArbitrary, fc.integer({ min: MIN_COMPARABLES, max: 10 }), (comparable, count) => {
+        const { price, ...subject } = comparable;
+        const valuation = estimateValue(subject, Array(count).fill(comparable))!;
+
+        expect(valuation.estimate).toBe(Math.round(price / 1000) * 1000);
+        expect(valuation.low).toBe(valuation.estimate);
+        expect(valuation.high).toBe(valuation.estimate);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 46: Valuation - newer, lower-mileage cars are never valued below older, higher-mileage ones', () => {
+    fc.assert(
+      fc.property(
+        subjectArbitrary,
+        fc.array(comparableArbitrary, { minLength: MIN_COMPARABLES, maxLength: 20 }),
+        fc.integer({ min: 1, max: 3 }),
+        fc.integer({ min: 0, max: 50000 }),
+        (subject, comparables, years, km) => {
+          const older = { ...subject, yearOfOwnership: subject.yearOfOwnership - years, kmDriven: subject.kmDriven + km };
+
+          comparables.forEach((comparable) => {
+            expect(adjustComparablePrice(subject, comparable)).toBeGreaterThanOrEqual(
+              adjustComparablePrice(older, comparable)
+            );
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 46: Valuation - prices below, inside and above the range are classified accordingly', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 100000, max: 1000000 }),
+        fc.integer({ min: 0, max: 500000 }),
+        fc.integer({ min: 1, max: 2000000 }),
+        (low, width, price) => {
+          const range = { low, high: low + width };
+          const verdict = classifyPrice(price, range);
+
+          if (price < range.low) expect(verdict).toBe('good_deal');
+          else if (price > range.high) expect(verdict).toBe('above_market');
+          else expect(verdict).toBe('fair');
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,113 @@
+export interface ValuationInput {
+  brand: string;
+  carModel: string;
+  variant?: string;
+  yearOfOwnership: number;
+  kmDriven: number;
+  fuelType: string;
+  transmission: string;
+  numberOfOwners: number;
+  city?: string;
+}
+
+export interface Comparable extends ValuationInput {
+  price: number;
+}
+
+export interface Valuation {
+  estimate: number;
+  low: number;
+  high: number;
+  confidence: number; // 0 to 1
+  comparableCount: number;
+}
+
+export type PriceVerdict = 'good_deal' | 'fair' | 'above_market';
+
+export const PRICE_VERDICT_LABELS: Record<PriceVerdict, string> = {
+  good_deal: 'Good deal',
+  fair: 'Fair price',
+  above_market: 'Above market',
+};
+
+// Fewer comparables than this gives no estimate at all
+export const MIN_COMPARABLES = 3;
+
+const DEPRECIATION_PER_YEAR = 0.08;
+const KM_ADJUSTMENT_PER_10K = 0.015;
+const OWNER_ADJUSTMENT = 0.04;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const same = (a?: string, b?: string) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Adjust a comparable's price to what it would be for the subject car
+ * Accounts for age, mileage and number of previous owners
+ */
+export function adjustComparablePrice(subject: ValuationInput, comparable: Comparable): number {
+  const yearFactor = Math.pow(1 - DEPRECIATION_PER_YEAR, comparable.yearOfOwnership - subject.yearOfOwnership);
+  const kmFactor = clamp(1 - ((subject.kmDriven - comparable.kmDriven) / 10000) * KM_ADJUSTMENT_PER_10K, 0.75, 1.25);
+  const ownerFactor = clamp(1 - (subject.numberOfOwners - comparable.numberOfOwners) * OWNER_ADJUSTMENT, 0.8, 1.2);
+  return comparable.price * yearFactor * kmFactor * ownerFactor;
+}
+
+/**
+ * How much a comparable counts towards the estimate
+ * Closer years and matching variant, fuel, transmission and city count for more
+ */
+export function comparableWeight(subject: ValuationInput, comparable: Comparable): number {
+  let weight = 1 / (1 + Math.abs(subject.yearOfOwnership - comparable.yearOfOwnership));
+  if (same(subject.variant, comparable.variant)) weight *= 2;
+  if (!same(subject.fuelType, comparable.fuelType)) weight *= 0.5;
+  if (!same(subject.transmission, comparable.transmission)) weight *= 0.5;
+  if (same(subject.city, comparable.city)) weight *= 1.5;
+  return weight;
+}
+
+function weightedPercentile(values: { value: number; weight: number }[], percentile: number): number {
+  const sorted = [...values].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, item) => sum + item.weight, 0);
+  let cumulative = 0;
+  for (const item of sorted) {
+    cumulative += item.weight;
+    if (cumulative / total >= percentile) return item.value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+const roundPrice = (price: number) => Math.round(price / 1000) * 1000;
+
+/**
+ * Estimate a fair price range for a car from comparable listings
+ * The estimate is the weighted median of the adjusted comparable prices and the
+ * range is their weighted interquartile range
+ * @returns null when there are too few comparables to say anything useful
+ */
+export function estimateValue(subject: ValuationInput, comparables: Comparable[]): Valuation | null {
+  if (comparables.length < MIN_COMPARABLES) return null;
+
+  const adjusted = comparables.map((comparable) => ({
+    value: adjustComparablePrice(subject, comparable),
+    weight: comparableWeight(subject, comparable),
+  }));
+
+  const estimate = roundPrice(weightedPercentile(adjusted, 0.5));
+  const low = Math.min(roundPrice(weightedPercentile(adjusted, 0.25)), estimate);
+  const high = Math.max(roundPrice(weightedPercentile(adjusted, 0.75)), estimate);
+
+  // More comparables and a tighter spread both make the estimate more trustworthy
+  const volume = Math.min(comparables.length / 10, 1);
+  const spread = estimate > 0 ? clamp((high - low) / estimate, 0, 1) : 1;
+  const confidence = Math.round((volume * 0.6 + (1 - spread) * 0.4) * 100) / 100;
+
+  return { estimate, low, high, confidence, comparableCount: comparables.length };
+}
+
+/**
+ * Compare an asking price against an estimated range
+ */
+export function classifyPrice(price: number, valuation: Pick<Valuation, 'low' | 'high'>): PriceVerdict {
+  if (price < valuation.low) return 'good_deal';
+  if (price > valuation.high) return 'above_market';
+  return 'fair';
+}
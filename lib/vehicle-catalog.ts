@@ -0,0 +1,168 @@
+/**
+ * Brand and model names as they appear on listings, with the spellings
+ * other sites commonly use for the brand
+ */
+export const VEHICLE_BRANDS: { name: string; aliases: string[]; models: string[] }[] = [
+  {
+    name: 'Maruti Suzuki',
+    aliases: ['maruti suzuki', 'maruti', 'suzuki'],
+    models: ['Alto', 'Alto K10', 'Baleno', 'Brezza', 'Vitara Brezza', 'Celerio', 'Ciaz', 'Dzire', 'Swift Dzire', 'Eeco', 'Ertiga', 'Fronx', 'Grand Vitara', 'Ignis', 'Invicto', 'Jimny', 'S-Presso', 'Swift', 'Wagon R', 'XL6', 'S-Cross'],
+  },
+  {
+    name: 'Hyundai',
+    aliases: ['hyundai'],
+    models: ['Alcazar', 'Aura', 'Creta', 'Elantra', 'Exter', 'Grand i10', 'Grand i10 Nios', 'i10', 'i20', 'Ioniq 5', 'Kona', 'Santro', 'Tucson', 'Venue', 'Verna', 'Xcent', 'Eon'],
+  },
+  {
+    name: 'Tata',
+    aliases: ['tata motors', 'tata'],
+    models: ['Altroz', 'Harrier', 'Hexa', 'Nexon', 'Nexon EV', 'Punch', 'Safari', 'Tiago', 'Tiago EV', 'Tigor', 'Tigor EV', 'Nano', 'Zest', 'Bolt'],
+  },
+  {
+    name: 'Mahindra',
+    aliases: ['mahindra & mahindra', 'mahindra and mahindra', 'mahindra'],
+    models: ['Bolero', 'Bolero Neo', 'KUV100', 'Marazzo', 'Scorpio', 'Scorpio N', 'Scorpio Classic', 'Thar', 'TUV300', 'XUV300', 'XUV 3XO', 'XUV400', 'XUV500', 'XUV700', 'Xylo'],
+  },
+  {
+    name: 'Honda',
+    aliases: ['honda'],
+    models: ['Amaze', 'BR-V', 'Brio', 'City', 'Civic', 'Elevate', 'Jazz', 'WR-V', 'Accord', 'CR-V'],
+  },
+  {
+    name: 'Toyota',
+    aliases: ['toyota'],
+    models: ['Camry', 'Corolla', 'Corolla Altis', 'Etios', 'Etios Liva', 'Fortuner', 'Glanza', 'Hyryder', 'Urban Cruiser Hyryder', 'Innova', 'Innova Crysta', 'Innova Hycross', 'Rumion', 'Yaris'],
+  },
+  {
+    name: 'Kia',
+    aliases: ['kia motors', 'kia'],
+    models: ['Carens', 'Carnival', 'EV6', 'Seltos', 'Sonet'],
+  },
+  {
+    name: 'Volkswagen',
+    aliases: ['volkswagen', 'vw'],
+    models: ['Ameo', 'Jetta', 'Passat', 'Polo', 'Taigun', 'Tiguan', 'Vento', 'Virtus'],
+  },
+  {
+    name: 'Skoda',
+    aliases: ['skoda'],
+    models: ['Kodiaq', 'Kushaq', 'Octavia', 'Rapid', 'Slavia', 'Superb', 'Fabia', 'Laura'],
+  },
+  {
+    name: 'Renault',
+    aliases: ['renault'],
+    models: ['Duster', 'Kiger', 'Kwid', 'Triber', 'Captur', 'Lodgy'],
+  },
+  {
+    name: 'Nissan',
+    aliases: ['nissan'],
+    models: ['Kicks', 'Magnite', 'Micra', 'Sunny', 'Terrano'],
+  },
+  {
+    name: 'MG',
+    aliases: ['mg motor', 'mg'],
+    models: ['Astor', 'Comet EV', 'Gloster', 'Hector', 'Hector Plus', 'ZS EV'],
+  },
+  {
+    name: 'Ford',
+    aliases: ['ford'],
+    models: ['EcoSport', 'Endeavour', 'Figo', 'Figo Aspire', 'Aspire', 'Freestyle', 'Fiesta'],
+  },
+  {
+    name: 'Chevrolet',
+    aliases: ['chevrolet', 'chevy'],
+    models: ['Beat', 'Cruze', 'Enjoy', 'Sail', 'Spark', 'Tavera'],
+  },
+  {
+    name: 'Jeep',
+    aliases: ['jeep'],
+    models: ['Compass', 'Meridian', 'Wrangler'],
+  },
+  {
+    name: 'Mercedes-Benz',
+    aliases: ['mercedes-benz', 'mercedes benz', 'mercedes'],
+    models: ['A-Class', 'C-Class', 'E-Class', 'S-Class', 'GLA', 'GLC', 'GLE', 'GLS'],
+  },
+  {
+    name: 'BMW',
+    aliases: ['bmw'],
+    models: ['1 Series', '2 Series', '3 Series', '5 Series', '7 Series', 'X1', 'X3', 'X5', 'X7'],
+  },
+  {
+    name: 'Audi',
+    aliases: ['audi'],
+    models: ['A3', 'A4', 'A6', 'A8', 'Q3', 'Q5', 'Q7', 'Q8'],
+  },
+  {
+    name: 'Datsun',
+    aliases: ['datsun'],
+    models: ['GO', 'GO+', 'redi-GO'],
+  },
+  {
+    name: 'Fiat',
+    aliases: ['fiat'],
+    models: ['Linea', 'Punto', 'Avventura'],
+  },
+];
+
+/**
+ * State for each city, keyed by lowercase city name or common alternative spelling
+ */
+export const CITY_STATES: Record<string, { city: string; state: string }> = {
+  delhi: { city: 'Delhi', state: 'Delhi' },
+  'new delhi': { city: 'New Delhi', state: 'Delhi' },
+  gurgaon: { city: 'Gurugram', state: 'Haryana' },
+  gurugram: { city: 'Gurugram', state: 'Haryana' },
+  faridabad: { city: 'Faridabad', state: 'Haryana' },
+  noida: { city: 'Noida', state: 'Uttar Pradesh' },
+  'greater noida': { city: 'Greater Noida', state: 'Uttar Pradesh' },
+  ghaziabad: { city: 'Ghaziabad', state: 'Uttar Pradesh' },
+  lucknow: { city: 'Lucknow', state: 'Uttar Pradesh' },
+  kanpur: { city: 'Kanpur', state: 'Uttar Pradesh' },
+  mumbai: { city: 'Mumbai', state: 'Maharashtra' },
+  bombay: { city: 'Mumbai', state: 'Maharashtra' },
+  'navi mumbai': { city: 'Navi Mumbai', state: 'Maharashtra' },
+  thane: { city: 'Thane', state: 'Maharashtra' },
+  pune: { city: 'Pune', state: 'Maharashtra' },
+  nagpur: { city: 'Nagpur', state: 'Maharashtra' },
+  nashik: { city: 'Nashik', state: 'Maharashtra' },
+  bangalore: { city: 'Bengaluru', state: 'Karnataka' },
+  bengaluru: { city: 'Bengaluru', state: 'Karnataka' },
+  mysore: { city: 'Mysuru', state: 'Karnataka' },
+  mysuru: { city: 'Mysuru', state: 'Karnataka' },
+  chennai: { city: 'Chennai', state: 'Tamil Nadu' },
+  madras: { city: 'Chennai', state: 'Tamil Nadu' },
+  coimbatore: { city: 'Coimbatore', state: 'Tamil Nadu' },
+  hyderabad: { city: 'Hyderabad', state: 'Telangana' },
+  secunderabad: { city: 'Secunderabad', state: 'Telangana' },
+  kolkata: { city: 'Kolkata', state: 'West Bengal' },
+  calcutta: { city: 'Kolkata', state: 'West Bengal' },
+  ahmedabad: { city: 'Ahmedabad', state: 'Gujarat' },
+  surat: { city: 'Surat', state: 'Gujarat' },
+  vadodara: { city: 'Vadodara', state: 'Gujarat' },
+  baroda: { city: 'Vadodara', state: 'Gujarat' },
+  rajkot: { city: 'Rajkot', state: 'Gujarat' },
+  jaipur: { city: 'Jaipur', state: 'Rajasthan' },
+  udaipur: { city: 'Udaipur', state: 'Rajasthan' },
+  chandigarh: { city: 'Chandigarh', state: 'Chandigarh' },
+  mohali: { city: 'Mohali', state: 'Punjab' },
+  ludhiana: { city: 'Ludhiana', state: 'Punjab' },
+  amritsar: { city: 'Amritsar', state: 'Punjab' },
+  indore: { city: 'Indore', state: 'Madhya Pradesh' },
+  bhopal: { city: 'Bhopal', state: 'Madhya Pradesh' },
+  patna: { city: 'Patna', state: 'Bihar' },
+  kochi: { city: 'Kochi', state: 'Kerala' },
+  cochin: { city: 'Kochi', state: 'Kerala' },
+  thiruvananthapuram: { city: 'Thiruvananthapuram', state: 'Kerala' },
+  trivandrum: { city: 'Thiruvananthapuram', state: 'Kerala' },
+  bhubaneswar: { city: 'Bhubaneswar', state: 'Odisha' },
+  guwahati: { city: 'Guwahati', state: 'Assam' },
+  dehradun: { city: 'Dehradun', state: 'Uttarakhand' },
+  visakhapatnam: { city: 'Visakhapatnam', state: 'Andhra Pradesh' },
+  vizag: { city: 'Visakhapatnam', state: 'Andhra Pradesh' },
+  vijayawada: { city: 'Vijayawada', state: 'Andhra Pradesh' },
+  raipur: { city: 'Raipur', state: 'Chhattisgarh' },
+  ranchi: { city: 'Ranchi', state: 'Jharkhand' },
+  goa: { city: 'Goa', state: 'Goa' },
+  panaji: { city: 'Panaji', state: 'Goa' },
+};
@@ -1,6 +1,13 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { getToken } from 'next-auth/jwt';
+import { Permission, requireRole } from '@/lib/roles';
+
+// Admin sections that need more than basic staff access
+const ADMIN_SECTION_PERMISSIONS: Array<[string, Permission]> = [
+  ['/admin/users', 'users:view'],
+  ['/admin/scraper', 'scraper:run'],
+];
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -12,26 +19,23 @@ export async function middleware(request: NextRequest) {
       return NextResponse.next();
     }
 
-    // Check for admin credentials
-    const adminEmail = process.env.ADMIN_EMAIL;
-    const adminPass = process.env.ADMIN_PASS;
-
-    if (!adminEmail || !adminPass) {
-      console.error('Admin credentials not configured');
-      return NextResponse.redirect(new URL('/admin/login', request.url));
-    }
-
     // Get session token
     const token = await getToken({
       req: request,
       secret: process.env.NEXTAUTH_SECRET,
     });
 
-    // Check if user is authenticated and is admin
-    if (!token || token.email !== adminEmail) {
+    // Check if user is authenticated and has a staff role
+    // Individual pages and actions check finer-grained permissions
+    if (!requireRole(token, 'admin:access').allowed) {
       return NextResponse.redirect(new URL('/admin/login', request.url));
     }
 
+    const section = ADMIN_SECTION_PERMISSIONS.find(([prefix]) => pathname.startsWith(prefix));
+    if (section && !requireRole(token, section[1]).allowed) {
+      return NextResponse.redirect(new URL('/admin', request.url));
+    }
+
     // Validate session token is not expired (getToken handles this automatically)
     // If token is expired, getToken returns null and user is redirected above
 
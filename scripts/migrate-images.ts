@@ -0,0 +1,47 @@
+/**
+ * Move listing images from one storage provider to another and rewrite
+ * Listing.images to point at the copies:
+ *
+ *   npm run migrate:images -- --from gridfs --to s3 [--dry-run]
+ *
+ * Reads the same .env files as the app. Originals are not deleted.
+ */
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd());
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const from = option(args, 'from');
+  const to = option(args, 'to');
+
+  if (!from || !to || from === to) {
+    console.error('Usage: npm run migrate:images -- --from <gridfs|local|s3> --to <gridfs|local|s3> [--dry-run]');
+    process.exit(1);
+  }
+
+  // lib/mongodb checks the environment on import, so load it after the .env files
+  const { default: mongoose } = await import('mongoose');
+  const { getStorage } = await import('../lib/storage');
+  const { migrateImages } = await import('../lib/storage/migrate');
+
+  const result = await migrateImages(getStorage(from), getStorage(to), { dryRun: args.includes('--dry-run') });
+
+  console.log(`Copied ${result.copied} images across ${result.listings} listings`);
+  for (const failure of result.failed) {
+    console.error(`Failed: ${failure}`);
+  }
+
+  await mongoose.disconnect();
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Image migration failed:', error);
+  process.exit(1);
+});